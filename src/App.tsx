@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useAtPackStore } from './stores/atpackStore';
 import { AtPackSelector } from './components/AtPackSelector';
 import { DeviceSelector } from './components/DeviceSelector';
@@ -7,18 +7,37 @@ import { DeviceDetails } from './components/DeviceDetails';
 import { AtPackDebugInfo } from './components/DebugInfo';
 import { TestParser } from './components/TestParser';
 import { About } from './components/About';
+import { DeviceComparisonView } from './components/DeviceComparisonView';
+import { PackDiffView } from './components/PackDiffView';
+import { DeviceSearchView } from './components/DeviceSearchView';
+import { PinMuxPlannerView } from './components/PinMuxPlannerView';
 import { ClockConfigurator } from './components/ClockConfigurator';
 import { ElectricalParametersConfigurator } from './components/ElectricalParametersConfigurator';
 import { AdvancedPropertiesConfigurator } from './components/AdvancedPropertiesConfigurator';
 import { SupportInfo } from './components/SupportInfo';
 import { PicDeviceSpecs } from './components/PicDeviceSpecs';
 import { FamilyIndicatorTest } from './components/FamilyIndicatorTest';
-import { DeviceFamily } from './types/atpack';
+import { DeviceFamily, type ClockConfigState } from './types/atpack';
 import { isDevelopment } from './utils/environment';
+import { getClockConfigFromFuses } from './utils/clockFuses';
+import { decodeShareState, encodeShareState, getDeviceKey, getPackReference } from './utils/shareState';
+
+const TABS = ['loading', 'device', 'modules', 'pinouts', 'packages', 'clock', 'electrical', 'advanced', 'support', 'specs', 'compare', 'diff', 'search', 'others', 'about', 'debug', 'test'] as const;
+type AppTab = typeof TABS[number];
 
 export const App: React.FC = () => {
-  const { selectedDevice, selectedAtPack } = useAtPackStore();
-  const [activeTab, setActiveTab] = useState<'loading' | 'device' | 'modules' | 'pinouts' | 'packages' | 'clock' | 'electrical' | 'advanced' | 'support' | 'specs' | 'others' | 'about' | 'debug' | 'test'>('loading');
+  const {
+    selectedDevice,
+    selectedAtPack,
+    configuration,
+    pendingShare,
+    deviceLoadStates,
+    loadDevice,
+    updateClockConfiguration,
+    restoreSharedState,
+    dismissSharedState
+  } = useAtPackStore();
+  const [activeTab, setActiveTab] = useState<AppTab>('loading');
   const [filters, setFilters] = useState<DeviceDisplayFilters>({
     documentation: true,
     variants: true,
@@ -82,6 +101,58 @@ export const App: React.FC = () => {
     }
   }, [selectedDevice, selectedAtPack, activeTab, currentAtPackName, allowAutoSwitch, currentDeviceName]);
 
+  // Restore the state shared in the URL fragment, on load and when the fragment is edited
+  useEffect(() => {
+    const restoreFromHash = () => {
+      const shared = decodeShareState(window.location.hash);
+      if (!shared) return;
+
+      console.log('Restoring shared state from URL:', shared);
+      const tab = TABS.find(t => t === shared.tab);
+      if (tab) {
+        setActiveTab(tab);
+        setAllowAutoSwitch(false);
+      }
+      restoreSharedState(shared);
+    };
+
+    restoreFromHash();
+    window.addEventListener('hashchange', restoreFromHash);
+    return () => window.removeEventListener('hashchange', restoreFromHash);
+  }, [restoreSharedState]);
+
+  // Keep the URL fragment in sync with the current state so it can be shared
+  useEffect(() => {
+    // Don't overwrite a shared state that is still waiting for its pack
+    if (pendingShare || !selectedAtPack) return;
+
+    const fragment = encodeShareState({
+      pack: getPackReference(selectedAtPack),
+      device: selectedDevice?.name,
+      tab: activeTab,
+      configuration: selectedDevice ? configuration : {}
+    });
+    if (window.location.hash !== `#${fragment}`) {
+      window.history.replaceState(null, '', `#${fragment}`);
+    }
+  }, [selectedAtPack, selectedDevice, activeTab, configuration, pendingShare]);
+
+  const deviceLoadState = selectedAtPack && selectedDevice
+    ? deviceLoadStates[getDeviceKey(selectedAtPack, selectedDevice)]
+    : undefined;
+
+  const handleClockConfigChange = useCallback(
+    (clock: ClockConfigState) => updateClockConfiguration(clock),
+    [updateClockConfiguration]
+  );
+
+  // Clock selection to start from: the shared one, or the one of the current clock fuses
+  const deviceLoading = deviceLoadState?.status === 'loading';
+  const clockConfig = useMemo(
+    () => configuration.clock ?? (selectedDevice && !deviceLoading ? getClockConfigFromFuses(selectedDevice, configuration.fuseValues) : undefined),
+    [selectedDevice, deviceLoading, configuration.clock, configuration.fuseValues]
+  );
+
   // Handle manual tab navigation
   const handleTabClick = (tabName: typeof activeTab) => {
     setActiveTab(tabName);
@@ -250,6 +321,51 @@ export const App: React.FC = () => {
               📊 Device Specs
             </button>
           )}
+          <button
+            onClick={() => handleTabClick('compare')}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderBottom: activeTab === 'compare' ? '2px solid #007acc' : '2px solid transparent',
+              background: 'none',
+              color: activeTab === 'compare' ? '#007acc' : '#666',
+              fontWeight: activeTab === 'compare' ? 'bold' : 'normal',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            ⚖️ Compare
+          </button>
+          <button
+            onClick={() => handleTabClick('diff')}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderBottom: activeTab === 'diff' ? '2px solid #007acc' : '2px solid transparent',
+              background: 'none',
+              color: activeTab === 'diff' ? '#007acc' : '#666',
+              fontWeight: activeTab === 'diff' ? 'bold' : 'normal',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            🆚 Pack Diff
+          </button>
+          <button
+            onClick={() => handleTabClick('search')}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderBottom: activeTab === 'search' ? '2px solid #007acc' : '2px solid transparent',
+              background: 'none',
+              color: activeTab === 'search' ? '#007acc' : '#666',
+              fontWeight: activeTab === 'search' ? 'bold' : 'normal',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            🔎 Search
+          </button>
           <button
             onClick={() => handleTabClick('others')}
             style={{
@@ -317,6 +433,57 @@ export const App: React.FC = () => {
         </nav>
       </div>
       
+      {/* Shared state waiting for a local pack file */}
+      {pendingShare?.pack && !pendingShare.pack.url && (
+        <div style={{
+          backgroundColor: '#fff3cd',
+          border: '1px solid #ffeaa7',
+          borderRadius: '4px',
+          padding: '10px',
+          marginBottom: '10px',
+          color: '#856404',
+          fontSize: '13px'
+        }}>
+          🔗 This link shares a configuration of {pendingShare.device || 'a device'} from pack{' '}
+          <strong>{pendingShare.pack.id}</strong>, which was opened from a local file.
+          Open {pendingShare.pack.fileName ? <strong>{pendingShare.pack.fileName}</strong> : 'the same pack file'} in the Loading tab to restore it.
+          <button onClick={dismissSharedState} style={{ fontSize: '12px', marginLeft: '8px' }}>
+            Dismiss
+          </button>
+        </div>
+      )}
+      
+      {/* Device-specific data being parsed (see loadDevice) */}
+      {selectedDevice && deviceLoadState?.status === 'loading' && (
+        <div style={{
+          backgroundColor: '#e7f3ff',
+          border: '1px solid #b8daff',
+          borderRadius: '4px',
+          padding: '10px',
+          marginBottom: '10px',
+          color: '#004085',
+          fontSize: '13px'
+        }}>
+          ⏳ Loading device data for <strong>{selectedDevice.name}</strong>...
+        </div>
+      )}
+      {selectedDevice && deviceLoadState?.status === 'error' && (
+        <div style={{
+          backgroundColor: '#f8d7da',
+          border: '1px solid #f5c6cb',
+          borderRadius: '4px',
+          padding: '10px',
+          marginBottom: '10px',
+          color: '#721c24',
+          fontSize: '13px'
+        }}>
+          ❌ Could not load the device data for <strong>{selectedDevice.name}</strong>: {deviceLoadState.error}
+          <button onClick={() => loadDevice(selectedDevice, selectedAtPack || undefined)} style={{ fontSize: '12px', marginLeft: '8px' }}>
+            Retry
+          </button>
+        </div>
+      )}
+      
       {/* Tab Content */}
       {activeTab === 'loading' && (
         <div>
@@ -340,7 +507,10 @@ export const App: React.FC = () => {
           )}
         </div>
       )}
-      
+
+      {/* Devices are enriched in place (see loadDevice): remount the device views when the
+          device data is loaded, so that they recompute what they derived from the device */}
+      <React.Fragment key={deviceLoadState?.status}>
       {activeTab === 'device' && (
         <div>
           {selectedDevice ? (
@@ -410,23 +580,26 @@ export const App: React.FC = () => {
       {activeTab === 'pinouts' && (
         <div>
           {selectedDevice ? (
-            <DeviceDetails 
-              device={selectedDevice} 
-              filters={{
-                documentation: false,
-                variants: false,
-                modules: false,
-                interface: false,
-                memory: false,
-                fuses: false,
-                lockbits: false,
-                packages: false,
-                interrupts: false,
-                peripherals: false,
-                pinouts: true,
-                timers: false,
-              }} 
-            />
+            <>
+              <DeviceDetails 
+                device={selectedDevice} 
+                filters={{
+                  documentation: false,
+                  variants: false,
+                  modules: false,
+                  interface: false,
+                  memory: false,
+                  fuses: false,
+                  lockbits: false,
+                  packages: false,
+                  interrupts: false,
+                  peripherals: false,
+                  pinouts: true,
+                  timers: false,
+                }} 
+              />
+              <PinMuxPlannerView key={selectedDevice.name} device={selectedDevice} />
+            </>
           ) : (
             <div style={{ 
               padding: '20px', 
@@ -476,7 +649,11 @@ export const App: React.FC = () => {
       {activeTab === 'clock' && (
         <div>
           {selectedDevice ? (
-            <ClockConfigurator device={selectedDevice} />
+            <ClockConfigurator
+              device={selectedDevice}
+              initialConfig={clockConfig}
+              onConfigChange={handleClockConfigChange}
+            />
           ) : (
             <div style={{ 
               padding: '20px', 
@@ -580,6 +757,25 @@ export const App: React.FC = () => {
           )}
         </div>
       )}
+      </React.Fragment>
+      
+      {activeTab === 'compare' && (
+        <div>
+          <DeviceComparisonView />
+        </div>
+      )}
+      
+      {activeTab === 'diff' && (
+        <div>
+          <PackDiffView />
+        </div>
+      )}
+
+      {activeTab === 'search' && (
+        <div>
+          <DeviceSearchView />
+        </div>
+      )}
       
       {activeTab === 'about' && (
         <div>
@@ -0,0 +1,112 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import JSZip from 'jszip';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/><interface type="ISP"/><interface type="HVPP"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: memories and the HIGH fuse
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <address-spaces>
+        <address-space endianness="little" name="prog" id="prog" start="0x0000" size="0x8000">
+          <memory-segment start="0x0000" size="0x8000" type="flash" rw="RW" exec="1" name="FLASH" pagesize="0x80"/>
+        </address-space>
+        <address-space endianness="little" name="data" id="data" start="0x0000" size="0x0900">
+          <memory-segment external="false" type="ram" size="0x0800" start="0x0100" name="IRAM"/>
+        </address-space>
+        <address-space endianness="little" name="eeprom" id="eeprom" start="0x0000" size="0x0400">
+          <memory-segment start="0x0000" size="0x0400" type="eeprom" rw="RW" exec="0" name="EEPROM" pagesize="0x04"/>
+        </address-space>
+      </address-spaces>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE">
+        <register caption="" name="HIGH" offset="0x01" size="1" initval="0xD9">
+          <bitfield caption="Serial program downloading (SPI) enabled" mask="0x20" name="SPIEN"/>
+          <bitfield caption="Boot Reset vector Enabled" mask="0x01" name="BOOTRST"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const CLI = resolve('src/cli/atpack.ts');
+const TSX = resolve('node_modules/.bin/tsx');
+
+const runCli = (...args: string[]) => {
+  const result = spawnSync(TSX, [CLI, ...args], { encoding: 'utf8', timeout: 60000 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+};
+
+describe('atpack CLI', () => {
+  let directory: string;
+  let packPath: string;
+
+  beforeAll(async () => {
+    const zip = new JSZip();
+    zip.file('Atmel.ATmega_DFP.pdsc', PDSC);
+    zip.file('atdf/ATmega328P.atdf', ATMEGA328P_ATDF);
+    directory = mkdtempSync(join(tmpdir(), 'atpack-cli-'));
+    packPath = join(directory, 'Atmel.ATmega_DFP.2.2.509.atpack');
+    writeFileSync(packPath, await zip.generateAsync({ type: 'nodebuffer' }));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('lists the devices of a pack with the memory sizes of their device files', () => {
+    const { status, stdout } = runCli('list', packPath, '--json');
+
+    expect(status).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({
+      name: 'ATmega_DFP',
+      version: '2.2.509',
+      devices: [{ name: 'ATmega328P', flash: 0x8000, sram: 0x800, eeprom: 0x400 }]
+    });
+  });
+
+  it('prints the fuses of a device, matching its name case-insensitively', () => {
+    const { status, stdout } = runCli('fuses', packPath, 'atmega328p');
+
+    expect(status).toBe(0);
+    expect(stdout.split('\n').slice(0, 3)).toEqual([
+      'HIGH @ 0x01 default 0xD9',
+      '  SPIEN        [5]     Serial program downloading (SPI) enabled',
+      '  BOOTRST      [0]     Boot Reset vector Enabled'
+    ]);
+  });
+
+  it('keeps parser logs out of the command output', () => {
+    const { stdout } = runCli('device', packPath, 'ATmega328P');
+
+    expect(JSON.parse(stdout).name).toBe('ATmega328P');
+  });
+
+  it('reports unknown devices and commands on stderr with a failure status', () => {
+    const device = runCli('fuses', packPath, 'ATtiny85');
+    const command = runCli('flash', packPath);
+
+    expect(device.status).toBe(1);
+    expect(device.stderr).toContain('Device ATtiny85 not found in ATmega_DFP');
+    expect(command.status).toBe(1);
+    expect(command.stderr).toContain('Unknown command: flash');
+  });
+});
@@ -0,0 +1,423 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename } from 'path';
+import { AtPackParser } from '../services/AtPackParser';
+import { AtPackSerializer } from '../services/AtPackSerializer';
+import { FuseImporter } from '../services/FuseImporter';
+import { FuseSafetyAnalyzer } from '../services/FuseSafetyAnalyzer';
+import { PackDiffer } from '../services/PackDiffer';
+import { CHeaderGenerator } from '../services/generators/CHeaderGenerator';
+import { KicadSymbolGenerator } from '../services/generators/KicadSymbolGenerator';
+import { PinTableGenerator } from '../services/generators/PinTableGenerator';
+import { ProgrammerCommandGenerator } from '../services/generators/ProgrammerCommandGenerator';
+import { SvdGenerator } from '../services/generators/SvdGenerator';
+import { VectorTableGenerator } from '../services/generators/VectorTableGenerator';
+import type { AtPack, AtPackDevice } from '../types/atpack';
+import { getRegisterAddress, getRegisterGroupPlacements, getRegisterInstanceName } from '../utils/registerLayout';
+import { installNodeDom, silenceParserLogs } from './nodeDom';
+
+/**
+ * Headless command-line interface for inspecting .atpack files
+ *
+ * Usage: npm run atpack -- <command> <file.atpack> [device] [options]
+ */
+
+const USAGE = `Usage: atpack <command> <file.atpack> [device] [options]
+
+Commands:
+  list <pack>                        List the devices of a pack
+  device <pack> <device>             Dump a parsed device as JSON
+  fuses <pack> <device>              Print fuse and lockbit registers
+  pinouts <pack> <device>            Print the pinouts of a device
+  registers <pack> <device> [module] Print peripheral registers, optionally for one module
+  export <pack> [device]             Export the parsed pack (or one device) as versioned JSON
+  header <pack> <device>             Generate a C header with register and bitfield definitions
+  svd <pack> <device>                Generate a CMSIS-SVD file (svd2rust compatible)
+  kicad <pack> <device> [package]    Generate a KiCad symbol library for a package
+                                     (first pinout by default)
+  pintable <pack> <device> [package] Print the pin table of a package as CSV
+  vectors <pack> <device>            Print the interrupt vector table with flash addresses
+  isr <pack> <device>                Generate a C interrupt handler skeleton (weak ISR() stubs,
+                                     or XC8 __interrupt() handlers for PIC devices)
+  decode-fuses <pack> <device> <values|file>
+                                     Decode fuse values from avrdude -U arguments, hex bytes,
+                                     or a .fuse Intel HEX/ELF file
+  diff <old pack> <new pack>         Report the changes between two releases of a pack as
+                                     Markdown (or JSON with --json)
+  program <pack> <device> [values|file]
+                                     Print avrdude/pymcuprog/ipecmd commands writing the default
+                                     fuse values, or the given ones, with read-back/verify variants
+                                     and fuse safety errors/warnings
+
+Options:
+  --json      Print results as JSON instead of text
+  --structs   Include packed struct overlays in generated headers
+  --asm       Generate an avr-gcc startup assembly file instead of C (isr)
+  --verbose   Show parser logs
+  --help      Show this message
+`;
+
+interface CliOptions {
+  json: boolean;
+  structs: boolean;
+  asm: boolean;
+  verbose: boolean;
+}
+
+const print = (text: string = ''): void => {
+  process.stdout.write(`${text}\n`);
+};
+
+const printJson = (value: unknown): void => {
+  print(JSON.stringify(value, null, 2));
+};
+
+const hex = (value: number, width: number = 2): string => {
+  return `0x${value.toString(16).toUpperCase().padStart(width, '0')}`;
+};
+
+/**
+ * Load an .atpack file from the local filesystem; device files are parsed on demand
+ * (see findDevice)
+ */
+const loadPack = async (parser: AtPackParser, filePath: string): Promise<AtPack> => {
+  const data = readFileSync(filePath);
+  const file = new File([data], basename(filePath));
+  return parser.parseFile(file, { lazy: true });
+};
+
+/**
+ * Find a device by name and parse its device file
+ */
+const findDevice = async (parser: AtPackParser, atpack: AtPack, deviceName: string | undefined): Promise<AtPackDevice> => {
+  if (!deviceName) {
+    throw new Error('A device name is required for this command');
+  }
+
+  const device = atpack.devices.find(d => d.name.toLowerCase() === deviceName.toLowerCase());
+  if (!device) {
+    throw new Error(`Device ${deviceName} not found in ${atpack.metadata.name}`);
+  }
+  await parser.enrichDeviceFromArchive(atpack, device);
+  return device;
+};
+
+const listDevices = (atpack: AtPack, options: CliOptions): void => {
+  if (options.json) {
+    printJson({
+      name: atpack.metadata.name,
+      vendor: atpack.metadata.vendor,
+      version: atpack.version,
+      devices: atpack.devices.map(device => ({
+        name: device.name,
+        family: device.family,
+        architecture: device.architecture,
+        deviceFamily: device.deviceFamily,
+        flash: device.memory.flash.size,
+        sram: device.memory.sram.size,
+        eeprom: device.memory.eeprom?.size ?? 0,
+      })),
+    });
+    return;
+  }
+
+  print(`${atpack.metadata.vendor} ${atpack.metadata.name} ${atpack.version} - ${atpack.devices.length} device(s)`);
+  atpack.devices.forEach(device => {
+    const flash = `${Math.round(device.memory.flash.size / 1024)}KB flash`;
+    const sram = `${device.memory.sram.size}B SRAM`;
+    const eeprom = `${device.memory.eeprom?.size ?? 0}B EEPROM`;
+    print(`  ${device.name.padEnd(20)} ${device.family.padEnd(12)} ${flash}, ${sram}, ${eeprom}`);
+  });
+};
+
+const printFuses = (device: AtPackDevice, options: CliOptions): void => {
+  if (options.json) {
+    printJson({ fuses: device.fuses, lockbits: device.lockbits });
+    return;
+  }
+
+  if (device.fuses.length === 0) {
+    print(`No fuses found for ${device.name}`);
+  }
+
+  device.fuses.forEach(fuse => {
+    const defaultValue = fuse.defaultValue !== undefined ? ` default ${hex(fuse.defaultValue)}` : '';
+    print(`${fuse.name} @ ${hex(fuse.offset)}${defaultValue}`);
+    fuse.bitfields.forEach(bitfield => {
+      const bits = bitfield.bitWidth === 1
+        ? `[${bitfield.bitOffset}]`
+        : `[${bitfield.bitOffset + bitfield.bitWidth - 1}:${bitfield.bitOffset}]`;
+      print(`  ${bitfield.name.padEnd(12)} ${bits.padEnd(7)} ${bitfield.description}`);
+      bitfield.values?.forEach(value => {
+        print(`      ${hex(value.value)} ${value.description || value.name}`);
+      });
+    });
+  });
+
+  device.lockbits.forEach(lockbit => {
+    print(`${lockbit.name} @ ${hex(lockbit.offset)} (lockbits)`);
+    lockbit.bits.forEach(bit => {
+      print(`  ${bit.name.padEnd(12)} ${bit.description}`);
+    });
+  });
+};
+
+const printDecodedFuses = (device: AtPackDevice, input: string[], options: CliOptions): void => {
+  if (input.length === 0) {
+    throw new Error('Fuse values or a file are required for this command');
+  }
+
+  const importer = new FuseImporter();
+  const result = input.length === 1 && existsSync(input[0])
+    ? importer.parseBinary(new Uint8Array(readFileSync(input[0])).buffer, device.fuses)
+    : importer.parseText(input.join(' '), device.fuses);
+  const decoded = importer.decode(device.fuses, result.values);
+
+  if (options.json) {
+    printJson({ format: result.format, warnings: result.warnings, fuses: decoded });
+    return;
+  }
+
+  result.warnings.forEach(warning => console.error(`warning: ${warning}`));
+  decoded.forEach(item => {
+    print(`${item.fuse.name} = ${hex(item.value)}`);
+    if (item.reservedMismatch !== 0) {
+      print(`  ! reserved bits ${hex(item.reservedMismatch)} differ from default ${hex(item.fuse.defaultValue ?? 0)}`);
+    }
+    item.bitfields.forEach(field => {
+      const description = field.match
+        ? field.match.description || field.match.name
+        : field.undefinedValue
+          ? '! value not defined for this bitfield'
+          : field.bitfield.bitWidth === 1 ? (field.value === 0 ? 'programmed' : 'unprogrammed') : String(field.value);
+      print(`  ${field.bitfield.name.padEnd(12)} ${hex(field.value)}  ${description}`);
+    });
+  });
+};
+
+const printProgrammerCommands = (device: AtPackDevice, input: string[], options: CliOptions): void => {
+  const importer = new FuseImporter();
+  const fuseValues: Record<string, number> = {};
+  device.fuses.forEach(fuse => {
+    if (fuse.defaultValue !== undefined) {
+      fuseValues[fuse.name] = fuse.defaultValue;
+    }
+  });
+
+  if (input.length > 0) {
+    const result = input.length === 1 && existsSync(input[0])
+      ? importer.parseBinary(new Uint8Array(readFileSync(input[0])).buffer, device.fuses)
+      : importer.parseText(input.join(' '), device.fuses);
+    result.warnings.forEach(warning => console.error(`warning: ${warning}`));
+    Object.assign(fuseValues, result.values);
+  }
+
+  const commandSets = new ProgrammerCommandGenerator().generate(device, fuseValues);
+  const findings = new FuseSafetyAnalyzer().analyze(device, fuseValues);
+
+  if (options.json) {
+    printJson({ findings, commands: commandSets });
+    return;
+  }
+
+  findings.forEach(finding => {
+    const location = finding.bitfield ? `${finding.register}.${finding.bitfield}` : finding.register;
+    print(`# ${finding.severity.toUpperCase()}: ${location}: ${finding.message}`);
+  });
+  if (findings.length > 0) {
+    print();
+  }
+
+  commandSets.forEach(commandSet => {
+    print(`# ${commandSet.title}`);
+    commandSet.notes.forEach(note => print(`# ${note}`));
+    print('# write');
+    print(commandSet.write);
+    print('# read back / verify');
+    print(commandSet.verify);
+    commandSet.files.forEach(file => {
+      print(`# ${file.name}`);
+      process.stdout.write(file.content);
+    });
+    print();
+  });
+};
+
+const printPinouts = (device: AtPackDevice, options: CliOptions): void => {
+  if (options.json) {
+    printJson(device.pinouts);
+    return;
+  }
+
+  if (device.pinouts.length === 0) {
+    print(`No pinouts found for ${device.name}`);
+  }
+
+  device.pinouts.forEach(pinout => {
+    print(`${pinout.caption} (${pinout.pins.length} pins)`);
+    pinout.pins.forEach(pin => {
+      const functions = pin.functions
+        .map(func => `${func.group}${func.index !== undefined ? func.index : ''}`)
+        .join(', ');
+      print(`  ${String(pin.position).padStart(3)}  ${pin.pad.padEnd(10)} ${functions}`);
+    });
+  });
+};
+
+const printRegisters = (device: AtPackDevice, moduleName: string | undefined, options: CliOptions): void => {
+  const peripherals = moduleName
+    ? device.peripherals.filter(p => p.name.toLowerCase() === moduleName.toLowerCase())
+    : device.peripherals;
+
+  if (moduleName && peripherals.length === 0) {
+    throw new Error(`Module ${moduleName} not found for ${device.name}`);
+  }
+
+  if (options.json) {
+    printJson(peripherals);
+    return;
+  }
+
+  peripherals.forEach(peripheral => {
+    print(`${peripheral.name} - ${peripheral.caption}`);
+    peripheral.registerGroups.forEach(group => {
+      const placements = getRegisterGroupPlacements(device.modules, peripheral, group);
+      placements.forEach(placement => {
+        if (peripheral.registerGroups.length > 1 || placements.length > 1) {
+          const base = placement.baseAddress === null ? 'unknown address' : hex(placement.baseAddress, 4);
+          print(`  [${placement.instance} @ ${base} ${placement.addressSpace}]`);
+        }
+        group.registers.forEach(register => {
+          const name = getRegisterInstanceName(placement, register);
+          const address = getRegisterAddress(placement, register);
+          const location = address === null ? `+${hex(register.offset, 4)}` : hex(address, 4);
+          print(`  ${name.padEnd(16)} ${location.padEnd(6)}  ${register.size}B  ${register.caption}`);
+          register.bitfields.forEach(bitfield => {
+            print(`      ${bitfield.name.padEnd(12)} mask ${hex(bitfield.mask)}  ${bitfield.caption}`);
+          });
+        });
+      });
+    });
+  });
+};
+
+const printVectors = (device: AtPackDevice, options: CliOptions): void => {
+  const generator = new VectorTableGenerator();
+  const vectors = generator.getVectorTable(device);
+
+  if (options.json) {
+    printJson({ vectorSize: generator.getVectorSize(device), vectors });
+    return;
+  }
+
+  vectors.forEach(vector => {
+    print(`${String(vector.index).padStart(3)}  ${hex(vector.address, 4)}  ${vector.name.padEnd(16)} ${vector.handler.padEnd(24)} ${vector.caption}`);
+  });
+};
+
+const run = async (argv: string[]): Promise<void> => {
+  const options: CliOptions = {
+    json: argv.includes('--json'),
+    structs: argv.includes('--structs'),
+    asm: argv.includes('--asm'),
+    verbose: argv.includes('--verbose'),
+  };
+  const [command, packPath, deviceName, ...rest] = argv.filter(arg => !arg.startsWith('--'));
+  const extra = rest[0];
+
+  if (!command || argv.includes('--help') || !packPath) {
+    print(USAGE);
+    if (!argv.includes('--help')) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  installNodeDom();
+  if (!options.verbose) {
+    silenceParserLogs();
+  }
+
+  // Created once the DOM is installed, its XML parsers need DOMParser
+  const parser = new AtPackParser();
+  const atpack = await loadPack(parser, packPath);
+
+  switch (command) {
+    case 'list':
+      // Memory sizes come from the device files
+      await parser.enrichDevices(atpack);
+      listDevices(atpack, options);
+      break;
+    case 'device':
+      printJson(await findDevice(parser, atpack, deviceName));
+      break;
+    case 'fuses':
+      printFuses(await findDevice(parser, atpack, deviceName), options);
+      break;
+    case 'pinouts':
+      printPinouts(await findDevice(parser, atpack, deviceName), options);
+      break;
+    case 'registers':
+      printRegisters(await findDevice(parser, atpack, deviceName), extra, options);
+      break;
+    case 'export': {
+      const serializer = new AtPackSerializer();
+      if (!deviceName) {
+        await parser.enrichDevices(atpack);
+      }
+      const document = deviceName
+        ? serializer.exportDevice(atpack, await findDevice(parser, atpack, deviceName))
+        : serializer.exportAtPack(atpack);
+      process.stdout.write(serializer.stringify(document));
+      break;
+    }
+    case 'diff': {
+      if (!deviceName) {
+        throw new Error('A second pack is required for this command');
+      }
+      const newAtpack = await loadPack(parser, deviceName);
+      await parser.enrichDevices(atpack);
+      await parser.enrichDevices(newAtpack);
+      const differ = new PackDiffer();
+      const diff = differ.diff(atpack, newAtpack);
+      process.stdout.write(options.json ? differ.toJson(diff) : differ.toMarkdown(diff));
+      break;
+    }
+    case 'header':
+      process.stdout.write(new CHeaderGenerator().generate(await findDevice(parser, atpack, deviceName), { includeStructs: options.structs }));
+      break;
+    case 'svd':
+      process.stdout.write(new SvdGenerator().generate(await findDevice(parser, atpack, deviceName)));
+      break;
+    case 'kicad':
+    case 'pintable': {
+      const device = await findDevice(parser, atpack, deviceName);
+      const packageName = extra || device.pinouts[0]?.name || '';
+      process.stdout.write(command === 'kicad'
+        ? new KicadSymbolGenerator().generate(device, packageName)
+        : new PinTableGenerator().generate(device, packageName));
+      break;
+    }
+    case 'vectors':
+      printVectors(await findDevice(parser, atpack, deviceName), options);
+      break;
+    case 'isr': {
+      const device = await findDevice(parser, atpack, deviceName);
+      const generator = new VectorTableGenerator();
+      process.stdout.write(options.asm ? generator.generateAssembly(device) : generator.generateC(device));
+      break;
+    }
+    case 'decode-fuses':
+      printDecodedFuses(await findDevice(parser, atpack, deviceName), rest, options);
+      break;
+    case 'program':
+      printProgrammerCommands(await findDevice(parser, atpack, deviceName), rest, options);
+      break;
+    default:
+      throw new Error(`Unknown command: ${command}`);
+  }
+};
+
+run(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
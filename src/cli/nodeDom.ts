@@ -0,0 +1,28 @@
+import { JSDOM } from 'jsdom';
+
+/**
+ * Install the browser globals the parsers rely on (DOMParser, XPathResult, Node)
+ * so they can run unchanged under Node.js
+ */
+export const installNodeDom = (): void => {
+  if (typeof globalThis.DOMParser !== 'undefined') {
+    return;
+  }
+
+  const { window } = new JSDOM('');
+  const globals = globalThis as Record<string, unknown>;
+
+  globals.DOMParser = window.DOMParser;
+  globals.XPathResult = window.XPathResult;
+  globals.Node = window.Node;
+};
+
+/**
+ * Silence the parsers' console output so that command results stay machine-readable.
+ * Errors are still reported on stderr.
+ */
+export const silenceParserLogs = (): void => {
+  console.log = () => {};
+  console.info = () => {};
+  console.warn = () => {};
+};
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import type { AtPackDevice } from '../types/atpack';
+import { useAtPackStore } from '../stores/atpackStore';
+import { DeviceDescriptionSource } from '../services/DeviceDescriptionSource';
 
 interface AdvancedProperty {
   name: string;
@@ -18,42 +20,22 @@ export const AdvancedPropertiesConfigurator: React.FC<AdvancedPropertiesConfigur
   const [selectedGroup, setSelectedGroup] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(true);
+  const { selectedAtPack } = useAtPackStore();
 
   useEffect(() => {
     extractAdvancedProperties();
-  }, [device]);
+  }, [device, selectedAtPack]);
 
   const extractAdvancedProperties = async () => {
     setLoading(true);
     const extractedProperties: AdvancedProperty[] = [];
 
     try {
-      // Load ATDF document for the device - try multiple possible paths
-      const possiblePaths = [
-        `/atpacks/Atmel.ATmega_DFP.2.2.509_dir_atpack/atdf/${device.name}.atdf`,
-        `/atpacks/Microchip.PIC16Fxxx_DFP.1.7.162_dir_atpack/atdf/${device.name}.atdf`
-      ];
+      // Load the ATDF document of the device from the files of its pack
+      const source = selectedAtPack && DeviceDescriptionSource.forPack(selectedAtPack);
+      const atdfDoc = source ? await source.readDescription(device) : null;
 
-      let atdfDoc: Document | null = null;
-      let loadedPath: string | null = null;
-
-      for (const atdfUrl of possiblePaths) {
-        try {
-          const response = await fetch(atdfUrl);
-          if (response.ok) {
-            const atdfText = await response.text();
-            const parser = new DOMParser();
-            atdfDoc = parser.parseFromString(atdfText, 'text/xml');
-            loadedPath = atdfUrl;
-            console.log(`Successfully loaded ATDF from: ${atdfUrl}`);
-            break;
-          }
-        } catch (error) {
-          console.warn(`Failed to load ATDF from ${atdfUrl}:`, error);
-        }
-      }
-
-      if (!atdfDoc || !loadedPath) {
+      if (!atdfDoc) {
         console.warn(`Could not load ATDF file for device: ${device.name}`);
         setProperties([]);
         setLoading(false);
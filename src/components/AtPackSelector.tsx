@@ -1,10 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useAtPackStore } from '../stores/atpackStore';
-import { AtPackParser } from '../services/AtPackParser';
-import { fetchWithCorsProxy } from '../utils/corsProxy';
+import { AtPackSerializer } from '../services/AtPackSerializer';
+import { downloadTextFile } from '../utils/download';
+import { PackCachePanel } from './PackCachePanel';
 
 export const AtPackSelector: React.FC = () => {
-  const { atpacks, selectedAtPack, selectAtPack, loadAtPackFile, loading, error } = useAtPackStore();
+  const {
+    atpacks,
+    selectedAtPack,
+    selectAtPack,
+    loadAtPack,
+    loadAtPackFile,
+    cancelLoading,
+    loadAllDevices,
+    loading,
+    loadProgress,
+    error
+  } = useAtPackStore();
   const [selectedAtPackIndex, setSelectedAtPackIndex] = useState<string>('');
   const [atpackUrl, setAtpackUrl] = useState<string>('');
   const [loadingUrl, setLoadingUrl] = useState(false);
@@ -13,7 +25,7 @@ export const AtPackSelector: React.FC = () => {
   // Sync the dropdown with the selected AtPack from the store
   useEffect(() => {
     if (selectedAtPack && atpacks.length > 0) {
-      const selectedIndex = atpacks.findIndex(pack => pack.metadata.name === selectedAtPack.metadata.name);
+      const selectedIndex = atpacks.indexOf(selectedAtPack);
       if (selectedIndex >= 0) {
         setSelectedAtPackIndex(selectedIndex.toString());
       }
@@ -51,25 +63,15 @@ export const AtPackSelector: React.FC = () => {
     
     setLoadingUrl(true);
     try {
-      const parser = new AtPackParser();
       console.log(`Loading AtPack from URL: ${atpackUrl}`);
       
-      // Use the parser to load from URL (handles both .atpack and .pdsc files)
-      await parser.parseUrl(atpackUrl);
-      
-      // Convert to File object for consistency with other loading methods
-      const response = await fetchWithCorsProxy(atpackUrl);
-      const blob = await response.blob();
-      const fileName = atpackUrl.split('/').pop() || 'downloaded.atpack';
-      const file = new File([blob], fileName);
-      
-      await loadAtPackFile(file);
-      console.log('AtPack loaded successfully from URL - pack available but not auto-selected');
-      
-      // Don't auto-select the pack when loading from URL
-      // User should manually select it from the dropdown
+      // The store downloads the file (handles both .atpack and .pdsc files) and caches it
+      await loadAtPack(atpackUrl);
       
-      setAtpackUrl(''); // Reset URL field after successful load
+      if (!useAtPackStore.getState().error) {
+        console.log('AtPack loaded successfully from URL');
+        setAtpackUrl(''); // Reset URL field after successful load
+      }
     } catch (error) {
       console.error('Error loading from URL:', error);
     } finally {
@@ -77,6 +79,16 @@ export const AtPackSelector: React.FC = () => {
     }
   };
 
+  const handleExportJson = async () => {
+    if (!selectedAtPack) return;
+
+    // Devices are parsed on demand, the export needs all of them
+    await loadAllDevices(selectedAtPack);
+    const serializer = new AtPackSerializer();
+    const json = serializer.stringify(serializer.exportAtPack(selectedAtPack));
+    downloadTextFile(json, `${selectedAtPack.metadata.name}.${selectedAtPack.version}.json`, 'application/json');
+  };
+
   /*
   const handleLoadFromPidx = async () => {
     const urlToLoad = pidxUrl === 'custom' ? customPidxUrl : pidxUrl;
@@ -144,6 +156,17 @@ export const AtPackSelector: React.FC = () => {
         ) : (
           <span style={{ color: '#666', fontStyle: 'italic' }}>No AtPacks loaded</span>
         )}
+
+        {selectedAtPack && (
+          <button
+            onClick={handleExportJson}
+            disabled={loading || loadingUrl}
+            style={{ fontSize: '12px', marginLeft: '5px' }}
+            title="Download the parsed pack as versioned JSON (atpack-export format)"
+          >
+            💾 Export JSON
+          </button>
+        )}
         
         {/* Loading Message */}
         {(loading || loadingUrl) && (
@@ -160,15 +183,41 @@ export const AtPackSelector: React.FC = () => {
             fontWeight: 'bold'
           }}>
             📁 Loading file... be patient
+            {loadProgress && (
+              <div style={{ fontSize: '12px', fontWeight: 'normal', marginTop: '6px' }}>
+                {loadProgress.stage === 'reading' ? (
+                  <>Reading archive {loadProgress.fileName}</>
+                ) : (
+                  <>
+                    Parsing device {loadProgress.current} of {loadProgress.total}: {loadProgress.deviceName}
+                    <span style={{ color: '#666' }}> ({loadProgress.fileName?.split('/').pop()})</span>
+                  </>
+                )}
+                <div>
+                  <progress
+                    value={loadProgress.current}
+                    max={loadProgress.total || undefined}
+                    style={{ width: '250px', marginTop: '4px' }}
+                  />
+                </div>
+              </div>
+            )}
+            {loading && (
+              <button onClick={cancelLoading} style={{ fontSize: '12px', marginTop: '6px' }}>
+                Cancel
+              </button>
+            )}
           </div>
         )}
         
         <div style={{ marginTop: '10px' }}>
+          <PackCachePanel />
+
           <div style={{ marginBottom: '10px' }}>
-            <strong>Upload .atpack file:</strong><br />
+            <strong>Upload .atpack file (or JSON export):</strong><br />
             <input
               type="file"
-              accept=".atpack,.xml,.pdsc"
+              accept=".atpack,.xml,.pdsc,.json"
               onChange={handleFileUpload}
               disabled={loading || loadingUrl}
               style={{ fontSize: '12px' }}
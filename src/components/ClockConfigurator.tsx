@@ -1,11 +1,20 @@
-import React, { useState, useEffect } from 'react';
-import type { AtPackDevice, ClockSource, ClockPrescaler } from '../types/atpack';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import type { AtPackDevice, ClockConfigState, ClockSource, ClockPrescaler, ClockTreeFrequencies, PllInfo } from '../types/atpack';
 import { AdcConfigurator } from './AdcConfigurator';
+import { UartConfigurator } from './UartConfigurator';
+import { SpiConfigurator } from './SpiConfigurator';
+import { TwiConfigurator } from './TwiConfigurator';
+import { ClockTreeConfigurator } from './ClockTreeConfigurator';
+import { getClockFuseFields } from '../utils/clockFuses';
 
 interface ClockConfiguratorProps {
   device: AtPackDevice;
+  initialConfig?: ClockConfigState; // Selection to start from (shared configuration)
+  onConfigChange?: (config: ClockConfigState) => void;
 }
 
+type ConfiguratorTab = 'clock' | 'adc' | 'timer' | 'uart' | 'spi' | 'twi';
+
 interface ClockConfiguration {
   selectedClockSource: ClockSource | null;
   frequency: number;
@@ -16,8 +25,8 @@ interface ClockConfiguration {
   timerPrescaler: ClockPrescaler | null;
 }
 
-export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device }) => {
-  const [activeTab, setActiveTab] = useState<'clock' | 'adc' | 'timer'>('clock');
+export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device, initialConfig, onConfigChange }) => {
+  const [activeTab, setActiveTab] = useState<ConfiguratorTab>('clock');
   const [config, setConfig] = useState<ClockConfiguration>({
     selectedClockSource: null,
     frequency: 8000000, // 8MHz default
@@ -27,23 +36,33 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
     adcPrescaler: null,
     timerPrescaler: null,
   });
+  // Set once the user changes the selection: the initial selection is not reported, so opening
+  // the tab does not rewrite the clock fuses or a shared configuration
+  const userChanged = useRef(false);
+  const clockTreeFrequencies = useRef<ClockTreeFrequencies | null>(null);
 
   // Initialize configuration when device clock info is available
   useEffect(() => {
+    userChanged.current = false;
+    clockTreeFrequencies.current = null;
     if (!device.clockInfo) return;
 
     const clockInfo = device.clockInfo;
     
-    // Set default configuration based on parsed data
-    const defaultClockSource = clockInfo.sources.find(s => s.type === 'internal') || clockInfo.sources[0];
-    const defaultSystemPrescaler = clockInfo.systemPrescalers.find(p => p.divider === 1) || clockInfo.systemPrescalers[0];
-    const defaultAdcPrescaler = clockInfo.adcPrescalers.find(p => p.divider === 128) || clockInfo.adcPrescalers[0];
-    const defaultTimerPrescaler = clockInfo.timerPrescalers.find(p => p.divider === 64) || clockInfo.timerPrescalers[0];
+    // Set the initial configuration, or the default configuration based on parsed data
+    const defaultClockSource = clockInfo.sources.find(s => s.value === initialConfig?.source)
+      || clockInfo.sources.find(s => s.type === 'internal') || clockInfo.sources[0];
+    const defaultSystemPrescaler = clockInfo.systemPrescalers.find(p => p.value === initialConfig?.systemPrescaler)
+      || clockInfo.systemPrescalers.find(p => p.divider === 1) || clockInfo.systemPrescalers[0];
+    const defaultAdcPrescaler = clockInfo.adcPrescalers.find(p => p.value === initialConfig?.adcPrescaler)
+      || clockInfo.adcPrescalers.find(p => p.divider === 128) || clockInfo.adcPrescalers[0];
+    const defaultTimerPrescaler = clockInfo.timerPrescalers.find(p => p.value === initialConfig?.timerPrescaler)
+      || clockInfo.timerPrescalers.find(p => p.divider === 64) || clockInfo.timerPrescalers[0];
 
     setConfig(prev => ({
       ...prev,
       selectedClockSource: defaultClockSource || null,
-      frequency: defaultClockSource?.frequency || 8000000,
+      frequency: initialConfig?.frequency ?? (defaultClockSource?.frequency || 8000000),
       systemPrescaler: defaultSystemPrescaler || null,
       adcPrescaler: defaultAdcPrescaler || null,
       timerPrescaler: defaultTimerPrescaler || null,
@@ -55,12 +74,28 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
       adcPrescalers: clockInfo.adcPrescalers.length,
       timerPrescalers: clockInfo.timerPrescalers.length
     });
+    // Initial configuration only applies when the device changes, not on every report back to the parent
   }, [device]);
 
-  // Automatic calculation of derived frequencies
+  // Report the selection to the parent (shared configuration) once the user changed it: the
+  // clock source selection, or the clock tree frequencies for clock tree devices
+  useEffect(() => {
+    if (!onConfigChange || !userChanged.current || (!config.selectedClockSource && !device.clockInfo?.clockTree)) return;
+    onConfigChange({
+      source: config.selectedClockSource?.value,
+      frequency: config.frequency,
+      systemPrescaler: config.systemPrescaler?.value,
+      adcPrescaler: config.adcPrescaler?.value,
+      timerPrescaler: config.timerPrescaler?.value,
+      cpuFrequency: config.cpuFrequency,
+    });
+  }, [config.selectedClockSource, config.frequency, config.systemPrescaler, config.adcPrescaler, config.timerPrescaler, config.cpuFrequency, onConfigChange]);
+
+  // Automatic calculation of derived frequencies (devices without a system prescaler run undivided);
+  // clock tree devices report their frequencies from the clock tree configurator
   useEffect(() => {
-    if (config.selectedClockSource && config.systemPrescaler) {
-      const baseFrequency = config.frequency / config.systemPrescaler.divider;
+    if (config.selectedClockSource && !device.clockInfo?.clockTree) {
+      const baseFrequency = config.frequency / (config.systemPrescaler?.divider ?? 1);
       setConfig(prev => ({
         ...prev,
         cpuFrequency: baseFrequency,
@@ -69,9 +104,24 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
     }
   }, [config.frequency, config.systemPrescaler]);
 
+  const handleClockTreeChange = useCallback((frequencies: ClockTreeFrequencies) => {
+    // The clock tree configurator reports its initial frequencies when mounted
+    const previous = clockTreeFrequencies.current;
+    if (previous && (previous.cpu !== frequencies.cpu || previous.per !== frequencies.per)) {
+      userChanged.current = true;
+    }
+    clockTreeFrequencies.current = frequencies;
+    setConfig(prev => ({
+      ...prev,
+      cpuFrequency: frequencies.cpu,
+      peripheralFrequency: frequencies.per,
+    }));
+  }, []);
+
   const handleClockSourceChange = (sourceValue: string) => {
     const source = device.clockInfo?.sources.find(s => s.value.toString() === sourceValue);
     if (source) {
+      userChanged.current = true;
       setConfig(prev => ({
         ...prev,
         selectedClockSource: source,
@@ -83,6 +133,7 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
   const handleSystemPrescalerChange = (prescalerValue: string) => {
     const prescaler = device.clockInfo?.systemPrescalers.find(p => p.value.toString() === prescalerValue);
     if (prescaler) {
+      userChanged.current = true;
       setConfig(prev => ({
         ...prev,
         systemPrescaler: prescaler,
@@ -93,6 +144,7 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
   const handleTimerPrescalerChange = (prescalerValue: string) => {
     const prescaler = device.clockInfo?.timerPrescalers.find(p => p.value.toString() === prescalerValue);
     if (prescaler) {
+      userChanged.current = true;
       setConfig(prev => ({
         ...prev,
         timerPrescaler: prescaler,
@@ -100,6 +152,11 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
     }
   };
 
+  const handleFrequencyChange = (frequency: number) => {
+    userChanged.current = true;
+    setConfig(prev => ({ ...prev, frequency }));
+  };
+
   const formatFrequency = (freq: number): string => {
     if (freq >= 1000000) {
       return `${(freq / 1000000).toFixed(2)} MHz`;
@@ -110,6 +167,16 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
     }
   };
 
+  const formatPllFactors = (pllInfo: PllInfo): string => {
+    const factors = pllInfo.multipliers?.map(m => m.multiplier) ?? [];
+    if (factors.length === 0) {
+      return pllInfo.multiplier !== undefined ? `×${pllInfo.multiplier}` : 'factor unknown';
+    }
+    return factors.length > 4
+      ? `×${factors[0]} to ×${factors[factors.length - 1]}`
+      : factors.map(factor => `×${factor}`).join(', ');
+  };
+
   const calculateTimerFrequency = (): number => {
     if (!config.timerPrescaler) return 0;
     return config.cpuFrequency / config.timerPrescaler.divider;
@@ -134,8 +201,18 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
   }
 
   const clockInfo = device.clockInfo;
+  // Fuse bitfields matching the selection, updated in the fuse configuration (shared configuration)
+  const clockFuses = getClockFuseFields(device);
+  const linkedFuses = [
+    clockFuses.source && config.selectedClockSource
+      ? `${clockFuses.source.fuse}.${clockFuses.source.bitfield.name} = 0x${config.selectedClockSource.value.toString(16).toUpperCase()}`
+      : '',
+    clockFuses.divide8 && config.systemPrescaler
+      ? `${clockFuses.divide8.fuse}.${clockFuses.divide8.bitfield.name} ${config.systemPrescaler.divider === 8 ? 'programmed' : 'unprogrammed'}`
+      : ''
+  ].filter(Boolean);
 
-  const TabButton = ({ id, label, icon }: { id: 'clock' | 'adc' | 'timer', label: string, icon: string }) => (
+  const TabButton = ({ id, label, icon }: { id: ConfiguratorTab, label: string, icon: string }) => (
     <button
       onClick={() => setActiveTab(id)}
       style={{
@@ -171,6 +248,9 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
         <TabButton id="clock" label="Clock Configuration" icon="⏰" />
         <TabButton id="adc" label="ADC Configuration" icon="🔬" />
         <TabButton id="timer" label="Timer Configuration" icon="⏱️" />
+        <TabButton id="uart" label="UART Baud Rate" icon="📡" />
+        <TabButton id="spi" label="SPI Clock" icon="🔌" />
+        <TabButton id="twi" label="TWI/I2C Clock" icon="🔗" />
       </div>
 
       {/* Tab Content */}
@@ -192,114 +272,130 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
               <div><strong>Timer Prescalers:</strong> {clockInfo.timerPrescalers.length} options</div>
               {clockInfo.hasClockOutput && <div><strong>Clock Output:</strong> ✅ Available</div>}
               {clockInfo.hasClockDivide8 && <div><strong>Divide by 8:</strong> ✅ Available</div>}
-              {clockInfo.pllInfo?.available && <div><strong>PLL:</strong> ✅ Available (×{clockInfo.pllInfo.multiplier})</div>}
+              {clockInfo.pllInfo?.available && <div><strong>PLL:</strong> ✅ Available ({formatPllFactors(clockInfo.pllInfo)})</div>}
+              {clockInfo.pllInfo?.sources && clockInfo.pllInfo.sources.length > 0 && (
+                <div><strong>PLL Sources:</strong> {clockInfo.pllInfo.sources.map(source => source.name).join(', ')}</div>
+              )}
             </div>
           </div>
 
+          {/* Clock Tree (CLKCTRL and XMEGA devices) */}
+          {clockInfo.clockTree && (
+            <ClockTreeConfigurator device={device} onFrequenciesChange={handleClockTreeChange} />
+          )}
+
           {/* Clock Source Configuration */}
-          <div style={{ 
-            backgroundColor: '#f8f9fa', 
-            padding: '20px', 
-            borderRadius: '8px', 
-            marginBottom: '20px',
-            border: '1px solid #e9ecef'
-          }}>
-            <h3 style={{ marginBottom: '15px', color: '#495057' }}>🔧 Clock Source Selection</h3>
+          {!clockInfo.clockTree && (
+            <div style={{ 
+              backgroundColor: '#f8f9fa', 
+              padding: '20px', 
+              borderRadius: '8px', 
+              marginBottom: '20px',
+              border: '1px solid #e9ecef'
+            }}>
+              <h3 style={{ marginBottom: '15px', color: '#495057' }}>🔧 Clock Source Selection</h3>
             
-            {clockInfo.sources.length > 0 ? (
-              <div style={{ marginBottom: '15px' }}>
-                <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
-                  Clock Source:
-                </label>
-                <select 
-                  value={config.selectedClockSource?.value.toString() || ''}
-                  onChange={(e) => handleClockSourceChange(e.target.value)}
-                  style={{
-                    padding: '8px 12px',
-                    borderRadius: '4px',
-                    border: '1px solid #ced4da',
-                    fontSize: '14px',
-                    minWidth: '300px'
-                  }}
-                >
-                  <option value="">Select a clock source...</option>
-                  {clockInfo.sources.map(source => (
-                    <option key={source.value} value={source.value.toString()}>
-                      {source.caption} ({source.type})
-                    </option>
-                  ))}
-                </select>
-                {config.selectedClockSource && (
-                  <div style={{ marginTop: '10px', fontSize: '14px', color: '#666' }}>
-                    <strong>Selected:</strong> {config.selectedClockSource.caption}<br/>
-                    {config.selectedClockSource.frequency && (
-                      <>
-                        <strong>Frequency:</strong> {formatFrequency(config.selectedClockSource.frequency)}<br/>
-                      </>
-                    )}
-                    {config.selectedClockSource.startupTime && (
-                      <>
-                        <strong>Startup Time:</strong> {config.selectedClockSource.startupTime}
-                      </>
-                    )}
-                  </div>
-                )}
-              </div>
-            ) : (
-              <p style={{ color: '#666' }}>No clock sources found in ATDF file. Using default configuration.</p>
-            )}
+              {clockInfo.sources.length > 0 ? (
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+                    Clock Source:
+                  </label>
+                  <select 
+                    value={config.selectedClockSource?.value.toString() || ''}
+                    onChange={(e) => handleClockSourceChange(e.target.value)}
+                    style={{
+                      padding: '8px 12px',
+                      borderRadius: '4px',
+                      border: '1px solid #ced4da',
+                      fontSize: '14px',
+                      minWidth: '300px'
+                    }}
+                  >
+                    <option value="">Select a clock source...</option>
+                    {clockInfo.sources.map(source => (
+                      <option key={source.value} value={source.value.toString()}>
+                        {source.caption} ({source.type})
+                      </option>
+                    ))}
+                  </select>
+                  {config.selectedClockSource && (
+                    <div style={{ marginTop: '10px', fontSize: '14px', color: '#666' }}>
+                      <strong>Selected:</strong> {config.selectedClockSource.caption}<br/>
+                      {config.selectedClockSource.frequency && (
+                        <>
+                          <strong>Frequency:</strong> {formatFrequency(config.selectedClockSource.frequency)}<br/>
+                        </>
+                      )}
+                      {config.selectedClockSource.startupTime && (
+                        <>
+                          <strong>Startup Time:</strong> {config.selectedClockSource.startupTime}
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p style={{ color: '#666' }}>No clock sources found in ATDF file. Using default configuration.</p>
+              )}
 
-            {config.selectedClockSource && (
-              <div style={{ marginBottom: '15px' }}>
-                <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
-                  Base Frequency:
-                </label>
-                <input
-                  type="number"
-                  value={config.frequency}
-                  onChange={(e) => setConfig(prev => ({ ...prev, frequency: parseInt(e.target.value) || 0 }))}
-                  style={{
-                    padding: '8px 12px',
-                    borderRadius: '4px',
-                    border: '1px solid #ced4da',
-                    fontSize: '14px',
-                    marginRight: '10px',
-                    width: '150px'
-                  }}
-                />
-                <span style={{ color: '#6c757d' }}>Hz ({formatFrequency(config.frequency)})</span>
-              </div>
-            )}
+              {config.selectedClockSource && (
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+                    Base Frequency:
+                  </label>
+                  <input
+                    type="number"
+                    value={config.frequency}
+                    onChange={(e) => handleFrequencyChange(parseInt(e.target.value) || 0)}
+                    style={{
+                      padding: '8px 12px',
+                      borderRadius: '4px',
+                      border: '1px solid #ced4da',
+                      fontSize: '14px',
+                      marginRight: '10px',
+                      width: '150px'
+                    }}
+                  />
+                  <span style={{ color: '#6c757d' }}>Hz ({formatFrequency(config.frequency)})</span>
+                </div>
+              )}
 
-            {clockInfo.systemPrescalers.length > 0 && (
-              <div style={{ marginBottom: '15px' }}>
-                <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
-                  System Prescaler:
-                </label>
-                <select 
-                  value={config.systemPrescaler?.value.toString() || ''}
-                  onChange={(e) => handleSystemPrescalerChange(e.target.value)}
-                  style={{
-                    padding: '8px 12px',
-                    borderRadius: '4px',
-                    border: '1px solid #ced4da',
-                    fontSize: '14px',
-                    minWidth: '200px'
-                  }}
-                >
-                  <option value="">Select prescaler...</option>
-                  {clockInfo.systemPrescalers.map(prescaler => (
-                    <option key={prescaler.value} value={prescaler.value.toString()}>
-                      /{prescaler.divider} - {prescaler.caption}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            )}
-          </div>
+              {clockInfo.systemPrescalers.length > 0 && (
+                <div style={{ marginBottom: '15px' }}>
+                  <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+                    System Prescaler:
+                  </label>
+                  <select 
+                    value={config.systemPrescaler?.value.toString() || ''}
+                    onChange={(e) => handleSystemPrescalerChange(e.target.value)}
+                    style={{
+                      padding: '8px 12px',
+                      borderRadius: '4px',
+                      border: '1px solid #ced4da',
+                      fontSize: '14px',
+                      minWidth: '200px'
+                    }}
+                  >
+                    <option value="">Select prescaler...</option>
+                    {clockInfo.systemPrescalers.map(prescaler => (
+                      <option key={prescaler.value} value={prescaler.value.toString()}>
+                        /{prescaler.divider} - {prescaler.caption}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {linkedFuses.length > 0 && (
+                <div style={{ fontSize: '13px', color: '#666' }}>
+                  🔗 Kept in sync with the fuses: {linkedFuses.join(', ')}
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Calculated Frequencies */}
-          {config.selectedClockSource && config.systemPrescaler && (
+          {!clockInfo.clockTree && config.selectedClockSource && (config.systemPrescaler || clockInfo.systemPrescalers.length === 0) && (
             <div style={{ 
               backgroundColor: '#e3f2fd', 
               padding: '20px', 
@@ -324,7 +420,7 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
           )}
 
           {/* Configuration Export */}
-          {config.selectedClockSource && config.systemPrescaler && (
+          {!clockInfo.clockTree && config.selectedClockSource && (config.systemPrescaler || clockInfo.systemPrescalers.length === 0) && (
             <div style={{ textAlign: 'center' }}>
               <button
                 onClick={() => {
@@ -334,7 +430,8 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
 #define F_CPU ${config.cpuFrequency}UL
 
 // Clock Source: ${config.selectedClockSource?.name} (${config.selectedClockSource?.value})
-// System Prescaler: ${config.systemPrescaler?.name} (/${config.systemPrescaler?.divider})
+${config.systemPrescaler ? `// System Prescaler: ${config.systemPrescaler.name} (/${config.systemPrescaler.divider})` : '// No system prescaler'}
+${config.systemPrescaler?.register ? `// ${config.systemPrescaler.register} = 0x${config.systemPrescaler.value.toString(16).toUpperCase().padStart(2, '0')}` : ''}
                   `.trim();
                   
                   navigator.clipboard.writeText(configText).then(() => {
@@ -418,6 +515,45 @@ export const ClockConfigurator: React.FC<ClockConfiguratorProps> = ({ device })
           )}
         </div>
       )}
+
+      {/* UART Tab */}
+      {activeTab === 'uart' && (
+        <div style={{ 
+          backgroundColor: '#e8f5e9', 
+          padding: '20px', 
+          borderRadius: '8px', 
+          border: '1px solid #a5d6a7'
+        }}>
+          <h3 style={{ marginBottom: '15px', color: '#2e7d32' }}>📡 UART Baud Rate</h3>
+          <UartConfigurator device={device} clockFrequency={config.peripheralFrequency} />
+        </div>
+      )}
+
+      {/* SPI Tab */}
+      {activeTab === 'spi' && (
+        <div style={{ 
+          backgroundColor: '#fff8e1', 
+          padding: '20px', 
+          borderRadius: '8px', 
+          border: '1px solid #ffe082'
+        }}>
+          <h3 style={{ marginBottom: '15px', color: '#ff8f00' }}>🔌 SPI Clock</h3>
+          <SpiConfigurator device={device} clockFrequency={config.peripheralFrequency} />
+        </div>
+      )}
+
+      {/* TWI Tab */}
+      {activeTab === 'twi' && (
+        <div style={{ 
+          backgroundColor: '#e0f7fa', 
+          padding: '20px', 
+          borderRadius: '8px', 
+          border: '1px solid #80deea'
+        }}>
+          <h3 style={{ marginBottom: '15px', color: '#00838f' }}>🔗 TWI/I2C Clock</h3>
+          <TwiConfigurator device={device} clockFrequency={config.peripheralFrequency} />
+        </div>
+      )}
     </div>
   );
 };
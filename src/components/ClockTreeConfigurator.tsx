@@ -0,0 +1,270 @@
+import React, { useEffect, useState } from 'react';
+import type { AtPackDevice, ClockTreeFrequencies, ClockTreeSelection, ClockTreeSource } from '../types/atpack';
+import { computeClockTree, formatFrequency, getDefaultClockTreeSelection } from '../utils/clockTree';
+import { ClockTreeDiagram } from './ClockTreeDiagram';
+
+interface ClockTreeConfiguratorProps {
+  device: AtPackDevice;
+  onFrequenciesChange?: (frequencies: ClockTreeFrequencies) => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '5px',
+  fontWeight: 'bold'
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  borderRadius: '4px',
+  border: '1px solid #ced4da',
+  fontSize: '14px',
+  minWidth: '200px'
+};
+
+const cardStyle: React.CSSProperties = {
+  padding: '10px',
+  backgroundColor: 'white',
+  borderRadius: '4px'
+};
+
+/**
+ * Clock tree configurator of CLKCTRL (AVR8X) and XMEGA devices: main clock source and
+ * oscillator frequency, system prescaler (A, B and C on XMEGA), PLL and RTC clock, starting
+ * from the reset state, with the diagram and the resulting clock frequencies
+ */
+export const ClockTreeConfigurator: React.FC<ClockTreeConfiguratorProps> = ({ device, onFrequenciesChange }) => {
+  const clockInfo = device.clockInfo;
+  const [selection, setSelection] = useState<ClockTreeSelection | null>(() => clockInfo ? getDefaultClockTreeSelection(clockInfo) : null);
+
+  useEffect(() => {
+    setSelection(clockInfo ? getDefaultClockTreeSelection(clockInfo) : null);
+  }, [clockInfo]);
+
+  const frequencies = clockInfo && selection ? computeClockTree(clockInfo, selection) : null;
+
+  useEffect(() => {
+    if (frequencies && onFrequenciesChange) {
+      onFrequenciesChange(frequencies);
+    }
+    // Frequencies are recomputed on each render, report them when a value changes
+  }, [frequencies?.cpu, frequencies?.per, onFrequenciesChange]);
+
+  const clockTree = clockInfo?.clockTree;
+  if (!clockInfo || !clockTree || !selection || !frequencies) {
+    return null;
+  }
+
+  const update = (changes: Partial<ClockTreeSelection>) => {
+    setSelection({ ...selection, ...changes });
+  };
+
+  const setSourceFrequency = (name: string, frequency: number) => {
+    update({ sourceFrequencies: { ...selection.sourceFrequencies, [name]: frequency } });
+  };
+
+  const source = clockTree.sources.find(s => s.value === selection.source);
+  const rtcSource = clockTree.rtcSources.find(s => s.value === selection.rtcSource);
+  const pllInfo = clockInfo.pllInfo;
+
+  // Frequency control of a source: its options, a user value, or nothing for fixed oscillators
+  const renderFrequency = (clockSource: ClockTreeSource | undefined) => {
+    if (!clockSource || clockSource.type === 'pll') {
+      return null;
+    }
+    const frequency = selection.sourceFrequencies[clockSource.name] ?? 0;
+    if (clockSource.frequencyOptions) {
+      return (
+        <div style={{ marginBottom: '15px' }}>
+          <label style={labelStyle}>{clockSource.name} Frequency ({clockSource.frequencyRegister}):</label>
+          <select
+            value={frequency}
+            onChange={(e) => setSourceFrequency(clockSource.name, parseInt(e.target.value))}
+            style={selectStyle}
+          >
+            {clockSource.frequencyOptions.map(option => (
+              <option key={option.value} value={option.frequency}>
+                {formatFrequency(option.frequency)} ({option.name}){option.value === clockSource.defaultFrequency ? ' - reset' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      );
+    }
+    if (clockSource.frequency === undefined) {
+      return (
+        <div style={{ marginBottom: '15px' }}>
+          <label style={labelStyle}>{clockSource.name} Frequency:</label>
+          <input
+            type="number"
+            value={frequency}
+            onChange={(e) => setSourceFrequency(clockSource.name, parseInt(e.target.value) || 0)}
+            style={{ ...selectStyle, minWidth: 0, width: '150px', marginRight: '10px' }}
+          />
+          <span style={{ color: '#6c757d' }}>Hz ({formatFrequency(frequency)})</span>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <>
+      <div style={{
+        backgroundColor: '#f8f9fa',
+        padding: '20px',
+        borderRadius: '8px',
+        marginBottom: '20px',
+        border: '1px solid #e9ecef'
+      }}>
+        <h3 style={{ marginBottom: '15px', color: '#495057' }}>🌳 Clock Tree</h3>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))', gap: '0 20px' }}>
+          <div>
+            <div style={{ marginBottom: '15px' }}>
+              <label style={labelStyle}>Main Clock ({clockTree.mainClockRegister}):</label>
+              <select value={selection.source} onChange={(e) => update({ source: parseInt(e.target.value) })} style={selectStyle}>
+                {clockTree.sources.map(s => (
+                  <option key={s.value} value={s.value}>
+                    {s.name} - {s.caption}{s.value === clockTree.defaultSource ? ' (reset)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {renderFrequency(source)}
+
+            {source?.autotune && (
+              <div style={{ marginBottom: '15px' }}>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={selection.autotune}
+                    onChange={(e) => update({ autotune: e.target.checked })}
+                  />
+                  {' '}Auto-tune {source.name} against the 32.768 kHz crystal
+                </label>
+              </div>
+            )}
+
+            {clockInfo.systemPrescalers.length > 0 && (
+              <div style={{ marginBottom: '15px' }}>
+                <label style={labelStyle}>
+                  {clockTree.kind === 'xmega' ? 'Prescaler A' : 'Main Clock Prescaler'} ({clockInfo.systemPrescalers[0].register}):
+                </label>
+                <select value={selection.prescaler ?? ''} onChange={(e) => update({ prescaler: parseInt(e.target.value) })} style={selectStyle}>
+                  {clockInfo.systemPrescalers.map(prescaler => (
+                    <option key={prescaler.value} value={prescaler.value}>
+                      /{prescaler.divider} - {prescaler.caption}{prescaler.value === clockTree.defaultPrescaler ? ' (reset)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {clockTree.bcPrescalers.length > 0 && (
+              <div style={{ marginBottom: '15px' }}>
+                <label style={labelStyle}>Prescalers B and C (CLK.PSCTRL):</label>
+                <select value={selection.bcPrescaler ?? ''} onChange={(e) => update({ bcPrescaler: parseInt(e.target.value) })} style={selectStyle}>
+                  {clockTree.bcPrescalers.map(prescaler => (
+                    <option key={prescaler.value} value={prescaler.value}>
+                      B /{prescaler.dividerB}, C /{prescaler.dividerC}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div>
+            {pllInfo?.available && pllInfo.sources && pllInfo.sources.length > 0 && (
+              <div style={{ marginBottom: '15px' }}>
+                <label style={labelStyle}>PLL ({pllInfo.register ?? 'PLL'}):</label>
+                <select value={selection.pllSource ?? ''} onChange={(e) => update({ pllSource: parseInt(e.target.value) })} style={{ ...selectStyle, marginRight: '10px' }}>
+                  {pllInfo.sources.map(pllSource => (
+                    <option key={pllSource.value} value={pllSource.value}>{pllSource.name}</option>
+                  ))}
+                </select>
+                {pllInfo.multipliers && pllInfo.multipliers.length > 0 && (
+                  <select
+                    value={selection.pllMultiplier ?? ''}
+                    onChange={(e) => update({ pllMultiplier: parseInt(e.target.value) })}
+                    style={{ ...selectStyle, minWidth: '80px' }}
+                  >
+                    {pllInfo.multipliers.map(multiplier => (
+                      <option key={multiplier.value} value={multiplier.value}>×{multiplier.multiplier}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+
+            {clockTree.rtcSources.length > 0 && (
+              <div style={{ marginBottom: '15px' }}>
+                <label style={labelStyle}>RTC Clock ({clockTree.rtcRegister}):</label>
+                <select value={selection.rtcSource ?? ''} onChange={(e) => update({ rtcSource: parseInt(e.target.value) })} style={selectStyle}>
+                  {clockTree.rtcSources.map(s => (
+                    <option key={s.value} value={s.value}>
+                      {s.name} - {s.caption}{s.value === clockTree.defaultRtcSource ? ' (reset)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {rtcSource?.name !== source?.name && renderFrequency(rtcSource)}
+          </div>
+        </div>
+
+        <ClockTreeDiagram clockInfo={clockInfo} selection={selection} frequencies={frequencies} />
+      </div>
+
+      <div style={{
+        backgroundColor: '#e3f2fd',
+        padding: '20px',
+        borderRadius: '8px',
+        marginBottom: '20px',
+        border: '1px solid #bbdefb'
+      }}>
+        <h3 style={{ marginBottom: '15px', color: '#1565c0' }}>📊 System Frequencies</h3>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '15px' }}>
+          <div style={cardStyle}>
+            <strong>{clockTree.kind === 'xmega' ? 'clkSYS' : 'CLK_MAIN'}:</strong><br />
+            <span style={{ fontSize: '18px', color: '#1976d2' }}>{formatFrequency(frequencies.main)}</span>
+          </div>
+          {frequencies.per4 !== undefined && (
+            <div style={cardStyle}>
+              <strong>clkPER4:</strong><br />
+              <span style={{ fontSize: '18px', color: '#1976d2' }}>{formatFrequency(frequencies.per4)}</span>
+            </div>
+          )}
+          {frequencies.per2 !== undefined && (
+            <div style={cardStyle}>
+              <strong>clkPER2:</strong><br />
+              <span style={{ fontSize: '18px', color: '#1976d2' }}>{formatFrequency(frequencies.per2)}</span>
+            </div>
+          )}
+          <div style={cardStyle}>
+            <strong>{clockTree.kind === 'xmega' ? 'clkCPU / clkPER' : 'CLK_CPU / CLK_PER'}:</strong><br />
+            <span style={{ fontSize: '18px', color: '#1976d2' }}>{formatFrequency(frequencies.cpu)}</span>
+          </div>
+          {frequencies.pll !== undefined && (
+            <div style={cardStyle}>
+              <strong>PLL:</strong><br />
+              <span style={{ fontSize: '18px', color: '#1976d2' }}>{formatFrequency(frequencies.pll)}</span>
+            </div>
+          )}
+          {frequencies.rtc !== undefined && (
+            <div style={cardStyle}>
+              <strong>CLK_RTC:</strong><br />
+              <span style={{ fontSize: '18px', color: '#1976d2' }}>{formatFrequency(frequencies.rtc)}</span>
+            </div>
+          )}
+        </div>
+        <div style={{ marginTop: '10px', fontSize: '13px', color: '#666' }}>
+          <code>#define F_CPU {Math.round(frequencies.cpu)}UL</code>
+        </div>
+      </div>
+    </>
+  );
+};
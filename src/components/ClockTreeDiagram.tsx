@@ -0,0 +1,243 @@
+import React from 'react';
+import type { ClockTreeFrequencies, ClockTreeSelection, ClockTreeSource, DeviceClockInfo } from '../types/atpack';
+import { formatFrequency } from '../utils/clockTree';
+
+interface ClockTreeDiagramProps {
+  clockInfo: DeviceClockInfo;
+  selection: ClockTreeSelection;
+  frequencies: ClockTreeFrequencies;
+}
+
+const HIGHLIGHT_COLOR = '#007acc';
+const LINE_COLOR = '#adb5bd';
+const FONT = 'Arial, sans-serif';
+
+// Drawing units (SVG user units)
+const MARGIN = 10;
+const BOX_WIDTH = 170;
+const BOX_HEIGHT = 38;
+const BOX_GAP = 8;
+const MUX_X = MARGIN + BOX_WIDTH + 40;
+const MUX_WIDTH = 24;
+const PRESCALER_WIDTH = 80;
+const LINK_LENGTH = 130; // Line between two stages, with the clock name above it
+const GROUP_GAP = 30; // Space between the main, PLL and RTC clock groups
+
+interface Stage {
+  label: string;
+  detail: string;
+  output: string; // Clock name and frequency after the stage
+}
+
+const SourceBox: React.FC<{ source: ClockTreeSource; y: number; selected: boolean; detail: string }> = ({ source, y, selected, detail }) => (
+  <g>
+    <title>{source.caption}</title>
+    <rect
+      x={MARGIN}
+      y={y}
+      width={BOX_WIDTH}
+      height={BOX_HEIGHT}
+      rx={4}
+      fill={selected ? '#e3f2fd' : '#f8f9fa'}
+      stroke={selected ? HIGHLIGHT_COLOR : LINE_COLOR}
+      strokeWidth={selected ? 2 : 1}
+    />
+    <text x={MARGIN + 8} y={y + 16} fontSize={12} fontWeight="bold" fontFamily={FONT}>{source.name}</text>
+    <text x={MARGIN + 8} y={y + 31} fontSize={11} fill="#555" fontFamily={FONT}>{detail}</text>
+  </g>
+);
+
+/**
+ * Draw one clock selector group: source boxes, the selector, the clock leaving it and the
+ * prescaler stages after it, each link labeled with its clock
+ */
+const renderGroup = (
+  sources: { source: ClockTreeSource; detail: string }[],
+  selectedValue: number | undefined,
+  selectorLabel: string,
+  selectedClock: string,
+  stages: Stage[],
+  top: number,
+  keyPrefix: string
+): { elements: React.ReactNode[]; height: number; width: number } => {
+  const height = sources.length * (BOX_HEIGHT + BOX_GAP) - BOX_GAP;
+  const middle = top + height / 2;
+  const elements: React.ReactNode[] = [];
+
+  sources.forEach(({ source, detail }, index) => {
+    const y = top + index * (BOX_HEIGHT + BOX_GAP);
+    const selected = source.value === selectedValue;
+    elements.push(
+      <SourceBox key={`${keyPrefix}-box-${source.value}`} source={source} y={y} selected={selected} detail={detail} />,
+      <line
+        key={`${keyPrefix}-line-${source.value}`}
+        x1={MARGIN + BOX_WIDTH}
+        y1={y + BOX_HEIGHT / 2}
+        x2={MUX_X}
+        y2={y + BOX_HEIGHT / 2}
+        stroke={selected ? HIGHLIGHT_COLOR : LINE_COLOR}
+        strokeWidth={selected ? 2.5 : 1}
+      />
+    );
+  });
+
+  elements.push(
+    <polygon
+      key={`${keyPrefix}-mux`}
+      points={`${MUX_X},${top - 4} ${MUX_X + MUX_WIDTH},${top + 8} ${MUX_X + MUX_WIDTH},${top + height - 8} ${MUX_X},${top + height + 4}`}
+      fill="#fff3cd"
+      stroke="#856404"
+    />,
+    <text key={`${keyPrefix}-mux-label`} x={MUX_X} y={top - 10} fontSize={10} fontFamily={FONT}>
+      {selectorLabel}
+    </text>
+  );
+
+  let x = MUX_X + MUX_WIDTH;
+  let clock = selectedClock;
+  stages.forEach((stage, index) => {
+    const boxX = x + LINK_LENGTH;
+    elements.push(
+      <line key={`${keyPrefix}-link-${index}`} x1={x} y1={middle} x2={boxX} y2={middle} stroke={HIGHLIGHT_COLOR} strokeWidth={2.5} />,
+      <text key={`${keyPrefix}-clock-${index}`} x={x + 6} y={middle - 8} fontSize={10} fill="#1565c0" fontFamily={FONT}>
+        {clock}
+      </text>,
+      <rect
+        key={`${keyPrefix}-stage-${index}`}
+        x={boxX}
+        y={middle - BOX_HEIGHT / 2}
+        width={PRESCALER_WIDTH}
+        height={BOX_HEIGHT}
+        rx={4}
+        fill="#f3e5f5"
+        stroke="#7b1fa2"
+      />,
+      <text key={`${keyPrefix}-stage-label-${index}`} x={boxX + PRESCALER_WIDTH / 2} y={middle - 3} fontSize={12} fontWeight="bold" textAnchor="middle" fontFamily={FONT}>
+        {stage.label}
+      </text>,
+      <text key={`${keyPrefix}-stage-detail-${index}`} x={boxX + PRESCALER_WIDTH / 2} y={middle + 12} fontSize={10} fill="#555" textAnchor="middle" fontFamily={FONT}>
+        {stage.detail}
+      </text>
+    );
+    x = boxX + PRESCALER_WIDTH;
+    clock = stage.output;
+  });
+
+  elements.push(
+    <line key={`${keyPrefix}-out`} x1={x} y1={middle} x2={x + 20} y2={middle} stroke={HIGHLIGHT_COLOR} strokeWidth={2.5} />,
+    <text key={`${keyPrefix}-out-label`} x={x + 26} y={middle + 4} fontSize={12} fontWeight="bold" fill="#1565c0" fontFamily={FONT}>
+      {clock}
+    </text>
+  );
+
+  // Clock labels are estimated at 7 units per character
+  return { elements, height, width: x + 26 + clock.length * 7 + MARGIN };
+};
+
+/**
+ * Clock tree diagram of CLKCTRL (AVR8X) and XMEGA devices: oscillators, main clock
+ * selector, prescalers and resulting clocks, PLL and RTC clock selection. The selected
+ * paths are highlighted.
+ */
+export const ClockTreeDiagram: React.FC<ClockTreeDiagramProps> = ({ clockInfo, selection, frequencies }) => {
+  const clockTree = clockInfo.clockTree;
+  if (!clockTree) {
+    return null;
+  }
+
+  const pllInfo = clockInfo.pllInfo;
+  const pllSourceName = pllInfo?.sources?.find(source => source.value === selection.pllSource)?.name;
+  const pllFactor = pllInfo?.multipliers?.find(m => m.value === selection.pllMultiplier)?.multiplier ?? pllInfo?.multiplier;
+  const pllDetail = pllSourceName && pllFactor ? `${pllSourceName} ×${pllFactor}` : '';
+
+  const describe = (source: ClockTreeSource): string => {
+    if (source.type === 'pll') {
+      return `${pllDetail} ${frequencies.pll !== undefined ? formatFrequency(frequencies.pll) : ''}`.trim();
+    }
+    const frequency = selection.sourceFrequencies[source.name] ?? source.frequency;
+    const tuned = source.autotune && selection.autotune ? ' (auto-tuned)' : '';
+    return frequency !== undefined ? `${formatFrequency(frequency)}${tuned}` : 'user frequency';
+  };
+
+  const prescaler = clockInfo.systemPrescalers.find(p => p.value === selection.prescaler);
+  const stages: Stage[] = [];
+  if (clockTree.kind === 'xmega') {
+    const bc = clockTree.bcPrescalers.find(p => p.value === selection.bcPrescaler);
+    stages.push(
+      { label: `A ÷${prescaler?.divider ?? 1}`, detail: 'PSADIV', output: `clkPER4 ${formatFrequency(frequencies.per4 ?? 0)}` },
+      { label: `B ÷${bc?.dividerB ?? 1}`, detail: 'PSBCDIV', output: `clkPER2 ${formatFrequency(frequencies.per2 ?? 0)}` },
+      { label: `C ÷${bc?.dividerC ?? 1}`, detail: 'PSBCDIV', output: `clkCPU / clkPER ${formatFrequency(frequencies.cpu)}` }
+    );
+  } else {
+    stages.push({
+      label: `÷${prescaler?.divider ?? 1}`,
+      detail: prescaler && prescaler.divider > 1 ? 'PDIV' : 'PEN off',
+      output: `CLK_CPU / CLK_PER ${formatFrequency(frequencies.cpu)}`
+    });
+  }
+
+  let top = MARGIN + 14;
+  const groups: React.ReactNode[] = [];
+  let width = 0;
+
+  const main = renderGroup(
+    clockTree.sources.map(source => ({ source, detail: describe(source) })),
+    selection.source,
+    clockTree.mainClockRegister,
+    `${clockTree.kind === 'xmega' ? 'clkSYS' : 'CLK_MAIN'} ${formatFrequency(frequencies.main)}`,
+    stages,
+    top,
+    'main'
+  );
+  groups.push(...main.elements);
+  width = Math.max(width, main.width);
+  top += main.height + GROUP_GAP;
+
+  // AVR Dx PLL: a separate clock for the 12-bit timer (TCD), not a main clock source
+  const pllIsMainSource = clockTree.sources.some(source => source.type === 'pll');
+  if (pllInfo?.available && !pllIsMainSource && frequencies.pll !== undefined) {
+    const pllSource: ClockTreeSource = { name: 'PLL', caption: 'Phase-locked loop', value: 0, type: 'pll' };
+    const pll = renderGroup(
+      [{ source: pllSource, detail: describe(pllSource) }],
+      0,
+      pllInfo.register ?? 'PLL',
+      `CLK_PLL ${formatFrequency(frequencies.pll)} (TCD)`,
+      [],
+      top,
+      'pll'
+    );
+    groups.push(...pll.elements);
+    width = Math.max(width, pll.width);
+    top += pll.height + GROUP_GAP;
+  }
+
+  if (clockTree.rtcSources.length > 0) {
+    const rtc = renderGroup(
+      clockTree.rtcSources.map(source => ({ source, detail: describe(source) })),
+      selection.rtcSource,
+      clockTree.rtcRegister ?? 'RTC',
+      `CLK_RTC ${frequencies.rtc !== undefined ? formatFrequency(frequencies.rtc) : ''}`.trim(),
+      [],
+      top,
+      'rtc'
+    );
+    groups.push(...rtc.elements);
+    width = Math.max(width, rtc.width);
+    top += rtc.height + GROUP_GAP;
+  }
+
+  const height = top - GROUP_GAP + MARGIN + 4;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ maxWidth: '100%', height: 'auto', backgroundColor: 'white', border: '1px solid #e9ecef', borderRadius: '8px' }}
+      role="img"
+      aria-label="Clock tree"
+    >
+      {groups}
+    </svg>
+  );
+};
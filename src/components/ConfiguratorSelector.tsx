@@ -1,12 +1,15 @@
 import React from 'react';
 import { FusesConfigurator } from './FusesConfigurator';
 import PicConfigurator from './PicConfigurator';
-import type { AtPackDevice } from '../types/atpack';
+import type { AtPackDevice, FuseSafetyFinding } from '../types/atpack';
 import { DeviceFamily } from '../types/atpack';
 
 interface ConfiguratorSelectorProps {
   device: AtPackDevice;
   formatAddress: (address: number) => string;
+  initialValues?: Record<string, number>; // Fuse/config word values to start from
+  onValuesChange?: (values: Record<string, number>) => void; // Fuse/config word values keyed by name
+  findings?: FuseSafetyFinding[];
 }
 
 /**
@@ -15,7 +18,10 @@ interface ConfiguratorSelectorProps {
  */
 export const ConfiguratorSelector: React.FC<ConfiguratorSelectorProps> = ({
   device,
-  formatAddress
+  formatAddress,
+  initialValues,
+  onValuesChange,
+  findings
 }) => {
   // Determine device family
   const deviceFamily = device.deviceFamily;
@@ -37,6 +43,9 @@ export const ConfiguratorSelector: React.FC<ConfiguratorSelectorProps> = ({
           <FusesConfigurator 
             fuses={device.fuses} 
             formatAddress={formatAddress} 
+            initialValues={initialValues}
+            onValuesChange={onValuesChange}
+            findings={findings}
           />
         </div>
       );
@@ -56,6 +65,8 @@ export const ConfiguratorSelector: React.FC<ConfiguratorSelectorProps> = ({
           </div>
           <PicConfigurator 
             device={device}
+            initialValues={initialValues}
+            onValuesChange={onValuesChange}
           />
         </div>
       );
@@ -98,6 +109,9 @@ export const ConfiguratorSelector: React.FC<ConfiguratorSelectorProps> = ({
           <FusesConfigurator 
             fuses={device.fuses} 
             formatAddress={formatAddress} 
+            initialValues={initialValues}
+            onValuesChange={onValuesChange}
+            findings={findings}
           />
         </div>
       );
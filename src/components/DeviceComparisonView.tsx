@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { useAtPackStore } from '../stores/atpackStore';
+import { DeviceComparator, type ComparisonEntry } from '../services/DeviceComparator';
+import type { ComparisonStatus } from '../types/atpack';
+import { getDeviceKey } from '../utils/shareState';
+
+const STATUS_STYLES: Record<ComparisonStatus, React.CSSProperties> = {
+  same: {},
+  added: { backgroundColor: '#d4edda', color: '#155724' },
+  removed: { backgroundColor: '#f8d7da', color: '#721c24' },
+  changed: { backgroundColor: '#fff3cd', color: '#856404' }
+};
+
+const STATUS_LABELS: Record<ComparisonStatus, string> = {
+  same: 'Same',
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: '1px solid #ddd',
+  fontSize: '12px',
+  verticalAlign: 'top'
+};
+
+/**
+ * Side-by-side comparison of devices from any loaded pack, highlighting what each
+ * device adds, removes or changes relative to the first (reference) device
+ */
+export const DeviceComparisonView: React.FC = () => {
+  const {
+    atpacks,
+    selectedAtPack,
+    selectedDevice,
+    comparedDevices,
+    deviceLoadStates,
+    addComparedDevice,
+    removeComparedDevice
+  } = useAtPackStore();
+  const [packIndex, setPackIndex] = useState<string>('');
+  const [deviceName, setDeviceName] = useState<string>('');
+  const [differencesOnly, setDifferencesOnly] = useState(true);
+
+  // Compared devices of the loaded packs, in comparison order
+  const entries = useMemo(() => {
+    const devicesByKey = new Map<string, ComparisonEntry>();
+    atpacks.forEach(atpack => atpack.devices.forEach(device => {
+      devicesByKey.set(getDeviceKey(atpack, device), { atpack, device });
+    }));
+    return comparedDevices
+      .map(key => devicesByKey.get(key))
+      .filter((entry): entry is ComparisonEntry => !!entry);
+  }, [atpacks, comparedDevices]);
+
+  // Devices are enriched in place, so their load states tell when the comparison can be made
+  const loadingDevices = useMemo(() => entries.filter(({ atpack, device }) =>
+    deviceLoadStates[getDeviceKey(atpack, device)]?.status === 'loading'
+  ), [entries, deviceLoadStates]);
+
+  const comparison = useMemo(() => {
+    return entries.length < 2 || loadingDevices.length > 0 ? null : new DeviceComparator().compare(entries);
+  }, [entries, loadingDevices]);
+
+  const pack = packIndex ? atpacks[parseInt(packIndex)] : null;
+
+  const handleAdd = () => {
+    const device = pack?.devices.find(d => d.name === deviceName);
+    if (pack && device) {
+      addComparedDevice(pack, device);
+      setDeviceName('');
+    }
+  };
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <h2>⚖️ Device Comparison</h2>
+      <p style={{ color: '#666', fontSize: '13px' }}>
+        Add devices from any loaded pack. The first device is the reference: other devices are
+        compared against it, with added, removed and changed items highlighted.
+      </p>
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '10px' }}>
+        <select value={packIndex} onChange={(e) => { setPackIndex(e.target.value); setDeviceName(''); }}>
+          <option value="">- select a pack -</option>
+          {atpacks.map((atpack, index) => (
+            <option key={index} value={index.toString()}>{atpack.metadata.name} ({atpack.version})</option>
+          ))}
+        </select>
+        <select value={deviceName} onChange={(e) => setDeviceName(e.target.value)} disabled={!pack}>
+          <option value="">- select a device -</option>
+          {pack?.devices.map(device => (
+            <option key={device.name} value={device.name}>{device.name}</option>
+          ))}
+        </select>
+        <button onClick={handleAdd} disabled={!pack || !deviceName}>➕ Add</button>
+        {selectedAtPack && selectedDevice && (
+          <button onClick={() => addComparedDevice(selectedAtPack, selectedDevice)}>
+            ➕ Add current device ({selectedDevice.name})
+          </button>
+        )}
+      </div>
+
+      {entries.length > 0 && (
+        <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '10px' }}>
+          {entries.map(({ atpack, device }, index) => {
+            const key = getDeviceKey(atpack, device);
+            return (
+              <span key={key} style={{
+                padding: '3px 8px',
+                border: '1px solid #ccc',
+                borderRadius: '12px',
+                fontSize: '12px',
+                backgroundColor: index === 0 ? '#e7f3ff' : '#f8f9fa'
+              }} title={key}>
+                {device.name}{index === 0 && ' (reference)'}
+                {deviceLoadStates[key]?.status === 'error' && ' ❌'}
+                <button
+                  onClick={() => removeComparedDevice(key)}
+                  style={{ fontSize: '11px', marginLeft: '4px', border: 'none', background: 'none', cursor: 'pointer' }}
+                  title="Remove from comparison"
+                >
+                  ✕
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {entries.length < 2 ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#666', border: '1px dashed #ccc' }}>
+          Add at least two devices to compare them
+        </div>
+      ) : loadingDevices.length > 0 ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#666' }}>
+          ⏳ Loading device data for {loadingDevices.map(({ device }) => device.name).join(', ')}...
+        </div>
+      ) : comparison && (
+        <>
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center', fontSize: '12px', marginBottom: '10px' }}>
+            <label>
+              <input type="checkbox" checked={differencesOnly} onChange={(e) => setDifferencesOnly(e.target.checked)} />
+              {' '}Show differences only
+            </label>
+            {(['added', 'removed', 'changed'] as ComparisonStatus[]).map(status => (
+              <span key={status} style={{ ...STATUS_STYLES[status], padding: '2px 6px', borderRadius: '3px' }}>
+                {STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+
+          {comparison.sections.map(section => {
+            const differences = section.rows.filter(row => row.status !== 'same');
+            const rows = differencesOnly ? differences : section.rows;
+            return (
+              <details key={section.id} open={differences.length > 0} style={{ marginBottom: '10px' }}>
+                <summary style={{ cursor: 'pointer', fontWeight: 'bold' }}>
+                  {section.title} ({differences.length} difference{differences.length === 1 ? '' : 's'} in {section.rows.length} items)
+                </summary>
+                {rows.length === 0 ? (
+                  <div style={{ padding: '8px', color: '#666', fontSize: '12px' }}>No differences</div>
+                ) : (
+                  <table style={{ borderCollapse: 'collapse', marginTop: '5px', width: '100%' }}>
+                    <thead>
+                      <tr style={{ backgroundColor: '#f8f9fa' }}>
+                        <th style={{ ...cellStyle, textAlign: 'left' }}>Item</th>
+                        {comparison.devices.map(({ pack: packId, device }) => (
+                          <th key={`${packId}/${device}`} style={{ ...cellStyle, textAlign: 'left' }} title={packId}>
+                            {device}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map(row => (
+                        <tr key={row.key}>
+                          <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{row.key}</td>
+                          {row.values.map((value, index) => (
+                            <td key={index} style={{ ...cellStyle, ...STATUS_STYLES[row.statuses[index]] }}>
+                              {value ?? '—'}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </details>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,18 @@
-import React from 'react';
-import { DeviceFamily, type AtPackDevice } from '../types/atpack';
+import React, { useCallback, useMemo } from 'react';
+import { DeviceFamily, type AtPackDevice, type TimerConfigState } from '../types/atpack';
+import { useAtPackStore } from '../stores/atpackStore';
 import type { DeviceDisplayFilters } from './DeviceFilters';
 import { PackageImage } from './PackageImage';
+import { getPackagePins } from '../utils/packagePins';
 import { LockbitsConfigurator } from './LockbitsConfigurator';
 import { ConfiguratorSelector } from './ConfiguratorSelector';
+import { ProgrammerCommands } from './ProgrammerCommands';
 import { PeripheralRegisters } from './PeripheralRegisters';
+import { RegisterExportToolbar } from './RegisterExportToolbar';
 import { PinoutViewer } from './PinoutViewer';
+import { InterruptVectorTable } from './InterruptVectorTable';
 import { TimerConfigurator } from './TimerConfigurator';
+import { FuseSafetyAnalyzer } from '../services/FuseSafetyAnalyzer';
 import { getFamilyEmoji, getFamilyTitle } from '../utils/familyDisplay';
 
 interface DeviceDetailsProps {
@@ -15,6 +21,34 @@ interface DeviceDetailsProps {
 }
 
 export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters }) => {
+  // Configuration reported by the configurators, used for programmer commands and shared URLs
+  const { configuration, updateConfiguration, updateFuseValues } = useAtPackStore();
+  const fuseValues = useMemo(() => configuration.fuseValues || {}, [configuration.fuseValues]);
+  const lockbitValues = useMemo(() => configuration.lockbitValues || {}, [configuration.lockbitValues]);
+  const selectedPinout = configuration.pinout;
+
+  const setFuseValues = useCallback(
+    (values: Record<string, number>) => updateFuseValues(values),
+    [updateFuseValues]
+  );
+  const setLockbitValues = useCallback(
+    (values: Record<string, number>) => updateConfiguration({ lockbitValues: values }),
+    [updateConfiguration]
+  );
+  const setSelectedPinout = useCallback(
+    (pinout: string) => updateConfiguration({ pinout }),
+    [updateConfiguration]
+  );
+  const setTimerConfig = useCallback(
+    (timer: TimerConfigState) => updateConfiguration({ timer }),
+    [updateConfiguration]
+  );
+
+  const safetyFindings = useMemo(
+    () => new FuseSafetyAnalyzer().analyze(device, fuseValues, lockbitValues, selectedPinout),
+    [device, fuseValues, lockbitValues, selectedPinout]
+  );
+
   const formatAddress = (address: number) => {
     return `0x${address.toString(16).toUpperCase().padStart(4, '0')}`;
   };
@@ -147,8 +181,10 @@ export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters })
           <tr id="rowPeripherals">
             <td className="at">Peripherals</td>
             <td id="peripherals">
+              <RegisterExportToolbar device={device} />
               <PeripheralRegisters 
                 peripherals={device.peripherals} 
+                modules={device.modules}
                 formatAddress={formatAddress} 
               />
             </td>
@@ -159,7 +195,11 @@ export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters })
           <tr id="rowPinouts">
             <td className="at">Pinouts</td>
             <td id="pinouts">
-              <PinoutViewer pinouts={device.pinouts} />
+              <PinoutViewer
+                pinouts={device.pinouts}
+                initialPinout={configuration.pinout}
+                onPinoutChange={setSelectedPinout}
+              />
             </td>
           </tr>
         )}
@@ -168,7 +208,12 @@ export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters })
           <tr id="rowTimers">
             <td className="at">Timers</td>
             <td id="timers">
-              <TimerConfigurator timers={device.timers} />
+              <TimerConfigurator
+                timers={device.timers}
+                initialConfig={configuration.timer}
+                clockFrequency={configuration.clock?.cpuFrequency}
+                onConfigChange={setTimerConfig}
+              />
             </td>
           </tr>
         )}
@@ -301,6 +346,9 @@ export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters })
               <ConfiguratorSelector 
                 device={device} 
                 formatAddress={formatAddress} 
+                initialValues={configuration.fuseValues}
+                onValuesChange={setFuseValues}
+                findings={safetyFindings}
               />
             </td>
           </tr>
@@ -314,6 +362,9 @@ export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters })
                 <LockbitsConfigurator 
                   lockbits={device.lockbits} 
                   formatAddress={formatAddress} 
+                  initialValues={configuration.lockbitValues}
+                  onValuesChange={setLockbitValues}
+                  findings={safetyFindings}
                 />
               ) : (
                 <div>
@@ -325,28 +376,25 @@ export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters })
           </tr>
         )}
 
-        {filters.interrupts && device.interrupts && device.interrupts.length > 0 && (
+        {filters.fuses && device.fuses.length > 0 && (
+          <tr id="rowPrg">
+            <td className="at">Programming</td>
+            <td id="programming">
+              <ProgrammerCommands
+                device={device}
+                fuseValues={fuseValues}
+                lockbitValues={device.deviceFamily === DeviceFamily.PIC ? {} : lockbitValues}
+                findings={safetyFindings}
+              />
+            </td>
+          </tr>
+        )}
+
+        {filters.interrupts && (device.interrupts.length > 0 || device.deviceFamily === DeviceFamily.PIC) && (
           <tr id="rowInt">
             <td className="at">Interrupts</td>
             <td id="interrupts">
-              <table>
-                <tbody>
-                  <tr id="interruptshead">
-                    <th>Index</th>
-                    <th>Name</th>
-                    <th>Description</th>
-                  </tr>
-                  {device.interrupts
-                    .sort((a, b) => a.index - b.index)
-                    .map((interrupt, idx) => (
-                      <tr key={idx} className="interruptsgen">
-                        <td className="ar">{interrupt.index}</td>
-                        <td>{interrupt.name}</td>
-                        <td>{interrupt.caption || '-'}</td>
-                      </tr>
-                    ))}
-                </tbody>
-              </table>
+              <InterruptVectorTable device={device} />
             </td>
           </tr>
         )}
@@ -395,7 +443,7 @@ export const DeviceDetails: React.FC<DeviceDetailsProps> = ({ device, filters })
                       <PackageImage 
                         packageName={variant.package} 
                         deviceName={device.name}
-                        pinout={variant.pinout || {}}
+                        pins={getPackagePins(device, variant.package)}
                         scale={1.0}
                       />
                     </div>
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { useAtPackStore } from '../stores/atpackStore';
+import { DeviceSearch, type DeviceSearchResult } from '../services/DeviceSearch';
+import type { DeviceSearchCriteria } from '../types/atpack';
+import { getDeviceKey } from '../utils/shareState';
+
+type SortColumn = 'rank' | 'name' | 'flash' | 'sram' | 'eeprom' | 'pins' | 'adcChannels';
+
+const COLUMNS: { id: SortColumn; title: string }[] = [
+  { id: 'rank', title: '#' },
+  { id: 'name', title: 'Device' },
+  { id: 'flash', title: 'Flash' },
+  { id: 'sram', title: 'SRAM' },
+  { id: 'eeprom', title: 'EEPROM' },
+  { id: 'pins', title: 'Pins' },
+  { id: 'adcChannels', title: 'ADC channels' }
+];
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: '1px solid #ddd',
+  fontSize: '12px',
+  verticalAlign: 'top'
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '80px'
+};
+
+const formatSize = (bytes: number): string => {
+  return bytes >= 1024 ? `${bytes / 1024}KB` : `${bytes}B`;
+};
+
+// Empty fields are not part of the criteria
+const parseNumber = (value: string, factor: number = 1): number | undefined => {
+  const number = parseFloat(value);
+  return isNaN(number) ? undefined : number * factor;
+};
+
+const search = new DeviceSearch();
+
+/**
+ * Parametric search over the devices of all loaded packs (memory, peripherals, package,
+ * operating range, ADC channels), ranked cheapest fit first
+ */
+export const DeviceSearchView: React.FC = () => {
+  const { atpacks, loading, selectAtPack, selectDevice, loadAllDevices } = useAtPackStore();
+  const [text, setText] = useState('');
+  const [minFlash, setMinFlash] = useState('');
+  const [minSram, setMinSram] = useState('');
+  const [minEeprom, setMinEeprom] = useState('');
+  const [peripherals, setPeripherals] = useState('');
+  const [packageType, setPackageType] = useState('');
+  const [minPins, setMinPins] = useState('');
+  const [maxPins, setMaxPins] = useState('');
+  const [supplyVoltage, setSupplyVoltage] = useState('');
+  const [minTemperature, setMinTemperature] = useState('');
+  const [maxTemperature, setMaxTemperature] = useState('');
+  const [minAdcChannels, setMinAdcChannels] = useState('');
+  const [sortColumn, setSortColumn] = useState<SortColumn>('rank');
+  const [sortAscending, setSortAscending] = useState(true);
+
+  const criteria: DeviceSearchCriteria = {
+    text,
+    minFlash: parseNumber(minFlash, 1024),
+    minSram: parseNumber(minSram, 1024),
+    minEeprom: parseNumber(minEeprom),
+    peripherals: search.parseRequirements(peripherals),
+    packageType,
+    minPins: parseNumber(minPins),
+    maxPins: parseNumber(maxPins),
+    supplyVoltage: parseNumber(supplyVoltage),
+    minTemperature: parseNumber(minTemperature),
+    maxTemperature: parseNumber(maxTemperature),
+    minAdcChannels: parseNumber(minAdcChannels)
+  };
+
+  // Devices are enriched in place: the store updates their load states, which re-renders the search
+  const pendingPacks = atpacks.filter(atpack => atpack.devices.some(device => device.enrichmentPending));
+  const pendingDevices = pendingPacks.reduce((count, atpack) =>
+    count + atpack.devices.filter(device => device.enrichmentPending).length, 0);
+
+  const ranked = search.search(atpacks, criteria);
+  const ranks = new Map(ranked.map((result, index) => [getDeviceKey(result.atpack, result.device), index + 1]));
+  const sortValue = (result: DeviceSearchResult): number | string => {
+    if (sortColumn === 'rank') return ranks.get(getDeviceKey(result.atpack, result.device)) ?? 0;
+    return sortColumn === 'name' ? result.device.name : result[sortColumn];
+  };
+  const results = [...ranked].sort((a, b) => {
+    const [first, second] = [sortValue(a), sortValue(b)];
+    const order = typeof first === 'string' ? first.localeCompare(second as string) : first - (second as number);
+    return sortAscending ? order : -order;
+  });
+
+  const handleSort = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortColumn(column);
+      setSortAscending(true);
+    }
+  };
+
+  const handleLoadAll = async () => {
+    for (const atpack of pendingPacks) {
+      await loadAllDevices(atpack);
+    }
+  };
+
+  const handleSelect = (result: DeviceSearchResult) => {
+    selectAtPack(result.atpack);
+    selectDevice(result.device);
+  };
+
+  const field = (label: string, value: string, onChange: (value: string) => void, placeholder?: string, style?: React.CSSProperties) => (
+    <label style={{ display: 'flex', flexDirection: 'column', fontSize: '12px', gap: '2px' }}>
+      {label}
+      <input type="text" value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} style={style || inputStyle} />
+    </label>
+  );
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <h2>🔎 Device Search</h2>
+      <p style={{ color: '#666', fontSize: '13px' }}>
+        Find the devices of the loaded packs meeting your requirements. Results are ranked cheapest
+        fit first (smallest flash, then SRAM and EEPROM); click a column to sort by it.
+      </p>
+
+      {pendingDevices > 0 && (
+        <div style={{
+          backgroundColor: '#fff3cd',
+          border: '1px solid #ffeaa7',
+          borderRadius: '4px',
+          padding: '10px',
+          marginBottom: '10px',
+          color: '#856404',
+          fontSize: '13px'
+        }}>
+          {pendingDevices} device{pendingDevices === 1 ? ' is' : 's are'} not parsed yet and not searched.
+          <button onClick={handleLoadAll} disabled={loading} style={{ marginLeft: '10px', fontSize: '12px' }}>
+            {loading ? '⏳ Loading devices...' : '📥 Parse all devices'}
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: '10px' }}>
+        {field('Name', text, setText, 'ATmega', { width: '120px' })}
+        {field('Min flash (KB)', minFlash, setMinFlash)}
+        {field('Min SRAM (KB)', minSram, setMinSram)}
+        {field('Min EEPROM (B)', minEeprom, setMinEeprom)}
+        {field('Peripherals', peripherals, setPeripherals, '2× USART, 1× TWI, 16-bit timer', { width: '240px' })}
+        {field('Min ADC channels', minAdcChannels, setMinAdcChannels)}
+      </div>
+      <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: '15px' }}>
+        {field('Package', packageType, setPackageType, 'QFN')}
+        {field('Min pins', minPins, setMinPins)}
+        {field('Max pins', maxPins, setMaxPins)}
+        {field('Supply (V)', supplyVoltage, setSupplyVoltage, '3.3')}
+        {field('Min temp (°C)', minTemperature, setMinTemperature, '-40')}
+        {field('Max temp (°C)', maxTemperature, setMaxTemperature, '85')}
+      </div>
+
+      {atpacks.length === 0 ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#666', border: '1px dashed #ccc' }}>
+          Load a pack to search its devices
+        </div>
+      ) : (
+        <>
+          <div style={{ fontSize: '13px', marginBottom: '5px' }}>
+            {results.length} matching device{results.length === 1 ? '' : 's'}
+          </div>
+          <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+            <thead>
+              <tr style={{ backgroundColor: '#f8f9fa' }}>
+                {COLUMNS.map(column => (
+                  <th
+                    key={column.id}
+                    onClick={() => handleSort(column.id)}
+                    style={{ ...cellStyle, textAlign: 'left', cursor: 'pointer' }}
+                  >
+                    {column.title}{sortColumn === column.id && (sortAscending ? ' ▲' : ' ▼')}
+                  </th>
+                ))}
+                <th style={{ ...cellStyle, textAlign: 'left' }}>Packages</th>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>Pack</th>
+                <th style={cellStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => {
+                const key = getDeviceKey(result.atpack, result.device);
+                return (
+                  <tr key={key}>
+                    <td style={cellStyle}>{ranks.get(key)}</td>
+                    <td style={{ ...cellStyle, fontWeight: 'bold' }}>{result.device.name}</td>
+                    <td style={cellStyle}>{formatSize(result.flash)}</td>
+                    <td style={cellStyle}>{formatSize(result.sram)}</td>
+                    <td style={cellStyle}>{formatSize(result.eeprom)}</td>
+                    <td style={cellStyle}>{result.pins || '—'}</td>
+                    <td style={cellStyle}>{result.adcChannels}</td>
+                    <td style={cellStyle}>{result.packages.join(', ') || '—'}</td>
+                    <td style={cellStyle}>{result.atpack.metadata.name} ({result.atpack.version})</td>
+                    <td style={cellStyle}>
+                      <button onClick={() => handleSelect(result)} style={{ fontSize: '11px' }}>
+                        Select
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
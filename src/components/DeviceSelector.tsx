@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { useAtPackStore } from '../stores/atpackStore';
+import { AtPackSerializer } from '../services/AtPackSerializer';
 import { getFamilyEmoji } from '../utils/familyDisplay';
+import { downloadTextFile } from '../utils/download';
 
 export const DeviceSelector: React.FC = () => {
-  const { selectedAtPack, selectDevice } = useAtPackStore();
+  const { selectedAtPack, selectedDevice, selectDevice, loadDevice } = useAtPackStore();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDeviceIndex, setSelectedDeviceIndex] = useState<string>('');
 
@@ -34,6 +36,15 @@ export const DeviceSelector: React.FC = () => {
     }
   };
 
+  const handleExportJson = async () => {
+    if (!selectedDevice) return;
+
+    await loadDevice(selectedDevice, selectedAtPack);
+    const serializer = new AtPackSerializer();
+    const json = serializer.stringify(serializer.exportDevice(selectedAtPack, selectedDevice));
+    downloadTextFile(json, `${selectedDevice.name}.json`, 'application/json');
+  };
+
   return (
     <tr>
       <td>Devices</td>
@@ -46,10 +57,22 @@ export const DeviceSelector: React.FC = () => {
               value={index.toString()}
               title={`${device.deviceFamily || 'Unknown'} - ${device.family} Microcontroller, ${device.memory.flash.size / 1024}KB Flash, ${device.variants.length} variant(s), ${device.modules.length} modules, ${device.fuses.length} fuses`}
             >
-              {device.deviceFamily && getFamilyEmoji(device.deviceFamily)} {device.name} - {device.family}, {Math.round(device.memory.flash.size / 1024)}KB Flash, {device.variants.length} var, {device.modules.length} mod, {device.fuses.length} fuses
+              {device.deviceFamily && getFamilyEmoji(device.deviceFamily)} {device.name} - {device.family}
+              {/* Memory, modules and fuses are only known once the device file is parsed */}
+              {!device.enrichmentPending && `, ${Math.round(device.memory.flash.size / 1024)}KB Flash, ${device.variants.length} var, ${device.modules.length} mod, ${device.fuses.length} fuses`}
             </option>
           ))}
         </select>
+
+        {selectedDevice && (
+          <button
+            onClick={handleExportJson}
+            style={{ fontSize: '12px', marginLeft: '5px' }}
+            title="Download the parsed device as versioned JSON (atpack-export format)"
+          >
+            💾 Export JSON
+          </button>
+        )}
         
         {selectedAtPack.devices.length > 10 && (
           <div style={{ marginTop: '5px' }}>
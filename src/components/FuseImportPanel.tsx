@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import type { DecodedFuse, FuseConfig, FuseImportResult } from '../types/atpack';
+import { FuseImporter } from '../services/FuseImporter';
+
+interface FuseImportPanelProps {
+  fuses: FuseConfig[];
+  onImport: (values: Record<string, number>) => void;
+}
+
+const FORMAT_LABELS: Record<FuseImportResult['format'], string> = {
+  'avrdude': 'avrdude command line',
+  'hex-bytes': 'hex bytes',
+  'intel-hex': 'Intel HEX',
+  'elf': 'ELF .fuse section'
+};
+
+const formatHex = (value: number, digits: number = 2): string => {
+  return `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+};
+
+export const FuseImportPanel: React.FC<FuseImportPanelProps> = ({ fuses, onImport }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [input, setInput] = useState('');
+  const [result, setResult] = useState<FuseImportResult | null>(null);
+  const [decoded, setDecoded] = useState<DecodedFuse[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyResult = (importResult: FuseImportResult) => {
+    const importer = new FuseImporter();
+    setResult(importResult);
+    setDecoded(importer.decode(fuses, importResult.values));
+    setError(null);
+    onImport(importResult.values);
+  };
+
+  const handleDecode = () => {
+    try {
+      applyResult(new FuseImporter().parseText(input, fuses));
+    } catch (err) {
+      setResult(null);
+      setDecoded([]);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      try {
+        applyResult(new FuseImporter().parseBinary(await file.arrayBuffer(), fuses));
+      } catch (err) {
+        setResult(null);
+        setDecoded([]);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+      event.target.value = '';
+    }
+  };
+
+  return (
+    <div style={{
+      marginBottom: '20px',
+      border: '1px solid #ccc',
+      borderRadius: '4px'
+    }}>
+      <div
+        style={{ padding: '8px', backgroundColor: '#f0f0f0', cursor: 'pointer', fontWeight: 'bold' }}
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? '▼' : '▶'} 📥 Import fuse values
+      </div>
+
+      {expanded && (
+        <div style={{ padding: '10px' }}>
+          <div style={{ fontSize: '12px', color: '#666', marginBottom: '6px' }}>
+            Paste an avrdude command line (<code>-U lfuse:w:0xE2:m -U hfuse:w:0xD9:m</code>),
+            raw hex bytes, one per fuse offset (<code>E2 D9 FF</code>) or the Intel HEX output of a <code>.fuse</code> section,
+            or load a <code>.fuse</code>/<code>.hex</code>/<code>.elf</code> file.
+          </div>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={3}
+            style={{ width: '100%', fontFamily: 'monospace', fontSize: '12px', boxSizing: 'border-box' }}
+            placeholder="-U lfuse:w:0xE2:m -U hfuse:w:0xD9:m -U efuse:w:0xFF:m"
+          />
+          <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginTop: '6px' }}>
+            <button onClick={handleDecode} disabled={!input.trim()} style={{ fontSize: '12px' }}>
+              Decode
+            </button>
+            <input
+              type="file"
+              accept=".fuse,.hex,.ihex,.elf,.txt"
+              onChange={handleFileUpload}
+              style={{ fontSize: '12px' }}
+            />
+          </div>
+
+          {error && (
+            <div style={{ color: 'red', fontSize: '12px', marginTop: '8px' }}>{error}</div>
+          )}
+
+          {result && (
+            <div style={{ marginTop: '10px', fontSize: '12px' }}>
+              <div style={{ marginBottom: '6px' }}>
+                Decoded from {FORMAT_LABELS[result.format]}: {decoded.length} fuse(s) applied to the configurator below.
+              </div>
+              {result.warnings.map((warning, index) => (
+                <div key={index} style={{ color: '#b36b00' }}>⚠ {warning}</div>
+              ))}
+
+              {decoded.map(item => (
+                <div key={item.fuse.name} style={{ marginTop: '8px' }}>
+                  <strong>{item.fuse.name}</strong> = {formatHex(item.value)}
+                  {item.reservedMismatch !== 0 && (
+                    <span style={{ color: '#d00', marginLeft: '8px' }}>
+                      ⚠ Reserved bits {formatHex(item.reservedMismatch)} differ from default {formatHex(item.fuse.defaultValue ?? 0)}
+                    </span>
+                  )}
+                  <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '4px' }}>
+                    <tbody>
+                      {item.bitfields.map(field => (
+                        <tr key={field.bitfield.name} style={{ backgroundColor: field.undefinedValue ? '#fff0f0' : 'transparent' }}>
+                          <td style={{ padding: '2px 6px', border: '1px solid #ddd', width: '20%' }}>{field.bitfield.name}</td>
+                          <td style={{ padding: '2px 6px', border: '1px solid #ddd', width: '15%' }}>
+                            {formatHex(field.value, Math.ceil(field.bitfield.bitWidth / 4))}
+                          </td>
+                          <td style={{ padding: '2px 6px', border: '1px solid #ddd' }}>
+                            {field.match ? (
+                              field.match.description || field.match.name
+                            ) : field.undefinedValue ? (
+                              <span style={{ color: '#d00' }}>⚠ Value not defined for this bitfield</span>
+                            ) : (
+                              field.bitfield.bitWidth === 1 ? (field.value === 0 ? 'Programmed (0)' : 'Unprogrammed (1)') : field.value
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import type { FuseSafetyFinding } from '../types/atpack';
+
+const SEVERITY_STYLES: Record<FuseSafetyFinding['severity'], { icon: string; color: string; background: string }> = {
+  error: { icon: '⛔', color: '#a00', background: '#fff0f0' },
+  warning: { icon: '⚠', color: '#8a5a00', background: '#fff8e1' }
+};
+
+interface FuseSafetyInlineProps {
+  findings: FuseSafetyFinding[];
+}
+
+/**
+ * Findings for a single bitfield, shown under its value control
+ */
+export const FuseSafetyInline: React.FC<FuseSafetyInlineProps> = ({ findings }) => {
+  if (findings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ marginTop: '4px' }}>
+      {findings.map((finding, index) => (
+        <div key={index} style={{ fontSize: '11px', color: SEVERITY_STYLES[finding.severity].color }}>
+          {SEVERITY_STYLES[finding.severity].icon} {finding.message}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface FuseSafetySummaryProps {
+  findings: FuseSafetyFinding[];
+}
+
+/**
+ * Summary of all findings, errors first
+ */
+export const FuseSafetySummary: React.FC<FuseSafetySummaryProps> = ({ findings }) => {
+  const errors = findings.filter(finding => finding.severity === 'error');
+  const warnings = findings.filter(finding => finding.severity === 'warning');
+
+  if (findings.length === 0) {
+    return (
+      <div style={{ marginBottom: '10px', fontSize: '12px', color: '#2e7d32' }}>
+        ✅ No risky fuse or lock bit settings detected.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{
+      marginBottom: '10px',
+      padding: '8px',
+      border: `1px solid ${errors.length > 0 ? '#e0a0a0' : '#e6c97a'}`,
+      backgroundColor: errors.length > 0 ? SEVERITY_STYLES.error.background : SEVERITY_STYLES.warning.background,
+      borderRadius: '4px',
+      fontSize: '12px'
+    }}>
+      <strong>
+        Fuse safety check: {errors.length} error(s), {warnings.length} warning(s)
+      </strong>
+      <ul style={{ margin: '6px 0 0 0', paddingLeft: '20px' }}>
+        {[...errors, ...warnings].map((finding, index) => (
+          <li key={index} style={{ color: SEVERITY_STYLES[finding.severity].color }}>
+            {SEVERITY_STYLES[finding.severity].icon}{' '}
+            <strong>{finding.register}{finding.bitfield ? `.${finding.bitfield}` : ''}</strong>: {finding.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,51 +1,72 @@
 import React, { useState, useEffect } from 'react';
-import type { FuseConfig, FuseBitfield } from '../types/atpack';
+import type { FuseConfig, FuseBitfield, FuseSafetyFinding } from '../types/atpack';
+import { FuseImportPanel } from './FuseImportPanel';
+import { FuseSafetyInline } from './FuseSafetyFindings';
 
 interface FusesConfiguratorProps {
   fuses: FuseConfig[];
   formatAddress: (address: number) => string;
+  initialValues?: Record<string, number>; // Register values to start from (shared configuration), keyed by fuse name
+  onValuesChange?: (values: Record<string, number>) => void; // Register values keyed by fuse name
+  findings?: FuseSafetyFinding[]; // Safety findings shown next to the affected bitfields
 }
 
 export const FusesConfigurator: React.FC<FusesConfiguratorProps> = ({
   fuses,
-  formatAddress
+  formatAddress,
+  initialValues,
+  onValuesChange,
+  findings = []
 }) => {
   // State to store current values for each bitfield
   const [bitfieldValues, setBitfieldValues] = useState<Record<string, number>>({});
+  // Imported register values, used instead of the defaults for bits outside any bitfield
+  const [importedValues, setImportedValues] = useState<Record<string, number>>({});
+  // Fuses the bitfield values were initialized for; values are not reported before that
+  const [initializedFuses, setInitializedFuses] = useState<FuseConfig[] | null>(null);
 
-  // Initialize default values from fuse register default values
+  // Initialize values from the initial register values, or the fuse register default values
   useEffect(() => {
-    const initialValues: Record<string, number> = {};
+    const startValues: Record<string, number> = {};
+    const startRegisters: Record<string, number> = {};
     
     fuses.forEach(fuse => {
+      const registerValue = initialValues?.[fuse.name] ?? fuse.defaultValue;
+      if (initialValues?.[fuse.name] !== undefined) {
+        startRegisters[fuse.name] = initialValues[fuse.name];
+      }
+
       fuse.bitfields.forEach(bitfield => {
         const key = `${fuse.name}_${bitfield.name}`;
         
-        // If fuse has a default value, extract this bitfield's value from it
-        if (fuse.defaultValue !== undefined) {
-          // Extract the bitfield value from the default register value
+        // If fuse has a start value, extract this bitfield's value from it
+        if (registerValue !== undefined) {
+          // Extract the bitfield value from the register value
           const mask = ((1 << bitfield.bitWidth) - 1) << bitfield.bitOffset;
-          const extractedValue = (fuse.defaultValue & mask) >> bitfield.bitOffset;
-          initialValues[key] = extractedValue;
+          const extractedValue = (registerValue & mask) >> bitfield.bitOffset;
+          startValues[key] = extractedValue;
         } else {
           // Fallback: use available values or 0
           if (bitfield.values && bitfield.values.length > 0) {
             // Use the last value as fallback (often corresponds to "no restriction" or safest option)
-            initialValues[key] = bitfield.values[bitfield.values.length - 1].value;
+            startValues[key] = bitfield.values[bitfield.values.length - 1].value;
           } else {
-            initialValues[key] = 0;
+            startValues[key] = 0;
           }
         }
       });
     });
     
-    setBitfieldValues(initialValues);
+    setBitfieldValues(startValues);
+    setImportedValues(startRegisters);
+    setInitializedFuses(fuses);
+    // Initial values only apply when the fuses change, not on every report back to the parent
   }, [fuses]);
 
   // Calculate the combined fuse register value
   const calculateRegisterValue = (fuse: FuseConfig): number => {
-    // Start with the default register value if available, otherwise 0
-    let value = fuse.defaultValue !== undefined ? fuse.defaultValue : 0;
+    // Start with the imported or default register value if available, otherwise 0
+    let value = importedValues[fuse.name] ?? fuse.defaultValue ?? 0;
     
     fuse.bitfields.forEach(bitfield => {
       const key = `${fuse.name}_${bitfield.name}`;
@@ -63,6 +84,17 @@ export const FusesConfigurator: React.FC<FusesConfiguratorProps> = ({
     return value;
   };
 
+  // Report the combined register values to the parent (programmer commands), once the bitfield
+  // values of the current fuses are initialized
+  useEffect(() => {
+    if (!onValuesChange || initializedFuses !== fuses) return;
+    const values: Record<string, number> = {};
+    fuses.forEach(fuse => {
+      values[fuse.name] = calculateRegisterValue(fuse);
+    });
+    onValuesChange(values);
+  }, [fuses, initializedFuses, bitfieldValues, importedValues, onValuesChange]);
+
   // Handle bitfield value change
   const handleBitfieldChange = (fuseName: string, bitfieldName: string, newValue: number) => {
     const key = `${fuseName}_${bitfieldName}`;
@@ -72,6 +104,24 @@ export const FusesConfigurator: React.FC<FusesConfiguratorProps> = ({
     }));
   };
 
+  // Apply imported register values by splitting them into bitfield values
+  const handleImport = (registerValues: Record<string, number>) => {
+    setImportedValues(prev => ({ ...prev, ...registerValues }));
+    setBitfieldValues(prev => {
+      const next = { ...prev };
+      fuses.forEach(fuse => {
+        const registerValue = registerValues[fuse.name];
+        if (registerValue === undefined) return;
+
+        fuse.bitfields.forEach(bitfield => {
+          const mask = ((1 << bitfield.bitWidth) - 1) << bitfield.bitOffset;
+          next[`${fuse.name}_${bitfield.name}`] = (registerValue & mask) >> bitfield.bitOffset;
+        });
+      });
+      return next;
+    });
+  };
+
   // Check if a bitfield is boolean (1 bit with 2 values representing enabled/disabled OR 1 bit without explicit values)
   const isBooleanBitfield = (bitfield: FuseBitfield): boolean => {
     // Special case: BODLEVEL should always use dropdown, even if it's 1 bit
@@ -142,6 +192,7 @@ export const FusesConfigurator: React.FC<FusesConfiguratorProps> = ({
         </ul>
         This inverted logic is the standard behavior for ATMEL fuse bits.
       </div>
+      <FuseImportPanel fuses={fuses} onImport={handleImport} />
       {fuses.map(fuse => (
         <div key={fuse.name} style={{ marginBottom: '20px' }}>
           <h4 style={{ 
@@ -311,6 +362,9 @@ export const FusesConfigurator: React.FC<FusesConfiguratorProps> = ({
                           }}
                         />
                       )}
+                      <FuseSafetyInline
+                        findings={findings.filter(f => f.register === fuse.name && f.bitfield === bitfield.name)}
+                      />
                     </td>
                   </tr>
                 );
@@ -0,0 +1,74 @@
+import React from 'react';
+import { VectorTableGenerator } from '../services/generators/VectorTableGenerator';
+import type { AtPackDevice } from '../types/atpack';
+import { DeviceFamily } from '../types/atpack';
+import { downloadTextFile } from '../utils/download';
+
+interface InterruptVectorTableProps {
+  device: AtPackDevice;
+}
+
+const generator = new VectorTableGenerator();
+
+const hex = (value: number): string => `0x${value.toString(16).toUpperCase().padStart(4, '0')}`;
+
+/**
+ * Interrupt vector table of a device (vector flash addresses and handler names), with
+ * downloads of a C handler skeleton and, for AVR devices, an assembly startup file
+ */
+export const InterruptVectorTable: React.FC<InterruptVectorTableProps> = ({ device }) => {
+  const isPic = device.deviceFamily === DeviceFamily.PIC;
+  const vectorSize = generator.getVectorSize(device);
+  const vectors = generator.getVectorTable(device);
+  const fileName = device.name.toLowerCase();
+
+  const handleDownloadC = () => {
+    downloadTextFile(generator.generateC(device), `${fileName}_isr.c`, 'text/x-c');
+  };
+
+  const handleDownloadAssembly = () => {
+    downloadTextFile(generator.generateAssembly(device), `${fileName}_vectors.S`, 'text/x-asm');
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '8px' }}>
+        <span style={{ fontSize: '12px', color: '#666' }}>
+          {isPic
+            ? 'Fixed interrupt vectors'
+            : `${vectorSize}-byte vectors (${vectorSize === 4 ? 'JMP' : 'RJMP'}) from ${hex(device.memory.flash.start)}`}
+        </span>
+        <button onClick={handleDownloadC} title={isPic ? 'XC8 __interrupt() handlers' : 'Weak ISR() handler per vector'}>
+          📄 Download C skeleton
+        </button>
+        {!isPic && (
+          <button onClick={handleDownloadAssembly} title="avr-gcc vector table for -nostartfiles builds">
+            ⚙️ Download startup assembly
+          </button>
+        )}
+      </div>
+      <table>
+        <tbody>
+          <tr id="interruptshead">
+            <th>Index</th>
+            <th>Name</th>
+            <th>Address</th>
+            {!isPic && <th>Word</th>}
+            <th>Handler</th>
+            <th>Description</th>
+          </tr>
+          {vectors.map(vector => (
+            <tr key={vector.index} className="interruptsgen">
+              <td className="ar">{vector.index}</td>
+              <td>{vector.name}</td>
+              <td style={{ fontFamily: 'monospace' }}>{hex(vector.address)}</td>
+              {!isPic && <td style={{ fontFamily: 'monospace' }}>{hex(vector.address / 2)}</td>}
+              <td style={{ fontFamily: 'monospace' }}>{vector.index === 0 && !isPic ? '-' : vector.handler}</td>
+              <td>{vector.caption || '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,35 +1,50 @@
 import React, { useState, useEffect } from 'react';
-import type { LockbitConfig } from '../types/atpack';
+import type { FuseSafetyFinding, LockbitConfig } from '../types/atpack';
+import { FuseSafetyInline } from './FuseSafetyFindings';
 
 interface LockbitsConfiguratorProps {
   lockbits: LockbitConfig[];
   formatAddress: (address: number) => string;
+  initialValues?: Record<string, number>; // Register values to start from (shared configuration), keyed by lockbit name
+  onValuesChange?: (values: Record<string, number>) => void; // Register values keyed by lockbit name
+  findings?: FuseSafetyFinding[]; // Safety findings shown next to the affected bitfields
 }
 
 export const LockbitsConfigurator: React.FC<LockbitsConfiguratorProps> = ({
   lockbits,
-  formatAddress
+  formatAddress,
+  initialValues,
+  onValuesChange,
+  findings = []
 }) => {
   // State to store current values for each bitfield
   const [bitfieldValues, setBitfieldValues] = useState<Record<string, number>>({});
+  // Lockbits the bitfield values were initialized for; values are not reported before that
+  const [initializedLockbits, setInitializedLockbits] = useState<LockbitConfig[] | null>(null);
 
-  // Initialize default values (all bits set to their first available value or 0)
+  // Initialize values from the initial register values, or defaults (last available value or 0)
   useEffect(() => {
-    const initialValues: Record<string, number> = {};
+    const startValues: Record<string, number> = {};
     
     lockbits.forEach(lockbit => {
+      const registerValue = initialValues?.[lockbit.name];
       lockbit.bits.forEach(bit => {
         const key = `${lockbit.name}_${bit.name}`;
-        if (bit.values && bit.values.length > 0) {
+        if (registerValue !== undefined) {
+          const mask = ((1 << bit.bitWidth) - 1) << bit.bitOffset;
+          startValues[key] = (registerValue & mask) >> bit.bitOffset;
+        } else if (bit.values && bit.values.length > 0) {
           // Use the last value as default (often corresponds to "no lock" or safest option)
-          initialValues[key] = bit.values[bit.values.length - 1].value;
+          startValues[key] = bit.values[bit.values.length - 1].value;
         } else {
-          initialValues[key] = 0;
+          startValues[key] = 0;
         }
       });
     });
     
-    setBitfieldValues(initialValues);
+    setBitfieldValues(startValues);
+    setInitializedLockbits(lockbits);
+    // Initial values only apply when the lockbits change, not on every report back to the parent
   }, [lockbits]);
 
   // Calculate the combined lockbit register value
@@ -53,6 +68,17 @@ export const LockbitsConfigurator: React.FC<LockbitsConfiguratorProps> = ({
     return value;
   };
 
+  // Report the combined register values to the parent (programmer commands), once the bitfield
+  // values of the current lockbits are initialized
+  useEffect(() => {
+    if (!onValuesChange || initializedLockbits !== lockbits) return;
+    const values: Record<string, number> = {};
+    lockbits.forEach(lockbit => {
+      values[lockbit.name] = calculateRegisterValue(lockbit);
+    });
+    onValuesChange(values);
+  }, [lockbits, initializedLockbits, bitfieldValues, onValuesChange]);
+
   // Handle bitfield value change
   const handleBitfieldChange = (lockbitName: string, bitName: string, newValue: number) => {
     const key = `${lockbitName}_${bitName}`;
@@ -214,6 +240,9 @@ export const LockbitsConfigurator: React.FC<LockbitsConfiguratorProps> = ({
                           }}
                         />
                       )}
+                      <FuseSafetyInline
+                        findings={findings.filter(f => f.register === lockbit.name && f.bitfield === bit.name)}
+                      />
                     </td>
                   </tr>
                 );
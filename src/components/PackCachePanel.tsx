@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { useAtPackStore } from '../stores/atpackStore';
+import type { PackCacheUsage } from '../types/atpack';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  } else if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  } else if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} kB`;
+  }
+  return `${bytes} B`;
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '2px 6px',
+  borderBottom: '1px solid #eee',
+  fontSize: '12px'
+};
+
+/**
+ * Packs stored in the persistent pack cache, loadable without network
+ */
+export const PackCachePanel: React.FC = () => {
+  const {
+    atpacks,
+    cachedPacks,
+    loading,
+    refreshCachedPacks,
+    loadCachedPack,
+    removeCachedPack,
+    clearPackCache,
+    getPackCacheUsage
+  } = useAtPackStore();
+  const [usage, setUsage] = useState<PackCacheUsage | null>(null);
+
+  useEffect(() => {
+    refreshCachedPacks();
+  }, [refreshCachedPacks]);
+
+  // Refresh the storage usage whenever the cached packs change
+  useEffect(() => {
+    getPackCacheUsage()
+      .then(setUsage)
+      .catch(error => console.warn('Could not read pack cache usage:', error));
+  }, [cachedPacks, getPackCacheUsage]);
+
+  const handleClear = () => {
+    if (window.confirm('Remove all cached packs?')) {
+      clearPackCache();
+    }
+  };
+
+  if (cachedPacks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ marginBottom: '10px' }}>
+      <strong>Cached packs (available offline):</strong>
+      <table style={{ borderCollapse: 'collapse', marginTop: '5px' }}>
+        <tbody>
+          {cachedPacks.map(entry => {
+            const isLoaded = atpacks.some(atpack =>
+              atpack.metadata.name === entry.name && atpack.version === entry.version
+            );
+            return (
+              <tr key={entry.id}>
+                <td style={cellStyle} title={entry.description}>
+                  {entry.name} ({entry.version})
+                </td>
+                <td style={cellStyle}>{entry.deviceCount} devices</td>
+                <td style={cellStyle} title={entry.archiveSize ? 'Parsed pack + archive' : 'Parsed pack only (no raw files)'}>
+                  {formatBytes(entry.packSize + entry.archiveSize)}
+                </td>
+                <td style={{ ...cellStyle, color: '#666' }}>
+                  used {new Date(entry.lastUsedAt).toLocaleDateString()}
+                </td>
+                <td style={cellStyle}>
+                  <button
+                    onClick={() => loadCachedPack(entry.id)}
+                    disabled={loading}
+                    style={{ fontSize: '12px' }}
+                  >
+                    {isLoaded ? 'Reload' : 'Load'}
+                  </button>
+                  <button
+                    onClick={() => removeCachedPack(entry.id)}
+                    disabled={loading}
+                    style={{ fontSize: '12px', marginLeft: '4px' }}
+                    title="Remove from cache"
+                  >
+                    🗑️
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {usage && (
+        <div style={{ fontSize: '11px', color: '#666', marginTop: '5px' }}>
+          {usage.packCount} pack(s), {formatBytes(usage.cachedBytes)} cached
+          (least recently used packs are evicted above {formatBytes(usage.maxBytes)})
+          {usage.storageUsage !== undefined && usage.storageQuota !== undefined && (
+            <> · browser storage: {formatBytes(usage.storageUsage)} of {formatBytes(usage.storageQuota)}</>
+          )}
+          <button onClick={handleClear} disabled={loading} style={{ fontSize: '11px', marginLeft: '8px' }}>
+            Clear cache
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useAtPackStore } from '../stores/atpackStore';
+import { PackDiffer } from '../services/PackDiffer';
+import type { PackChangeKind, PackDiffDocument } from '../types/atpack';
+import { downloadTextFile } from '../utils/download';
+
+const KIND_STYLES: Record<PackChangeKind, React.CSSProperties> = {
+  added: { backgroundColor: '#d4edda', color: '#155724' },
+  removed: { backgroundColor: '#f8d7da', color: '#721c24' },
+  changed: { backgroundColor: '#fff3cd', color: '#856404' }
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: '1px solid #ddd',
+  fontSize: '12px',
+  verticalAlign: 'top'
+};
+
+/**
+ * Report of what changed between two loaded releases of a pack, downloadable as JSON or Markdown
+ */
+export const PackDiffView: React.FC = () => {
+  const { atpacks, loading, loadAllDevices } = useAtPackStore();
+  const [fromIndex, setFromIndex] = useState<string>('');
+  const [toIndex, setToIndex] = useState<string>('');
+  const [diff, setDiff] = useState<PackDiffDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deviceFilter, setDeviceFilter] = useState('');
+
+  const from = fromIndex ? atpacks[parseInt(fromIndex)] : null;
+  const to = toIndex ? atpacks[parseInt(toIndex)] : null;
+
+  const handleDiff = async () => {
+    if (!from || !to) return;
+
+    setError(null);
+    setDiff(null);
+    try {
+      // Devices are parsed on demand, the diff needs all of them
+      await loadAllDevices(from);
+      await loadAllDevices(to);
+      setDiff(new PackDiffer().diff(from, to));
+    } catch (err) {
+      console.error('Error computing pack diff:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  const fileName = diff ? `${diff.pack}.${diff.from.version}-${diff.to.version}.diff` : '';
+  const changedDevices = diff?.changedDevices.filter(deviceDiff =>
+    deviceDiff.device.toLowerCase().includes(deviceFilter.toLowerCase())
+  ) || [];
+
+  return (
+    <div style={{ padding: '20px' }}>
+      <h2>🆚 Pack Diff</h2>
+      <p style={{ color: '#666', fontSize: '13px' }}>
+        Load two releases of the same pack, then compare them to list added and removed devices
+        and the changes to each device.
+      </p>
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '10px' }}>
+        From
+        <select value={fromIndex} onChange={(e) => setFromIndex(e.target.value)}>
+          <option value="">- select a pack -</option>
+          {atpacks.map((atpack, index) => (
+            <option key={index} value={index.toString()}>{atpack.metadata.name} ({atpack.version})</option>
+          ))}
+        </select>
+        to
+        <select value={toIndex} onChange={(e) => setToIndex(e.target.value)}>
+          <option value="">- select a pack -</option>
+          {atpacks.map((atpack, index) => (
+            <option key={index} value={index.toString()}>{atpack.metadata.name} ({atpack.version})</option>
+          ))}
+        </select>
+        <button onClick={handleDiff} disabled={!from || !to || from === to || loading}>
+          {loading ? '⏳ Loading devices...' : '🔍 Compare releases'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ color: '#d32f2f', marginBottom: '10px' }}>❌ {error}</div>
+      )}
+
+      {diff && (
+        <>
+          <div style={{ marginBottom: '10px' }}>
+            <strong>{diff.pack}: {diff.from.version} → {diff.to.version}</strong>
+            <button
+              onClick={() => downloadTextFile(new PackDiffer().toMarkdown(diff), `${fileName}.md`, 'text/markdown')}
+              style={{ fontSize: '12px', marginLeft: '10px' }}
+            >
+              📝 Download Markdown
+            </button>
+            <button
+              onClick={() => downloadTextFile(new PackDiffer().toJson(diff), `${fileName}.json`, 'application/json')}
+              style={{ fontSize: '12px', marginLeft: '5px' }}
+            >
+              💾 Download JSON
+            </button>
+          </div>
+
+          <ul style={{ fontSize: '13px' }}>
+            <li>
+              Added devices ({diff.addedDevices.length}): {diff.addedDevices.length > 0
+                ? <span style={KIND_STYLES.added}>{diff.addedDevices.join(', ')}</span>
+                : 'none'}
+            </li>
+            <li>
+              Removed devices ({diff.removedDevices.length}): {diff.removedDevices.length > 0
+                ? <span style={KIND_STYLES.removed}>{diff.removedDevices.join(', ')}</span>
+                : 'none'}
+            </li>
+            <li>Changed devices: {diff.changedDevices.length}</li>
+            <li>Unchanged devices: {diff.unchangedDevices.length}</li>
+          </ul>
+
+          {diff.changedDevices.length > 0 && (
+            <input
+              type="text"
+              placeholder="Filter devices..."
+              value={deviceFilter}
+              onChange={(e) => setDeviceFilter(e.target.value)}
+              style={{ marginBottom: '10px' }}
+            />
+          )}
+
+          {changedDevices.map(deviceDiff => (
+            <details key={deviceDiff.device} style={{ marginBottom: '8px' }}>
+              <summary style={{ cursor: 'pointer', fontWeight: 'bold' }}>
+                {deviceDiff.device} ({deviceDiff.sections.map(section => `${section.title}: ${section.changes.length}`).join(', ')})
+              </summary>
+              {deviceDiff.sections.map(section => (
+                <div key={section.id} style={{ marginLeft: '15px' }}>
+                  <h4 style={{ marginBottom: '5px' }}>{section.title}</h4>
+                  <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+                    <thead>
+                      <tr style={{ backgroundColor: '#f8f9fa' }}>
+                        <th style={{ ...cellStyle, textAlign: 'left' }}>Item</th>
+                        <th style={{ ...cellStyle, textAlign: 'left' }}>Change</th>
+                        <th style={{ ...cellStyle, textAlign: 'left' }}>{diff.from.version}</th>
+                        <th style={{ ...cellStyle, textAlign: 'left' }}>{diff.to.version}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {section.changes.map(change => (
+                        <tr key={change.key}>
+                          <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{change.key}</td>
+                          <td style={{ ...cellStyle, ...KIND_STYLES[change.kind] }}>{change.kind}</td>
+                          <td style={cellStyle}>{change.before ?? '—'}</td>
+                          <td style={cellStyle}>{change.after ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </details>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,12 +1,21 @@
 import React, { useState } from 'react';
-import type { DevicePeripheralModule, DeviceRegister, DeviceRegisterBitfield, DeviceValueGroup } from '../types/atpack';
+import type {
+  DeviceModule,
+  DevicePeripheralModule,
+  DeviceRegister,
+  DeviceRegisterBitfield,
+  DeviceValueGroup,
+  RegisterGroupPlacement
+} from '../types/atpack';
+import { getRegisterAddress, getRegisterGroupPlacements, getRegisterInstanceName } from '../utils/registerLayout';
 
 interface PeripheralRegistersProps {
   peripherals: DevicePeripheralModule[];
+  modules: DeviceModule[];
   formatAddress: (address: number) => string;
 }
 
-export const PeripheralRegisters: React.FC<PeripheralRegistersProps> = ({ peripherals, formatAddress }) => {
+export const PeripheralRegisters: React.FC<PeripheralRegistersProps> = ({ peripherals, modules, formatAddress }) => {
   const [expandedModules, setExpandedModules] = useState<Set<string>>(new Set());
   const [expandedRegisters, setExpandedRegisters] = useState<Set<string>>(new Set());
 
@@ -86,8 +95,9 @@ export const PeripheralRegisters: React.FC<PeripheralRegistersProps> = ({ periph
     );
   };
 
-  const renderRegister = (register: DeviceRegister, moduleValueGroups: DeviceValueGroup[], moduleName: string) => {
-    const registerKey = `${moduleName}.${register.name}`;
+  const renderRegister = (register: DeviceRegister, moduleValueGroups: DeviceValueGroup[], placement: RegisterGroupPlacement) => {
+    const registerKey = `${placement.instance}.${register.name}`;
+    const address = getRegisterAddress(placement, register);
     const isExpanded = expandedRegisters.has(registerKey);
     const hasFields = register.bitfields.length > 0;
     
@@ -106,10 +116,22 @@ export const PeripheralRegisters: React.FC<PeripheralRegistersProps> = ({ periph
                 {isExpanded ? '▼' : '▶'}
               </span>
             )}
-            {register.name}
+            {getRegisterInstanceName(placement, register)}
           </td>
           <td>{register.caption}</td>
-          <td style={{ fontFamily: 'monospace' }}>{formatAddress(register.offset)}</td>
+          <td style={{ fontFamily: 'monospace' }}>
+            {placement.addressSpace !== 'data' && (
+              <span style={{ color: '#666', fontSize: '11px' }}>{placement.addressSpace}:</span>
+            )}
+            {address === null ? (
+              <span style={{ color: '#666' }} title="The ATDF does not give the instance address">+{formatMask(register.offset)}</span>
+            ) : formatAddress(address)}
+            {!!placement.baseAddress && (
+              <span style={{ color: '#666', fontSize: '11px', marginLeft: '5px' }} title="Offset within the register group">
+                (+{formatMask(register.offset)})
+              </span>
+            )}
+          </td>
           <td style={{ fontFamily: 'monospace' }}>{register.size} byte{register.size > 1 ? 's' : ''}</td>
           <td style={{ fontSize: '12px' }}>
             {register.readWrite && (
@@ -171,31 +193,40 @@ export const PeripheralRegisters: React.FC<PeripheralRegistersProps> = ({ periph
               </span>
             </div>
             
-            {isExpanded && peripheral.registerGroups.map((group) => (
-              <div key={group.name} style={{ margin: '10px' }}>
-                {peripheral.registerGroups.length > 1 && (
-                  <h4 style={{ margin: '5px 0', color: '#0066cc' }}>{group.caption}</h4>
-                )}
-                
-                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
-                  <thead>
-                    <tr style={{ backgroundColor: '#f0f0f0' }}>
-                      <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Register</th>
-                      <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Description</th>
-                      <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Address</th>
-                      <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Size</th>
-                      <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Access</th>
-                      <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Initial/Mask</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {group.registers.map(register => 
-                      renderRegister(register, peripheral.valueGroups, peripheral.name)
-                    )}
-                  </tbody>
-                </table>
-              </div>
-            ))}
+            {isExpanded && peripheral.registerGroups.map((group) => 
+              getRegisterGroupPlacements(modules, peripheral, group).map((placement, _index, placements) => (
+                <div key={`${group.name}.${placement.instance}`} style={{ margin: '10px' }}>
+                  {(peripheral.registerGroups.length > 1 || placements.length > 1) && (
+                    <h4 style={{ margin: '5px 0', color: '#0066cc' }}>
+                      {placements.length > 1 ? placement.instance : group.caption}
+                      {!!placement.baseAddress && (
+                        <span style={{ fontSize: '12px', fontWeight: 'normal', color: '#666', marginLeft: '8px' }}>
+                          @ {formatAddress(placement.baseAddress)}
+                        </span>
+                      )}
+                    </h4>
+                  )}
+                  
+                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+                    <thead>
+                      <tr style={{ backgroundColor: '#f0f0f0' }}>
+                        <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Register</th>
+                        <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Description</th>
+                        <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Address</th>
+                        <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Size</th>
+                        <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Access</th>
+                        <th style={{ border: '1px solid #ddd', padding: '4px', textAlign: 'left' }}>Initial/Mask</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {group.registers.map(register => 
+                        renderRegister(register, peripheral.valueGroups, placement)
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              ))
+            )}
           </div>
         );
       })}
@@ -1,26 +1,38 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import type { AtPackDevice, FuseConfig } from '../types/atpack';
 import { DeviceFamily } from '../types/atpack';
 
 interface PicConfiguratorProps {
   device: AtPackDevice;
   onConfigChange?: (configWord: number, value: number) => void;
+  initialValues?: Record<string, number>; // Config word values to start from (shared configuration), keyed by name
+  onValuesChange?: (values: Record<string, number>) => void; // Config word values keyed by name
 }
 
 interface ConfigWordState {
   [configWord: number]: number;
 }
 
-const PicConfigurator: React.FC<PicConfiguratorProps> = ({ device, onConfigChange }) => {
+const PicConfigurator: React.FC<PicConfiguratorProps> = ({ device, onConfigChange, initialValues, onValuesChange }) => {
   // State for configuration word values (current values)
   const [configWords, setConfigWords] = useState<ConfigWordState>(() => {
     const initial: ConfigWordState = {};
     device.fuses.forEach(config => {
-      initial[config.offset] = config.defaultValue || 0x3FFF;
+      initial[config.offset] = initialValues?.[config.name] ?? (config.defaultValue || 0x3FFF);
     });
     return initial;
   });
 
+  // Report all config word values to the parent (programmer commands)
+  useEffect(() => {
+    if (!onValuesChange) return;
+    const values: Record<string, number> = {};
+    device.fuses.forEach(config => {
+      values[config.name] = configWords[config.offset] || 0;
+    });
+    onValuesChange(values);
+  }, [device.fuses, configWords, onValuesChange]);
+
   // Check if this is a PIC device
   const isPicDevice = device.deviceFamily === DeviceFamily.PIC;
   
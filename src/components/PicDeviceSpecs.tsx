@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { DeviceFamily, type AtPackDevice, type PicSpecifications, type SfrSpec } from '../types/atpack';
 import { useAtPackStore } from '../stores/atpackStore';
 import { PicParser } from '../services/parsers/PicParser';
+import { DeviceDescriptionSource } from '../services/DeviceDescriptionSource';
 
 interface PicDeviceSpecsProps {
   device: AtPackDevice;
@@ -230,26 +231,15 @@ export const PicDeviceSpecs: React.FC<PicDeviceSpecsProps> = ({ device }) => {
       setError(null);
 
       try {
-        const zipContent = selectedAtPack.zipContent;
-        if (!zipContent) {
-          throw new Error('AtPack ZIP content not available');
+        const source = DeviceDescriptionSource.forPack(selectedAtPack);
+        if (!source) {
+          throw new Error('The raw files of this pack are not available');
         }
 
         // Load PIC file
-        const picFileName = `edc/${device.name}.PIC`;
-        const picFile = zipContent.files[picFileName];
-        if (!picFile) {
-          throw new Error(`PIC file not found: ${picFileName}`);
-        }
-
-        const picContent = await picFile.async('text');
-        const parser = new DOMParser();
-        const xmlDoc = parser.parseFromString(picContent, 'text/xml');
-
-        // Check for XML parsing errors
-        const parserError = xmlDoc.querySelector('parsererror');
-        if (parserError) {
-          throw new Error('Failed to parse PIC XML');
+        const xmlDoc = await source.readDescription(device);
+        if (!xmlDoc) {
+          throw new Error(`PIC file not found for ${device.name}`);
         }
 
         const picParser = new PicParser();
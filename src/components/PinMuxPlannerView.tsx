@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import { useAtPackStore } from '../stores/atpackStore';
+import { PinMuxPlanner } from '../services/PinMuxPlanner';
+import { KicadSymbolGenerator } from '../services/generators/KicadSymbolGenerator';
+import { PinTableGenerator } from '../services/generators/PinTableGenerator';
+import type { AtPackDevice, PinAssignment, PinMuxConflictKind, PinMuxRequest } from '../types/atpack';
+import { downloadTextFile } from '../utils/download';
+
+interface PinMuxPlannerViewProps {
+  device: AtPackDevice;
+}
+
+const CONFLICT_LABELS: Record<PinMuxConflictKind, string> = {
+  'shared-pad': 'Shared pad',
+  'not-bonded': 'Not bonded out',
+  'invalid-pad': 'Invalid pad',
+  'mixed-routes': 'Mixed routings'
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  border: '1px solid #ddd',
+  fontSize: '12px',
+  verticalAlign: 'top'
+};
+
+const planner = new PinMuxPlanner();
+
+const formatRequest = (request: PinMuxRequest): string => {
+  const signals = request.signals ? `(${request.signals.join(' ')})` : '';
+  return `${request.count !== undefined ? `${request.count}× ` : ''}${request.instance}${signals}`;
+};
+
+/**
+ * Interactive pin planner: assign peripheral signals to pads of a package, see conflicts,
+ * or let the planner assign pads for a list of requested peripherals
+ */
+export const PinMuxPlannerView: React.FC<PinMuxPlannerViewProps> = ({ device }) => {
+  const { configuration } = useAtPackStore();
+  const [packageName, setPackageName] = useState<string>(
+    device.pinouts.find(p => p.name === configuration.pinout)?.name ?? device.pinouts[0]?.name ?? ''
+  );
+  const [assignments, setAssignments] = useState<PinAssignment[]>([]);
+  const [instance, setInstance] = useState('');
+  const [signalOption, setSignalOption] = useState('');
+  const [requestText, setRequestText] = useState('');
+  const [unresolved, setUnresolved] = useState<PinMuxRequest[]>([]);
+
+  const signals = useMemo(() => planner.getSignals(device), [device]);
+  const instances = useMemo(() => planner.getInstances(device), [device]);
+  const bondedPads = useMemo(() => planner.getBondedPads(device, packageName), [device, packageName]);
+  const conflicts = useMemo(
+    () => planner.check(device, packageName, assignments),
+    [device, packageName, assignments]
+  );
+
+  const pinout = device.pinouts.find(p => p.name === packageName);
+  const instanceSignals = signals.filter(signal => signal.instance === instance);
+  const conflictedPads = new Set(conflicts.flatMap(conflict => conflict.assignments.map(assignment => assignment.pad)));
+
+  if (device.pinouts.length === 0) {
+    return null;
+  }
+
+  const handleAdd = () => {
+    const signal = instanceSignals[parseInt(signalOption)];
+    if (signal) {
+      setAssignments([...assignments, { instance: signal.instance, signal: signal.name, pad: signal.pad }]);
+      setSignalOption('');
+    }
+  };
+
+  const handleAutoAssign = () => {
+    const plan = planner.autoAssign(device, packageName, planner.parseRequests(requestText));
+    setAssignments(plan.assignments);
+    setUnresolved(plan.unresolved);
+  };
+
+  const handleDownloadSymbol = () => {
+    const symbol = new KicadSymbolGenerator().generate(device, packageName);
+    downloadTextFile(symbol, `${device.name}-${packageName}.kicad_sym`, 'text/plain');
+  };
+
+  const handleDownloadPinTable = () => {
+    const table = new PinTableGenerator().generate(device, packageName, assignments);
+    downloadTextFile(table, `${device.name}-${packageName}-pins.csv`, 'text/csv');
+  };
+
+  const handleClear = () => {
+    setAssignments([]);
+    setUnresolved([]);
+  };
+
+  return (
+    <div style={{ marginTop: '20px' }}>
+      <h3>📌 Pin Planner</h3>
+      <p style={{ color: '#666', fontSize: '13px' }}>
+        Assign peripheral signals to pads, or list the peripherals you need (e.g. <code>USART0, SPI(MOSI MISO SCK), TWI, 4× ADC</code>)
+        and let the planner choose the pads. Routings (default or alternate pins) are selected per peripheral.
+      </p>
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '10px' }}>
+        Package
+        <select value={packageName} onChange={(e) => setPackageName(e.target.value)}>
+          {device.pinouts.map(p => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="USART0, SPI, TWI, 4× ADC"
+          value={requestText}
+          onChange={(e) => setRequestText(e.target.value)}
+          style={{ width: '260px' }}
+        />
+        <button onClick={handleAutoAssign} disabled={!requestText.trim()}>🪄 Auto-assign</button>
+        <button onClick={handleClear} disabled={assignments.length === 0}>🗑️ Clear</button>
+        <button onClick={handleDownloadSymbol} title="Generate a KiCad schematic symbol for this package">
+          📐 Download KiCad symbol
+        </button>
+        <button onClick={handleDownloadPinTable} title="Pin table with the assigned signals as nets">
+          📊 Download CSV pin table
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginBottom: '10px' }}>
+        <select value={instance} onChange={(e) => { setInstance(e.target.value); setSignalOption(''); }}>
+          <option value="">- select a peripheral -</option>
+          {instances.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <select value={signalOption} onChange={(e) => setSignalOption(e.target.value)} disabled={!instance}>
+          <option value="">- select a signal and pad -</option>
+          {instanceSignals.map((signal, index) => (
+            <option key={index} value={index.toString()}>
+              {signal.name} → {signal.pad}{signal.route !== 'default' ? ` (${signal.route})` : ''}
+              {bondedPads && !bondedPads.has(signal.pad) ? ' (not bonded)' : ''}
+            </option>
+          ))}
+        </select>
+        <button onClick={handleAdd} disabled={!signalOption}>➕ Assign</button>
+      </div>
+
+      {unresolved.length > 0 && (
+        <div style={{ color: '#d32f2f', fontSize: '13px', marginBottom: '10px' }}>
+          ❌ Could not route: {unresolved.map(formatRequest).join(', ')}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <ul style={{ fontSize: '13px', color: '#856404', backgroundColor: '#fff3cd', padding: '8px 8px 8px 25px' }}>
+          {conflicts.map((conflict, index) => (
+            <li key={index}><strong>{CONFLICT_LABELS[conflict.kind]}:</strong> {conflict.message}</li>
+          ))}
+        </ul>
+      )}
+
+      {assignments.length > 0 && (
+        <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+          <thead>
+            <tr style={{ backgroundColor: '#f8f9fa' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>Pin</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>Pad</th>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>Signal</th>
+              <th style={cellStyle}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {assignments.map((assignment, index) => (
+              <tr
+                key={index}
+                style={{ backgroundColor: conflictedPads.has(assignment.pad) ? '#f8d7da' : undefined }}
+              >
+                <td style={cellStyle}>{pinout?.pins.find(pin => pin.pad === assignment.pad)?.position ?? '—'}</td>
+                <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{assignment.pad}</td>
+                <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{assignment.instance}.{assignment.signal}</td>
+                <td style={cellStyle}>
+                  <button
+                    onClick={() => setAssignments(assignments.filter((_, i) => i !== index))}
+                    style={{ fontSize: '11px' }}
+                    title="Remove assignment"
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
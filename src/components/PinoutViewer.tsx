@@ -1,12 +1,17 @@
 import React, { useState } from 'react';
 import type { DevicePinout, DevicePin, DevicePinFunction } from '../types/atpack';
+import { getPinType } from '../utils/packagePins';
 
 interface PinoutViewerProps {
   pinouts: DevicePinout[];
+  initialPinout?: string; // Pinout selected at start (shared configuration)
+  onPinoutChange?: (pinoutName: string) => void;
 }
 
-export const PinoutViewer: React.FC<PinoutViewerProps> = ({ pinouts }) => {
-  const [selectedPinout, setSelectedPinout] = useState<string>(pinouts.length > 0 ? pinouts[0].name : '');
+export const PinoutViewer: React.FC<PinoutViewerProps> = ({ pinouts, initialPinout, onPinoutChange }) => {
+  const [selectedPinout, setSelectedPinout] = useState<string>(
+    pinouts.find(p => p.name === initialPinout)?.name ?? (pinouts.length > 0 ? pinouts[0].name : '')
+  );
   const [filterText, setFilterText] = useState<string>('');
   const [showOnlyFunctionPins, setShowOnlyFunctionPins] = useState<boolean>(false);
 
@@ -20,24 +25,6 @@ export const PinoutViewer: React.FC<PinoutViewerProps> = ({ pinouts }) => {
     return result;
   };
 
-  const getPinType = (pin: DevicePin): 'power' | 'reset' | 'oscillator' | 'gpio' | 'special' => {
-    const pad = pin.pad.toUpperCase();
-    
-    if (pad.includes('VCC') || pad.includes('AVCC') || pad.includes('GND')) {
-      return 'power';
-    }
-    if (pad.includes('RESET')) {
-      return 'reset';
-    }
-    if (pad.includes('XTAL') || pad.includes('OSC')) {
-      return 'oscillator';
-    }
-    if (pad.includes('AREF')) {
-      return 'special';
-    }
-    return 'gpio';
-  };
-
   const getPinBackgroundColor = (pin: DevicePin): string => {
     const type = getPinType(pin);
     switch (type) {
@@ -88,7 +75,10 @@ export const PinoutViewer: React.FC<PinoutViewerProps> = ({ pinouts }) => {
             <label style={{ fontWeight: 'bold', marginRight: '8px' }}>Package:</label>
             <select 
               value={selectedPinout} 
-              onChange={(e) => setSelectedPinout(e.target.value)}
+              onChange={(e) => {
+                setSelectedPinout(e.target.value);
+                onPinoutChange?.(e.target.value);
+              }}
               style={{ padding: '4px 8px' }}
             >
               {pinouts.map(pinout => (
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AtPackDevice, FuseSafetyFinding } from '../types/atpack';
+import { DeviceFamily } from '../types/atpack';
+import {
+  ProgrammerCommandGenerator,
+  type ProgrammerCommandOptions
+} from '../services/generators/ProgrammerCommandGenerator';
+import { downloadTextFile } from '../utils/download';
+import { FuseSafetySummary } from './FuseSafetyFindings';
+import { getProgrammingInterface } from '../utils/programmingInterface';
+
+interface ProgrammerCommandsProps {
+  device: AtPackDevice;
+  fuseValues: Record<string, number>;
+  lockbitValues: Record<string, number>;
+  findings: FuseSafetyFinding[];
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '2px 4px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  fontSize: '12px',
+  width: '120px'
+};
+
+const CommandBlock: React.FC<{ label: string; command: string; copyDisabled: boolean }> = ({ label, command, copyDisabled }) => (
+  <div style={{ marginTop: '6px' }}>
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '12px' }}>
+      <strong>{label}</strong>
+      <button
+        onClick={() => navigator.clipboard.writeText(command)}
+        disabled={copyDisabled}
+        style={{ fontSize: '11px' }}
+        title={copyDisabled ? 'Review the fuse safety errors first' : 'Copy to clipboard'}
+      >
+        📋 Copy
+      </button>
+    </div>
+    <pre style={{
+      margin: '4px 0 0 0',
+      padding: '8px',
+      backgroundColor: '#1e1e1e',
+      color: '#d4d4d4',
+      fontSize: '12px',
+      borderRadius: '4px',
+      overflowX: 'auto',
+      whiteSpace: 'pre'
+    }}>
+      {command}
+    </pre>
+  </div>
+);
+
+export const ProgrammerCommands: React.FC<ProgrammerCommandsProps> = ({
+  device,
+  fuseValues,
+  lockbitValues,
+  findings
+}) => {
+  const [options, setOptions] = useState<Partial<ProgrammerCommandOptions>>({});
+  const [errorsAcknowledged, setErrorsAcknowledged] = useState(false);
+  const hasErrors = findings.some(finding => finding.severity === 'error');
+  const copyDisabled = hasErrors && !errorsAcknowledged;
+
+  useEffect(() => {
+    setErrorsAcknowledged(false);
+  }, [device]);
+  const isPic = device.deviceFamily === DeviceFamily.PIC;
+  const programmingInterface = getProgrammingInterface(device);
+
+  const generator = useMemo(() => new ProgrammerCommandGenerator(), []);
+  const commandSets = useMemo(
+    () => generator.generate(device, fuseValues, lockbitValues, options),
+    [generator, device, fuseValues, lockbitValues, options]
+  );
+
+  const updateOption = (key: keyof ProgrammerCommandOptions, value: string) => {
+    setOptions(prev => {
+      // Empty fields fall back to the generator defaults
+      const next = { ...prev };
+      if (value) {
+        next[key] = value;
+      } else {
+        delete next[key];
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div style={{ fontFamily: 'monospace' }}>
+      <FuseSafetySummary findings={findings} />
+      {hasErrors && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', marginBottom: '8px' }}>
+          <input
+            type="checkbox"
+            checked={errorsAcknowledged}
+            onChange={(e) => setErrorsAcknowledged(e.target.checked)}
+          />
+          I understand these settings can make the device unprogrammable; enable copying
+        </label>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center', fontSize: '12px', marginBottom: '8px' }}>
+        {isPic ? (
+          <label>
+            ipecmd tool{' '}
+            <input
+              style={inputStyle}
+              placeholder="PK4"
+              value={options.ipeTool ?? ''}
+              onChange={(e) => updateOption('ipeTool', e.target.value)}
+            />
+          </label>
+        ) : (
+          <>
+            <label>
+              avrdude -c{' '}
+              <input
+                style={inputStyle}
+                placeholder={`default (${programmingInterface})`}
+                value={options.avrdudeProgrammer ?? ''}
+                onChange={(e) => updateOption('avrdudeProgrammer', e.target.value)}
+              />
+            </label>
+            <label>
+              Port{' '}
+              <input
+                style={inputStyle}
+                placeholder={programmingInterface === 'UPDI' ? '/dev/ttyUSB0' : 'usb'}
+                value={options.port ?? ''}
+                onChange={(e) => updateOption('port', e.target.value)}
+              />
+            </label>
+            {programmingInterface === 'UPDI' && (
+              <label>
+                pymcuprog -t{' '}
+                <input
+                  style={inputStyle}
+                  placeholder="uart"
+                  value={options.pymcuprogTool ?? ''}
+                  onChange={(e) => updateOption('pymcuprogTool', e.target.value)}
+                />
+              </label>
+            )}
+          </>
+        )}
+      </div>
+
+      {commandSets.map(commandSet => (
+        <div key={commandSet.tool} style={{ marginBottom: '16px' }}>
+          <h4 style={{
+            margin: '0 0 6px 0',
+            padding: '8px',
+            backgroundColor: '#f0f0f0',
+            border: '1px solid #ccc'
+          }}>
+            {commandSet.title}
+          </h4>
+          <CommandBlock label="Write" command={commandSet.write} copyDisabled={copyDisabled} />
+          <CommandBlock label="Read back / verify" command={commandSet.verify} copyDisabled={copyDisabled} />
+          {commandSet.files.map(file => (
+            <div key={file.name} style={{ marginTop: '6px', fontSize: '12px' }}>
+              <button
+                onClick={() => downloadTextFile(file.content, file.name)}
+                style={{ fontSize: '12px' }}
+              >
+                💾 Download {file.name}
+              </button>
+            </div>
+          ))}
+          <ul style={{ margin: '6px 0 0 0', paddingLeft: '20px', fontSize: '12px', color: '#666' }}>
+            {commandSet.notes.map((note, index) => (
+              <li key={index}>{note}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import type { AtPackDevice } from '../types/atpack';
+import { CHeaderGenerator } from '../services/generators/CHeaderGenerator';
+import { SvdGenerator } from '../services/generators/SvdGenerator';
+import { downloadTextFile } from '../utils/download';
+
+interface RegisterExportToolbarProps {
+  device: AtPackDevice;
+}
+
+export const RegisterExportToolbar: React.FC<RegisterExportToolbarProps> = ({ device }) => {
+  const [includeStructs, setIncludeStructs] = useState(false);
+
+  const handleDownloadHeader = () => {
+    const header = new CHeaderGenerator().generate(device, { includeStructs });
+    downloadTextFile(header, `${device.name.toLowerCase()}_regs.h`, 'text/x-c');
+  };
+
+  const handleDownloadSvd = () => {
+    const svd = new SvdGenerator().generate(device);
+    downloadTextFile(svd, `${device.name}.svd`, 'application/xml');
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '10px', fontSize: '12px' }}>
+      <button onClick={handleDownloadHeader} style={{ fontSize: '12px' }} title="Generate a C header from the register descriptions">
+        📄 Download C header
+      </button>
+      <button onClick={handleDownloadSvd} style={{ fontSize: '12px' }} title="Generate a CMSIS-SVD file (svd2rust/avr-device compatible)">
+        🦀 Download SVD
+      </button>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <input
+          type="checkbox"
+          checked={includeStructs}
+          onChange={(e) => setIncludeStructs(e.target.checked)}
+        />
+        Include struct overlays
+      </label>
+    </div>
+  );
+};
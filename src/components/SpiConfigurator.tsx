@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import type { AtPackDevice } from '../types/atpack';
+import { SpiClockCalculator, type SpiInstance } from '../services/SpiClockCalculator';
+import { formatFrequency } from '../utils/clockTree';
+
+interface SpiConfiguratorProps {
+  device: AtPackDevice;
+  clockFrequency: number; // SPI clock (CPU/peripheral clock) in Hz
+}
+
+const calculator = new SpiClockCalculator();
+
+const cellStyle: React.CSSProperties = { border: '1px solid #ddd', padding: '4px' };
+const headerStyle: React.CSSProperties = { ...cellStyle, textAlign: 'left', backgroundColor: '#f8f9fa' };
+
+/**
+ * SPI master SCK settings of a device: every prescaler and double speed combination with its
+ * register values and SCK frequency, the fastest one within the target highlighted
+ */
+export const SpiConfigurator: React.FC<SpiConfiguratorProps> = ({ device, clockFrequency }) => {
+  const instances = calculator.getInstances(device);
+  const [selectedInstance, setSelectedInstance] = useState<string>(instances[0]?.name ?? '');
+  const [targetFrequency, setTargetFrequency] = useState<number>(1000000);
+
+  const instance: SpiInstance | undefined = instances.find(i => i.name === selectedInstance) ?? instances[0];
+  if (!instance) {
+    return <p style={{ color: '#666' }}>No SPI prescaler found in the ATDF file.</p>;
+  }
+
+  const settings = calculator.getSettings(instance, clockFrequency);
+  const best = calculator.getBestSetting(instance, clockFrequency, targetFrequency);
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '20px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '15px' }}>
+        <div>
+          <label style={{ fontWeight: 'bold', marginRight: '8px' }}>SPI:</label>
+          <select value={instance.name} onChange={(e) => setSelectedInstance(e.target.value)} style={{ padding: '4px 8px' }}>
+            {instances.map(i => (
+              <option key={i.name} value={i.name}>{i.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={{ fontWeight: 'bold', marginRight: '8px' }}>Target SCK (Hz):</label>
+          <input
+            type="number"
+            value={targetFrequency}
+            onChange={(e) => setTargetFrequency(parseInt(e.target.value) || 1000000)}
+            style={{ padding: '4px 8px', width: '120px' }}
+          />
+        </div>
+        <div style={{ fontSize: '13px', color: '#666' }}>Clock: {formatFrequency(clockFrequency)}</div>
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+        <thead>
+          <tr>
+            <th style={headerStyle}>{instance.prescalerRegister}.{instance.prescalerBitfield}</th>
+            {instance.doubleSpeed && <th style={headerStyle}>{instance.doubleSpeedRegister}.{instance.doubleSpeed}</th>}
+            <th style={headerStyle}>Divider</th>
+            <th style={headerStyle}>SCK</th>
+          </tr>
+        </thead>
+        <tbody>
+          {settings.map(setting => {
+            const selected = setting.prescaler.value === best?.prescaler.value && setting.doubleSpeed === best?.doubleSpeed;
+            const above = setting.frequency > targetFrequency;
+            return (
+              <tr
+                key={`${setting.prescaler.value}-${setting.doubleSpeed}`}
+                style={{ backgroundColor: selected ? '#e3f2fd' : undefined, fontWeight: selected ? 'bold' : 'normal' }}
+              >
+                <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{setting.prescaler.value} ({setting.prescaler.name})</td>
+                {instance.doubleSpeed && <td style={{ ...cellStyle, fontFamily: 'monospace' }}>{setting.doubleSpeed ? 1 : 0}</td>}
+                <td style={cellStyle}>/{setting.divider}</td>
+                <td style={{ ...cellStyle, color: above ? '#999' : undefined }}>
+                  {formatFrequency(setting.frequency)}{selected ? ' ✓' : ''}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div style={{ marginTop: '10px', fontSize: '13px', color: '#666' }}>
+        Settings above the target SCK are greyed out. In slave mode the SCK frequency must stay below {formatFrequency(clockFrequency / 4)} (clock/4).
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { DeviceFamily, type AtPackDevice } from '../types/atpack';
 import { useAtPackStore } from '../stores/atpackStore';
+import { DeviceDescriptionSource } from '../services/DeviceDescriptionSource';
 
 interface SupportInfoProps {
   device: AtPackDevice;
@@ -63,40 +64,24 @@ export const SupportInfo: React.FC<SupportInfoProps> = ({ device }) => {
       setError(null);
 
       try {
-        const deviceName = device.name.toLowerCase();
-        const cleanDeviceName = deviceName.startsWith('pic') ? deviceName.substring(3) : deviceName;
-        const zipContent = selectedAtPack.zipContent;
-        
-        if (!zipContent) {
-          throw new Error('AtPack ZIP content not available');
+        const source = DeviceDescriptionSource.forPack(selectedAtPack);
+        if (!source) {
+          throw new Error('The raw files of this pack are not available');
         }
 
+        const deviceFiles = await source.listDeviceFiles(device);
+
         // Load compiler documentation (HTML)
-        const supportFileName = `xc8/docs/chips/${cleanDeviceName}.html`;
-        const htmlFile = zipContent.files[supportFileName];
-        if (htmlFile) {
-          const htmlContent = await htmlFile.async('text');
-          setSupportHtml(htmlContent);
-        } else {
-          setSupportHtml('');
-        }
+        const supportFile = deviceFiles.find(file => file.kind === 'documentation' && /\.html?$/i.test(file.path));
+        setSupportHtml(supportFile ? await source.readFile(supportFile.path) || '' : '');
 
-        // Load include files (.h files)
-        const allFiles = Object.keys(zipContent.files);
-        const includeFilePaths = allFiles.filter(path => 
-          path.toLowerCase().includes(cleanDeviceName) && 
-          path.endsWith('.h') &&
-          (path.includes('xc8/') || path.includes('include/'))
-        );
-        setIncludeFiles(includeFilePaths);
+        // Include files (.h files)
+        setIncludeFiles(deviceFiles.filter(file => file.kind === 'header').map(file => file.path));
 
-        // Load data files (.inc, .def, etc.)
-        const dataFilePaths = allFiles.filter(path => 
-          path.toLowerCase().includes(cleanDeviceName) && 
-          (path.endsWith('.inc') || path.endsWith('.def') || path.endsWith('.cfg')) &&
-          path.includes('xc8/')
-        );
-        setDataFiles(dataFilePaths);
+        // Data files (.inc, .def, etc.) and linker scripts
+        setDataFiles(deviceFiles
+          .filter(file => file.kind === 'data' || file.kind === 'linkerScript')
+          .map(file => file.path));
         
       } catch (err) {
         console.error('Error loading support info:', err);
@@ -110,12 +95,12 @@ export const SupportInfo: React.FC<SupportInfoProps> = ({ device }) => {
   }, [device, selectedAtPack]);
 
   const loadFileContent = async (filePath: string) => {
-    if (!selectedAtPack?.zipContent) return;
+    const source = selectedAtPack && DeviceDescriptionSource.forPack(selectedAtPack);
+    if (!source) return;
     
     try {
-      const file = selectedAtPack.zipContent.files[filePath];
-      if (file) {
-        const content = await file.async('text');
+      const content = await source.readFile(filePath);
+      if (content !== null) {
         setSelectedFileContent(content);
         setSelectedFileName(filePath);
       }
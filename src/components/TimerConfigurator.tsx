@@ -1,16 +1,39 @@
-import React, { useState } from 'react';
-import type { DeviceTimerInfo } from '../types/atpack';
+import React, { useEffect, useState } from 'react';
+import type { DeviceTimerInfo, TimerConfigState } from '../types/atpack';
 
 interface TimerConfiguratorProps {
   timers: DeviceTimerInfo[];
+  initialConfig?: TimerConfigState; // Selection to start from (shared configuration)
+  clockFrequency?: number; // CPU frequency of the clock configuration, replaces the manual value
+  onConfigChange?: (config: TimerConfigState) => void;
 }
 
-export const TimerConfigurator: React.FC<TimerConfiguratorProps> = ({ timers }) => {
-  const [selectedTimer, setSelectedTimer] = useState<string>(timers.length > 0 ? timers[0].name : '');
-  const [selectedMode, setSelectedMode] = useState<number>(-1);
-  const [selectedPrescaler, setSelectedPrescaler] = useState<number>(-1);
-  const [targetFrequency, setTargetFrequency] = useState<number>(1000); // Hz
-  const [cpuFrequency, setCpuFrequency] = useState<number>(16000000); // 16MHz default
+export const TimerConfigurator: React.FC<TimerConfiguratorProps> = ({ timers, initialConfig, clockFrequency, onConfigChange }) => {
+  const [selectedTimer, setSelectedTimer] = useState<string>(
+    timers.find(t => t.name === initialConfig?.timer)?.name ?? (timers.length > 0 ? timers[0].name : '')
+  );
+  const [selectedMode, setSelectedMode] = useState<number>(initialConfig?.mode ?? -1);
+  const [selectedPrescaler, setSelectedPrescaler] = useState<number>(initialConfig?.prescaler ?? -1);
+  const [targetFrequency, setTargetFrequency] = useState<number>(initialConfig?.targetFrequency ?? 1000); // Hz
+  const [cpuFrequency, setCpuFrequency] = useState<number>(clockFrequency ?? initialConfig?.cpuFrequency ?? 16000000); // 16MHz default
+
+  // Follow the clock configuration when it changes
+  useEffect(() => {
+    if (clockFrequency !== undefined) {
+      setCpuFrequency(clockFrequency);
+    }
+  }, [clockFrequency]);
+
+  // Report the selection to the parent (shared configuration)
+  useEffect(() => {
+    onConfigChange?.({
+      timer: selectedTimer || undefined,
+      mode: selectedMode !== -1 ? selectedMode : undefined,
+      prescaler: selectedPrescaler !== -1 ? selectedPrescaler : undefined,
+      cpuFrequency,
+      targetFrequency
+    });
+  }, [selectedTimer, selectedMode, selectedPrescaler, cpuFrequency, targetFrequency, onConfigChange]);
 
   const selectedTimerData = timers.find(t => t.name === selectedTimer);
 
@@ -91,6 +114,7 @@ export const TimerConfigurator: React.FC<TimerConfiguratorProps> = ({ timers })
               value={cpuFrequency}
               onChange={(e) => setCpuFrequency(parseInt(e.target.value) || 16000000)}
               style={{ padding: '4px 8px', width: '120px' }}
+              title={clockFrequency !== undefined ? 'From the clock configuration' : undefined}
             />
           </div>
           
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import type { AtPackDevice } from '../types/atpack';
+import { I2C_MODES, TwiClockCalculator, type I2cMode, type TwiInstance } from '../services/TwiClockCalculator';
+import { formatFrequency } from '../utils/clockTree';
+
+interface TwiConfiguratorProps {
+  device: AtPackDevice;
+  clockFrequency: number; // TWI clock (CPU/peripheral clock) in Hz
+}
+
+const calculator = new TwiClockCalculator();
+
+const cellStyle: React.CSSProperties = { border: '1px solid #ddd', padding: '4px' };
+const headerStyle: React.CSSProperties = { ...cellStyle, textAlign: 'left', backgroundColor: '#f8f9fa' };
+
+/**
+ * TWI/I2C master SCL settings of a device: register values reaching a target SCL frequency,
+ * checked against the limit of the selected I2C mode (standard, fast, fast plus)
+ */
+export const TwiConfigurator: React.FC<TwiConfiguratorProps> = ({ device, clockFrequency }) => {
+  const instances = calculator.getInstances(device);
+  const [selectedInstance, setSelectedInstance] = useState<string>(instances[0]?.name ?? '');
+  const [mode, setMode] = useState<I2cMode>('standard');
+  const [targetFrequency, setTargetFrequency] = useState<number>(100000);
+  const [riseTime, setRiseTime] = useState<number>(0); // ns
+
+  const instance: TwiInstance | undefined = instances.find(i => i.name === selectedInstance) ?? instances[0];
+  if (!instance) {
+    return <p style={{ color: '#666' }}>No TWI module found in the ATDF file.</p>;
+  }
+
+  const limit = I2C_MODES.find(m => m.mode === mode) ?? I2C_MODES[0];
+  const settings = calculator.getSettings(instance, clockFrequency, targetFrequency, riseTime * 1e-9);
+  const best = calculator.getBestSetting(instance, clockFrequency, targetFrequency, riseTime * 1e-9);
+
+  const handleModeChange = (value: I2cMode) => {
+    setMode(value);
+    setTargetFrequency(I2C_MODES.find(m => m.mode === value)?.maxFrequency ?? targetFrequency);
+  };
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '20px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '15px' }}>
+        <div>
+          <label style={{ fontWeight: 'bold', marginRight: '8px' }}>TWI:</label>
+          <select value={instance.name} onChange={(e) => setSelectedInstance(e.target.value)} style={{ padding: '4px 8px' }}>
+            {instances.map(i => (
+              <option key={i.name} value={i.name}>{i.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={{ fontWeight: 'bold', marginRight: '8px' }}>I2C Mode:</label>
+          <select value={mode} onChange={(e) => handleModeChange(e.target.value as I2cMode)} style={{ padding: '4px 8px' }}>
+            {I2C_MODES.map(m => (
+              <option key={m.mode} value={m.mode}>{m.name} (≤ {formatFrequency(m.maxFrequency)})</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={{ fontWeight: 'bold', marginRight: '8px' }}>Target SCL (Hz):</label>
+          <input
+            type="number"
+            value={targetFrequency}
+            onChange={(e) => setTargetFrequency(parseInt(e.target.value) || 100000)}
+            style={{ padding: '4px 8px', width: '120px' }}
+          />
+        </div>
+        {instance.kind === 'mbaud' && (
+          <div>
+            <label style={{ fontWeight: 'bold', marginRight: '8px' }}>Rise Time (ns):</label>
+            <input
+              type="number"
+              value={riseTime}
+              onChange={(e) => setRiseTime(Math.max(0, parseInt(e.target.value) || 0))}
+              style={{ padding: '4px 8px', width: '80px' }}
+            />
+          </div>
+        )}
+        <div style={{ fontSize: '13px', color: '#666' }}>Clock: {formatFrequency(clockFrequency)}</div>
+      </div>
+
+      {targetFrequency > limit.maxFrequency && (
+        <div style={{ color: '#dc3545', marginBottom: '10px', fontSize: '13px' }}>
+          ⚠️ The target SCL is above the {limit.name.toLowerCase()} limit ({formatFrequency(limit.maxFrequency)}).
+        </div>
+      )}
+
+      {settings.length > 0 ? (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <thead>
+            <tr>
+              <th style={headerStyle}>Registers</th>
+              <th style={headerStyle}>SCL</th>
+              <th style={headerStyle}>Error</th>
+              <th style={headerStyle}>I2C Mode</th>
+              <th style={headerStyle}>Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {settings.map(setting => {
+              const selected = setting.registers.every((register, index) => register.value === best?.registers[index]?.value);
+              const violation = setting.frequency > limit.maxFrequency;
+              const notes = violation
+                ? [`Above the ${limit.name.toLowerCase()} limit`, ...setting.warnings]
+                : setting.warnings;
+              return (
+                <tr
+                  key={setting.registers.map(register => register.value).join('-')}
+                  style={{ backgroundColor: selected ? '#e3f2fd' : undefined, fontWeight: selected ? 'bold' : 'normal' }}
+                >
+                  <td style={{ ...cellStyle, fontFamily: 'monospace' }}>
+                    {setting.registers.map(register => `${register.name} = ${register.value}`).join(', ')}
+                  </td>
+                  <td style={cellStyle}>{formatFrequency(setting.frequency)}{selected ? ' ✓' : ''}</td>
+                  <td style={cellStyle}>{setting.error >= 0 ? '+' : ''}{setting.error.toFixed(2)}%</td>
+                  <td style={cellStyle}>{I2C_MODES.find(m => m.mode === setting.mode)?.name ?? '-'}</td>
+                  <td style={{ ...cellStyle, color: violation ? '#dc3545' : '#856404' }}>
+                    {notes.length > 0 ? `⚠️ ${notes.join('; ')}` : ''}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : (
+        <p style={{ color: '#dc3545' }}>
+          {formatFrequency(targetFrequency)} cannot be reached from {formatFrequency(clockFrequency)} ({instance.baudRegister} out of range).
+        </p>
+      )}
+    </div>
+  );
+};
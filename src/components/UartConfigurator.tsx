@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import type { AtPackDevice } from '../types/atpack';
+import { BAUD_ERROR_LIMIT, BaudRateCalculator, STANDARD_BAUD_RATES, type BaudRateSetting, type UartChannel } from '../services/BaudRateCalculator';
+import { formatFrequency } from '../utils/clockTree';
+
+interface UartConfiguratorProps {
+  device: AtPackDevice;
+  clockFrequency: number; // USART clock (CPU/peripheral clock) in Hz
+}
+
+const calculator = new BaudRateCalculator();
+
+const cellStyle: React.CSSProperties = { border: '1px solid #ddd', padding: '4px' };
+const headerStyle: React.CSSProperties = { ...cellStyle, textAlign: 'left', backgroundColor: '#f8f9fa' };
+
+const formatRegisters = (setting: BaudRateSetting): string =>
+  setting.registers.map(register => `${register.name} = ${register.value}`).join(', ');
+
+const formatError = (error: number): string => `${error >= 0 ? '+' : ''}${error.toFixed(2)}%`;
+
+const SettingCells: React.FC<{ setting?: BaudRateSetting; best: boolean }> = ({ setting, best }) => {
+  if (!setting) {
+    return <td style={{ ...cellStyle, color: '#999' }} colSpan={3}>Out of range</td>;
+  }
+  const warning = Math.abs(setting.error) > BAUD_ERROR_LIMIT;
+  return (
+    <>
+      <td style={{ ...cellStyle, fontFamily: 'monospace', fontWeight: best ? 'bold' : 'normal' }}>{formatRegisters(setting)}</td>
+      <td style={cellStyle}>{Math.round(setting.actualBaud)}</td>
+      <td style={{ ...cellStyle, color: warning ? '#dc3545' : '#28a745', fontWeight: warning ? 'bold' : 'normal' }}>
+        {warning ? '⚠️ ' : ''}{formatError(setting.error)}
+      </td>
+    </>
+  );
+};
+
+/**
+ * Baud rate table of the USART channels of a device: register values, actual baud rate and
+ * error for the standard rates and a custom rate, with the crystals giving the custom rate
+ * without error
+ */
+export const UartConfigurator: React.FC<UartConfiguratorProps> = ({ device, clockFrequency }) => {
+  const channels = calculator.getChannels(device);
+  const [selectedChannel, setSelectedChannel] = useState<string>(channels[0]?.name ?? '');
+  const [customBaud, setCustomBaud] = useState<number>(115200);
+
+  const channel: UartChannel | undefined = channels.find(c => c.name === selectedChannel) ?? channels[0];
+  if (!channel) {
+    return <p style={{ color: '#666' }}>No USART module found in the ATDF file.</p>;
+  }
+
+  const rates = [customBaud, ...STANDARD_BAUD_RATES.filter(rate => rate !== customBaud)];
+  const crystals = calculator.suggestCrystals(channel, customBaud);
+  const customBest = calculator.getBestSetting(channel, clockFrequency, customBaud);
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '20px', flexWrap: 'wrap', alignItems: 'center', marginBottom: '15px' }}>
+        <div>
+          <label style={{ fontWeight: 'bold', marginRight: '8px' }}>USART:</label>
+          <select value={channel.name} onChange={(e) => setSelectedChannel(e.target.value)} style={{ padding: '4px 8px' }}>
+            {channels.map(c => (
+              <option key={c.name} value={c.name}>{c.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={{ fontWeight: 'bold', marginRight: '8px' }}>Custom Baud Rate:</label>
+          <input
+            type="number"
+            value={customBaud}
+            onChange={(e) => setCustomBaud(parseInt(e.target.value) || 9600)}
+            style={{ padding: '4px 8px', width: '120px' }}
+          />
+        </div>
+        <div style={{ fontSize: '13px', color: '#666' }}>
+          Clock: {formatFrequency(clockFrequency)} · {channel.baudRegister} ({channel.baudBits} bits
+          {channel.kind === 'fractional' ? ', fractional' : ''}{channel.kind === 'xmega' ? ', BSEL with BSCALE' : ''})
+          {channel.doubleSpeed ? ` · double speed: ${channel.doubleSpeed}` : ''}
+        </div>
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+        <thead>
+          <tr>
+            <th style={headerStyle} rowSpan={2}>Baud</th>
+            <th style={headerStyle} colSpan={3}>Normal speed</th>
+            {channel.doubleSpeed && <th style={headerStyle} colSpan={3}>Double speed ({channel.doubleSpeed})</th>}
+          </tr>
+          <tr>
+            <th style={headerStyle}>Register</th>
+            <th style={headerStyle}>Actual</th>
+            <th style={headerStyle}>Error</th>
+            {channel.doubleSpeed && (
+              <>
+                <th style={headerStyle}>Register</th>
+                <th style={headerStyle}>Actual</th>
+                <th style={headerStyle}>Error</th>
+              </>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {rates.map((rate, index) => {
+            const settings = calculator.calculate(channel, clockFrequency, rate);
+            const best = calculator.getBestSetting(channel, clockFrequency, rate);
+            const normal = settings.find(s => !s.doubleSpeed);
+            const double = settings.find(s => s.doubleSpeed);
+            return (
+              <tr key={rate} style={{ backgroundColor: index === 0 ? '#e3f2fd' : undefined }}>
+                <td style={{ ...cellStyle, fontWeight: 'bold' }}>{rate}{index === 0 ? ' (custom)' : ''}</td>
+                <SettingCells setting={normal} best={best?.doubleSpeed === false} />
+                {channel.doubleSpeed && <SettingCells setting={double} best={best?.doubleSpeed === true} />}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div style={{ marginTop: '15px', fontSize: '13px' }}>
+        {customBest && Math.abs(customBest.error) > BAUD_ERROR_LIMIT && (
+          <div style={{ color: '#dc3545', marginBottom: '8px' }}>
+            ⚠️ {customBaud} baud has a {formatError(customBest.error)} error at {formatFrequency(clockFrequency)}, above the ±{BAUD_ERROR_LIMIT}% tolerance of asynchronous communication.
+          </div>
+        )}
+        {!customBest && (
+          <div style={{ color: '#dc3545', marginBottom: '8px' }}>
+            ⚠️ {customBaud} baud cannot be generated from {formatFrequency(clockFrequency)}.
+          </div>
+        )}
+        <strong>Crystals for {customBaud} baud without error:</strong>{' '}
+        {crystals.length > 0 ? crystals.map(formatFrequency).join(', ') : 'none of the standard crystals'}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,3 @@
-import JSZip from 'jszip';
 import { BaseParser } from './parsers/BaseParser';
 import { PdscParser } from './parsers/PdscParser';
 import { AtdfParser } from './parsers/AtdfParser';
@@ -8,9 +7,15 @@ import { PicPinoutParser } from './parsers/PicPinoutParser';
 import { TimerParser } from './parsers/TimerParser';
 import { ClockParser } from './parsers/ClockParser';
 import { PicParser } from './parsers/PicParser';
-import type { AtPack } from '../types/atpack';
+import { AtPackSerializer } from './AtPackSerializer';
+import { DeviceDescriptionSource, findDescriptionFile } from './DeviceDescriptionSource';
+import type { AtPack, AtPackDevice, AtPackParseProgress } from '../types/atpack';
 import { AtPackParseError, DeviceFamily } from '../types/atpack';
 
+export interface AtPackParseOptions {
+  lazy?: boolean; // Only parse the .pdsc of archives; devices are enriched later with enrichDevices
+}
+
 /**
  * Main AtPack parser that coordinates all specialized parsers
  */
@@ -39,7 +44,7 @@ export class AtPackParser extends BaseParser {
   /**
    * Parse an .atpack file (ZIP) from File object
    */
-  async parseAtPackZipFile(file: File): Promise<AtPack> {
+  async parseAtPackZipFile(file: File, options: AtPackParseOptions = {}): Promise<AtPack> {
     try {
       const zipContent = await this.loadZipFromFile(file);
       
@@ -49,18 +54,16 @@ export class AtPackParser extends BaseParser {
         throw new Error('No .pdsc file found in the .atpack archive');
       }
       
-      // Extract and read the .pdsc file content
-      const xmlText = await this.extractFileFromZip(zipContent, pdscFileName);
-      const xmlDoc = this.parseXml(xmlText);
-      
-      // Extract basic data from .pdsc
-      const atpack = this.pdscParser.extractAtPackData(xmlDoc);
+      // Extract basic data from the .pdsc file content
+      const atpack = this.parseArchivePdsc(await this.extractFileFromZip(zipContent, pdscFileName));
       
       // Store ZIP content for later access to raw files
       atpack.zipContent = zipContent;
       
       // Enrich data with device-specific files (.atdf for AVR, .PIC for PIC)
-      await this.enrichWithDeviceData(atpack, zipContent);
+      if (!options.lazy) {
+        await this.enrichDevices(atpack);
+      }
       
       return atpack;
     } catch (error) {
@@ -74,9 +77,12 @@ export class AtPackParser extends BaseParser {
   /**
    * Parse file - detect type and parse accordingly
    */
-  async parseFile(file: File): Promise<AtPack> {
+  async parseFile(file: File, options: AtPackParseOptions = {}): Promise<AtPack> {
     if (file.name.endsWith('.atpack')) {
-      return this.parseAtPackZipFile(file);
+      return this.parseAtPackZipFile(file, options);
+    } else if (file.name.endsWith('.json')) {
+      // JSON exports are already parsed, no ZIP content is available
+      return new AtPackSerializer().importAtPack(await file.text());
     } else if (file.name.endsWith('.xml') || file.name.endsWith('.pdsc')) {
       // For direct XML files, use FileReader
       return new Promise((resolve, reject) => {
@@ -99,7 +105,7 @@ export class AtPackParser extends BaseParser {
         reader.readAsText(file);
       });
     } else {
-      throw new AtPackParseError('Unsupported file type. Use .atpack or .xml/.pdsc files');
+      throw new AtPackParseError('Unsupported file type. Use .atpack, .xml/.pdsc or .json export files');
     }
   }
 
@@ -124,14 +130,14 @@ export class AtPackParser extends BaseParser {
   /**
    * Parse URL - detect file type and parse accordingly
    */
-  async parseUrl(url: string): Promise<AtPack> {
+  async parseUrl(url: string, options: AtPackParseOptions = {}): Promise<AtPack> {
     try {
       console.log(`Parsing URL: ${url}`);
       
       // Detect file type by extension or URL
       if (url.endsWith('.atpack') || url.includes('.atpack')) {
         // For .atpack files (ZIP), download and parse as ZIP
-        return this.parseAtPackZipFromUrl(url);
+        return this.parseAtPackZipFromUrl(url, options);
       } else if (url.endsWith('.xml') || url.endsWith('.pdsc') || url.includes('.pdsc')) {
         // For direct XML/PDSC files
         return this.parseAtPackFile(url);
@@ -150,7 +156,7 @@ export class AtPackParser extends BaseParser {
   /**
    * Parse an .atpack file (ZIP) from URL
    */
-  async parseAtPackZipFromUrl(url: string): Promise<AtPack> {
+  async parseAtPackZipFromUrl(url: string, options: AtPackParseOptions = {}): Promise<AtPack> {
     try {
       console.log(`Downloading AtPack ZIP from: ${url}`);
       const zipContent = await this.loadZipFromUrl(url);
@@ -161,15 +167,16 @@ export class AtPackParser extends BaseParser {
         throw new Error('No .pdsc file found in .atpack archive');
       }
       
-      // Extract and read the .pdsc file content
-      const xmlText = await this.extractFileFromZip(zipContent, pdscFileName);
-      const xmlDoc = this.parseXml(xmlText);
+      // Extract basic data from the .pdsc file content
+      const atpack = this.parseArchivePdsc(await this.extractFileFromZip(zipContent, pdscFileName));
       
-      // Extract basic data from .pdsc
-      const atpack = this.pdscParser.extractAtPackData(xmlDoc);
+      // Store ZIP content for later access to raw files
+      atpack.zipContent = zipContent;
       
       // Enrich data with device-specific files (.atdf for AVR, .PIC for PIC)
-      await this.enrichWithDeviceData(atpack, zipContent);
+      if (!options.lazy) {
+        await this.enrichDevices(atpack);
+      }
       
       return atpack;
     } catch (error) {
@@ -278,83 +285,113 @@ export class AtPackParser extends BaseParser {
   }
 
   /**
-   * Find PIC file for a specific device in ZIP archive
+   * Parse the .pdsc file of an .atpack archive. All devices take the family detected
+   * for the whole pack, which selects their device-specific files (see findDeviceFile),
+   * and are left pending enrichment.
    */
-  private findPicFile(zipContent: JSZip, deviceName: string): string | null {
-    // Look for exact match first
-    let picFileName = Object.keys(zipContent.files).find(fileName => 
-      fileName.includes(`${deviceName}.PIC`) && !zipContent.files[fileName].dir
-    );
+  parseArchivePdsc(pdscText: string): AtPack {
+    const xmlDoc = this.parseXml(pdscText);
+    const atpack = this.pdscParser.extractAtPackData(xmlDoc);
+    const deviceFamily = this.detectDeviceFamily(xmlDoc);
     
-    if (!picFileName) {
-      // Look for .PIC extension case-insensitively
-      picFileName = Object.keys(zipContent.files).find(fileName => 
-        fileName.toLowerCase().includes(`${deviceName.toLowerCase()}.pic`) && !zipContent.files[fileName].dir
-      );
+    atpack.devices.forEach(device => {
+      device.deviceFamily = deviceFamily;
+      device.enrichmentPending = true;
+    });
+    return atpack;
+  }
+
+  /**
+   * Find the device-specific file (.atdf for AVR, .PIC for PIC) of a device among archive file names
+   */
+  findDeviceFile(fileNames: string[], device: AtPackDevice): string | null {
+    return findDescriptionFile(fileNames, device);
+  }
+
+  /**
+   * Enrich a device with the content of its device-specific file (see findDeviceFile)
+   */
+  enrichDevice(device: AtPackDevice, content: string): void {
+    const deviceDoc = this.parseXml(content);
+
+    if (device.deviceFamily === DeviceFamily.PIC) {
+      // Parse PIC-specific data
+      const picData = this.picParser.parseDeviceData(deviceDoc, device.name);
+      
+      // Parse PIC pinouts
+      device.pinouts = this.picPinoutParser.parsePinouts(deviceDoc, device.name);
+      
+      // Merge PIC data with device data
+      if (picData.memory) device.memory = picData.memory;
+      if (picData.fuses) device.fuses = picData.fuses;
+      if (picData.signatures) device.signatures = picData.signatures;
+      
+      console.log(`  - Pinouts: ${device.pinouts.length}`);
+      // Note: PIC doesn't use lockbits the same way as AVR
+    } else {
+      // Enrich device with ATDF data
+      this.atdfParser.enrichDeviceFromAtdf(device, deviceDoc);
+      
+      // Parse additional AVR-specific data
+      device.peripherals = this.peripheralParser.parsePeripherals(deviceDoc);
+      device.pinouts = this.pinoutParser.parsePinouts(deviceDoc);
+      device.timers = this.timerParser.parseTimers(deviceDoc);
+      device.clockInfo = this.clockParser.parseClockInfo(deviceDoc);
+      
+      console.log(`  - Peripherals: ${device.peripherals.length}`);
+      console.log(`  - Pinouts: ${device.pinouts.length}`);
+      console.log(`  - Timers: ${device.timers.length}`);
     }
-    
-    return picFileName || null;
+
+    delete device.enrichmentPending;
+  }
+
+  /**
+   * Get the source of the raw device files of a pack (see DeviceDescriptionSource)
+   */
+  getDescriptionSource(atpack: AtPack): DeviceDescriptionSource | null {
+    return DeviceDescriptionSource.forPack(atpack);
   }
 
   /**
-   * Enrich AtPack data with device-specific files (.atdf for AVR, .PIC for PIC)
+   * Enrich a device pending enrichment with its device-specific file from the pack source
    */
-  private async enrichWithDeviceData(atpack: AtPack, zipContent: JSZip): Promise<void> {
-    const deviceFamily = this.detectDeviceFamily(this.parseXml(await this.extractFileFromZip(zipContent, this.findPdscFile(zipContent)!)));
+  async enrichDeviceFromArchive(atpack: AtPack, device: AtPackDevice): Promise<void> {
+    if (!device.enrichmentPending) {
+      return;
+    }
+    const source = this.getDescriptionSource(atpack);
+    if (!source) {
+      throw new AtPackParseError(`No pack files available to parse ${device.name}`);
+    }
+
+    const content = await source.readDescriptionText(device);
+    if (content === null) {
+      // Nothing more to parse, the device keeps its .pdsc data
+      console.warn(`No ${device.deviceFamily === DeviceFamily.PIC ? 'PIC' : 'ATDF'} file found for device: ${device.name}`);
+      delete device.enrichmentPending;
+      return;
+    }
+
+    console.log(`Found device file for ${device.name} in ${source.location}`);
+    this.enrichDevice(device, content);
+  }
+
+  /**
+   * Enrich the given devices (all devices by default) with their device-specific files
+   * (.atdf for AVR, .PIC for PIC). Errors are logged per device; failed devices stay pending.
+   */
+  async enrichDevices(
+    atpack: AtPack,
+    devices: AtPackDevice[] = atpack.devices,
+    onProgress?: (progress: AtPackParseProgress) => void
+  ): Promise<void> {
+    const pending = devices.filter(device => device.enrichmentPending);
     
-    for (const device of atpack.devices) {
-      // Set device family
-      device.deviceFamily = deviceFamily;
-      
+    for (const [index, device] of pending.entries()) {
+      onProgress?.({ stage: 'devices', current: index + 1, total: pending.length, deviceName: device.name });
       try {
-        if (deviceFamily === DeviceFamily.PIC) {
-          // For PIC devices, look for .PIC files
-          const picFileName = this.findPicFile(zipContent, device.name);
-          if (picFileName) {
-            console.log(`Found PIC file for ${device.name}: ${picFileName}`);
-            const picContent = await this.extractFileFromZip(zipContent, picFileName);
-            const picDoc = this.parseXml(picContent);
-            
-            // Parse PIC-specific data
-            const picData = this.picParser.parseDeviceData(picDoc, device.name);
-            
-            // Parse PIC pinouts
-            device.pinouts = this.picPinoutParser.parsePinouts(picDoc, device.name);
-            
-            // Merge PIC data with device data
-            if (picData.memory) device.memory = picData.memory;
-            if (picData.fuses) device.fuses = picData.fuses;
-            if (picData.signatures) device.signatures = picData.signatures;
-            
-            console.log(`  - Pinouts: ${device.pinouts.length}`);
-            // Note: PIC doesn't use lockbits the same way as AVR
-          } else {
-            console.warn(`No PIC file found for device: ${device.name}`);
-          }
-        } else {
-          // For AVR devices, use existing ATDF parsing
-          const atdfFileName = this.findAtdfFile(zipContent, device.name);
-          if (atdfFileName) {
-            console.log(`Found ATDF file for ${device.name}: ${atdfFileName}`);
-            const atdfContent = await this.extractFileFromZip(zipContent, atdfFileName);
-            const atdfDoc = this.parseXml(atdfContent);
-            
-            // Enrich device with ATDF data
-            this.atdfParser.enrichDeviceFromAtdf(device, atdfDoc);
-            
-            // Parse additional AVR-specific data
-            device.peripherals = this.peripheralParser.parsePeripherals(atdfDoc);
-            device.pinouts = this.pinoutParser.parsePinouts(atdfDoc);
-            device.timers = this.timerParser.parseTimers(atdfDoc);
-            device.clockInfo = this.clockParser.parseClockInfo(atdfDoc);
-            
-            console.log(`  - Peripherals: ${device.peripherals.length}`);
-            console.log(`  - Pinouts: ${device.pinouts.length}`);
-            console.log(`  - Timers: ${device.timers.length}`);
-          } else {
-            console.warn(`No ATDF file found for device: ${device.name}`);
-          }
-        }
+        await this.enrichDeviceFromArchive(atpack, device);
       } catch (error) {
         console.error(`Error parsing device-specific data for ${device.name}:`, error);
       }
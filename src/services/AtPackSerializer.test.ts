@@ -0,0 +1,156 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AtPackParser } from './AtPackParser';
+import { AtPackSerializer, EXPORT_FORMAT, EXPORT_FORMAT_VERSION, EXPORT_SCHEMA_URL } from './AtPackSerializer';
+import type { AtPack } from '../types/atpack';
+import { AtPackParseError } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATtiny_DFP">
+  <description>Microchip ATtiny Series Device Support</description>
+  <releases><release version="2.0.368">ATtiny1614, ATtiny3216</release></releases>
+  <devices>
+    <family Dfamily="ATtiny" Dvendor="Microchip:3">
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/><interface type="UPDI"/></device>
+      <device Dname="ATtiny3216"><processor Dcore="AVRXT"/><interface type="UPDI"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATtiny1614.atdf: PORTA, its interrupt and the OSCCFG fuse
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <address-spaces>
+        <address-space endianness="little" name="data" id="data" start="0x0000" size="0x10000">
+          <memory-segment name="FUSES" start="0x1280" size="0x000A" type="fuses" pagesize="0x20"/>
+          <memory-segment name="INTERNAL_SRAM" start="0x3800" size="0x0800" type="ram"/>
+        </address-space>
+      </address-spaces>
+      <peripherals>
+        <module name="PORT">
+          <instance name="PORTA" caption="I/O Ports">
+            <register-group name="PORTA" name-in-module="PORT" offset="0x0400" address-space="data" caption="I/O Ports"/>
+          </instance>
+        </module>
+      </peripherals>
+      <interrupts>
+        <interrupt index="4" name="PORTA_PORT" caption="Port A" module-instance="PORTA"/>
+      </interrupts>
+    </device>
+  </devices>
+  <modules>
+    <module caption="I/O Ports" name="PORT">
+      <register-group caption="I/O Ports" name="PORT" size="0x20">
+        <register caption="Data Direction" name="DIR" offset="0x00" size="1" mask="0xFF" initval="0x00"/>
+      </register-group>
+    </module>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="Oscillator Configuration" name="OSCCFG" offset="0x02" size="1" initval="0x02">
+          <bitfield caption="Frequency Select" mask="0x03" name="FREQSEL"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// ATtiny1614 parsed, ATtiny3216 left pending like a device whose file failed to parse
+const createPack = (): AtPack => {
+  const parser = new AtPackParser();
+  const atpack = parser.parseArchivePdsc(PDSC);
+  parser.enrichDevice(atpack.devices[0], ATTINY1614_ATDF);
+  atpack.source = { type: 'file', fileName: 'Microchip.ATtiny_DFP.2.0.368.atpack' };
+  return atpack;
+};
+
+describe('AtPackSerializer', () => {
+  const serializer = new AtPackSerializer();
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('round-trips the parsed pack data through JSON', () => {
+    const atpack = createPack();
+    const document = serializer.exportAtPack(atpack, { keepPending: true });
+
+    expect(document).toMatchObject({
+      $schema: EXPORT_SCHEMA_URL,
+      format: EXPORT_FORMAT,
+      formatVersion: EXPORT_FORMAT_VERSION,
+      kind: 'pack'
+    });
+    // Where the pack was loaded from is not part of the export
+    expect(serializer.importDocument(JSON.parse(serializer.stringify(document)))).toEqual({
+      metadata: atpack.metadata,
+      version: atpack.version,
+      devices: atpack.devices
+    });
+  });
+
+  it('exports identical documents for the same pack', () => {
+    expect(serializer.stringify(serializer.exportAtPack(createPack())))
+      .toBe(serializer.stringify(serializer.exportAtPack(createPack())));
+  });
+
+  it('exports a single device with the pack metadata', () => {
+    const atpack = createPack();
+    const document = serializer.exportDevice(atpack, atpack.devices[1]);
+
+    expect(document.kind).toBe('device');
+    expect(document.pack.metadata).toEqual(atpack.metadata);
+    expect(document.pack.devices.map(device => device.name)).toEqual(['ATtiny3216']);
+  });
+
+  it('exports devices left unparsed as incomplete', () => {
+    const atpack = createPack();
+    const [parsed, pending] = serializer.exportAtPack(atpack).pack.devices;
+
+    expect(parsed.incomplete).toBeUndefined();
+    expect(pending.enrichmentPending).toBeUndefined();
+    expect(pending.incomplete).toBe(true);
+    expect(atpack.devices[1].enrichmentPending).toBe(true);
+  });
+
+  it('imports pending devices as incomplete', () => {
+    const json = serializer.stringify(serializer.exportAtPack(createPack(), { keepPending: true }));
+    const pending = serializer.importAtPack(json).devices[1];
+
+    expect(pending.enrichmentPending).toBeUndefined();
+    expect(pending.incomplete).toBe(true);
+  });
+
+  it('rejects documents of another format or an unsupported version', () => {
+    const document = serializer.exportAtPack(createPack());
+
+    expect(() => serializer.importAtPack('{')).toThrow(AtPackParseError);
+    expect(() => serializer.importDocument({ ...document, format: 'other' })).toThrow('format must be "atpack-export"');
+    [EXPORT_FORMAT_VERSION + 1, 0, -1, 0.5, '1', undefined].forEach(formatVersion => {
+      expect(() => serializer.importDocument({ ...document, formatVersion }))
+        .toThrow(`Unsupported export format version ${formatVersion} (supported: 1 to ${EXPORT_FORMAT_VERSION})`);
+    });
+  });
+
+  it('names the first invalid entry of a malformed device', () => {
+    const invalid = (mutate: (document: ReturnType<typeof JSON.parse>) => void): unknown => {
+      const document = JSON.parse(serializer.stringify(serializer.exportAtPack(createPack())));
+      mutate(document);
+      return document;
+    };
+
+    expect(() => serializer.importDocument(invalid(document => { document.pack.devices = {}; })))
+      .toThrow('Invalid JSON export: pack.devices must be an array');
+    expect(() => serializer.importDocument(invalid(document => { delete document.pack.devices[1].name; })))
+      .toThrow('Invalid JSON export: pack.devices[1].name must be a string');
+    expect(() => serializer.importDocument(invalid(document => { document.pack.devices[0].fuses[0].bitfields[0].bitWidth = null; })))
+      .toThrow('Invalid JSON export: pack.devices[0].fuses[0].bitfields[0].bitWidth must be a number');
+    expect(() => serializer.importDocument(invalid(document => { document.pack.devices[0].modules[0].registerGroups[0].offset = '0x400'; })))
+      .toThrow('Invalid JSON export: pack.devices[0].modules[0].registerGroups[0].offset must be a number');
+    expect(() => serializer.importDocument(invalid(document => { document.pack.devices[0].peripherals[0].registerGroups[0].registers[0] = 'DIR'; })))
+      .toThrow('Invalid JSON export: pack.devices[0].peripherals[0].registerGroups[0].registers[0] must be an object');
+  });
+});
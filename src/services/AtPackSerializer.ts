@@ -0,0 +1,222 @@
+import type { AtPack, AtPackDevice, AtPackExportDocument, SerializedAtPack } from '../types/atpack';
+import { AtPackParseError } from '../types/atpack';
+import { APP_NAME, APP_VERSION } from '../utils/version';
+
+export const EXPORT_FORMAT = 'atpack-export';
+export const EXPORT_FORMAT_VERSION = 1;
+export const EXPORT_SCHEMA_URL = 'https://s-celles.github.io/atpack-ts-viewer/schemas/atpack-export-1.schema.json';
+
+export interface AtPackExportOptions {
+  // Keep devices pending enrichment as such, for the pack cache which still has their archive;
+  // otherwise they are exported as incomplete
+  keepPending?: boolean;
+}
+
+/**
+ * Converts parsed AtPacks to and from the versioned JSON export format
+ * (see public/schemas/atpack-export-1.schema.json).
+ *
+ * Documents carry no timestamp so that snapshots of the same pack are byte-identical
+ * and can be diffed between pack releases.
+ */
+export class AtPackSerializer {
+
+  /**
+   * Build an export document for a whole pack
+   */
+  exportAtPack(atpack: AtPack, options: AtPackExportOptions = {}): AtPackExportDocument {
+    return this.createDocument('pack', this.serializePack(atpack, atpack.devices, options));
+  }
+
+  /**
+   * Build an export document for a single device, keeping the pack metadata
+   */
+  exportDevice(atpack: AtPack, device: AtPackDevice): AtPackExportDocument {
+    return this.createDocument('device', this.serializePack(atpack, [device], {}));
+  }
+
+  /**
+   * Serialize an export document to JSON text
+   */
+  stringify(document: AtPackExportDocument): string {
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+
+  /**
+   * Parse an export document and rehydrate it into an AtPack (without ZIP content).
+   * Devices still pending enrichment cannot be parsed without the archive: they are
+   * imported as incomplete.
+   */
+  importAtPack(jsonText: string): AtPack {
+    let document: unknown;
+    try {
+      document = JSON.parse(jsonText);
+    } catch (error) {
+      throw new AtPackParseError(
+        `Invalid JSON export: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const atpack = this.importDocument(document);
+    this.markPendingIncomplete(atpack.devices);
+    return atpack;
+  }
+
+  /**
+   * Rehydrate an already parsed export document (e.g. read back from the pack cache)
+   */
+  importDocument(document: unknown): AtPack {
+    return this.validateDocument(document).pack;
+  }
+
+  private createDocument(kind: AtPackExportDocument['kind'], pack: SerializedAtPack): AtPackExportDocument {
+    return {
+      $schema: EXPORT_SCHEMA_URL,
+      format: EXPORT_FORMAT,
+      formatVersion: EXPORT_FORMAT_VERSION,
+      kind,
+      generator: {
+        name: APP_NAME,
+        version: APP_VERSION
+      },
+      pack
+    };
+  }
+
+  private serializePack(atpack: AtPack, devices: AtPackDevice[], options: AtPackExportOptions): SerializedAtPack {
+    // Round-trip through JSON to drop undefined fields and detach from live objects
+    const pack: SerializedAtPack = JSON.parse(JSON.stringify({
+      metadata: atpack.metadata,
+      version: atpack.version,
+      devices
+    }));
+    if (!options.keepPending) {
+      this.markPendingIncomplete(pack.devices);
+    }
+    return pack;
+  }
+
+  /**
+   * Replace the pending flag of devices whose file failed to parse, which could not be
+   * loaded from an export, with the incomplete flag
+   */
+  private markPendingIncomplete(devices: AtPackDevice[]): void {
+    devices.filter(device => device.enrichmentPending).forEach(device => {
+      delete device.enrichmentPending;
+      device.incomplete = true;
+    });
+  }
+
+  private validateDocument(document: unknown): AtPackExportDocument {
+    if (!document || typeof document !== 'object') {
+      throw new AtPackParseError('Invalid JSON export: expected an object');
+    }
+
+    const candidate = document as Partial<AtPackExportDocument>;
+    if (candidate.format !== EXPORT_FORMAT) {
+      throw new AtPackParseError(`Invalid JSON export: format must be "${EXPORT_FORMAT}"`);
+    }
+
+    const { formatVersion } = candidate;
+    if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion) || formatVersion < 1 || formatVersion > EXPORT_FORMAT_VERSION) {
+      throw new AtPackParseError(
+        `Unsupported export format version ${formatVersion} (supported: 1 to ${EXPORT_FORMAT_VERSION})`
+      );
+    }
+
+    const pack = this.expectObject(candidate.pack, 'pack');
+    this.expectObject(pack.metadata, 'pack.metadata');
+    this.expectArray(pack.devices, 'pack.devices').forEach((device, index) => {
+      this.validateDevice(device, `pack.devices[${index}]`);
+    });
+
+    return candidate as AtPackExportDocument;
+  }
+
+  /**
+   * Check the parts of a device the views and generators rely on (fuses, modules, register
+   * layout), so a malformed export is rejected here rather than failing in a component
+   */
+  private validateDevice(value: unknown, path: string): void {
+    const device = this.expectObject(value, path);
+    this.expectFields(device, path, { name: 'string', family: 'string', architecture: 'string', memory: 'object' });
+    ['signatures', 'lockbits', 'variants', 'pinouts', 'timers'].forEach(key => {
+      this.expectArray(device[key], `${path}.${key}`);
+    });
+
+    this.expectArray(device.fuses, `${path}.fuses`).forEach((fuseValue, fuseIndex) => {
+      const fusePath = `${path}.fuses[${fuseIndex}]`;
+      const fuse = this.expectObject(fuseValue, fusePath);
+      this.expectFields(fuse, fusePath, { name: 'string', offset: 'number', size: 'number' });
+      this.expectArray(fuse.bitfields, `${fusePath}.bitfields`).forEach((bitfield, bitfieldIndex) => {
+        const bitfieldPath = `${fusePath}.bitfields[${bitfieldIndex}]`;
+        this.expectFields(this.expectObject(bitfield, bitfieldPath), bitfieldPath, { name: 'string', bitOffset: 'number', bitWidth: 'number' });
+      });
+    });
+
+    this.expectArray(device.interrupts, `${path}.interrupts`).forEach((interrupt, index) => {
+      const interruptPath = `${path}.interrupts[${index}]`;
+      this.expectFields(this.expectObject(interrupt, interruptPath), interruptPath, { index: 'number', name: 'string' });
+    });
+
+    this.expectArray(device.modules, `${path}.modules`).forEach((moduleValue, moduleIndex) => {
+      const modulePath = `${path}.modules[${moduleIndex}]`;
+      const module = this.expectObject(moduleValue, modulePath);
+      this.expectFields(module, modulePath, { name: 'string', instance: 'string' });
+      if (module.registerGroups !== undefined) {
+        this.expectArray(module.registerGroups, `${modulePath}.registerGroups`).forEach((group, groupIndex) => {
+          const groupPath = `${modulePath}.registerGroups[${groupIndex}]`;
+          this.expectFields(this.expectObject(group, groupPath), groupPath, { name: 'string', offset: 'number', addressSpace: 'string' });
+        });
+      }
+    });
+
+    this.expectArray(device.peripherals, `${path}.peripherals`).forEach((peripheralValue, peripheralIndex) => {
+      const peripheralPath = `${path}.peripherals[${peripheralIndex}]`;
+      const peripheral = this.expectObject(peripheralValue, peripheralPath);
+      this.expectFields(peripheral, peripheralPath, { name: 'string', valueGroups: 'array' });
+      this.expectArray(peripheral.registerGroups, `${peripheralPath}.registerGroups`).forEach((groupValue, groupIndex) => {
+        const groupPath = `${peripheralPath}.registerGroups[${groupIndex}]`;
+        const group = this.expectObject(groupValue, groupPath);
+        this.expectFields(group, groupPath, { name: 'string' });
+        this.expectArray(group.registers, `${groupPath}.registers`).forEach((registerValue, registerIndex) => {
+          const registerPath = `${groupPath}.registers[${registerIndex}]`;
+          const register = this.expectObject(registerValue, registerPath);
+          this.expectFields(register, registerPath, { name: 'string', offset: 'number', size: 'number', bitfields: 'array' });
+        });
+      });
+    });
+  }
+
+  private expectObject(value: unknown, path: string): Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new AtPackParseError(`Invalid JSON export: ${path} must be an object`);
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private expectArray(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+      throw new AtPackParseError(`Invalid JSON export: ${path} must be an array`);
+    }
+    return value;
+  }
+
+  private expectFields(
+    object: Record<string, unknown>,
+    path: string,
+    fields: Record<string, 'string' | 'number' | 'object' | 'array'>
+  ): void {
+    Object.entries(fields).forEach(([key, type]) => {
+      const value = object[key];
+      if (type === 'array') {
+        this.expectArray(value, `${path}.${key}`);
+      } else if (type === 'object') {
+        this.expectObject(value, `${path}.${key}`);
+      } else if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+        throw new AtPackParseError(`Invalid JSON export: ${path}.${key} must be a ${type}`);
+      }
+    });
+  }
+}
@@ -0,0 +1,286 @@
+import { AtPackParser } from './AtPackParser';
+import { DeviceDescriptionSource, type PackFileReader } from './DeviceDescriptionSource';
+import type {
+  AtPack,
+  AtPackDevice,
+  AtPackParseProgress,
+  ArchiveWorkerRequest,
+  ArchiveWorkerResponse
+} from '../types/atpack';
+import { AtPackParseError } from '../types/atpack';
+
+export interface WorkerParseOptions {
+  onProgress?: (progress: AtPackParseProgress) => void;
+  signal?: AbortSignal; // Aborting cancels the parsing and rejects with an AtPackParseError
+}
+
+// Archive kept open in the worker for a pack
+interface OpenArchive {
+  archiveId: number;
+  fileNames: string[];
+}
+
+/**
+ * Parses .atpack archives with the ZIP inflation and file reading done in a Web Worker
+ * (see workers/atpackArchive.worker.ts).
+ *
+ * Archives are transferred to the worker and stay open there until closed, so devices can
+ * be enriched on demand and raw files are read through the worker (see createFileReader).
+ * Device files are streamed back one message per file and each device is parsed in its own
+ * task, so the UI stays responsive between devices and per-device progress can be reported.
+ *
+ * The worker only does the archive I/O: the XML parsing runs here, on the main thread,
+ * because the parsers rely on DOMParser and XPath, which workers do not provide. Parsed
+ * devices are therefore never posted between threads.
+ */
+export class AtPackWorkerParser {
+  private parser: AtPackParser;
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private archives = new WeakMap<AtPack, OpenArchive>();
+
+  constructor(parser: AtPackParser = new AtPackParser()) {
+    this.parser = parser;
+  }
+
+  /**
+   * Check if Web Workers are available (they are not in the CLI)
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Open an .atpack file (ZIP) and parse its .pdsc; devices are left pending enrichment
+   * (see enrichDevices) and the archive stays open until close is called
+   */
+  async openAtPackZipFile(file: File, options: WorkerParseOptions = {}): Promise<AtPack> {
+    options.onProgress?.({ stage: 'reading', current: 0, total: 0, fileName: file.name });
+
+    // The archive buffer is transferred, not copied: only the worker holds the archive
+    const archive = await file.arrayBuffer();
+    const archiveId = this.nextId++;
+
+    const atpack = await this.run<AtPack>(
+      requestId => ({ type: 'open', requestId, archiveId, archive }),
+      response => {
+        if (response.type !== 'opened') return undefined;
+        const opened = this.parser.parseArchivePdsc(response.pdsc);
+        this.archives.set(opened, { archiveId, fileNames: response.fileNames });
+        return opened;
+      },
+      options.signal,
+      [archive]
+    );
+
+    DeviceDescriptionSource.attachReader(atpack, this.createFileReader(atpack));
+    return atpack;
+  }
+
+  /**
+   * Parse an .atpack file (ZIP) with all its devices enriched; the archive is closed
+   * afterwards, so the raw files of the pack are not available
+   */
+  async parseAtPackZipFile(file: File, options: WorkerParseOptions = {}): Promise<AtPack> {
+    const atpack = await this.openAtPackZipFile(file, options);
+    try {
+      await this.enrichDevices(atpack, atpack.devices, options);
+    } finally {
+      this.close(atpack);
+    }
+    return atpack;
+  }
+
+  /**
+   * Check if the archive of a pack is open in the worker
+   */
+  canEnrich(atpack: AtPack): boolean {
+    return this.archives.has(atpack);
+  }
+
+  /**
+   * Enrich the given devices (all devices by default) with their device-specific files read
+   * by the worker. Errors are logged per device; failed devices stay pending.
+   */
+  async enrichDevices(
+    atpack: AtPack,
+    devices: AtPackDevice[] = atpack.devices,
+    options: WorkerParseOptions = {}
+  ): Promise<void> {
+    const archive = this.getArchive(atpack);
+    const devicesByFile = this.mapDeviceFiles(devices, archive.fileNames);
+    const total = Array.from(devicesByFile.values()).reduce((sum, fileDevices) => sum + fileDevices.length, 0);
+    if (total === 0) {
+      return;
+    }
+
+    let parsedDevices = 0;
+    await this.run<boolean>(
+      requestId => ({ type: 'read', requestId, archiveId: archive.archiveId, fileNames: Array.from(devicesByFile.keys()) }),
+      response => {
+        if (response.type === 'done') return true;
+        if (response.type !== 'file') return undefined;
+
+        devicesByFile.get(response.fileName)?.forEach(device => {
+          parsedDevices++;
+          options.onProgress?.({
+            stage: 'devices',
+            current: parsedDevices,
+            total,
+            deviceName: device.name,
+            fileName: response.fileName
+          });
+          try {
+            console.log(`Found device file for ${device.name}: ${response.fileName}`);
+            this.parser.enrichDevice(device, response.content);
+          } catch (error) {
+            console.error(`Error parsing device-specific data for ${device.name}:`, error);
+          }
+        });
+        return undefined;
+      },
+      options.signal
+    );
+  }
+
+  /**
+   * Reader of the raw files of a pack whose archive is open in the worker; reading fails
+   * once the archive is closed
+   */
+  createFileReader(atpack: AtPack): PackFileReader {
+    return {
+      location: 'archive',
+      listFiles: async () => this.getArchive(atpack).fileNames,
+      readText: async (path: string) => {
+        const archive = this.getArchive(atpack);
+        if (!archive.fileNames.includes(path)) {
+          return null;
+        }
+        let content: string | null = null;
+        return this.run<string | null>(
+          requestId => ({ type: 'read', requestId, archiveId: archive.archiveId, fileNames: [path] }),
+          response => {
+            if (response.type === 'file') content = response.content;
+            return response.type === 'done' ? content : undefined;
+          }
+        );
+      }
+    };
+  }
+
+  /**
+   * Release the archive of a pack in the worker
+   */
+  close(atpack: AtPack): void {
+    const archive = this.archives.get(atpack);
+    if (archive) {
+      this.worker?.postMessage({ type: 'close', archiveId: archive.archiveId } satisfies ArchiveWorkerRequest);
+      this.archives.delete(atpack);
+    }
+  }
+
+  private getArchive(atpack: AtPack): OpenArchive {
+    const archive = this.archives.get(atpack);
+    if (!archive) {
+      throw new AtPackParseError(`The archive of ${atpack.metadata.name} is not open`);
+    }
+    return archive;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/atpackArchive.worker.ts', import.meta.url), { type: 'module' });
+    }
+    return this.worker;
+  }
+
+  /**
+   * Send a request to the worker and handle its responses until handleResponse returns a result
+   */
+  private run<T>(
+    createRequest: (requestId: number) => ArchiveWorkerRequest,
+    handleResponse: (response: ArchiveWorkerResponse) => T | undefined,
+    signal?: AbortSignal,
+    transfer: Transferable[] = []
+  ): Promise<T> {
+    const worker = this.getWorker();
+    const requestId = this.nextId++;
+    const send = (request: ArchiveWorkerRequest) => worker.postMessage(request);
+
+    return new Promise<T>((resolve, reject) => {
+      const finish = (result: { value: T } | { error: Error }) => {
+        worker.removeEventListener('message', handleMessage);
+        worker.removeEventListener('error', handleError);
+        signal?.removeEventListener('abort', handleAbort);
+        if ('error' in result) {
+          reject(result.error);
+        } else {
+          resolve(result.value);
+        }
+      };
+
+      const handleAbort = () => {
+        send({ type: 'cancel', requestId });
+        finish({ error: new AtPackParseError('Loading cancelled') });
+      };
+
+      const handleError = (event: ErrorEvent) => {
+        finish({ error: new AtPackParseError(`Archive worker error: ${event.message}`) });
+      };
+
+      const handleMessage = (event: MessageEvent<ArchiveWorkerResponse>) => {
+        const response = event.data;
+        if (response.requestId !== requestId) {
+          return;
+        }
+
+        if (response.type === 'error') {
+          finish({ error: new AtPackParseError(`Error parsing .atpack file: ${response.message}`) });
+          return;
+        }
+
+        try {
+          const value = handleResponse(response);
+          if (value !== undefined) {
+            finish({ value });
+          }
+        } catch (error) {
+          send({ type: 'cancel', requestId });
+          finish({
+            error: new AtPackParseError(
+              `Error parsing .atpack file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              error instanceof Error ? error : undefined
+            )
+          });
+        }
+      };
+
+      if (signal?.aborted) {
+        reject(new AtPackParseError('Loading cancelled'));
+        return;
+      }
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', handleError);
+      signal?.addEventListener('abort', handleAbort);
+      worker.postMessage(createRequest(requestId), transfer);
+    });
+  }
+
+  /**
+   * Group the devices pending enrichment by their device-specific file, in pack order
+   */
+  private mapDeviceFiles(devices: AtPackDevice[], fileNames: string[]): Map<string, AtPackDevice[]> {
+    const devicesByFile = new Map<string, AtPackDevice[]>();
+    devices.filter(device => device.enrichmentPending).forEach(device => {
+      const fileName = this.parser.findDeviceFile(fileNames, device);
+      if (!fileName) {
+        // Nothing more to parse, the device keeps its .pdsc data
+        console.warn(`No device file found for device: ${device.name}`);
+        delete device.enrichmentPending;
+        return;
+      }
+      devicesByFile.set(fileName, [...(devicesByFile.get(fileName) || []), device]);
+    });
+    return devicesByFile;
+  }
+}
@@ -0,0 +1,179 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AtPackParser } from './AtPackParser';
+import { BaudRateCalculator } from './BaudRateCalculator';
+import type { UartChannel } from './BaudRateCalculator';
+import type { AtPackDevice } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATtiny1614</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: USART0 with its 12-bit UBRR0
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <register-group name="USART0" name-in-module="USART0" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="USART" name="USART">
+      <register-group caption="USART" name="USART0">
+        <register caption="USART I/O Data Register" name="UDR0" offset="0xC6" size="1" mask="0xFF"/>
+        <register caption="USART Control and Status Register A" name="UCSR0A" offset="0xC0" size="1">
+          <bitfield caption="USART Receive Complete" mask="0x80" name="RXC0"/>
+          <bitfield caption="Double the USART transmission speed" mask="0x02" name="U2X0"/>
+        </register>
+        <register caption="USART Baud Rate Register  Bytes" name="UBRR0" offset="0xC4" size="2" mask="0x0FFF"/>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// Excerpt of ATtiny1614.atdf: USART0 with its fractional BAUD register and the CLK2X receiver mode
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="Universal Synchronous and Asynchronous Receiver and Transmitter">
+            <register-group name="USART0" name-in-module="USART" offset="0x0800" address-space="data" caption="Universal Synchronous and Asynchronous Receiver and Transmitter"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Universal Synchronous and Asynchronous Receiver and Transmitter" name="USART">
+      <register-group caption="Universal Synchronous and Asynchronous Receiver and Transmitter" name="USART" size="0x10">
+        <register caption="Control B" name="CTRLB" offset="0x06" size="1" mask="0xDF" initval="0x00">
+          <bitfield caption="Reciever enable" mask="0x80" name="RXEN"/>
+          <bitfield caption="Receiver Mode" mask="0x06" name="RXMODE" values="USART_RXMODE"/>
+        </register>
+        <register caption="Baud Rate" name="BAUD" offset="0x08" size="2" mask="0xFFFF" initval="0x0000"/>
+      </register-group>
+      <value-group caption="RX Mode select" name="USART_RXMODE">
+        <value caption="Normal mode" name="NORMAL" value="0x00"/>
+        <value caption="CLK2x mode" name="CLK2X" value="0x01"/>
+        <value caption="Generic autobaud mode" name="GENAUTO" value="0x02"/>
+        <value caption="LIN constrained autobaud mode" name="LINAUTO" value="0x03"/>
+      </value-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const UBRR_CHANNEL: UartChannel = {
+  name: 'USART0',
+  module: 'USART',
+  kind: 'ubrr',
+  baudRegister: 'UBRR0',
+  baudBits: 12,
+  doubleSpeed: 'U2X0'
+};
+
+const XMEGA_CHANNEL: UartChannel = {
+  name: 'USARTC0',
+  module: 'USART',
+  kind: 'xmega',
+  baudRegister: 'BAUDCTRLA/BAUDCTRLB',
+  baudBits: 12,
+  doubleSpeed: 'CLK2X'
+};
+
+describe('BaudRateCalculator', () => {
+  const calculator = new BaudRateCalculator();
+  let atmega328p: AtPackDevice;
+  let attiny1614: AtPackDevice;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    [atmega328p, attiny1614] = parser.parseArchivePdsc(PDSC).devices;
+    parser.enrichDevice(atmega328p, ATMEGA328P_ATDF);
+    parser.enrichDevice(attiny1614, ATTINY1614_ATDF);
+  });
+
+  it('finds the UBRR generator and double speed bit of classic USARTs', () => {
+    expect(calculator.getChannels(atmega328p)).toEqual([UBRR_CHANNEL]);
+  });
+
+  it('finds the fractional BAUD generator and CLK2X receiver mode of AVR8X USARTs', () => {
+    expect(calculator.getChannels(attiny1614)).toEqual([{
+      name: 'USART0',
+      module: 'USART',
+      kind: 'fractional',
+      baudRegister: 'BAUD',
+      baudBits: 16,
+      doubleSpeed: 'RXMODE = CLK2X'
+    }]);
+  });
+
+  it('computes UBRR from fBAUD = f / (16 * (UBRR + 1))', () => {
+    const [normal, doubleSpeed] = calculator.calculate(UBRR_CHANNEL, 16000000, 9600);
+
+    expect(normal.registers).toEqual([{ name: 'UBRR0', value: 103 }]);
+    expect(normal.actualBaud).toBeCloseTo(9615.38, 2);
+    expect(normal.error).toBeCloseTo(0.16, 2);
+    expect(doubleSpeed.doubleSpeed).toBe(true);
+    expect(doubleSpeed.registers).toEqual([{ name: 'UBRR0', value: 207 }]);
+  });
+
+  it('prefers double speed when it has the lower error', () => {
+    const best = calculator.getBestSetting(UBRR_CHANNEL, 16000000, 115200);
+
+    expect(best?.doubleSpeed).toBe(true);
+    expect(best?.registers[0].value).toBe(16);
+    expect(best?.error).toBeCloseTo(2.12, 2);
+  });
+
+  it('leaves out modes where the register is out of range', () => {
+    expect(calculator.calculate(UBRR_CHANNEL, 1000000, 1000000)).toEqual([]);
+  });
+
+  it('computes the AVR8X fractional BAUD register', () => {
+    const [channel] = calculator.getChannels(attiny1614);
+    const [normal] = calculator.calculate(channel, 20000000, 115200);
+
+    expect(normal.registers).toEqual([{ name: 'BAUD', value: 694 }]);
+    expect(normal.error).toBeCloseTo(0.06, 2);
+  });
+
+  it('searches BSCALE for XMEGA, down to negative scales', () => {
+    const best = calculator.getBestSetting(XMEGA_CHANNEL, 32000000, 115200);
+
+    expect(best?.bscale).toBe(-7);
+    expect(best?.doubleSpeed).toBe(false);
+    expect(best?.registers).toEqual([
+      { name: 'BAUDCTRLA', value: 2094 & 0xFF },
+      { name: 'BAUDCTRLB', value: 0x90 | (2094 >> 8) }
+    ]);
+    expect(best?.error).toBeCloseTo(0.01, 3);
+  });
+
+  it('suggests the baud rate crystals giving an exact rate', () => {
+    const crystals = calculator.suggestCrystals(UBRR_CHANNEL, 115200);
+
+    expect(crystals).toContain(11059200);
+    expect(crystals).toContain(18432000);
+    expect(crystals).not.toContain(16000000);
+  });
+});
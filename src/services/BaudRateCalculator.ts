@@ -0,0 +1,250 @@
+import type { AtPackDevice, DevicePeripheralModule, DeviceRegister, DeviceRegisterGroup } from '../types/atpack';
+import { getRegisterGroupPlacements } from '../utils/registerLayout';
+
+// Baud rate generator of a USART:
+// - ubrr: classic AVR, fBAUD = f / (S * (UBRR + 1))
+// - fractional: AVR8X, fBAUD = 64 * f / (S * BAUD), BAUD >= 64
+// - xmega: BSEL and BSCALE (-7 to 7) in BAUDCTRLA/BAUDCTRLB
+// S is 16, or 8 in double speed mode (U2X, RXMODE = CLK2X)
+export type BaudGeneratorKind = 'ubrr' | 'fractional' | 'xmega';
+
+export interface UartChannel {
+  name: string; // Instance name (USART0)
+  module: string;
+  kind: BaudGeneratorKind;
+  baudRegister: string; // UBRR0, BAUD, BAUDCTRLA/B
+  baudBits: number; // Width of UBRR, BAUD or BSEL
+  doubleSpeed?: string; // Double speed setting (U2X0, RXMODE = CLK2X)
+}
+
+export interface BaudRegisterValue {
+  name: string;
+  value: number;
+}
+
+export interface BaudRateSetting {
+  doubleSpeed: boolean;
+  registers: BaudRegisterValue[];
+  actualBaud: number;
+  error: number; // Percent
+  bscale?: number; // XMEGA only
+}
+
+// Baud rates listed in the baud rate table
+export const STANDARD_BAUD_RATES = [
+  300, 600, 1200, 2400, 4800, 9600, 14400, 19200, 28800, 38400, 57600, 76800,
+  115200, 230400, 250000, 460800, 500000, 921600, 1000000
+];
+
+// Usual AVR crystals, including the "baud rate" crystals (multiples of 1.8432 MHz)
+const STANDARD_CRYSTALS = [
+  1000000, 1843200, 2000000, 3686400, 4000000, 4915200, 6000000, 7372800, 8000000,
+  9830400, 10000000, 11059200, 12000000, 14745600, 16000000, 18432000, 20000000,
+  22118400, 24000000, 25000000, 29491200, 32000000
+];
+
+// Highest crystal suggested for each baud generator kind (XMEGA runs up to 32 MHz)
+const MAX_CRYSTAL_FREQUENCY: Record<BaudGeneratorKind, number> = {
+  ubrr: 20000000,
+  fractional: 24000000,
+  xmega: 32000000
+};
+
+// Errors below this are reported as exact (floating point noise)
+const EXACT_ERROR = 1e-9;
+
+// Error above which a setting is unreliable for asynchronous communication
+export const BAUD_ERROR_LIMIT = 2;
+
+const UART_MODULE_PATTERN = /^(USART|LPUART|UART)/;
+
+const countBits = (mask: number): number => mask.toString(2).replace(/0/g, '').length;
+
+/**
+ * Baud rate calculator of the USART/LPUART modules of a device: register values, actual
+ * baud rate and error for a peripheral clock frequency, and crystals giving an exact rate
+ */
+export class BaudRateCalculator {
+
+  /**
+   * Find the USART channels of a device and their baud rate generator, from the register
+   * groups of the USART modules. Modules sharing one register group (AVR8X, XMEGA) get a
+   * channel per instance.
+   */
+  getChannels(device: AtPackDevice): UartChannel[] {
+    const channels: UartChannel[] = [];
+
+    device.peripherals
+      .filter(module => UART_MODULE_PATTERN.test(module.name))
+      .forEach(module => {
+        module.registerGroups.forEach(group => {
+          const generator = this.getGenerator(module, group);
+          if (!generator) {
+            return;
+          }
+          getRegisterGroupPlacements(device.modules, module, group).forEach(placement => {
+            channels.push({ name: placement.instance, module: module.name, ...generator });
+          });
+        });
+      });
+
+    return channels;
+  }
+
+  /**
+   * Best register values for a baud rate, in normal and (when available) double speed mode;
+   * modes where the baud rate is out of range are left out
+   */
+  calculate(channel: UartChannel, frequency: number, baud: number): BaudRateSetting[] {
+    const modes = channel.doubleSpeed ? [false, true] : [false];
+    return modes
+      .map(doubleSpeed => this.calculateMode(channel, frequency, baud, doubleSpeed))
+      .filter((setting): setting is BaudRateSetting => setting !== null);
+  }
+
+  /**
+   * Best setting for a baud rate: the lowest error, normal speed on a tie (better
+   * receiver sampling)
+   */
+  getBestSetting(channel: UartChannel, frequency: number, baud: number): BaudRateSetting | null {
+    return this.calculate(channel, frequency, baud).reduce<BaudRateSetting | null>(
+      (best, setting) => !best || Math.abs(setting.error) < Math.abs(best.error) - EXACT_ERROR ? setting : best,
+      null
+    );
+  }
+
+  /**
+   * Standard crystal frequencies giving a baud rate without error
+   */
+  suggestCrystals(channel: UartChannel, baud: number): number[] {
+    return STANDARD_CRYSTALS
+      .filter(frequency => frequency <= MAX_CRYSTAL_FREQUENCY[channel.kind])
+      .filter(frequency => {
+        const best = this.getBestSetting(channel, frequency, baud);
+        return best !== null && Math.abs(best.error) < EXACT_ERROR;
+      });
+  }
+
+  private getGenerator(
+    module: DevicePeripheralModule,
+    group: DeviceRegisterGroup
+  ): Omit<UartChannel, 'name' | 'module'> | null {
+    const findRegister = (pattern: RegExp): DeviceRegister | undefined => group.registers.find(r => pattern.test(r.name));
+
+    if (findRegister(/^BAUDCTRLA$/) && findRegister(/^BAUDCTRLB$/)) {
+      return {
+        kind: 'xmega',
+        baudRegister: 'BAUDCTRLA/BAUDCTRLB',
+        baudBits: 12,
+        doubleSpeed: this.findDoubleSpeed(module, group)
+      };
+    }
+
+    const baud = findRegister(/^BAUD$/);
+    if (baud) {
+      return {
+        kind: 'fractional',
+        baudRegister: baud.name,
+        baudBits: countBits(baud.mask ?? (1 << (baud.size * 8)) - 1),
+        doubleSpeed: this.findDoubleSpeed(module, group)
+      };
+    }
+
+    // UBRR0 (16-bit register), or UBRR0L/UBRR0H (older devices)
+    const ubrr = findRegister(/^UBRR\d*$/);
+    if (ubrr) {
+      return {
+        kind: 'ubrr',
+        baudRegister: ubrr.name,
+        baudBits: countBits(ubrr.mask ?? (1 << (ubrr.size * 8)) - 1),
+        doubleSpeed: this.findDoubleSpeed(module, group)
+      };
+    }
+
+    const ubrrLow = findRegister(/^UBRR\d*L$/);
+    if (ubrrLow) {
+      const name = ubrrLow.name.slice(0, -1);
+      const ubrrHigh = group.registers.find(r => r.name === `${name}H`);
+      return {
+        kind: 'ubrr',
+        baudRegister: name,
+        baudBits: 8 + (ubrrHigh ? countBits(ubrrHigh.mask ?? 0x0F) : 0),
+        doubleSpeed: this.findDoubleSpeed(module, group)
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Double speed setting: a U2X bitfield (classic AVR), or a CLK2X receiver mode (AVR8X)
+   * or bitfield (XMEGA)
+   */
+  private findDoubleSpeed(module: DevicePeripheralModule, group: DeviceRegisterGroup): string | undefined {
+    for (const register of group.registers) {
+      for (const bitfield of register.bitfields) {
+        if (/^(U2X\d*|CLK2X)$/.test(bitfield.name)) {
+          return bitfield.name;
+        }
+        const values = module.valueGroups.find(v => v.name === bitfield.values);
+        if (values?.values.some(v => v.name === 'CLK2X')) {
+          return `${bitfield.name} = CLK2X`;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private calculateMode(channel: UartChannel, frequency: number, baud: number, doubleSpeed: boolean): BaudRateSetting | null {
+    if (frequency <= 0 || baud <= 0) {
+      return null;
+    }
+    const samples = doubleSpeed ? 8 : 16;
+    const maxValue = 2 ** channel.baudBits - 1;
+    const result = (registers: BaudRegisterValue[], actualBaud: number, bscale?: number): BaudRateSetting => ({
+      doubleSpeed,
+      registers,
+      actualBaud,
+      error: (actualBaud - baud) / baud * 100,
+      bscale
+    });
+
+    if (channel.kind === 'ubrr') {
+      const ubrr = Math.round(frequency / (samples * baud)) - 1;
+      if (ubrr < 0 || ubrr > maxValue) {
+        return null;
+      }
+      return result([{ name: channel.baudRegister, value: ubrr }], frequency / (samples * (ubrr + 1)));
+    }
+
+    if (channel.kind === 'fractional') {
+      const value = Math.round(64 * frequency / (samples * baud));
+      if (value < 64 || value > maxValue) {
+        return null;
+      }
+      return result([{ name: channel.baudRegister, value }], 64 * frequency / (samples * value));
+    }
+
+    // XMEGA: try each BSCALE, keep the lowest error
+    let best: BaudRateSetting | null = null;
+    for (let bscale = -7; bscale <= 7; bscale++) {
+      const bsel = bscale >= 0
+        ? Math.round(frequency / (2 ** bscale * samples * baud)) - 1
+        : Math.round((frequency / (samples * baud) - 1) / 2 ** bscale);
+      if (bsel < 0 || bsel > maxValue) {
+        continue;
+      }
+      const actualBaud = bscale >= 0
+        ? frequency / (2 ** bscale * samples * (bsel + 1))
+        : frequency / (samples * (2 ** bscale * bsel + 1));
+      const setting = result([
+        { name: 'BAUDCTRLA', value: bsel & 0xFF },
+        { name: 'BAUDCTRLB', value: ((bscale & 0x0F) << 4) | (bsel >> 8) }
+      ], actualBaud, bscale);
+      if (!best || Math.abs(setting.error) < Math.abs(best.error) - EXACT_ERROR) {
+        best = setting;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,150 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AtPackParser } from './AtPackParser';
+import { DeviceComparator } from './DeviceComparator';
+import type { ComparisonEntry } from './DeviceComparator';
+import { AtPackParseError } from '../types/atpack';
+import type { ComparisonSectionId, DeviceComparison } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP" version="2.2.509">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATmega328PB</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+      <device Dname="ATmega328PB"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: signatures, USART0 and the extended fuse
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <register-group name="USART0" name-in-module="USART0" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+        </module>
+      </peripherals>
+      <property-groups>
+        <property-group name="SIGNATURES">
+          <property name="SIGNATURE0" value="0x1e"/>
+          <property name="SIGNATURE1" value="0x95"/>
+          <property name="SIGNATURE2" value="0x0F"/>
+        </property-group>
+      </property-groups>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE">
+        <register caption="" name="EXTENDED" offset="0x02" size="1" initval="0xFF">
+          <bitfield caption="Brown-out Detector trigger level" mask="0x07" name="BODLEVEL"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// Excerpt of ATmega328PB.atdf: a second USART and the clock failure detection fuse bit
+const ATMEGA328PB_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328PB" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <register-group name="USART0" name-in-module="USART0" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+          <instance name="USART1" caption="USART">
+            <register-group name="USART1" name-in-module="USART1" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+        </module>
+      </peripherals>
+      <property-groups>
+        <property-group name="SIGNATURES">
+          <property name="SIGNATURE0" value="0x1e"/>
+          <property name="SIGNATURE1" value="0x95"/>
+          <property name="SIGNATURE2" value="0x16"/>
+        </property-group>
+      </property-groups>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE">
+        <register caption="" name="EXTENDED" offset="0x02" size="1" initval="0xF7">
+          <bitfield caption="Clock failure detection enable" mask="0x08" name="CFD"/>
+          <bitfield caption="Brown-out Detector trigger level" mask="0x07" name="BODLEVEL"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const getRows = (comparison: DeviceComparison, id: ComparisonSectionId) => {
+  return comparison.sections.find(section => section.id === id)!.rows;
+};
+
+describe('DeviceComparator', () => {
+  const comparator = new DeviceComparator();
+  let entries: ComparisonEntry[];
+  let comparison: DeviceComparison;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    const atpack = parser.parseArchivePdsc(PDSC);
+    const [atmega328p, atmega328pb] = atpack.devices;
+    parser.enrichDevice(atmega328p, ATMEGA328P_ATDF);
+    parser.enrichDevice(atmega328pb, ATMEGA328PB_ATDF);
+    entries = [{ atpack, device: atmega328p }, { atpack, device: atmega328pb }];
+    comparison = comparator.compare(entries);
+  });
+
+  it('identifies the compared devices by pack', () => {
+    expect(comparison.devices).toEqual([
+      { pack: 'Atmel.ATmega_DFP.2.2.509', device: 'ATmega328P' },
+      { pack: 'Atmel.ATmega_DFP.2.2.509', device: 'ATmega328PB' }
+    ]);
+  });
+
+  it('reports changed values against the first device', () => {
+    expect(getRows(comparison, 'signatures')).toEqual([
+      { key: 'SIGNATURE0', values: ['0x1E', '0x1E'], statuses: ['same', 'same'], status: 'same' },
+      { key: 'SIGNATURE1', values: ['0x95', '0x95'], statuses: ['same', 'same'], status: 'same' },
+      { key: 'SIGNATURE2', values: ['0x0F', '0x16'], statuses: ['same', 'changed'], status: 'changed' }
+    ]);
+    expect(getRows(comparison, 'fuses').find(row => row.key === 'EXTENDED')?.values)
+      .toEqual(['offset 0x02, default 0xFF', 'offset 0x02, default 0xF7']);
+  });
+
+  it('reports the items only some devices have', () => {
+    expect(getRows(comparison, 'modules').find(row => row.key === 'USART1')).toMatchObject({
+      values: [null, 'USART'],
+      status: 'added'
+    });
+    expect(getRows(comparison, 'fuses').map(row => [row.key, row.status])).toEqual([
+      ['EXTENDED', 'changed'],
+      ['EXTENDED.BODLEVEL', 'same'],
+      ['EXTENDED.CFD', 'added']
+    ]);
+  });
+
+  it('marks items missing from a later device as removed', () => {
+    const reversed = comparator.compare([...entries].reverse());
+
+    expect(getRows(reversed, 'modules').find(row => row.key === 'USART1')?.statuses).toEqual(['same', 'removed']);
+  });
+
+  it('needs at least two devices', () => {
+    expect(() => comparator.compare(entries.slice(0, 1))).toThrow(AtPackParseError);
+  });
+});
@@ -0,0 +1,153 @@
+import type {
+  AtPack,
+  AtPackDevice,
+  ComparisonRow,
+  ComparisonSectionId,
+  ComparisonStatus,
+  DeviceComparison,
+  MemorySegment
+} from '../types/atpack';
+import { AtPackParseError } from '../types/atpack';
+import { getPackId } from '../utils/shareState';
+
+export interface ComparisonEntry {
+  atpack: AtPack;
+  device: AtPackDevice;
+}
+
+// Comparable items of a device section, by key, with their description
+type SectionItems = Map<string, string>;
+
+interface SectionDefinition {
+  id: ComparisonSectionId;
+  title: string;
+  collect: (device: AtPackDevice) => SectionItems;
+}
+
+const hex = (value: number, width: number = 2): string => {
+  return `0x${value.toString(16).toUpperCase().padStart(width, '0')}`;
+};
+
+const formatBits = (bitOffset: number, bitWidth: number): string => {
+  return bitWidth > 1 ? `bits ${bitOffset + bitWidth - 1}:${bitOffset}` : `bit ${bitOffset}`;
+};
+
+const getMemorySegments = (device: AtPackDevice): MemorySegment[] => {
+  if (device.memory.allSegments && device.memory.allSegments.length > 0) {
+    return device.memory.allSegments;
+  }
+  const { flash, sram, eeprom, fuses, lockbits } = device.memory;
+  return [flash, sram, eeprom, fuses, lockbits].filter((segment): segment is MemorySegment => !!segment && segment.size > 0);
+};
+
+const SECTIONS: SectionDefinition[] = [
+  {
+    id: 'memory',
+    title: 'Memory',
+    collect: device => new Map(getMemorySegments(device).map(segment => [
+      segment.parentAddressSpace ? `${segment.parentAddressSpace}/${segment.name}` : segment.name,
+      `${hex(segment.start, 4)}, ${segment.size} bytes${segment.pageSize ? `, page ${segment.pageSize}` : ''}`
+    ]))
+  },
+  {
+    id: 'signatures',
+    title: 'Signatures',
+    collect: device => new Map(device.signatures.map(signature => [signature.name, hex(signature.value)]))
+  },
+  {
+    id: 'modules',
+    title: 'Peripheral modules',
+    collect: device => new Map(device.modules.map(module => [module.name, module.module || module.type]))
+  },
+  {
+    id: 'registers',
+    title: 'Registers',
+    collect: device => new Map(device.peripherals.flatMap(peripheral =>
+      peripheral.registerGroups.flatMap(group => group.registers.map(register => [
+        `${peripheral.name}.${register.name}`,
+        `${hex(register.offset, 4)}, ${register.size * 8}-bit${register.bitfields.length > 0 ? `: ${register.bitfields.map(bitfield => bitfield.name).join(' ')}` : ''}`
+      ] as [string, string]))
+    ))
+  },
+  {
+    id: 'interrupts',
+    title: 'Interrupts',
+    collect: device => new Map(device.interrupts.map(interrupt => [interrupt.name, `#${interrupt.index}`]))
+  },
+  {
+    id: 'fuses',
+    title: 'Fuses',
+    collect: device => new Map(device.fuses.flatMap(fuse => [
+      [fuse.name, `offset ${hex(fuse.offset)}${fuse.defaultValue !== undefined ? `, default ${hex(fuse.defaultValue)}` : ''}`] as [string, string],
+      ...fuse.bitfields.map(bitfield => [
+        `${fuse.name}.${bitfield.name}`,
+        `${formatBits(bitfield.bitOffset, bitfield.bitWidth)}${bitfield.values ? `, ${bitfield.values.length} values` : ''}`
+      ] as [string, string])
+    ]))
+  },
+  {
+    id: 'timers',
+    title: 'Timers',
+    collect: device => new Map(device.timers.map(timer => [
+      timer.name,
+      `${timer.type}, ${timer.modes.length} modes${timer.outputs.length > 0 ? `, ${timer.outputs.map(output => output.name).join(' ')}` : ''}`
+    ]))
+  },
+  {
+    id: 'pins',
+    title: 'Packages and pins',
+    collect: device => new Map(device.pinouts.map(pinout => [pinout.name, `${pinout.pins.length} pins`]))
+  }
+];
+
+const getStatus = (reference: string | null, value: string | null): ComparisonStatus => {
+  if (reference === value) return 'same';
+  if (reference === null) return 'added';
+  if (value === null) return 'removed';
+  return 'changed';
+};
+
+/**
+ * Aligns devices, possibly from different packs, section by section (memory segments,
+ * signatures, modules, registers, interrupts, fuse bitfields, timers and pinouts) and
+ * reports what each device adds, removes or changes relative to the first one.
+ */
+export class DeviceComparator {
+
+  /**
+   * Compare devices; the first device is the reference (e.g. the current device when
+   * looking for a migration target)
+   */
+  compare(entries: ComparisonEntry[]): DeviceComparison {
+    if (entries.length < 2) {
+      throw new AtPackParseError('At least two devices are needed for a comparison');
+    }
+
+    return {
+      devices: entries.map(({ atpack, device }) => ({ pack: getPackId(atpack), device: device.name })),
+      sections: SECTIONS.map(section => ({
+        id: section.id,
+        title: section.title,
+        rows: this.compareItems(entries.map(({ device }) => section.collect(device)))
+      }))
+    };
+  }
+
+  /**
+   * Keys are listed in device order (reference device first), then in their order within each device
+   */
+  private compareItems(deviceItems: SectionItems[]): ComparisonRow[] {
+    const keys = new Set(deviceItems.flatMap(items => Array.from(items.keys())));
+
+    return Array.from(keys).map(key => {
+      const values = deviceItems.map(items => items.get(key) ?? null);
+      const statuses = values.map(value => getStatus(values[0], value));
+      return {
+        key,
+        values,
+        statuses,
+        status: statuses.find(status => status !== 'same') || 'same'
+      };
+    });
+  }
+}
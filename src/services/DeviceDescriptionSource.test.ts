@@ -0,0 +1,143 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { AtPackParser } from './AtPackParser';
+import { DeviceDescriptionSource, findDescriptionFile, getDeviceFileKind } from './DeviceDescriptionSource';
+import { AtPackParseError } from '../types/atpack';
+import type { AtPack } from '../types/atpack';
+
+const AVR_PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATmega328PB</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+      <device Dname="ATmega328PB"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+const PIC_PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4">
+  <vendor>Microchip</vendor>
+  <name>PIC16F1xxxx_DFP</name>
+  <description>Microchip PIC16F1xxxx Series Device Support</description>
+  <releases><release version="1.21.368">PIC16F1847</release></releases>
+  <devices>
+    <family Dfamily="PIC16" Dvendor="Microchip:3">
+      <device Dname="PIC16F1847"><processor Dcore="PIC16"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// File layout of the ATmega DFP: device files under atdf/, include/avr/ and gcc/dev/<device>/
+const ATMEGA_DFP_FILES: Record<string, string> = {
+  'Atmel.ATmega_DFP.pdsc': AVR_PDSC,
+  'atdf/ATmega328P.atdf': '<avr-tools-device-file><devices><device name="ATmega328P"/></devices></avr-tools-device-file>',
+  'atdf/ATmega328PB.atdf': '<avr-tools-device-file><devices><device name="ATmega328PB"/></devices></avr-tools-device-file>',
+  'include/avr/iom328p.h': '/* ATmega328P */',
+  'include/avr/iom328pb.h': '/* ATmega328PB */',
+  'gcc/dev/atmega328p/device-specs/specs-atmega328p': '*avrlibc_startfile:',
+  'gcc/dev/atmega328p/avr5/crtatmega328p.o': '',
+  'avrasm/inc/m328Pdef.inc': ';***** ATmega328P'
+};
+
+const createArchivePack = async (files: Record<string, string>): Promise<AtPack> => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  const atpack = new AtPackParser().parseArchivePdsc(AVR_PDSC);
+  atpack.zipContent = await JSZip.loadAsync(await zip.generateAsync({ type: 'arraybuffer' }));
+  return atpack;
+};
+
+// Extracted pack served over HTTP, whose directories cannot be listed
+const PACK_DIRECTORY = 'https://packs.example.com/PIC16F1xxxx_DFP';
+
+describe('DeviceDescriptionSource', () => {
+  let atpack: AtPack;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    atpack = await createArchivePack(ATMEGA_DFP_FILES);
+  });
+
+  it('is shared per pack and only exists for packs with raw files', () => {
+    const source = DeviceDescriptionSource.forPack(atpack);
+    const pdscOnly = new AtPackParser().parseArchivePdsc(AVR_PDSC);
+
+    expect(source?.location).toBe('archive');
+    expect(DeviceDescriptionSource.forPack(atpack)).toBe(source);
+    expect(DeviceDescriptionSource.forPack(pdscOnly)).toBeNull();
+  });
+
+  it('reads and parses the description file of a device', async () => {
+    const source = DeviceDescriptionSource.forPack(atpack)!;
+    const [atmega328p, atmega328pb] = atpack.devices;
+
+    expect(await source.getDescriptionPath(atmega328pb)).toBe('atdf/ATmega328PB.atdf');
+    const document = await source.readDescription(atmega328p);
+    expect(document?.querySelector('device')?.getAttribute('name')).toBe('ATmega328P');
+  });
+
+  it('rejects description files that are not XML', async () => {
+    const broken = await createArchivePack({ 'atdf/ATmega328P.atdf': '<avr-tools-device-file><devices>' });
+
+    await expect(DeviceDescriptionSource.forPack(broken)!.readDescription(broken.devices[0]))
+      .rejects.toThrow(new AtPackParseError('Invalid XML in the description file of ATmega328P'));
+    expect(await DeviceDescriptionSource.forPack(broken)!.readDescription(broken.devices[1])).toBeNull();
+  });
+
+  it('finds the other files of a device by their name', async () => {
+    const source = DeviceDescriptionSource.forPack(atpack)!;
+    const [atmega328p] = atpack.devices;
+
+    expect(await source.listDeviceFiles(atmega328p)).toEqual([
+      { path: 'include/avr/iom328p.h', kind: 'header' }
+    ]);
+    expect(await source.readFile('include/avr/iom328p.h')).toBe('/* ATmega328P */');
+    expect(await source.readFile('include/avr/iom328p.inc')).toBeNull();
+  });
+
+  it('looks up the files of packs that cannot be listed at their conventional paths', async () => {
+    const files: Record<string, string> = {
+      'edc/PIC16F1847.PIC': '<edc:PIC xmlns:edc="http://crownking/edc" edc:name="PIC16F1847"/>',
+      'xc8/docs/chips/16f1847.html': '<html></html>'
+    };
+    // Missing files are also looked up through the CORS proxies, which fail as well
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', async (url: string) => {
+      const path = url.substring(PACK_DIRECTORY.length + 1);
+      return url.startsWith(`${PACK_DIRECTORY}/`) && path in files
+        ? new Response(files[path])
+        : new Response(null, { status: 404 });
+    });
+    const picPack = new AtPackParser().parseArchivePdsc(PIC_PDSC);
+    picPack.source = { type: 'url', url: `${PACK_DIRECTORY}/Microchip.PIC16F1xxxx_DFP.pdsc` };
+    const [device] = picPack.devices;
+    const source = DeviceDescriptionSource.forPack(picPack)!;
+
+    expect(source.location).toBe(PACK_DIRECTORY);
+    expect(await source.getDescriptionPath(device)).toBe('edc/PIC16F1847.PIC');
+    expect(await source.readDescriptionText(device)).toContain('edc:name="PIC16F1847"');
+    expect(await source.listDeviceFiles(device)).toEqual([{ path: 'xc8/docs/chips/16f1847.html', kind: 'documentation' }]);
+    expect(await source.listDeviceFiles(device, ['header'])).toEqual([]);
+    vi.unstubAllGlobals();
+  });
+
+  it('classifies pack files by extension', () => {
+    expect(getDeviceFileKind('edc/PIC16F1847.PIC')).toBe('description');
+    expect(getDeviceFileKind('gcc/dev/atmega328p/ldscripts/avr5.xn')).toBe('linkerScript');
+    expect(getDeviceFileKind('avrasm/inc/m328Pdef.inc')).toBe('data');
+    expect(getDeviceFileKind('gcc/dev/atmega328p/avr5/crtatmega328p.o')).toBeNull();
+  });
+
+  it('matches description files by the exact device name', () => {
+    const [atmega328p] = atpack.devices;
+
+    expect(findDescriptionFile(['atdf/ATmega328PB.atdf'], atmega328p)).toBeNull();
+  });
+});
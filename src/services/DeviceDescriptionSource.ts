@@ -0,0 +1,279 @@
+import type JSZip from 'jszip';
+import type { AtPack, AtPackDevice, DeviceFileKind, DeviceFileReference } from '../types/atpack';
+import { AtPackParseError, DeviceFamily } from '../types/atpack';
+import { fetchWithCorsProxy } from '../utils/corsProxy';
+
+/**
+ * Raw files of a pack, wherever they are stored
+ */
+export interface PackFileReader {
+  readonly location: string;
+  listFiles(): Promise<string[] | null>; // null when the files cannot be listed
+  readText(path: string): Promise<string | null>; // null when the file does not exist
+}
+
+/**
+ * Files of an .atpack archive, downloaded, opened from disk or restored from the pack cache
+ */
+class ZipPackFileReader implements PackFileReader {
+  readonly location = 'archive';
+  private zipContent: JSZip;
+
+  constructor(zipContent: JSZip) {
+    this.zipContent = zipContent;
+  }
+
+  async listFiles(): Promise<string[]> {
+    return Object.keys(this.zipContent.files).filter(fileName => !this.zipContent.files[fileName].dir);
+  }
+
+  async readText(path: string): Promise<string | null> {
+    const file = this.zipContent.files[path];
+    return file && !file.dir ? file.async('text') : null;
+  }
+}
+
+/**
+ * Files of an extracted pack served over HTTP, next to the .pdsc it was loaded from.
+ * Directories cannot be listed, so files are only found at their conventional paths.
+ */
+class DirectoryPackFileReader implements PackFileReader {
+  readonly location: string;
+
+  constructor(baseUrl: string) {
+    this.location = baseUrl;
+  }
+
+  async listFiles(): Promise<null> {
+    return null;
+  }
+
+  async readText(path: string): Promise<string | null> {
+    try {
+      const response = await fetchWithCorsProxy(`${this.location}/${path}`);
+      return response.ok ? response.text() : null;
+    } catch (error) {
+      console.warn(`Could not read ${path} from ${this.location}:`, error);
+      return null;
+    }
+  }
+}
+
+// File kinds by extension; linker scripts include the avr-gcc variants (.x, .xn, .xbn...)
+const FILE_KINDS: [RegExp, DeviceFileKind][] = [
+  [/\.(atdf|pic)$/i, 'description'],
+  [/\.h$/i, 'header'],
+  [/\.(ld|lkr|gld|x[a-z]{0,3})$/i, 'linkerScript'],
+  [/\.(html?|pdf|txt)$/i, 'documentation'],
+  [/\.(inc|def|cfg)$/i, 'data']
+];
+
+// Short device names used in avr-libc header names (iom328p.h, iotn1614.h, iox128a1.h)
+const AVR_SHORT_PREFIXES: [string, string][] = [
+  ['atmega', 'm'],
+  ['attiny', 'tn'],
+  ['atxmega', 'x'],
+  ['at90', '90']
+];
+
+/**
+ * Get the kind of a pack file from its extension
+ */
+export const getDeviceFileKind = (path: string): DeviceFileKind | null => {
+  return FILE_KINDS.find(([pattern]) => pattern.test(path))?.[1] || null;
+};
+
+/**
+ * Names under which files of a device appear in packs, lowercase: the device name, PIC
+ * names without the prefix (16f876a, p16f876a.inc) and avr-libc header names (iom328p)
+ */
+const getDeviceFileKeys = (device: AtPackDevice): Set<string> => {
+  const name = device.name.toLowerCase();
+  const keys = new Set([name, `io${name}`]);
+
+  if (name.startsWith('pic')) {
+    const shortName = name.substring(3);
+    keys.add(shortName);
+    keys.add(`p${shortName}`);
+  }
+
+  const prefix = AVR_SHORT_PREFIXES.find(([longPrefix]) => name.startsWith(longPrefix));
+  if (prefix) {
+    keys.add(`io${prefix[1]}${name.substring(prefix[0].length)}`);
+  }
+  return keys;
+};
+
+/**
+ * Find the description file (.atdf for AVR, .PIC for PIC) of a device among pack file names
+ */
+export const findDescriptionFile = (fileNames: string[], device: AtPackDevice): string | null => {
+  if (device.deviceFamily === DeviceFamily.PIC) {
+    // Look for exact match first, then for .PIC extension case-insensitively
+    return fileNames.find(fileName => fileName.includes(`${device.name}.PIC`))
+      || fileNames.find(fileName => fileName.toLowerCase().includes(`${device.name.toLowerCase()}.pic`))
+      || null;
+  }
+
+  const atdfFileName = fileNames.find(fileName => fileName.includes(`${device.name}.atdf`));
+  if (!atdfFileName) {
+    const allAtdfFiles = fileNames.filter(fileName => fileName.endsWith('.atdf'));
+    console.log('Available ATDF files:', allAtdfFiles.map(f => f.split('/').pop()).join(', '));
+  }
+  return atdfFileName || null;
+};
+
+/**
+ * Resolves the raw files of a device (description, headers, linker scripts, documentation
+ * and data files) from whichever source its pack came from: an .atpack archive (opened,
+ * downloaded or cached) or an extracted pack directory next to a .pdsc URL.
+ *
+ * Sources are shared per pack, see forPack.
+ */
+export class DeviceDescriptionSource {
+  private static sources = new WeakMap<AtPack, DeviceDescriptionSource>();
+
+  private reader: PackFileReader;
+  private fileNames: Promise<string[] | null> | null = null;
+
+  private constructor(reader: PackFileReader) {
+    this.reader = reader;
+  }
+
+  /**
+   * Get the source of the raw files of a pack, or null when they are not available
+   * (local .pdsc files and imported JSON exports)
+   */
+  static forPack(atpack: AtPack): DeviceDescriptionSource | null {
+    let source = DeviceDescriptionSource.sources.get(atpack);
+    if (!source) {
+      // Packs without raw files are not memoized: their archive may be attached later
+      const reader = DeviceDescriptionSource.createReader(atpack);
+      if (!reader) {
+        return null;
+      }
+      source = new DeviceDescriptionSource(reader);
+      DeviceDescriptionSource.sources.set(atpack, source);
+    }
+    return source;
+  }
+
+  /**
+   * Read the raw files of a pack through the given reader, for archives that are not kept
+   * on the main thread (see AtPackWorkerParser)
+   */
+  static attachReader(atpack: AtPack, reader: PackFileReader): void {
+    DeviceDescriptionSource.sources.set(atpack, new DeviceDescriptionSource(reader));
+  }
+
+  private static createReader(atpack: AtPack): PackFileReader | null {
+    if (atpack.zipContent) {
+      return new ZipPackFileReader(atpack.zipContent);
+    }
+    if (atpack.source?.type === 'url' && /\.(pdsc|xml)$/i.test(atpack.source.url)) {
+      return new DirectoryPackFileReader(atpack.source.url.substring(0, atpack.source.url.lastIndexOf('/')));
+    }
+    return null;
+  }
+
+  /**
+   * Where the files are read from, for messages
+   */
+  get location(): string {
+    return this.reader.location;
+  }
+
+  /**
+   * List all files of the pack, or null when the source cannot be listed
+   */
+  listFiles(): Promise<string[] | null> {
+    if (!this.fileNames) {
+      this.fileNames = this.reader.listFiles();
+    }
+    return this.fileNames;
+  }
+
+  /**
+   * Get the path of the description file of a device (.atdf or .PIC)
+   */
+  async getDescriptionPath(device: AtPackDevice): Promise<string | null> {
+    const fileNames = await this.listFiles();
+    if (fileNames) {
+      return findDescriptionFile(fileNames, device);
+    }
+    return device.deviceFamily === DeviceFamily.PIC ? `edc/${device.name}.PIC` : `atdf/${device.name}.atdf`;
+  }
+
+  /**
+   * Read the description file of a device as text, or null when the pack has none
+   */
+  async readDescriptionText(device: AtPackDevice): Promise<string | null> {
+    const path = await this.getDescriptionPath(device);
+    return path ? this.reader.readText(path) : null;
+  }
+
+  /**
+   * Read and parse the description file of a device, or null when the pack has none
+   */
+  async readDescription(device: AtPackDevice): Promise<Document | null> {
+    const text = await this.readDescriptionText(device);
+    if (text === null) {
+      return null;
+    }
+
+    const xmlDoc = new DOMParser().parseFromString(text, 'text/xml');
+    if (xmlDoc.getElementsByTagName('parsererror').length > 0) {
+      throw new AtPackParseError(`Invalid XML in the description file of ${device.name}`);
+    }
+    return xmlDoc;
+  }
+
+  /**
+   * List the files of a device other than its description: headers, linker scripts,
+   * documentation and data files. Files are matched by name (see getDeviceFileKeys) or
+   * by a directory named after the device (gcc/dev/atmega328p/...).
+   */
+  async listDeviceFiles(device: AtPackDevice, kinds?: DeviceFileKind[]): Promise<DeviceFileReference[]> {
+    const fileNames = await this.listFiles();
+    if (!fileNames) {
+      return this.findConventionalFiles(device, kinds);
+    }
+
+    const keys = getDeviceFileKeys(device);
+    return fileNames
+      .map(path => ({ path, kind: getDeviceFileKind(path) }))
+      .filter((file): file is DeviceFileReference => {
+        if (!file.kind || file.kind === 'description' || (kinds && !kinds.includes(file.kind))) {
+          return false;
+        }
+        const segments = file.path.toLowerCase().split('/');
+        const baseName = segments.pop()!.replace(/\.[^.]+$/, '');
+        return keys.has(baseName) || segments.some(segment => keys.has(segment));
+      });
+  }
+
+  /**
+   * Read a pack file as text, or null when it does not exist
+   */
+  readFile(path: string): Promise<string | null> {
+    return this.reader.readText(path);
+  }
+
+  /**
+   * Files found at their conventional paths, for sources that cannot be listed
+   */
+  private async findConventionalFiles(device: AtPackDevice, kinds?: DeviceFileKind[]): Promise<DeviceFileReference[]> {
+    const candidates: DeviceFileReference[] = [];
+    if (device.deviceFamily === DeviceFamily.PIC) {
+      candidates.push({ path: `xc8/docs/chips/${device.name.toLowerCase().replace(/^pic/, '')}.html`, kind: 'documentation' });
+    }
+
+    const found: DeviceFileReference[] = [];
+    for (const candidate of candidates.filter(file => !kinds || kinds.includes(file.kind))) {
+      if (await this.reader.readText(candidate.path) !== null) {
+        found.push(candidate);
+      }
+    }
+    return found;
+  }
+}
@@ -0,0 +1,212 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AtPackParser } from './AtPackParser';
+import { DeviceSearch } from './DeviceSearch';
+import type { AtPack, AtPackDevice } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATmega328PB, ATmega168P</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+      <device Dname="ATmega328PB"><processor Dcore="AVR8"/></device>
+      <device Dname="ATmega168P"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: memories, variants, timers, USART0 and two ADC channels
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <variants>
+    <variant ordercode="ATmega328P-AU" tempmin="-40" tempmax="85" speedmax="20000000" package="TQFP32" vccmin="1.8" vccmax="5.5"/>
+    <variant ordercode="ATmega328P-PU" tempmin="-40" tempmax="85" speedmax="20000000" package="PDIP28" vccmin="1.8" vccmax="5.5"/>
+  </variants>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <address-spaces>
+        <address-space endianness="little" name="prog" id="prog" start="0x0000" size="0x8000">
+          <memory-segment start="0x0000" size="0x8000" type="flash" rw="RW" exec="1" name="FLASH" pagesize="0x80"/>
+        </address-space>
+        <address-space endianness="little" name="data" id="data" start="0x0000" size="0x0900">
+          <memory-segment external="false" type="ram" size="0x0800" start="0x0100" name="IRAM"/>
+        </address-space>
+        <address-space endianness="little" name="eeprom" id="eeprom" start="0x0000" size="0x0400">
+          <memory-segment start="0x0000" size="0x0400" type="eeprom" rw="RW" exec="0" name="EEPROM" pagesize="0x04"/>
+        </address-space>
+      </address-spaces>
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <register-group name="USART0" name-in-module="USART0" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+        </module>
+        <module name="TC8">
+          <instance name="TC0" caption="Timer/Counter, 8-bit">
+            <register-group name="TC0" name-in-module="TC0" offset="0x00" address-space="data" caption="Timer/Counter, 8-bit"/>
+          </instance>
+        </module>
+        <module name="TC16">
+          <instance name="TC1" caption="Timer/Counter, 16-bit">
+            <register-group name="TC1" name-in-module="TC1" offset="0x00" address-space="data" caption="Timer/Counter, 16-bit"/>
+          </instance>
+        </module>
+        <module name="TC8_ASYNC">
+          <instance name="TC2" caption="Timer/Counter, 8-bit Async">
+            <register-group name="TC2" name-in-module="TC2" offset="0x00" address-space="data" caption="Timer/Counter, 8-bit Async"/>
+          </instance>
+        </module>
+        <module name="ADC">
+          <instance name="ADC" caption="Analog-to-Digital Converter">
+            <register-group name="ADC" name-in-module="ADC" offset="0x00" address-space="data" caption="Analog-to-Digital Converter"/>
+            <signals>
+              <signal group="ADC" function="default" pad="PC0" index="0"/>
+              <signal group="ADC" function="default" pad="PC1" index="1"/>
+            </signals>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+</avr-tools-device-file>`;
+
+// Excerpt of ATmega328PB.atdf: the same memories, a 105°C variant, two more 16-bit timers and a
+// second USART
+const ATMEGA328PB_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <variants>
+    <variant ordercode="ATmega328PB-AU" tempmin="-40" tempmax="85" speedmax="20000000" package="TQFP32" vccmin="1.8" vccmax="5.5"/>
+    <variant ordercode="ATmega328PB-MN" tempmin="-40" tempmax="105" speedmax="20000000" package="VQFN32" vccmin="1.8" vccmax="5.5"/>
+  </variants>
+  <devices>
+    <device name="ATmega328PB" architecture="AVR8" family="megaAVR">
+      <address-spaces>
+        <address-space endianness="little" name="prog" id="prog" start="0x0000" size="0x8000">
+          <memory-segment start="0x0000" size="0x8000" type="flash" rw="RW" exec="1" name="FLASH" pagesize="0x80"/>
+        </address-space>
+        <address-space endianness="little" name="data" id="data" start="0x0000" size="0x0900">
+          <memory-segment external="false" type="ram" size="0x0800" start="0x0100" name="IRAM"/>
+        </address-space>
+        <address-space endianness="little" name="eeprom" id="eeprom" start="0x0000" size="0x0400">
+          <memory-segment start="0x0000" size="0x0400" type="eeprom" rw="RW" exec="0" name="EEPROM" pagesize="0x04"/>
+        </address-space>
+      </address-spaces>
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <register-group name="USART0" name-in-module="USART0" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+          <instance name="USART1" caption="USART">
+            <register-group name="USART1" name-in-module="USART1" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+        </module>
+        <module name="TC16">
+          <instance name="TC1" caption="Timer/Counter, 16-bit">
+            <register-group name="TC1" name-in-module="TC1" offset="0x00" address-space="data" caption="Timer/Counter, 16-bit"/>
+          </instance>
+          <instance name="TC3" caption="Timer/Counter, 16-bit">
+            <register-group name="TC3" name-in-module="TC3" offset="0x00" address-space="data" caption="Timer/Counter, 16-bit"/>
+          </instance>
+          <instance name="TC4" caption="Timer/Counter, 16-bit">
+            <register-group name="TC4" name-in-module="TC4" offset="0x00" address-space="data" caption="Timer/Counter, 16-bit"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+</avr-tools-device-file>`;
+
+// Excerpt of ATmega168P.atdf: half the memories of the ATmega328P
+const ATMEGA168P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <variants>
+    <variant ordercode="ATmega168P-AU" tempmin="-40" tempmax="85" speedmax="20000000" package="TQFP32" vccmin="1.8" vccmax="5.5"/>
+  </variants>
+  <devices>
+    <device name="ATmega168P" architecture="AVR8" family="megaAVR">
+      <address-spaces>
+        <address-space endianness="little" name="prog" id="prog" start="0x0000" size="0x4000">
+          <memory-segment start="0x0000" size="0x4000" type="flash" rw="RW" exec="1" name="FLASH" pagesize="0x80"/>
+        </address-space>
+        <address-space endianness="little" name="data" id="data" start="0x0000" size="0x0500">
+          <memory-segment external="false" type="ram" size="0x0400" start="0x0100" name="IRAM"/>
+        </address-space>
+        <address-space endianness="little" name="eeprom" id="eeprom" start="0x0000" size="0x0200">
+          <memory-segment start="0x0000" size="0x0200" type="eeprom" rw="RW" exec="0" name="EEPROM" pagesize="0x04"/>
+        </address-space>
+      </address-spaces>
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <register-group name="USART0" name-in-module="USART0" offset="0x00" address-space="data" caption="USART"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+</avr-tools-device-file>`;
+
+const getNames = (results: { device: AtPackDevice }[]) => results.map(result => result.device.name);
+
+describe('DeviceSearch', () => {
+  const search = new DeviceSearch();
+  let atpack: AtPack;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    atpack = parser.parseArchivePdsc(PDSC);
+    const [atmega328p, atmega328pb, atmega168p] = atpack.devices;
+    parser.enrichDevice(atmega328p, ATMEGA328P_ATDF);
+    parser.enrichDevice(atmega328pb, ATMEGA328PB_ATDF);
+    parser.enrichDevice(atmega168p, ATMEGA168P_ATDF);
+  });
+
+  it('parses peripheral requirement lists', () => {
+    expect(search.parseRequirements('2× USART, 1x TWI; 16-bit timer')).toEqual([
+      { name: 'USART', count: 2 },
+      { name: 'TWI', count: 1 },
+      { name: '16-bit timer', count: 1 }
+    ]);
+  });
+
+  it('ranks the smallest devices meeting the memory criteria first', () => {
+    expect(getNames(search.search([atpack], {}))).toEqual(['ATmega168P', 'ATmega328P', 'ATmega328PB']);
+    expect(getNames(search.search([atpack], { minFlash: 0x8000, minEeprom: 0x400 }))).toEqual(['ATmega328P', 'ATmega328PB']);
+    expect(getNames(search.search([atpack], { text: '328pb' }))).toEqual(['ATmega328PB']);
+  });
+
+  it('counts module instances and timers by width', () => {
+    const [atmega328p, atmega328pb] = atpack.devices;
+
+    expect(search.countPeripheral(atmega328pb, 'USART')).toBe(2);
+    expect(search.countPeripheral(atmega328p, '8-bit timers')).toBe(2);
+    expect(search.countPeripheral(atmega328pb, '16-bit timer')).toBe(3);
+    expect(getNames(search.search([atpack], { peripherals: search.parseRequirements('2x USART') }))).toEqual(['ATmega328PB']);
+  });
+
+  it('keeps the packages of the variants meeting the criteria', () => {
+    const [result] = search.search([atpack], { text: 'ATmega328P', maxPins: 28 });
+
+    expect(result).toMatchObject({ packages: ['PDIP28'], pins: 28, flash: 0x8000, sram: 0x800, adcChannels: 2 });
+    expect(search.search([atpack], { packageType: 'qfn' }).map(match => match.packages)).toEqual([['VQFN32']]);
+  });
+
+  it('matches the supply voltage and temperature ranges of the variants', () => {
+    expect(getNames(search.search([atpack], { maxTemperature: 105 }))).toEqual(['ATmega328PB']);
+    expect(search.search([atpack], { supplyVoltage: 1.5 })).toEqual([]);
+    expect(getNames(search.search([atpack], { minAdcChannels: 1 }))).toEqual(['ATmega328P']);
+  });
+
+  it('skips devices whose description is not parsed yet', () => {
+    const pending = new AtPackParser().parseArchivePdsc(PDSC);
+    pending.devices.forEach(device => { device.enrichmentPending = true; });
+
+    expect(search.search([pending], {})).toEqual([]);
+  });
+});
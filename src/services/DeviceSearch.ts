@@ -0,0 +1,172 @@
+import type {
+  AtPack,
+  AtPackDevice,
+  DeviceSearchCriteria,
+  DeviceVariant,
+  PeripheralRequirement
+} from '../types/atpack';
+
+export interface DeviceSearchResult {
+  atpack: AtPack;
+  device: AtPackDevice;
+  flash: number;
+  sram: number;
+  eeprom: number;
+  packages: string[]; // Packages of the variants matching the criteria
+  pins: number; // Largest pin count among the matching variants
+  adcChannels: number;
+}
+
+// '16-bit timer', '8-bit timers'
+const TIMER_REQUIREMENT = /^(8|16)-?bit timers?$/i;
+
+/**
+ * Extract the two numbers of a range such as "1.8V to 5.5V" or "-40°C à 85°C"
+ */
+const parseRange = (range: string): [number, number] | null => {
+  const values = range.match(/-?\d+(?:\.\d+)?/g);
+  return values && values.length >= 2 ? [parseFloat(values[0]), parseFloat(values[1])] : null;
+};
+
+/**
+ * Pin count of a variant, from the pinout of its package or from the package name (TQFP32)
+ */
+const getVariantPins = (device: AtPackDevice, variant: DeviceVariant): number => {
+  const pinout = device.pinouts.find(p => p.name === variant.package);
+  if (pinout) {
+    return pinout.pins.length;
+  }
+  const digits = variant.package.match(/\d+/);
+  return digits ? parseInt(digits[0]) : 0;
+};
+
+/**
+ * Parametric search over the devices of all loaded packs, ranked "cheapest fit" first:
+ * the smallest flash, then SRAM and EEPROM, meeting the criteria.
+ *
+ * Devices still pending enrichment are skipped, as their memory and peripherals are not known.
+ */
+export class DeviceSearch {
+
+  /**
+   * Parse a peripheral requirement list such as "2× USART, 1x TWI, 16-bit timer"
+   */
+  parseRequirements(text: string): PeripheralRequirement[] {
+    return text.split(/[,;]/)
+      .map(part => part.trim())
+      .filter(part => part.length > 0)
+      .map(part => {
+        const match = part.match(/^(\d+)\s*[x×*]?\s+(.+)$/i) || part.match(/^(\d+)\s*[x×*]\s*(.+)$/i);
+        return match
+          ? { name: match[2].trim(), count: parseInt(match[1]) }
+          : { name: part, count: 1 };
+      });
+  }
+
+  /**
+   * Search the devices of the given packs
+   */
+  search(atpacks: AtPack[], criteria: DeviceSearchCriteria): DeviceSearchResult[] {
+    const results: DeviceSearchResult[] = [];
+
+    atpacks.forEach(atpack => atpack.devices.forEach(device => {
+      if (device.enrichmentPending) return;
+
+      const result = this.match(atpack, device, criteria);
+      if (result) {
+        results.push(result);
+      }
+    }));
+
+    return results.sort((a, b) => a.flash - b.flash || a.sram - b.sram || a.eeprom - b.eeprom);
+  }
+
+  /**
+   * Count the instances of a module on a device, or its timers of a given width
+   */
+  countPeripheral(device: AtPackDevice, name: string): number {
+    const timerMatch = name.trim().match(TIMER_REQUIREMENT);
+    if (timerMatch) {
+      const types = timerMatch[1] === '16' ? ['timer16'] : ['timer8', 'timer8async'];
+      return device.timers.filter(timer => types.includes(timer.type)).length;
+    }
+
+    const moduleName = name.trim().toUpperCase();
+    const instances = device.modules.filter(module =>
+      (module.module || module.name).toUpperCase() === moduleName ||
+      module.name.toUpperCase().replace(/\d+$/, '') === moduleName
+    );
+    if (instances.length > 0) {
+      return instances.length;
+    }
+    // Devices without instance data only list their module definitions
+    return device.peripherals.some(peripheral => peripheral.name.toUpperCase() === moduleName) ? 1 : 0;
+  }
+
+  private match(atpack: AtPack, device: AtPackDevice, criteria: DeviceSearchCriteria): DeviceSearchResult | null {
+    const flash = device.memory.flash.size;
+    const sram = device.memory.sram.size;
+    const eeprom = device.memory.eeprom?.size ?? 0;
+    const adcChannels = device.clockInfo?.adcChannels.length ?? 0;
+
+    const text = criteria.text?.trim().toLowerCase();
+    if (text && !device.name.toLowerCase().includes(text) && !device.family.toLowerCase().includes(text)) {
+      return null;
+    }
+    if (flash < (criteria.minFlash ?? 0) || sram < (criteria.minSram ?? 0) || eeprom < (criteria.minEeprom ?? 0)) {
+      return null;
+    }
+    if (adcChannels < (criteria.minAdcChannels ?? 0)) {
+      return null;
+    }
+    if (criteria.peripherals?.some(requirement => this.countPeripheral(device, requirement.name) < requirement.count)) {
+      return null;
+    }
+
+    const variants = device.variants.filter(variant => this.matchVariant(device, variant, criteria));
+    const hasVariantCriteria = criteria.packageType || criteria.minPins !== undefined || criteria.maxPins !== undefined ||
+      criteria.supplyVoltage !== undefined || criteria.minTemperature !== undefined || criteria.maxTemperature !== undefined;
+    if (hasVariantCriteria && variants.length === 0) {
+      return null;
+    }
+
+    return {
+      atpack,
+      device,
+      flash,
+      sram,
+      eeprom,
+      packages: Array.from(new Set(variants.map(variant => variant.package))),
+      pins: Math.max(0, ...variants.map(variant => getVariantPins(device, variant))),
+      adcChannels
+    };
+  }
+
+  private matchVariant(device: AtPackDevice, variant: DeviceVariant, criteria: DeviceSearchCriteria): boolean {
+    if (criteria.packageType && !variant.package.toLowerCase().includes(criteria.packageType.trim().toLowerCase())) {
+      return false;
+    }
+
+    const pins = getVariantPins(device, variant);
+    if (pins < (criteria.minPins ?? 0) || pins > (criteria.maxPins ?? Infinity)) {
+      return false;
+    }
+
+    if (criteria.supplyVoltage !== undefined) {
+      const voltage = parseRange(variant.voltageRange);
+      if (!voltage || criteria.supplyVoltage < voltage[0] || criteria.supplyVoltage > voltage[1]) {
+        return false;
+      }
+    }
+
+    if (criteria.minTemperature !== undefined || criteria.maxTemperature !== undefined) {
+      const temperature = parseRange(variant.temperatureRange);
+      if (!temperature ||
+        (criteria.minTemperature !== undefined && temperature[0] > criteria.minTemperature) ||
+        (criteria.maxTemperature !== undefined && temperature[1] < criteria.maxTemperature)) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { FuseImporter } from './FuseImporter';
+import { AtPackParseError } from '../types/atpack';
+import type { FuseConfig } from '../types/atpack';
+
+// ATtiny1614 fuse map: no fuse at offset 3
+const AVR8X_FUSES: FuseConfig[] = [
+  { name: 'WDTCFG', offset: 0, size: 1, mask: 0xFF, bitfields: [] },
+  { name: 'BODCFG', offset: 1, size: 1, mask: 0xFF, bitfields: [] },
+  { name: 'OSCCFG', offset: 2, size: 1, mask: 0xFF, bitfields: [] },
+  { name: 'TCD0CFG', offset: 4, size: 1, mask: 0xFF, bitfields: [] },
+  { name: 'SYSCFG0', offset: 5, size: 1, mask: 0xFF, bitfields: [] }
+];
+
+// ATmega328P fuse map
+const CLASSIC_FUSES: FuseConfig[] = [
+  { name: 'LOW', offset: 0, size: 1, mask: 0xFF, bitfields: [] },
+  { name: 'HIGH', offset: 1, size: 1, mask: 0xFF, bitfields: [] },
+  { name: 'EXTENDED', offset: 2, size: 1, mask: 0xFF, bitfields: [] }
+];
+
+describe('FuseImporter', () => {
+  const importer = new FuseImporter();
+
+  describe('hex bytes', () => {
+    it('maps bytes to fuses by offset, across gaps in the fuse map', () => {
+      const result = importer.parseText('00 00 02 FF 00 F6', AVR8X_FUSES);
+
+      expect(result.format).toBe('hex-bytes');
+      expect(result.values).toEqual({ WDTCFG: 0x00, BODCFG: 0x00, OSCCFG: 0x02, TCD0CFG: 0x00, SYSCFG0: 0xF6 });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns about the fuses left without a value by a short input', () => {
+      const result = importer.parseText('00 00 02', AVR8X_FUSES);
+
+      expect(result.values).toEqual({ WDTCFG: 0x00, BODCFG: 0x00, OSCCFG: 0x02 });
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toContain('fuses span 6 bytes');
+      expect(result.warnings[0]).toContain('no value for TCD0CFG, SYSCFG0');
+    });
+
+    it('warns about bytes beyond the last fuse', () => {
+      const result = importer.parseText('E2D9FF00', CLASSIC_FUSES);
+
+      expect(result.values).toEqual({ LOW: 0xE2, HIGH: 0xD9, EXTENDED: 0xFF });
+      expect(result.warnings).toEqual(['4 bytes provided but the device fuses only span 3 bytes']);
+    });
+
+    it('starts at the lowest fuse offset', () => {
+      const fuses: FuseConfig[] = [
+        { name: 'FUSE1', offset: 1, size: 1, mask: 0xFF, bitfields: [] },
+        { name: 'FUSE2', offset: 2, size: 1, mask: 0xFF, bitfields: [] }
+      ];
+
+      expect(importer.parseText('AA BB', fuses).values).toEqual({ FUSE1: 0xAA, FUSE2: 0xBB });
+    });
+
+    it('reads fuses wider than a byte little-endian', () => {
+      const fuses: FuseConfig[] = [{ name: 'CONFIG0', offset: 0, size: 4, mask: 0xFFFFFFFF, bitfields: [] }];
+
+      expect(importer.parseText('78 56 34 12', fuses).values).toEqual({ CONFIG0: 0x12345678 });
+    });
+
+    it('rejects invalid bytes', () => {
+      expect(() => importer.parseText('E2 XY', CLASSIC_FUSES)).toThrow(AtPackParseError);
+    });
+  });
+
+  describe('avrdude', () => {
+    it('reads fuse values from -U operations', () => {
+      const result = importer.parseText('avrdude -p m328p -U lfuse:w:0xE2:m -U hfuse:w:0xD9:m -U efuse:w:0xFD:m', CLASSIC_FUSES);
+
+      expect(result.format).toBe('avrdude');
+      expect(result.values).toEqual({ LOW: 0xE2, HIGH: 0xD9, EXTENDED: 0xFD });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('matches indexed fuse memories by offset', () => {
+      expect(importer.parseText('-U fuse2:w:0x02:m -U fuse5:w:0xF6:m', AVR8X_FUSES).values)
+        .toEqual({ OSCCFG: 0x02, SYSCFG0: 0xF6 });
+    });
+
+    it('warns about memories without a matching fuse and file values', () => {
+      const result = importer.parseText('-U lock:w:0xFF:m -U lfuse:w:fuses.hex:i', CLASSIC_FUSES);
+
+      expect(result.values).toEqual({});
+      expect(result.warnings).toHaveLength(2);
+    });
+  });
+
+  describe('Intel HEX', () => {
+    it('maps addresses in the .fuse section to fuse offsets', () => {
+      const hex = [':02000004008278', ':03000000E2D9FF43', ':00000001FF'].join('\n');
+      const result = importer.parseText(hex, CLASSIC_FUSES);
+
+      expect(result.format).toBe('intel-hex');
+      expect(result.values).toEqual({ LOW: 0xE2, HIGH: 0xD9, EXTENDED: 0xFF });
+    });
+
+    it('ignores the .lock section and flash data', () => {
+      const hex = [
+        ':020000040000FA', ':020000000C945E', // Flash: jmp
+        ':02000004008278', ':03000000E2D9FF43',
+        ':02000004008377', ':01000000FC03' // .lock at 0x830000
+      ].join('\n');
+
+      expect(importer.parseText(hex, CLASSIC_FUSES).values).toEqual({ LOW: 0xE2, HIGH: 0xD9, EXTENDED: 0xFF });
+    });
+
+    it('accepts records separated by spaces', () => {
+      expect(importer.parseText(':02000004008278 :03000000E2D9FF43', CLASSIC_FUSES).values)
+        .toEqual({ LOW: 0xE2, HIGH: 0xD9, EXTENDED: 0xFF });
+    });
+
+    it('rejects files without .fuse section data', () => {
+      expect(() => importer.parseText(':03000000E2D9FF43\n:00000001FF', CLASSIC_FUSES))
+        .toThrow('No .fuse section data (at 0x820000) in the Intel HEX input');
+    });
+
+    it('rejects lines that are not records', () => {
+      expect(() => importer.parseText(':02000004008278\n03000000E2D9FF43', CLASSIC_FUSES))
+        .toThrow('Invalid Intel HEX record 2');
+    });
+
+    it('rejects records with a bad checksum', () => {
+      expect(() => importer.parseText(':03000000E2D9FF44', CLASSIC_FUSES)).toThrow('Bad Intel HEX checksum in record 1');
+    });
+  });
+
+  describe('decode', () => {
+    it('splits a fuse into bitfield values and flags undefined values', () => {
+      const fuse: FuseConfig = {
+        name: 'OSCCFG',
+        offset: 2,
+        size: 1,
+        mask: 0xFF,
+        defaultValue: 0x02,
+        bitfields: [
+          {
+            name: 'FREQSEL',
+            description: 'Frequency Select',
+            bitOffset: 0,
+            bitWidth: 2,
+            values: [
+              { value: 1, name: '16MHZ', description: '16 MHz' },
+              { value: 2, name: '20MHZ', description: '20 MHz' }
+            ]
+          },
+          { name: 'OSCLOCK', description: 'Oscillator Lock', bitOffset: 7, bitWidth: 1 }
+        ]
+      };
+
+      const [decoded] = importer.decode([fuse], { OSCCFG: 0x83 });
+
+      expect(decoded.bitfields.map(b => b.value)).toEqual([3, 1]);
+      expect(decoded.bitfields[0].undefinedValue).toBe(true);
+      expect(decoded.reservedMask).toBe(0x7C);
+      expect(decoded.reservedMismatch).toBe(0);
+    });
+
+    it('reports reserved bits that differ from the default value', () => {
+      const fuse: FuseConfig = {
+        name: 'SYSCFG0',
+        offset: 5,
+        size: 1,
+        mask: 0xFF,
+        defaultValue: 0xF6,
+        bitfields: [{ name: 'EESAVE', description: 'EEPROM Save', bitOffset: 0, bitWidth: 1 }]
+      };
+
+      const [decoded] = importer.decode([fuse], { SYSCFG0: 0x76 });
+
+      expect(decoded.reservedMismatch).toBe(0x80);
+    });
+
+    it('decodes the top bits of 32-bit fuses as unsigned values', () => {
+      const fuse: FuseConfig = {
+        name: 'CONFIG0',
+        offset: 0,
+        size: 4,
+        mask: 0xFFFFFFFF,
+        defaultValue: 0xFFFFFFFF,
+        bitfields: [
+          { name: 'LOCK', description: 'Lock', bitOffset: 28, bitWidth: 4 },
+          { name: 'WDT', description: 'Watchdog', bitOffset: 0, bitWidth: 4 }
+        ]
+      };
+
+      const [decoded] = importer.decode([fuse], { CONFIG0: 0xA0000005 });
+
+      expect(decoded.bitfields.map(b => b.value)).toEqual([0xA, 0x5]);
+      expect(decoded.reservedMask).toBe(0x0FFFFFF0);
+      expect(decoded.reservedMismatch).toBe(0x0FFFFFF0);
+    });
+
+    it('skips fuses without a value', () => {
+      expect(importer.decode(CLASSIC_FUSES, { HIGH: 0xD9 }).map(d => d.fuse.name)).toEqual(['HIGH']);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import type {
+  DecodedFuse,
+  DecodedFuseBitfield,
+  FuseConfig,
+  FuseImportFormat,
+  FuseImportResult
+} from '../types/atpack';
+import { AtPackParseError } from '../types/atpack';
+
+// avrdude memory names for classic AVR fuse bytes, by fuse offset
+const AVRDUDE_FUSE_ALIASES: Record<string, number> = {
+  lfuse: 0,
+  hfuse: 1,
+  efuse: 2,
+  fuse: 0
+};
+
+const ELF_MAGIC = [0x7F, 0x45, 0x4C, 0x46];
+
+// avr-gcc links the .fuse section at 0x820000, followed by .lock at 0x830000
+const FUSE_SECTION_ADDRESS = 0x820000;
+const FUSE_SECTION_SIZE = 0x10000;
+
+/**
+ * Imports fuse register values from programmer/toolchain output and decodes them
+ * against the device fuse definitions:
+ * - avrdude command lines (`-U lfuse:w:0xE2:m -U hfuse:w:0xD9:m`, `fuse2:w:0x02:m`)
+ * - raw hex bytes (`E2 D9 FF`), one byte per fuse offset from the lowest fuse offset
+ * - Intel HEX output of the `.fuse` section (`avr-objcopy -j .fuse -O ihex`)
+ * - ELF files containing a `.fuse` section
+ */
+export class FuseImporter {
+
+  /**
+   * Parse fuse values from text, detecting the input format
+   */
+  parseText(text: string, fuses: FuseConfig[]): FuseImportResult {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      throw new AtPackParseError('No fuse values to import');
+    }
+
+    if (/\b[a-z0-9_]+:[rwv]:/i.test(trimmed)) {
+      return this.parseAvrdude(trimmed, fuses);
+    }
+    if (trimmed.split(/\r?\n/).some(line => line.trim().startsWith(':'))) {
+      return this.fromBytes(this.parseIntelHex(trimmed), fuses, 'intel-hex');
+    }
+    return this.parseHexBytes(trimmed, fuses);
+  }
+
+  /**
+   * Parse fuse values from a file: ELF binaries are read from their .fuse section,
+   * anything else is handled as text
+   */
+  parseBinary(data: ArrayBuffer, fuses: FuseConfig[]): FuseImportResult {
+    const bytes = new Uint8Array(data);
+    if (ELF_MAGIC.every((byte, index) => bytes[index] === byte)) {
+      return this.fromBytes(this.extractElfSection(bytes, '.fuse'), fuses, 'elf');
+    }
+    return this.parseText(new TextDecoder().decode(bytes), fuses);
+  }
+
+  /**
+   * Decode register values into bitfield values, flagging values that match no
+   * defined option and reserved bits that differ from the fuse default
+   */
+  decode(fuses: FuseConfig[], values: Record<string, number>): DecodedFuse[] {
+    return fuses
+      .filter(fuse => values[fuse.name] !== undefined)
+      .map(fuse => {
+        const value = values[fuse.name];
+        let coveredMask = 0;
+
+        const bitfields: DecodedFuseBitfield[] = fuse.bitfields.map(bitfield => {
+          const mask = ((2 ** bitfield.bitWidth - 1) * 2 ** bitfield.bitOffset) >>> 0;
+          const fieldValue = ((value & mask) >>> 0) / 2 ** bitfield.bitOffset;
+          const match = bitfield.values?.find(v => v.value === fieldValue);
+          coveredMask = (coveredMask | mask) >>> 0;
+
+          return {
+            bitfield,
+            value: fieldValue,
+            match,
+            undefinedValue: !!bitfield.values && bitfield.values.length > 0 && !match
+          };
+        });
+
+        const registerMask = 2 ** (8 * fuse.size) - 1;
+        // Unsigned 32-bit arithmetic, fuses are up to 4 bytes wide
+        const reservedMask = (registerMask & ~coveredMask) >>> 0;
+        const reservedMismatch = fuse.defaultValue !== undefined
+          ? ((value ^ fuse.defaultValue) & reservedMask) >>> 0
+          : 0;
+
+        return { fuse, value, bitfields, reservedMask, reservedMismatch };
+      });
+  }
+
+  private parseAvrdude(text: string, fuses: FuseConfig[]): FuseImportResult {
+    const values: Record<string, number> = {};
+    const warnings: string[] = [];
+    const operations = text.match(/[a-z0-9_]+:[rwv]:[^:\s]+(?::[a-z])?/gi) || [];
+
+    if (operations.length === 0) {
+      throw new AtPackParseError('No avrdude -U memory operations found');
+    }
+
+    operations.forEach(operation => {
+      const [memory, mode, rawValue, format = 'a'] = operation.split(':');
+      if (mode.toLowerCase() !== 'w') {
+        return;
+      }
+      if (!['m', 'a'].includes(format.toLowerCase())) {
+        warnings.push(`${memory}: only immediate values (:m) are supported, got "${rawValue}:${format}"`);
+        return;
+      }
+
+      const fuse = this.findFuseByMemoryName(memory, fuses);
+      if (!fuse) {
+        warnings.push(`${memory}: no matching fuse on this device`);
+        return;
+      }
+
+      const value = this.parseNumber(rawValue);
+      if (value === null) {
+        warnings.push(`${memory}: invalid value "${rawValue}"`);
+        return;
+      }
+      values[fuse.name] = value;
+    });
+
+    return { format: 'avrdude', values, warnings };
+  }
+
+  private parseHexBytes(text: string, fuses: FuseConfig[]): FuseImportResult {
+    let tokens = text.split(/[\s,;]+/).filter(Boolean);
+    // Accept a single run of hex digits such as "E2D9FF"
+    if (tokens.length === 1 && /^(0x)?([0-9a-f]{2})+$/i.test(tokens[0])) {
+      tokens = tokens[0].replace(/^0x/i, '').match(/../g)!;
+    }
+    const bytes = tokens.map(token => {
+      const cleaned = token.replace(/^0x/i, '');
+      if (!/^[0-9a-f]{1,2}$/i.test(cleaned)) {
+        throw new AtPackParseError(`Invalid fuse byte "${token}"`);
+      }
+      return parseInt(cleaned, 16);
+    });
+
+    return this.fromBytes(bytes, fuses, 'hex-bytes');
+  }
+
+  /**
+   * Read the .fuse section data of an Intel HEX file into a byte array indexed by fuse offset.
+   * The upper address bits come from extended linear address (04) records; data outside
+   * the section (.lock, .signature, flash) is ignored.
+   */
+  private parseIntelHex(text: string): number[] {
+    const bytes: number[] = [];
+    let baseAddress = 0;
+
+    // Records are split on any whitespace, as the CLI joins its arguments with spaces
+    text.split(/\s+/).filter(Boolean).forEach((line, recordIndex) => {
+      const record = line.slice(1);
+      if (!line.startsWith(':') || !/^[0-9a-f]+$/i.test(record) || record.length < 10 || record.length % 2 !== 0) {
+        throw new AtPackParseError(`Invalid Intel HEX record ${recordIndex + 1}`);
+      }
+
+      const data = record.match(/../g)!.map(pair => parseInt(pair, 16));
+      const checksum = data.reduce((sum, byte) => sum + byte, 0) & 0xFF;
+      if (checksum !== 0) {
+        throw new AtPackParseError(`Bad Intel HEX checksum in record ${recordIndex + 1}`);
+      }
+
+      const [length, addressHigh, addressLow, type] = data;
+      const payload = data.slice(4, 4 + length);
+      if (payload.length !== length) {
+        throw new AtPackParseError(`Invalid Intel HEX record ${recordIndex + 1}`);
+      }
+
+      if (type === 0x04) {
+        baseAddress = ((payload[0] << 8) | payload[1]) * 0x10000;
+      } else if (type === 0x00) {
+        const offset = baseAddress + ((addressHigh << 8) | addressLow) - FUSE_SECTION_ADDRESS;
+        payload.forEach((byte, index) => {
+          if (offset + index >= 0 && offset + index < FUSE_SECTION_SIZE) {
+            bytes[offset + index] = byte;
+          }
+        });
+      }
+    });
+
+    if (bytes.length === 0) {
+      throw new AtPackParseError(`No .fuse section data (at 0x${FUSE_SECTION_ADDRESS.toString(16).toUpperCase()}) in the Intel HEX input`);
+    }
+    return bytes;
+  }
+
+  /**
+   * Extract the contents of a named section from a 32-bit little-endian ELF file
+   */
+  private extractElfSection(bytes: Uint8Array, sectionName: string): number[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes[4] !== 1 || bytes[5] !== 1) {
+      throw new AtPackParseError('Only 32-bit little-endian ELF files are supported');
+    }
+
+    const sectionHeaderOffset = view.getUint32(0x20, true);
+    const sectionHeaderSize = view.getUint16(0x2E, true);
+    const sectionCount = view.getUint16(0x30, true);
+    const namesIndex = view.getUint16(0x32, true);
+
+    const sectionHeader = (index: number) => {
+      const base = sectionHeaderOffset + index * sectionHeaderSize;
+      return {
+        name: view.getUint32(base, true),
+        offset: view.getUint32(base + 0x10, true),
+        size: view.getUint32(base + 0x14, true)
+      };
+    };
+
+    const names = sectionHeader(namesIndex);
+    const readName = (offset: number): string => {
+      let end = names.offset + offset;
+      while (end < bytes.length && bytes[end] !== 0) end++;
+      return new TextDecoder().decode(bytes.subarray(names.offset + offset, end));
+    };
+
+    for (let index = 0; index < sectionCount; index++) {
+      const section = sectionHeader(index);
+      if (readName(section.name) === sectionName) {
+        return Array.from(bytes.subarray(section.offset, section.offset + section.size));
+      }
+    }
+
+    throw new AtPackParseError(`No ${sectionName} section found in ELF file`);
+  }
+
+  /**
+   * Map bytes to fuses by offset (bytes[offset] belongs to the fuse at that offset, fuses
+   * wider than a byte are little-endian). Raw byte lists start at the lowest fuse offset,
+   * so gaps in the fuse map (AVR8X) must be filled in the input.
+   */
+  private fromBytes(bytes: number[], fuses: FuseConfig[], format: FuseImportFormat): FuseImportResult {
+    const values: Record<string, number> = {};
+    const warnings: string[] = [];
+    const sortedFuses = [...fuses].sort((a, b) => a.offset - b.offset);
+    const baseOffset = format === 'hex-bytes' && sortedFuses.length > 0 ? sortedFuses[0].offset : 0;
+    const span = sortedFuses.reduce((end, fuse) => Math.max(end, fuse.offset - baseOffset + fuse.size), 0);
+
+    const missing: string[] = [];
+    sortedFuses.forEach(fuse => {
+      const start = fuse.offset - baseOffset;
+      const fuseBytes = bytes.slice(start, start + fuse.size);
+      if (fuseBytes.length === fuse.size && fuseBytes.every(byte => byte !== undefined)) {
+        values[fuse.name] = fuseBytes.reduce((value, byte, index) => value + byte * 2 ** (8 * index), 0);
+      } else {
+        missing.push(fuse.name);
+      }
+    });
+
+    if (format === 'hex-bytes' && bytes.length < span) {
+      warnings.push(`${bytes.length} bytes provided but the fuses span ${span} bytes (offsets 0x${baseOffset.toString(16)}-0x${(baseOffset + span - 1).toString(16)}); no value for ${missing.join(', ')}`);
+    }
+    const definedCount = bytes.filter(byte => byte !== undefined).length;
+    if (definedCount > span) {
+      warnings.push(`${definedCount} bytes provided but the device fuses only span ${span} bytes`);
+    }
+    if (Object.keys(values).length === 0) {
+      throw new AtPackParseError('No fuse values found in the input');
+    }
+
+    return { format, values, warnings };
+  }
+
+  private findFuseByMemoryName(memory: string, fuses: FuseConfig[]): FuseConfig | undefined {
+    const name = memory.toLowerCase();
+
+    const byName = fuses.find(fuse => fuse.name.toLowerCase() === name);
+    if (byName) {
+      return byName;
+    }
+
+    const indexed = name.match(/^fuse(\d+)$/);
+    if (indexed) {
+      return fuses.find(fuse => fuse.offset === parseInt(indexed[1], 10));
+    }
+
+    const aliasOffset = AVRDUDE_FUSE_ALIASES[name];
+    if (aliasOffset !== undefined) {
+      return fuses.find(fuse => fuse.offset === aliasOffset);
+    }
+
+    return undefined;
+  }
+
+  private parseNumber(text: string): number | null {
+    let value: number;
+    if (/^0x[0-9a-f]+$/i.test(text)) {
+      value = parseInt(text.slice(2), 16);
+    } else if (/^0b[01]+$/i.test(text)) {
+      value = parseInt(text.slice(2), 2);
+    } else if (/^\d+$/.test(text)) {
+      value = parseInt(text, 10);
+    } else {
+      return null;
+    }
+    return value <= 0xFF ? value : null;
+  }
+}
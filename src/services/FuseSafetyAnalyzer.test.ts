@@ -0,0 +1,216 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { FuseSafetyAnalyzer } from './FuseSafetyAnalyzer';
+import { loadPackArchive } from '../test/packArchive';
+import type { AtPackDevice } from '../types/atpack';
+
+const PDSC = (atmegaInterfaces: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATtiny1614</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/>${atmegaInterfaces}</device>
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/><interface type="UPDI"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: fuses, lock bits and clock pins
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <address-spaces>
+        <address-space endianness="little" name="fuses" id="fuses" start="0" size="0x0003">
+          <memory-segment start="0" size="0x0003" type="fuses" rw="RW" exec="0" name="FUSES" pagesize="0x1"/>
+        </address-space>
+        <address-space endianness="little" name="lockbits" id="lockbits" start="0" size="0x0001">
+          <memory-segment start="0" size="0x0001" type="lockbits" rw="RW" exec="0" name="LOCKBITS" pagesize="0x1"/>
+        </address-space>
+      </address-spaces>
+      <peripherals>
+        <module name="EXINT">
+          <instance name="EXINT" caption="External Interrupts">
+            <signals>
+              <signal group="XTAL1" function="default" pad="PB6"/>
+              <signal group="XTAL2" function="default" pad="PB7"/>
+            </signals>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE">
+        <register caption="" name="HIGH" offset="0x01" size="1" initval="0xD9">
+          <bitfield caption="Reset Disabled (Enable PC6 as i/o pin)" mask="0x80" name="RSTDISBL"/>
+          <bitfield caption="Debug Wire enable" mask="0x40" name="DWEN"/>
+          <bitfield caption="Serial program downloading (SPI) enabled" mask="0x20" name="SPIEN"/>
+          <bitfield caption="Watch-dog Timer always on" mask="0x10" name="WDTON"/>
+          <bitfield caption="Preserve EEPROM through the Chip Erase cycle" mask="0x08" name="EESAVE"/>
+          <bitfield caption="Boot Reset vector Enabled" mask="0x01" name="BOOTRST"/>
+        </register>
+        <register caption="" name="LOW" offset="0x00" size="1" initval="0x62">
+          <bitfield caption="Divide clock by 8 internally" mask="0x80" name="CKDIV8"/>
+          <bitfield caption="Select Clock Source" mask="0x3F" name="SUT_CKSEL" values="ENUM_SUT_CKSEL"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="ENUM_SUT_CKSEL">
+        <value caption="Int. RC Osc. 8 MHz; Start-up time PWRDWN/RESET: 6 CK/14 CK + 65 ms" name="INTRCOSC_8MHZ_6CK_14CK_65MS" value="0x22"/>
+        <value caption="Int. RC Osc. 128kHz; Start-up time PWRDWN/RESET: 6 CK/14 CK + 65 ms" name="INTRCOSC_128KHZ_6CK_14CK_65MS" value="0x23"/>
+        <value caption="Ext. Crystal Osc. 8.0-    MHz; Start-up time PWRDWN/RESET: 16K CK/14 CK + 65 ms" name="EXTXOSC_8MHZ_XX_16KCK_14CK_65MS" value="0x3F"/>
+      </value-group>
+    </module>
+    <module caption="Lockbits" name="LOCKBIT">
+      <register-group caption="Lockbits" name="LOCKBIT">
+        <register caption="" name="LOCKBIT" offset="0x00" size="1" initval="0xFF">
+          <bitfield caption="Memory Lock" mask="0x03" name="LB" values="ENUM_LB"/>
+          <bitfield caption="Boot Loader Protection Mode" mask="0x0C" name="BLB0" values="ENUM_BLB"/>
+          <bitfield caption="Boot Loader Protection Mode" mask="0x30" name="BLB1" values="ENUM_BLB2"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="ENUM_LB">
+        <value caption="Further programming and verification disabled" name="PROG_VER_DISABLED" value="0x00"/>
+        <value caption="Further programming disabled" name="PROG_DISABLED" value="0x02"/>
+        <value caption="No memory lock features enabled" name="NO_LOCK" value="0x03"/>
+      </value-group>
+      <value-group caption="" name="ENUM_BLB">
+        <value caption="LPM and SPM prohibited in Application Section" name="LPM_SPM_DISABLE" value="0x00"/>
+        <value caption="LPM prohibited in Application Section" name="LPM_DISABLE" value="0x01"/>
+        <value caption="SPM prohibited in Application Section" name="SPM_DISABLE" value="0x02"/>
+        <value caption="No lock on SPM and LPM in Application Section" name="NO_LOCK" value="0x03"/>
+      </value-group>
+      <value-group caption="" name="ENUM_BLB2">
+        <value caption="LPM and SPM prohibited in Boot Section" name="LPM_SPM_DISABLE" value="0x00"/>
+        <value caption="LPM prohibited in Boot Section" name="LPM_DISABLE" value="0x01"/>
+        <value caption="SPM prohibited in Boot Section" name="SPM_DISABLE" value="0x02"/>
+        <value caption="No lock on SPM and LPM in Boot Section" name="NO_LOCK" value="0x03"/>
+      </value-group>
+    </module>
+  </modules>
+  <pinouts>
+    <pinout name="PDIP28" caption="PDIP28">
+      <pin position="9" pad="PB6"/>
+      <pin position="10" pad="PB7"/>
+    </pinout>
+    <pinout name="NOXTAL" caption="No crystal pins">
+      <pin position="1" pad="PC6"/>
+    </pinout>
+  </pinouts>
+</avr-tools-device-file>`;
+
+// Excerpt of ATtiny1614.atdf: the SYSCFG0 fuse
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR"/>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="System Configuration 0" name="SYSCFG0" offset="0x05" size="1" initval="0xF6">
+          <bitfield caption="EEPROM Save" mask="0x01" name="EESAVE"/>
+          <bitfield caption="Reset Pin Configuration" mask="0x0C" name="RSTPINCFG" values="FUSE_RSTPINCFG"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="FUSE_RSTPINCFG">
+        <value caption="GPIO mode" name="GPIO" value="0x0"/>
+        <value caption="UPDI mode" name="UPDI" value="0x1"/>
+        <value caption="Reset mode" name="RST" value="0x2"/>
+      </value-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const ISP_HVPP = '<interface type="ISP"/><interface type="HVPP"/>';
+
+describe('FuseSafetyAnalyzer', () => {
+  const analyzer = new FuseSafetyAnalyzer();
+
+  const parseDevice = async (name: string, atdf: string, atmegaInterfaces = ISP_HVPP): Promise<AtPackDevice> => {
+    const { devices } = await loadPackArchive({
+      'Atmel.ATmega_DFP.pdsc': PDSC(atmegaInterfaces),
+      [`atdf/${name}.atdf`]: atdf
+    });
+    return devices.find(d => d.name === name)!;
+  };
+
+  let atmega328p: AtPackDevice;
+
+  beforeAll(async () => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    atmega328p = await parseDevice('ATmega328P', ATMEGA328P_ATDF);
+  });
+
+  it('reports nothing for the default fuses', () => {
+    expect(analyzer.analyze(atmega328p, {})).toEqual([]);
+  });
+
+  it('flags disabling SPIEN and the RESET pin as errors', () => {
+    const findings = analyzer.analyze(atmega328p, { HIGH: 0x79 });
+
+    expect(findings.map(f => [f.rule, f.severity])).toEqual([['spien', 'error'], ['rstdisbl', 'error']]);
+    expect(findings[0].message).toContain('only high-voltage programming (HVPP/HVSP) can restore it');
+  });
+
+  it('mentions missing high-voltage programming', async () => {
+    const device = await parseDevice('ATmega328P', ATMEGA328P_ATDF, '<interface type="ISP"/>');
+    const [finding] = analyzer.analyze(device, { HIGH: 0x59 });
+
+    expect(finding.rule).toBe('rstdisbl');
+    expect(finding.message).toContain('declares no high-voltage programming interface');
+  });
+
+  it('warns about debugWIRE and the always-on watchdog', () => {
+    const findings = analyzer.analyze(atmega328p, { HIGH: 0x89 });
+
+    expect(findings.map(f => [f.rule, f.severity])).toEqual([['dwen', 'warning'], ['wdton', 'warning']]);
+  });
+
+  it('warns about a slow ISP clock with CKDIV8 on the 128 kHz oscillator', () => {
+    const [finding] = analyzer.analyze(atmega328p, { LOW: 0x63 });
+
+    expect(finding).toMatchObject({ rule: 'clock-source', severity: 'warning', register: 'LOW', bitfield: 'SUT_CKSEL' });
+    expect(finding.message).toContain('CPU clock of 16 kHz');
+  });
+
+  it('checks that the crystal pins are bonded out in the selected package', () => {
+    const [bonded] = analyzer.analyze(atmega328p, { LOW: 0xFF }, {}, 'PDIP28');
+    const [missing] = analyzer.analyze(atmega328p, { LOW: 0xFF }, {}, 'NOXTAL');
+
+    expect(bonded.severity).toBe('warning');
+    expect(bonded.message).toContain('XTAL1/PB6, XTAL2/PB7');
+    expect(missing.severity).toBe('error');
+    expect(missing.message).toContain('no XTAL pins free in selected package NOXTAL');
+  });
+
+  it('warns that the memory lock bits block read-back until a chip erase', () => {
+    const findings = analyzer.analyze(atmega328p, {}, { LOCKBIT: 0xFC });
+
+    expect(findings).toEqual([expect.objectContaining({ rule: 'lockbits', register: 'LOCKBIT', bitfield: 'LB' })]);
+    expect(findings[0].message).toBe('Further programming and verification disabled: reading and verifying memories (including the read-back commands) will fail until a chip erase clears the lock bits.');
+  });
+
+  it('describes the boot lock bits as SPM/LPM restrictions', () => {
+    // BLB0 = 00, BLB1 = 10: the usual bootloader protection
+    const findings = analyzer.analyze(atmega328p, {}, { LOCKBIT: 0xE3 });
+
+    expect(findings.map(f => f.bitfield)).toEqual(['BLB0', 'BLB1']);
+    expect(findings[0].message).toBe('LPM and SPM prohibited in Application Section: restricts SPM/LPM access between the application and boot loader sections; programmer read-back and verification are not affected.');
+    expect(findings[1].message).toContain('SPM prohibited in Boot Section');
+    findings.forEach(finding => expect(finding.message).not.toContain('chip erase'));
+  });
+
+  it('flags UPDI pin configurations that disable UPDI', async () => {
+    const device = await parseDevice('ATtiny1614', ATTINY1614_ATDF);
+
+    expect(analyzer.analyze(device, {})).toEqual([]);
+    expect(analyzer.analyze(device, { SYSCFG0: 0xF8 })).toEqual([
+      expect.objectContaining({ rule: 'updi-pin', severity: 'error', bitfield: 'RSTPINCFG' })
+    ]);
+  });
+});
@@ -0,0 +1,289 @@
+import type {
+  AtPackDevice,
+  ClockSource,
+  DevicePinout,
+  FuseBitValue,
+  FuseBitfield,
+  FuseConfig,
+  FuseSafetyFinding,
+  LockbitConfig
+} from '../types/atpack';
+import { getProgrammingInterface, getProtocols } from '../utils/programmingInterface';
+
+/**
+ * Current value of a fuse bitfield
+ */
+interface FuseFieldState {
+  fuse: FuseConfig;
+  bitfield: FuseBitfield;
+  value: number;
+  selected?: FuseBitValue; // Matching value-group entry, if any
+}
+
+interface FuseSafetyContext {
+  device: AtPackDevice;
+  protocols: string[];
+  programmingInterface: string;
+  pinout?: DevicePinout;
+  field: (name: string | RegExp) => FuseFieldState | undefined;
+  lockbitValue: (lockbit: LockbitConfig) => number;
+}
+
+type FuseSafetyCheck = Omit<FuseSafetyFinding, 'rule'>;
+
+interface FuseSafetyRule {
+  id: string;
+  check: (context: FuseSafetyContext) => FuseSafetyCheck[];
+}
+
+// Pin signal groups needed by external clock sources
+const CRYSTAL_SIGNALS = ['XTAL1', 'XTAL2'];
+const EXTERNAL_CLOCK_SIGNALS = ['XTAL1', 'CLKI', 'EXTCLK'];
+
+// Boot lock bitfields of classic AVRs (BLB0, BLB1, BLB01...)
+const BOOT_LOCK_BITFIELD = /^BLB\d*$/;
+
+// Below this CPU clock, default ISP programmer clocks are too fast (SCK must be < F_CPU/4)
+const SLOW_ISP_CLOCK_HZ = 1000000;
+
+const hasHighVoltageProgramming = (context: FuseSafetyContext): boolean => {
+  return context.protocols.some(protocol => ['HVPP', 'HVSP'].includes(protocol));
+};
+
+const highVoltageNote = (context: FuseSafetyContext): string => {
+  return hasHighVoltageProgramming(context)
+    ? 'only high-voltage programming (HVPP/HVSP) can restore it'
+    : 'the pack declares no high-voltage programming interface to restore it';
+};
+
+const fieldFinding = (
+  state: FuseFieldState,
+  severity: FuseSafetyFinding['severity'],
+  message: string
+): FuseSafetyCheck => ({
+  severity,
+  register: state.fuse.name,
+  bitfield: state.bitfield.name,
+  message
+});
+
+/**
+ * Check that the pins needed by an external crystal or clock are bonded out in the selected package
+ */
+const checkClockPins = (context: FuseSafetyContext, cksel: FuseFieldState, source: ClockSource): FuseSafetyCheck[] => {
+  const crystal = source.type === 'crystal';
+  const required = crystal ? CRYSTAL_SIGNALS : EXTERNAL_CLOCK_SIGNALS;
+  const kind = crystal ? 'External crystal' : 'External clock';
+
+  const declaresClockPins = context.device.modules.some(module =>
+    module.signals?.some(signal => required.includes(signal.group.toUpperCase()))
+  );
+  if (!declaresClockPins || !context.pinout) {
+    return [fieldFinding(cksel, 'warning',
+      `${kind} selected: the device will not run, nor accept ${context.programmingInterface} programming, without a ${crystal ? 'crystal' : 'clock signal'} on its clock pins.`)];
+  }
+
+  const available = new Map<string, string>();
+  context.pinout.pins.forEach(pin => {
+    pin.functions
+      .filter(func => required.includes(func.group.toUpperCase()))
+      .forEach(func => available.set(func.group.toUpperCase(), pin.pad));
+  });
+
+  const usable = crystal ? CRYSTAL_SIGNALS.every(group => available.has(group)) : available.size > 0;
+  if (!usable) {
+    return [fieldFinding(cksel, 'error',
+      `${kind} selected but no ${crystal ? 'XTAL' : 'clock input'} pins free in selected package ${context.pinout.name}.`)];
+  }
+
+  const pins = Array.from(available.entries()).map(([group, pad]) => `${group}/${pad}`).join(', ');
+  return [fieldFinding(cksel, 'warning',
+    `${kind} selected: the device will not run, nor accept ${context.programmingInterface} programming, without a ${crystal ? 'crystal' : 'clock signal'} on ${pins}.`)];
+};
+
+const RULES: FuseSafetyRule[] = [
+  {
+    id: 'spien',
+    check: (context) => {
+      const spien = context.field('SPIEN');
+      if (!spien || spien.value === 0 || context.programmingInterface !== 'ISP') {
+        return [];
+      }
+      return [fieldFinding(spien, 'error',
+        `Disabling SPIEN will prevent ISP programming; ${highVoltageNote(context)}.`)];
+    }
+  },
+  {
+    id: 'rstdisbl',
+    check: (context) => {
+      const rstdisbl = context.field('RSTDISBL');
+      if (!rstdisbl || rstdisbl.value !== 0) {
+        return [];
+      }
+      const blocked = context.programmingInterface === 'TPI' ? 'TPI' : 'ISP and debugWIRE';
+      return [fieldFinding(rstdisbl, 'error',
+        `Disabling the RESET pin will prevent ${blocked} programming; ${highVoltageNote(context)}.`)];
+    }
+  },
+  {
+    id: 'dwen',
+    check: (context) => {
+      const dwen = context.field('DWEN');
+      if (!dwen || dwen.value !== 0) {
+        return [];
+      }
+      return [fieldFinding(dwen, 'warning',
+        'Enabling debugWIRE turns RESET into the debugWIRE line: ISP stops working until debugWIRE is disabled from a debugger.')];
+    }
+  },
+  {
+    id: 'updi-pin',
+    check: (context) => {
+      const findings: FuseSafetyCheck[] = [];
+      [context.field('RSTPINCFG'), context.field('UPDIPINCFG')].forEach(state => {
+        const options = state?.bitfield.values || [];
+        if (!state?.selected || !options.some(option => /UPDI/i.test(option.name))) {
+          return;
+        }
+        if (!/UPDI/i.test(state.selected.name)) {
+          findings.push(fieldFinding(state, 'error',
+            `Configuring the UPDI pin as ${state.selected.description || state.selected.name} will prevent UPDI programming; only a 12 V high-voltage UPDI pulse can restore it.`));
+        }
+      });
+      return findings;
+    }
+  },
+  {
+    id: 'clock-source',
+    check: (context) => {
+      const cksel = context.field(/CKSEL/);
+      const source = cksel && context.device.clockInfo?.sources.find(s => s.value === cksel.value);
+      if (!cksel || !source) {
+        return [];
+      }
+
+      const findings: FuseSafetyCheck[] = [];
+      if (source.type !== 'internal') {
+        findings.push(...checkClockPins(context, cksel, source));
+      }
+
+      const ckdiv8 = context.field('CKDIV8');
+      const cpuFrequency = source.frequency !== undefined
+        ? source.frequency / (ckdiv8?.value === 0 ? 8 : 1)
+        : undefined;
+      if (cpuFrequency !== undefined && cpuFrequency < SLOW_ISP_CLOCK_HZ && context.programmingInterface === 'ISP') {
+        findings.push(fieldFinding(cksel, 'warning',
+          `CPU clock of ${cpuFrequency / 1000} kHz: the ISP clock must stay below a quarter of it, so program with a slow programmer clock (avrdude -B).`));
+      }
+      return findings;
+    }
+  },
+  {
+    id: 'wdton',
+    check: (context) => {
+      const wdton = context.field('WDTON');
+      if (!wdton || wdton.value !== 0) {
+        return [];
+      }
+      return [fieldFinding(wdton, 'warning',
+        'The watchdog will always be on: firmware must reset it periodically or the device keeps resetting.')];
+    }
+  },
+  {
+    id: 'bootrst',
+    check: (context) => {
+      const bootrst = context.field('BOOTRST');
+      if (!bootrst || bootrst.value !== 0) {
+        return [];
+      }
+      return [fieldFinding(bootrst, 'warning',
+        'The reset vector will point to the boot section: a bootloader must be programmed there.')];
+    }
+  },
+  {
+    id: 'lockbits',
+    check: (context) => {
+      const findings: FuseSafetyCheck[] = [];
+      context.device.lockbits.forEach(lockbit => {
+        const value = context.lockbitValue(lockbit);
+        const defaultValue = lockbit.defaultValue ?? (1 << (lockbit.size * 8)) - 1;
+
+        lockbit.bits.forEach(bit => {
+          const mask = ((1 << bit.bitWidth) - 1) << bit.bitOffset;
+          if ((value & mask) === (defaultValue & mask)) {
+            return;
+          }
+          const selected = bit.values?.find(v => v.value === (value & mask) >> bit.bitOffset);
+          // Boot lock bits (BLB0x/BLB1x) only restrict SPM/LPM from the firmware, not the programmer
+          const message = BOOT_LOCK_BITFIELD.test(bit.name)
+            ? `${selected?.caption || 'Boot lock bits set'}: restricts SPM/LPM access between the application and boot loader sections; programmer read-back and verification are not affected.`
+            : `${selected?.caption || 'Lock bits set'}: reading and verifying memories (including the read-back commands) will fail until a chip erase clears the lock bits.`;
+          findings.push({
+            severity: 'warning',
+            register: lockbit.name,
+            bitfield: bit.name,
+            message
+          });
+        });
+      });
+      return findings;
+    }
+  }
+];
+
+/**
+ * Evaluates a fuse/lockbit selection against the device's programming interfaces,
+ * clock sources and package pins, reporting configurations that can brick the device
+ * (errors) or need special care (warnings).
+ *
+ * Rules work on bitfield names from the ATDF (SPIEN, RSTDISBL, SUT_CKSEL...), so only
+ * the rules matching fields present on the device apply.
+ */
+export class FuseSafetyAnalyzer {
+
+  /**
+   * Analyze register values keyed by fuse/lockbit name; registers without a value are
+   * taken at their default. The pinout defaults to the first package of the device.
+   */
+  analyze(
+    device: AtPackDevice,
+    fuseValues: Record<string, number>,
+    lockbitValues: Record<string, number> = {},
+    pinoutName?: string
+  ): FuseSafetyFinding[] {
+    const context = this.createContext(device, fuseValues, lockbitValues, pinoutName);
+
+    return RULES.flatMap(rule =>
+      rule.check(context).map(finding => ({ rule: rule.id, ...finding }))
+    );
+  }
+
+  private createContext(
+    device: AtPackDevice,
+    fuseValues: Record<string, number>,
+    lockbitValues: Record<string, number>,
+    pinoutName?: string
+  ): FuseSafetyContext {
+    const field = (name: string | RegExp): FuseFieldState | undefined => {
+      for (const fuse of device.fuses) {
+        const bitfield = fuse.bitfields.find(b => typeof name === 'string' ? b.name === name : name.test(b.name));
+        if (bitfield) {
+          const registerValue = fuseValues[fuse.name] ?? fuse.defaultValue ?? 0;
+          const mask = ((1 << bitfield.bitWidth) - 1) << bitfield.bitOffset;
+          const value = (registerValue & mask) >> bitfield.bitOffset;
+          return { fuse, bitfield, value, selected: bitfield.values?.find(v => v.value === value) };
+        }
+      }
+      return undefined;
+    };
+
+    return {
+      device,
+      protocols: getProtocols(device),
+      programmingInterface: getProgrammingInterface(device),
+      pinout: device.pinouts.find(pinout => pinout.name === pinoutName) || device.pinouts[0],
+      field,
+      lockbitValue: (lockbit) => lockbitValues[lockbit.name] ?? lockbit.defaultValue ?? (1 << (lockbit.size * 8)) - 1
+    };
+  }
+}
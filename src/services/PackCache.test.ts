@@ -0,0 +1,140 @@
+// @vitest-environment node
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import JSZip from 'jszip';
+import { AtPackParser } from './AtPackParser';
+import { PackCache } from './PackCache';
+import { installNodeDom } from '../cli/nodeDom';
+import { AtPackParseError } from '../types/atpack';
+import type { AtPack } from '../types/atpack';
+
+const pdsc = (version: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATtiny_DFP" version="${version}">
+  <description>Microchip ATtiny Series Device Support</description>
+  <releases><release version="${version}">ATtiny1614, ATtiny3216</release></releases>
+  <devices>
+    <family Dfamily="ATtiny" Dvendor="Microchip:3">
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+      <device Dname="ATtiny3216"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATtiny1614.atdf
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR"/>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="Oscillator Configuration" name="OSCCFG" offset="0x02" size="1" initval="0x02">
+          <bitfield caption="Frequency Select" mask="0x03" name="FREQSEL"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+describe('PackCache', () => {
+  let parser: AtPackParser;
+  let archive: Blob;
+
+  const parsePack = (version: string = '3.1.260'): AtPack => {
+    const atpack = parser.parseArchivePdsc(pdsc(version));
+    atpack.source = { type: 'file', fileName: `Microchip.ATtiny_DFP.${version}.atpack` };
+    return atpack;
+  };
+
+  beforeAll(async () => {
+    installNodeDom();
+    parser = new AtPackParser();
+    const zip = new JSZip();
+    zip.file('Microchip.ATtiny_DFP.pdsc', pdsc('3.1.260'));
+    zip.file('atdf/ATtiny1614.atdf', ATTINY1614_ATDF);
+    archive = new Blob([await zip.generateAsync({ type: 'uint8array' })]);
+  });
+
+  beforeEach(() => {
+    // A fresh database per test
+    globalThis.indexedDB = new IDBFactory();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('stores packs with their archive and lists them', async () => {
+    const cache = new PackCache();
+    const entry = await cache.put(parsePack(), archive);
+
+    expect(entry).toMatchObject({
+      id: 'Microchip.ATtiny_DFP.3.1.260',
+      vendor: 'Microchip',
+      version: '3.1.260',
+      deviceCount: 2,
+      archiveSize: archive.size
+    });
+    expect(await cache.has('Microchip.ATtiny_DFP.3.1.260')).toBe(true);
+    expect(await cache.list()).toEqual([entry]);
+  });
+
+  it('loads packs with pending devices that can still be parsed from the archive', async () => {
+    const cache = new PackCache();
+    await cache.put(parsePack(), archive);
+
+    const atpack = await cache.load('Microchip.ATtiny_DFP.3.1.260');
+    const [device] = atpack.devices;
+
+    expect(atpack.source).toEqual({ type: 'file', fileName: 'Microchip.ATtiny_DFP.3.1.260.atpack' });
+    expect(device.enrichmentPending).toBe(true);
+    await parser.enrichDeviceFromArchive(atpack, device);
+    expect(device.fuses.map(fuse => fuse.name)).toEqual(['OSCCFG']);
+  });
+
+  it('keeps the devices parsed since the pack was stored', async () => {
+    const cache = new PackCache();
+    const atpack = parsePack();
+    await cache.put(atpack, archive);
+
+    parser.enrichDevice(atpack.devices[0], ATTINY1614_ATDF);
+    await cache.update(atpack);
+    const [attiny1614, attiny3216] = (await cache.load('Microchip.ATtiny_DFP.3.1.260')).devices;
+
+    expect(attiny1614.enrichmentPending).toBeUndefined();
+    expect(attiny1614.fuses.map(fuse => fuse.name)).toEqual(['OSCCFG']);
+    expect(attiny3216.enrichmentPending).toBe(true);
+    expect(await cache.update(parsePack('3.2.268'))).toBeNull();
+  });
+
+  it('evicts the least recently used packs above the size limit', async () => {
+    const now = vi.spyOn(Date, 'now');
+    const sizing = new PackCache();
+    const { packSize } = await sizing.put(parsePack());
+    await sizing.clear();
+
+    const cache = new PackCache(packSize * 2.5);
+    now.mockReturnValue(1000);
+    await cache.put(parsePack('3.1.260'));
+    now.mockReturnValue(2000);
+    await cache.put(parsePack('3.2.268'));
+    now.mockReturnValue(3000);
+    await cache.load('Microchip.ATtiny_DFP.3.1.260');
+    now.mockReturnValue(4000);
+    await cache.put(parsePack('3.3.281'));
+
+    expect((await cache.list()).map(entry => entry.id)).toEqual([
+      'Microchip.ATtiny_DFP.3.3.281',
+      'Microchip.ATtiny_DFP.3.1.260'
+    ]);
+    now.mockRestore();
+  });
+
+  it('reports packs that are not cached', async () => {
+    const cache = new PackCache();
+    await cache.put(parsePack());
+    await cache.remove('Microchip.ATtiny_DFP.3.1.260');
+
+    expect(await cache.has('Microchip.ATtiny_DFP.3.1.260')).toBe(false);
+    await expect(cache.load('Microchip.ATtiny_DFP.3.1.260')).rejects.toThrow(AtPackParseError);
+  });
+});
@@ -0,0 +1,259 @@
+import JSZip from 'jszip';
+import type { AtPack, AtPackExportDocument, CachedPackEntry, PackCacheUsage } from '../types/atpack';
+import { AtPackParseError } from '../types/atpack';
+import { AtPackSerializer } from './AtPackSerializer';
+import { getPackId } from '../utils/shareState';
+
+const DB_NAME = 'atpack-viewer';
+const DB_VERSION = 1;
+
+// Entries are kept apart from the (large) parsed packs and archives so listing stays cheap
+const ENTRIES_STORE = 'entries';
+const PACKS_STORE = 'packs';
+const ARCHIVES_STORE = 'archives';
+
+const DEFAULT_MAX_BYTES = 512 * 1024 * 1024;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Persistent cache of parsed packs and their raw archives in IndexedDB, keyed by
+ * Vendor.Name.Version, so packs can be reopened without downloading or parsing them again.
+ *
+ * Parsed packs are stored in the JSON export form (see AtPackSerializer), including the
+ * devices parsed on demand once they are written back with update; devices not parsed yet
+ * stay pending, to be parsed from the cached archive. When the total size
+ * exceeds maxBytes, the least recently used packs are evicted.
+ */
+export class PackCache {
+  private readonly maxBytes: number;
+  private database: Promise<IDBDatabase> | null = null;
+  private serializer: AtPackSerializer;
+
+  constructor(maxBytes: number = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+    this.serializer = new AtPackSerializer();
+  }
+
+  /**
+   * Check if IndexedDB is available (it is not in the CLI or some private browsing modes)
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * List cached packs, most recently used first
+   */
+  async list(): Promise<CachedPackEntry[]> {
+    const db = await this.open();
+    const entries = await requestToPromise<CachedPackEntry[]>(
+      db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll()
+    );
+    return entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  /**
+   * Store a parsed pack, with its raw archive when available, then evict old packs if needed
+   */
+  async put(atpack: AtPack, archive?: Blob): Promise<CachedPackEntry> {
+    const db = await this.open();
+    const id = getPackId(atpack);
+    const document = this.serializer.exportAtPack(atpack, { keepPending: true });
+    const now = Date.now();
+
+    const entry: CachedPackEntry = {
+      id,
+      vendor: atpack.metadata.vendor,
+      name: atpack.metadata.name,
+      version: atpack.version,
+      description: atpack.metadata.description,
+      deviceCount: atpack.devices.length,
+      source: atpack.source,
+      packSize: this.serializer.stringify(document).length,
+      archiveSize: archive?.size || 0,
+      cachedAt: now,
+      lastUsedAt: now
+    };
+
+    const transaction = db.transaction([ENTRIES_STORE, PACKS_STORE, ARCHIVES_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    transaction.objectStore(PACKS_STORE).put(document, id);
+    if (archive) {
+      transaction.objectStore(ARCHIVES_STORE).put(archive, id);
+    } else {
+      transaction.objectStore(ARCHIVES_STORE).delete(id);
+    }
+    await transactionDone(transaction);
+    console.log(`PackCache: Stored ${id} (${entry.deviceCount} devices, ${entry.packSize + entry.archiveSize} bytes)`);
+
+    await this.evict(id);
+    return entry;
+  }
+
+  /**
+   * Rewrite the parsed form of a cached pack, keeping its archive, so devices enriched since
+   * it was stored are not parsed again. Returns null when the pack is not cached.
+   */
+  async update(atpack: AtPack): Promise<CachedPackEntry | null> {
+    const db = await this.open();
+    const id = getPackId(atpack);
+    const document = this.serializer.exportAtPack(atpack, { keepPending: true });
+    const packSize = this.serializer.stringify(document).length;
+
+    const transaction = db.transaction([ENTRIES_STORE, PACKS_STORE], 'readwrite');
+    const entry = await requestToPromise<CachedPackEntry | undefined>(transaction.objectStore(ENTRIES_STORE).get(id));
+    if (!entry) {
+      return null;
+    }
+
+    const updated: CachedPackEntry = { ...entry, packSize };
+    transaction.objectStore(ENTRIES_STORE).put(updated);
+    transaction.objectStore(PACKS_STORE).put(document, id);
+    await transactionDone(transaction);
+    console.log(`PackCache: Updated ${id} (${atpack.devices.filter(device => !device.enrichmentPending).length} parsed devices)`);
+
+    await this.evict(id);
+    return updated;
+  }
+
+  /**
+   * Check if a pack is cached
+   */
+  async has(id: string): Promise<boolean> {
+    const db = await this.open();
+    const key = await requestToPromise(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getKey(id));
+    return key !== undefined;
+  }
+
+  /**
+   * Load a cached pack, with its ZIP content when the archive was stored
+   */
+  async load(id: string): Promise<AtPack> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES_STORE, PACKS_STORE, ARCHIVES_STORE]);
+    const [entry, document, archive] = await Promise.all([
+      requestToPromise<CachedPackEntry | undefined>(transaction.objectStore(ENTRIES_STORE).get(id)),
+      requestToPromise<AtPackExportDocument | undefined>(transaction.objectStore(PACKS_STORE).get(id)),
+      requestToPromise<Blob | undefined>(transaction.objectStore(ARCHIVES_STORE).get(id))
+    ]);
+
+    if (!entry || !document) {
+      throw new AtPackParseError(`Pack ${id} is not in the cache`);
+    }
+
+    const atpack = this.serializer.importDocument(document);
+    atpack.source = entry.source;
+    if (archive) {
+      atpack.zipContent = await new JSZip().loadAsync(await archive.arrayBuffer());
+    }
+
+    await this.touch(entry);
+    return atpack;
+  }
+
+  /**
+   * Remove a pack from the cache
+   */
+  async remove(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES_STORE, PACKS_STORE, ARCHIVES_STORE], 'readwrite');
+    [ENTRIES_STORE, PACKS_STORE, ARCHIVES_STORE].forEach(store => transaction.objectStore(store).delete(id));
+    await transactionDone(transaction);
+    console.log(`PackCache: Removed ${id}`);
+  }
+
+  /**
+   * Remove all packs from the cache
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES_STORE, PACKS_STORE, ARCHIVES_STORE], 'readwrite');
+    [ENTRIES_STORE, PACKS_STORE, ARCHIVES_STORE].forEach(store => transaction.objectStore(store).clear());
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Size of the cached packs, with the origin storage usage and quota when the browser reports them
+   */
+  async getUsage(): Promise<PackCacheUsage> {
+    const entries = await this.list();
+    const usage: PackCacheUsage = {
+      packCount: entries.length,
+      cachedBytes: entries.reduce((total, entry) => total + entry.packSize + entry.archiveSize, 0),
+      maxBytes: this.maxBytes
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate();
+      usage.storageUsage = estimate.usage;
+      usage.storageQuota = estimate.quota;
+    }
+    return usage;
+  }
+
+  private async touch(entry: CachedPackEntry): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put({ ...entry, lastUsedAt: Date.now() });
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Evict least recently used packs until the cache fits in maxBytes, keeping the given pack
+   */
+  private async evict(keepId: string): Promise<void> {
+    const entries = await this.list();
+    let total = entries.reduce((sum, entry) => sum + entry.packSize + entry.archiveSize, 0);
+
+    for (const entry of [...entries].reverse()) {
+      if (total <= this.maxBytes) break;
+      if (entry.id === keepId) continue;
+
+      console.log(`PackCache: Evicting ${entry.id} (cache size ${total} > ${this.maxBytes} bytes)`);
+      await this.remove(entry.id);
+      total -= entry.packSize + entry.archiveSize;
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      if (!this.isAvailable()) {
+        return Promise.reject(new AtPackParseError('IndexedDB is not available, packs cannot be cached'));
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PACKS_STORE)) {
+          db.createObjectStore(PACKS_STORE);
+        }
+        if (!db.objectStoreNames.contains(ARCHIVES_STORE)) {
+          db.createObjectStore(ARCHIVES_STORE);
+        }
+      };
+      this.database = requestToPromise(request);
+      // Allow retrying after a failed open (e.g. blocked by another tab)
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
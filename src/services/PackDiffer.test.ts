@@ -0,0 +1,179 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AtPackParser } from './AtPackParser';
+import { PackDiffer } from './PackDiffer';
+import { AtPackParseError } from '../types/atpack';
+import type { AtPack, PackDiffDocument } from '../types/atpack';
+
+const PDSC_3_1_260 = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATtiny_DFP">
+  <description>Microchip ATtiny Series Device Support</description>
+  <releases><release version="3.1.260">ATtiny1614, ATtiny3216</release></releases>
+  <devices>
+    <family Dfamily="ATtiny" Dvendor="Microchip:3">
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+      <device Dname="ATtiny3216"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+const PDSC_3_2_268 = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATtiny_DFP">
+  <description>Microchip ATtiny Series Device Support</description>
+  <releases><release version="3.2.268">ATtiny1614, ATtiny1624</release></releases>
+  <devices>
+    <family Dfamily="ATtiny" Dvendor="Microchip:3">
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+      <device Dname="ATtiny1624"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATtiny1614.atdf: SYSCFG0 and the PORTA interrupt
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <interrupts>
+        <interrupt index="3" name="PORT" module-instance="PORTA" caption="Interrupt Request 0"/>
+      </interrupts>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="System Configuration 0" name="SYSCFG0" offset="0x05" size="1" initval="0xF6">
+          <bitfield caption="EEPROM Save" mask="0x01" name="EESAVE"/>
+          <bitfield caption="Reset Pin Configuration" mask="0x0C" name="RSTPINCFG" values="FUSE_RSTPINCFG"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="FUSE_RSTPINCFG">
+        <value caption="GPIO mode" name="GPIO" value="0x0"/>
+        <value caption="UPDI mode" name="UPDI" value="0x1"/>
+      </value-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// The same excerpt with the changes a later release brings: a new SYSCFG0 default, a reset pin
+// mode whose caption holds a table separator, and a moved PORTA vector
+const ATTINY1614_ATDF_UPDATED = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <interrupts>
+        <interrupt index="4" name="PORT" module-instance="PORTA" caption="Interrupt Request 0"/>
+      </interrupts>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="System Configuration 0" name="SYSCFG0" offset="0x05" size="1" initval="0xF7">
+          <bitfield caption="EEPROM Save" mask="0x01" name="EESAVE"/>
+          <bitfield caption="Reset Pin Configuration" mask="0x0C" name="RSTPINCFG" values="FUSE_RSTPINCFG"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="FUSE_RSTPINCFG">
+        <value caption="GPIO mode" name="GPIO" value="0x0"/>
+        <value caption="UPDI mode" name="UPDI" value="0x1"/>
+        <value caption="Reset | UPDI mode" name="RST" value="0x2"/>
+      </value-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const ATTINY3216_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny3216" architecture="AVR8X" family="tinyAVR"/>
+  </devices>
+</avr-tools-device-file>`;
+
+const ATTINY1624_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1624" architecture="AVR8X" family="tinyAVR"/>
+  </devices>
+</avr-tools-device-file>`;
+
+describe('PackDiffer', () => {
+  const differ = new PackDiffer();
+  let parser: AtPackParser;
+  let diff: PackDiffDocument;
+
+  const parsePack = (pdsc: string, files: Record<string, string>): AtPack => {
+    const atpack = parser.parseArchivePdsc(pdsc);
+    atpack.devices.forEach(device => parser.enrichDevice(device, files[device.name]));
+    return atpack;
+  };
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    parser = new AtPackParser();
+    diff = differ.diff(
+      parsePack(PDSC_3_1_260, { ATtiny1614: ATTINY1614_ATDF, ATtiny3216: ATTINY3216_ATDF }),
+      parsePack(PDSC_3_2_268, { ATtiny1614: ATTINY1614_ATDF_UPDATED, ATtiny1624: ATTINY1624_ATDF })
+    );
+  });
+
+  it('lists the added and removed devices', () => {
+    expect(diff).toMatchObject({
+      format: 'atpack-diff',
+      formatVersion: 1,
+      pack: 'ATtiny_DFP',
+      from: { id: 'Microchip.ATtiny_DFP.3.1.260', version: '3.1.260' },
+      to: { id: 'Microchip.ATtiny_DFP.3.2.268', version: '3.2.268' },
+      addedDevices: ['ATtiny1624'],
+      removedDevices: ['ATtiny3216'],
+      unchangedDevices: []
+    });
+  });
+
+  it('reports the changes of devices in both releases, by section', () => {
+    const [attiny1614] = diff.changedDevices;
+
+    expect(attiny1614.device).toBe('ATtiny1614');
+    expect(attiny1614.sections.map(section => [section.id, section.changes])).toEqual([
+      ['registers', [
+        { key: 'FUSE.SYSCFG0', kind: 'changed', before: 'offset 0x0005, size 1, initval 0xF6', after: 'offset 0x0005, size 1, initval 0xF7' }
+      ]],
+      ['fuses', [
+        { key: 'SYSCFG0', kind: 'changed', before: 'offset 0x05, default 0xF6', after: 'offset 0x05, default 0xF7' },
+        { key: 'SYSCFG0.RSTPINCFG=0x02', kind: 'added', after: 'Reset | UPDI mode' }
+      ]],
+      ['interrupts', [{ key: 'PORT', kind: 'changed', before: 'index 3', after: 'index 4' }]]
+    ]);
+  });
+
+  it('lists devices without changes as unchanged', () => {
+    const atpack = parsePack(PDSC_3_1_260, { ATtiny1614: ATTINY1614_ATDF, ATtiny3216: ATTINY3216_ATDF });
+
+    expect(differ.diff(atpack, atpack)).toMatchObject({ changedDevices: [], unchangedDevices: ['ATtiny1614', 'ATtiny3216'] });
+  });
+
+  it('renders a Markdown report with escaped table cells', () => {
+    const markdown = differ.toMarkdown(diff).split('\n');
+
+    expect(markdown.slice(0, 6)).toEqual([
+      '# ATtiny_DFP: 3.1.260 → 3.2.268',
+      '',
+      '- Added devices: ATtiny1624',
+      '- Removed devices: ATtiny3216',
+      '- Changed devices: 1',
+      '- Unchanged devices: 0'
+    ]);
+    expect(markdown).toContain('## ATtiny1614');
+    expect(markdown).toContain('| SYSCFG0.RSTPINCFG=0x02 | added |  | Reset \\| UPDI mode |');
+  });
+
+  it('refuses to diff different packs', () => {
+    const atmegaPack = parser.parseArchivePdsc(PDSC_3_1_260.replace(/ATtiny_DFP/g, 'ATmega_DFP'));
+
+    expect(() => differ.diff(atmegaPack, parser.parseArchivePdsc(PDSC_3_2_268)))
+      .toThrow(new AtPackParseError('Cannot diff different packs: ATmega_DFP and ATtiny_DFP'));
+  });
+});
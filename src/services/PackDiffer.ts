@@ -0,0 +1,226 @@
+import type {
+  AtPack,
+  AtPackDevice,
+  DeviceDiff,
+  DeviceDiffSectionId,
+  MemorySegment,
+  PackDiffChange,
+  PackDiffDocument
+} from '../types/atpack';
+import { AtPackParseError } from '../types/atpack';
+import { getPackId } from '../utils/shareState';
+
+const DIFF_FORMAT_VERSION = 1;
+
+// Diffed items of a device section, by key, with their description
+type SectionItems = Map<string, string>;
+
+interface SectionDefinition {
+  id: DeviceDiffSectionId;
+  title: string;
+  collect: (device: AtPackDevice) => SectionItems;
+}
+
+const hex = (value: number, width: number = 2): string => {
+  return `0x${value.toString(16).toUpperCase().padStart(width, '0')}`;
+};
+
+const formatRange = (min?: number, typical?: number, max?: number, unit?: string): string => {
+  const values = [min, typical, max].map(value => value === undefined ? '-' : String(value));
+  return `${values.join(' / ')}${unit ? ` ${unit}` : ''}`;
+};
+
+const getMemorySegments = (device: AtPackDevice): MemorySegment[] => {
+  if (device.memory.allSegments && device.memory.allSegments.length > 0) {
+    return device.memory.allSegments;
+  }
+  const { flash, sram, eeprom } = device.memory;
+  return [flash, sram, eeprom].filter((segment): segment is MemorySegment => !!segment);
+};
+
+const SECTIONS: SectionDefinition[] = [
+  {
+    id: 'memory',
+    title: 'Memory',
+    collect: device => new Map(getMemorySegments(device).map(segment => [
+      segment.parentAddressSpace ? `${segment.parentAddressSpace}/${segment.name}` : segment.name,
+      `start ${hex(segment.start, 4)}, size ${segment.size}${segment.pageSize ? `, page ${segment.pageSize}` : ''}`
+    ]))
+  },
+  {
+    id: 'registers',
+    title: 'Registers',
+    collect: device => new Map(device.peripherals.flatMap(peripheral =>
+      peripheral.registerGroups.flatMap(group => group.registers.map(register => [
+        `${peripheral.name}.${register.name}`,
+        `offset ${hex(register.offset, 4)}, size ${register.size}${register.initval !== undefined ? `, initval ${hex(register.initval)}` : ''}${register.readWrite ? `, ${register.readWrite}` : ''}`
+      ] as [string, string]))
+    ))
+  },
+  {
+    id: 'bitfields',
+    title: 'Bitfields',
+    collect: device => new Map(device.peripherals.flatMap(peripheral =>
+      peripheral.registerGroups.flatMap(group => group.registers.flatMap(register =>
+        register.bitfields.map(bitfield => [
+          `${peripheral.name}.${register.name}.${bitfield.name}`,
+          `mask ${hex(bitfield.mask)}${bitfield.values ? `, values ${bitfield.values}` : ''}`
+        ] as [string, string])
+      ))
+    ))
+  },
+  {
+    id: 'fuses',
+    title: 'Fuses',
+    collect: device => new Map(device.fuses.flatMap(fuse => [
+      [fuse.name, `offset ${hex(fuse.offset)}${fuse.defaultValue !== undefined ? `, default ${hex(fuse.defaultValue)}` : ''}`] as [string, string],
+      ...fuse.bitfields.flatMap(bitfield => [
+        [
+          `${fuse.name}.${bitfield.name}`,
+          `mask ${hex(((1 << bitfield.bitWidth) - 1) << bitfield.bitOffset)}`
+        ] as [string, string],
+        ...(bitfield.values || []).map(value => [
+          `${fuse.name}.${bitfield.name}=${hex(value.value)}`,
+          value.description || value.name
+        ] as [string, string])
+      ])
+    ]))
+  },
+  {
+    id: 'interrupts',
+    title: 'Interrupts',
+    collect: device => new Map(device.interrupts.map(interrupt => [interrupt.name, `index ${interrupt.index}`]))
+  },
+  {
+    id: 'pinouts',
+    title: 'Pinouts',
+    collect: device => new Map(device.pinouts.flatMap(pinout => [
+      [pinout.name, `${pinout.pins.length} pins`] as [string, string],
+      ...pinout.pins.map(pin => [`${pinout.name}.${pin.position}`, pin.pad] as [string, string])
+    ]))
+  },
+  {
+    id: 'electrical',
+    title: 'Electrical parameters',
+    collect: device => new Map((device.electricalParameters?.parameters || []).map(parameter => [
+      `${parameter.group}.${parameter.name}`,
+      formatRange(parameter.minValue, parameter.typicalValue, parameter.maxValue, parameter.unit)
+    ]))
+  }
+];
+
+const escapeMarkdown = (text: string): string => text.replace(/\|/g, '\\|');
+
+/**
+ * Reports what changed between two releases of a pack: added and removed devices and,
+ * per device, the changes to memory, registers, bitfields, fuses, interrupts, pinouts
+ * and electrical parameters. Both packs must have their devices enriched.
+ */
+export class PackDiffer {
+
+  /**
+   * Diff two releases of the same pack
+   */
+  diff(from: AtPack, to: AtPack): PackDiffDocument {
+    if (from.metadata.name !== to.metadata.name) {
+      throw new AtPackParseError(
+        `Cannot diff different packs: ${from.metadata.name} and ${to.metadata.name}`
+      );
+    }
+
+    const fromDevices = new Map(from.devices.map(device => [device.name, device]));
+    const toDevices = new Map(to.devices.map(device => [device.name, device]));
+
+    const changedDevices: DeviceDiff[] = [];
+    const unchangedDevices: string[] = [];
+    to.devices.filter(device => fromDevices.has(device.name)).forEach(device => {
+      const deviceDiff = this.diffDevices(fromDevices.get(device.name)!, device);
+      if (deviceDiff.sections.length > 0) {
+        changedDevices.push(deviceDiff);
+      } else {
+        unchangedDevices.push(device.name);
+      }
+    });
+
+    return {
+      format: 'atpack-diff',
+      formatVersion: DIFF_FORMAT_VERSION,
+      pack: to.metadata.name,
+      from: { id: getPackId(from), version: from.version },
+      to: { id: getPackId(to), version: to.version },
+      addedDevices: to.devices.filter(device => !fromDevices.has(device.name)).map(device => device.name),
+      removedDevices: from.devices.filter(device => !toDevices.has(device.name)).map(device => device.name),
+      changedDevices,
+      unchangedDevices
+    };
+  }
+
+  /**
+   * Diff two versions of a device
+   */
+  diffDevices(from: AtPackDevice, to: AtPackDevice): DeviceDiff {
+    return {
+      device: to.name,
+      sections: SECTIONS
+        .map(section => ({
+          id: section.id,
+          title: section.title,
+          changes: this.diffItems(section.collect(from), section.collect(to))
+        }))
+        .filter(section => section.changes.length > 0)
+    };
+  }
+
+  /**
+   * Serialize a diff as JSON
+   */
+  toJson(diff: PackDiffDocument): string {
+    return JSON.stringify(diff, null, 2) + '\n';
+  }
+
+  /**
+   * Render a diff as a Markdown report
+   */
+  toMarkdown(diff: PackDiffDocument): string {
+    const lines: string[] = [
+      `# ${diff.pack}: ${diff.from.version} → ${diff.to.version}`,
+      '',
+      `- Added devices: ${diff.addedDevices.length > 0 ? diff.addedDevices.join(', ') : 'none'}`,
+      `- Removed devices: ${diff.removedDevices.length > 0 ? diff.removedDevices.join(', ') : 'none'}`,
+      `- Changed devices: ${diff.changedDevices.length}`,
+      `- Unchanged devices: ${diff.unchangedDevices.length}`,
+      ''
+    ];
+
+    diff.changedDevices.forEach(deviceDiff => {
+      lines.push(`## ${deviceDiff.device}`, '');
+      deviceDiff.sections.forEach(section => {
+        lines.push(`### ${section.title}`, '', '| Item | Change | Before | After |', '| --- | --- | --- | --- |');
+        section.changes.forEach(change => {
+          lines.push(`| ${escapeMarkdown(change.key)} | ${change.kind} | ${escapeMarkdown(change.before ?? '')} | ${escapeMarkdown(change.after ?? '')} |`);
+        });
+        lines.push('');
+      });
+    });
+
+    return lines.join('\n');
+  }
+
+  private diffItems(from: SectionItems, to: SectionItems): PackDiffChange[] {
+    const changes: PackDiffChange[] = [];
+    from.forEach((before, key) => {
+      const after = to.get(key);
+      if (after === undefined) {
+        changes.push({ key, kind: 'removed', before });
+      } else if (after !== before) {
+        changes.push({ key, kind: 'changed', before, after });
+      }
+    });
+    to.forEach((after, key) => {
+      if (!from.has(key)) {
+        changes.push({ key, kind: 'added', after });
+      }
+    });
+    return changes;
+  }
+}
@@ -0,0 +1,217 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AtPackParser } from './AtPackParser';
+import { PinMuxPlanner } from './PinMuxPlanner';
+import type { AtPackDevice } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega4809</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega4809"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega4809.atdf: USART1, USART3, SPI0, two TCA0 outputs and four ADC0 inputs with
+// their PORTMUX routes, and the pins carrying them in the 48-pin and 40-pin packages. The PDIP40
+// package does not bond out PORTB.
+const ATMEGA4809_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <variants>
+    <variant ordercode="ATmega4809-AF" package="TQFP48" pinout="TQFP48" tempmin="-40" tempmax="85" vccmin="1.8" vccmax="5.5"/>
+    <variant ordercode="ATmega4809-PF" package="PDIP40" pinout="PDIP40" tempmin="-40" tempmax="85" vccmin="1.8" vccmax="5.5"/>
+  </variants>
+  <devices>
+    <device name="ATmega4809" architecture="AVR8X" family="megaAVR">
+      <peripherals>
+        <module name="ADC">
+          <instance name="ADC0" caption="Analog to Digital Converter">
+            <signals>
+              <signal group="AIN" function="default" pad="PD0" index="0"/>
+              <signal group="AIN" function="default" pad="PD1" index="1"/>
+              <signal group="AIN" function="default" pad="PD2" index="2"/>
+              <signal group="AIN" function="default" pad="PD3" index="3"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="PORT">
+          <instance name="PORTA" caption="I/O Ports">
+            <signals>
+              <signal group="P" function="default" pad="PA4" index="4"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="SPI">
+          <instance name="SPI0" caption="Serial Peripheral Interface">
+            <signals>
+              <signal group="MOSI" function="default" pad="PA4"/>
+              <signal group="MISO" function="default" pad="PA5"/>
+              <signal group="SCK" function="default" pad="PA6"/>
+              <signal group="SS" function="default" pad="PA7"/>
+              <signal group="MOSI" function="alt1" pad="PC0"/>
+              <signal group="MISO" function="alt1" pad="PC1"/>
+              <signal group="SCK" function="alt1" pad="PC2"/>
+              <signal group="SS" function="alt1" pad="PC3"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="TCA">
+          <instance name="TCA0" caption="16-bit Timer/Counter Type A">
+            <signals>
+              <signal group="WO" function="default" pad="PA4" index="4"/>
+              <signal group="WO" function="default" pad="PA5" index="5"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="USART">
+          <instance name="USART1" caption="Universal Synchronous and Asynchronous Receiver and Transmitter">
+            <signals>
+              <signal group="TXD" function="default" pad="PC0"/>
+              <signal group="RXD" function="default" pad="PC1"/>
+              <signal group="TXD" function="alt1" pad="PC4"/>
+              <signal group="RXD" function="alt1" pad="PC5"/>
+            </signals>
+          </instance>
+          <instance name="USART3" caption="Universal Synchronous and Asynchronous Receiver and Transmitter">
+            <signals>
+              <signal group="TXD" function="default" pad="PB0"/>
+              <signal group="RXD" function="default" pad="PB1"/>
+              <signal group="TXD" function="alt1" pad="PB4"/>
+              <signal group="RXD" function="alt1" pad="PB5"/>
+            </signals>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <pinouts>
+    <pinout name="TQFP48" caption="TQFP48">
+      <pin position="1" pad="PA5"/>
+      <pin position="2" pad="PA6"/>
+      <pin position="3" pad="PA7"/>
+      <pin position="4" pad="PB0"/>
+      <pin position="5" pad="PB1"/>
+      <pin position="8" pad="PB4"/>
+      <pin position="9" pad="PB5"/>
+      <pin position="10" pad="PC0"/>
+      <pin position="11" pad="PC1"/>
+      <pin position="12" pad="PC2"/>
+      <pin position="13" pad="PC3"/>
+      <pin position="14" pad="PC4"/>
+      <pin position="15" pad="PC5"/>
+      <pin position="20" pad="PD0"/>
+      <pin position="21" pad="PD1"/>
+      <pin position="22" pad="PD2"/>
+      <pin position="23" pad="PD3"/>
+      <pin position="48" pad="PA4"/>
+    </pinout>
+    <pinout name="PDIP40" caption="PDIP40">
+      <pin position="1" pad="PA6"/>
+      <pin position="2" pad="PA7"/>
+      <pin position="3" pad="PC0"/>
+      <pin position="4" pad="PC1"/>
+      <pin position="5" pad="PC2"/>
+      <pin position="6" pad="PC3"/>
+      <pin position="9" pad="PC4"/>
+      <pin position="10" pad="PC5"/>
+      <pin position="13" pad="PD0"/>
+      <pin position="14" pad="PD1"/>
+      <pin position="15" pad="PD2"/>
+      <pin position="16" pad="PD3"/>
+      <pin position="39" pad="PA4"/>
+      <pin position="40" pad="PA5"/>
+    </pinout>
+  </pinouts>
+</avr-tools-device-file>`;
+
+describe('PinMuxPlanner', () => {
+  const planner = new PinMuxPlanner();
+  let device: AtPackDevice;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    [device] = parser.parseArchivePdsc(PDSC).devices;
+    parser.enrichDevice(device, ATMEGA4809_ATDF);
+  });
+
+  it('lists the routed peripheral signals, without the GPIO ports', () => {
+    expect(planner.getInstances(device)).toEqual(['ADC0', 'SPI0', 'TCA0', 'USART1', 'USART3']);
+    expect(planner.getSignals(device).filter(signal => signal.instance === 'USART1')).toEqual([
+      { instance: 'USART1', name: 'TXD', pad: 'PC0', route: 'default' },
+      { instance: 'USART1', name: 'RXD', pad: 'PC1', route: 'default' },
+      { instance: 'USART1', name: 'TXD', pad: 'PC4', route: 'alt1' },
+      { instance: 'USART1', name: 'RXD', pad: 'PC5', route: 'alt1' }
+    ]);
+  });
+
+  it('parses request lists', () => {
+    expect(planner.parseRequests('USART1, SPI0(MOSI MISO SCK), 4× ADC0')).toEqual([
+      { instance: 'USART1' },
+      { instance: 'SPI0', signals: ['MOSI', 'MISO', 'SCK'] },
+      { instance: 'ADC0', count: 4 }
+    ]);
+  });
+
+  it('finds the bonded pads of a package from its variant pinout', () => {
+    expect(planner.getBondedPads(device, 'PDIP40')?.has('PB0')).toBe(false);
+    expect(planner.getBondedPads(device, 'TQFP48')?.has('PB0')).toBe(true);
+    expect(planner.getBondedPads(device, 'VQFN48')).toBeNull();
+  });
+
+  it('reports shared pads, unbonded pads, unknown pads and mixed routes', () => {
+    const conflicts = planner.check(device, 'PDIP40', [
+      { instance: 'USART1', signal: 'TXD', pad: 'PC0' },
+      { instance: 'SPI0', signal: 'MOSI', pad: 'PC0' },
+      { instance: 'SPI0', signal: 'MISO', pad: 'PA5' },
+      { instance: 'USART3', signal: 'TXD', pad: 'PB0' },
+      { instance: 'USART1', signal: 'RXD', pad: 'PA4' }
+    ]);
+
+    expect(conflicts.map(conflict => conflict.message)).toEqual([
+      'PC0 is assigned to USART1.TXD, SPI0.MOSI',
+      'PB0 (USART3.TXD) is not bonded out in PDIP40',
+      'USART1.RXD is not available on PA4',
+      'SPI0 signals use different routings (alt1, default), but the routing is selected for the whole instance'
+    ]);
+  });
+
+  it('moves earlier requests to alternate routes to fit the later ones', () => {
+    // The fixed PWM output takes the default SPI0 MOSI pad, and the alternate SPI0 route
+    // overlaps the default USART1 route
+    const plan = planner.autoAssign(device, 'TQFP48', planner.parseRequests('USART1, SPI0, 2x ADC0'), [
+      { instance: 'TCA0', signal: 'WO4', pad: 'PA4' }
+    ]);
+
+    expect(plan.assignments).toEqual([
+      { instance: 'TCA0', signal: 'WO4', pad: 'PA4' },
+      { instance: 'USART1', signal: 'TXD', pad: 'PC4' },
+      { instance: 'USART1', signal: 'RXD', pad: 'PC5' },
+      { instance: 'SPI0', signal: 'MOSI', pad: 'PC0' },
+      { instance: 'SPI0', signal: 'MISO', pad: 'PC1' },
+      { instance: 'SPI0', signal: 'SCK', pad: 'PC2' },
+      { instance: 'SPI0', signal: 'SS', pad: 'PC3' },
+      { instance: 'ADC0', signal: 'AIN0', pad: 'PD0' },
+      { instance: 'ADC0', signal: 'AIN1', pad: 'PD1' }
+    ]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.unresolved).toEqual([]);
+  });
+
+  it('reports the requests that cannot be routed in a package', () => {
+    const plan = planner.autoAssign(device, 'PDIP40', planner.parseRequests('USART3, USART1'));
+
+    expect(plan.unresolved).toEqual([{ instance: 'USART3' }]);
+    expect(plan.assignments).toEqual([
+      { instance: 'USART1', signal: 'TXD', pad: 'PC0' },
+      { instance: 'USART1', signal: 'RXD', pad: 'PC1' }
+    ]);
+    expect(plan.conflicts).toEqual([]);
+  });
+});
@@ -0,0 +1,275 @@
+import type {
+  AtPackDevice,
+  PinAssignment,
+  PinMuxConflict,
+  PinMuxPlan,
+  PinMuxRequest,
+  PinMuxSignal
+} from '../types/atpack';
+
+// GPIO ports are not routed peripherals: every bonded pad is one of their signals
+const EXCLUDED_MODULES = ['PORT', 'GPIO'];
+
+// Upper bound of the automatic assignment search, in explored options
+const MAX_SEARCH_STEPS = 20000;
+
+// Signals of an instance routed together (one PORTMUX selection)
+interface RouteOption {
+  instance: string;
+  route: string;
+  assignments: PinAssignment[];
+}
+
+const formatAssignment = (assignment: PinAssignment): string => {
+  return `${assignment.instance}.${assignment.signal}`;
+};
+
+/**
+ * Plans which pads carry which peripheral signals on a device package: checks manual
+ * assignments for conflicts and computes automatic assignments for requested peripherals.
+ *
+ * Signals come from the module instances of the device; a signal can have alternate pads,
+ * grouped by routing ('default', 'alt1'...) which is selected per instance.
+ */
+export class PinMuxPlanner {
+
+  /**
+   * Peripheral signals of a device, from its instances or else from its pinout pin functions
+   */
+  getSignals(device: AtPackDevice): PinMuxSignal[] {
+    const signals: PinMuxSignal[] = device.modules
+      .filter(module => !EXCLUDED_MODULES.includes((module.module || module.name).toUpperCase()))
+      .flatMap(module => (module.signals || []).map(signal => ({
+        instance: module.name,
+        name: `${signal.group}${signal.index ?? ''}`,
+        pad: signal.pad,
+        route: signal.function || 'default'
+      })));
+    if (signals.length > 0) {
+      return signals;
+    }
+
+    const seen = new Set<string>();
+    return device.pinouts.flatMap(pinout => pinout.pins.flatMap(pin => pin.functions
+      .filter(func => !EXCLUDED_MODULES.includes(func.module.toUpperCase()))
+      .map(func => ({
+        instance: func.module,
+        name: `${func.group}${func.index ?? ''}`,
+        pad: pin.pad,
+        route: func.function || 'default'
+      }))))
+      .filter(signal => {
+        const key = `${signal.instance}.${signal.name}@${signal.pad}/${signal.route}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Instances having signals, in name order
+   */
+  getInstances(device: AtPackDevice): string[] {
+    return Array.from(new Set(this.getSignals(device).map(signal => signal.instance))).sort();
+  }
+
+  /**
+   * Pads bonded out in a package, from the variant pinout or the package pinout;
+   * null when the package pinout is unknown
+   */
+  getBondedPads(device: AtPackDevice, packageName: string): Set<string> | null {
+    const variant = device.variants.find(v => v.package === packageName && v.pinout && Object.keys(v.pinout).length > 0);
+    if (variant?.pinout) {
+      return new Set(Object.values(variant.pinout));
+    }
+    const pinout = device.pinouts.find(p => p.name === packageName);
+    return pinout ? new Set(pinout.pins.map(pin => pin.pad)) : null;
+  }
+
+  /**
+   * Parse a request list such as "USART0, SPI0(MOSI MISO SCK), TWI0, 4× ADC0"
+   */
+  parseRequests(text: string): PinMuxRequest[] {
+    return text.split(/[,;]/)
+      .map(part => part.trim())
+      .filter(part => part.length > 0)
+      .map(part => {
+        const match = part.match(/^(?:(\d+)\s*[x×*]\s*)?([\w-]+)\s*(?:\(([^)]*)\))?$/i);
+        if (!match) {
+          return { instance: part };
+        }
+        const signals = match[3]?.split(/[\s/]+/).filter(signal => signal.length > 0);
+        return {
+          instance: match[2],
+          ...(match[1] ? { count: parseInt(match[1]) } : {}),
+          ...(signals && signals.length > 0 ? { signals } : {})
+        };
+      });
+  }
+
+  /**
+   * Find the conflicts of a set of assignments on a package
+   */
+  check(device: AtPackDevice, packageName: string, assignments: PinAssignment[]): PinMuxConflict[] {
+    const conflicts: PinMuxConflict[] = [];
+    const signals = this.getSignals(device);
+    const bondedPads = this.getBondedPads(device, packageName);
+
+    const byPad = new Map<string, PinAssignment[]>();
+    assignments.forEach(assignment => {
+      byPad.set(assignment.pad, [...(byPad.get(assignment.pad) || []), assignment]);
+    });
+    byPad.forEach((padAssignments, pad) => {
+      if (padAssignments.length > 1) {
+        conflicts.push({
+          kind: 'shared-pad',
+          assignments: padAssignments,
+          message: `${pad} is assigned to ${padAssignments.map(formatAssignment).join(', ')}`
+        });
+      }
+    });
+
+    const routesByInstance = new Map<string, Map<string, PinAssignment[]>>();
+    assignments.forEach(assignment => {
+      const options = signals.filter(signal =>
+        signal.instance === assignment.instance && signal.name === assignment.signal && signal.pad === assignment.pad
+      );
+      if (options.length === 0) {
+        conflicts.push({
+          kind: 'invalid-pad',
+          assignments: [assignment],
+          message: `${formatAssignment(assignment)} is not available on ${assignment.pad}`
+        });
+        return;
+      }
+      if (bondedPads && !bondedPads.has(assignment.pad)) {
+        conflicts.push({
+          kind: 'not-bonded',
+          assignments: [assignment],
+          message: `${assignment.pad} (${formatAssignment(assignment)}) is not bonded out in ${packageName}`
+        });
+      }
+
+      // Signals available on one pad through several routes fit any of them
+      if (options.length === 1) {
+        const routes = routesByInstance.get(assignment.instance) || new Map<string, PinAssignment[]>();
+        routes.set(options[0].route, [...(routes.get(options[0].route) || []), assignment]);
+        routesByInstance.set(assignment.instance, routes);
+      }
+    });
+
+    routesByInstance.forEach((routes, instance) => {
+      if (routes.size > 1) {
+        conflicts.push({
+          kind: 'mixed-routes',
+          assignments: Array.from(routes.values()).flat(),
+          message: `${instance} signals use different routings (${Array.from(routes.keys()).join(', ')}), ` +
+            'but the routing is selected for the whole instance'
+        });
+      }
+    });
+
+    return conflicts;
+  }
+
+  /**
+   * Assign pads to the requested peripherals, keeping the fixed assignments. Requests naming
+   * signals are routed first, then requests for a signal count; requests that cannot be
+   * routed along with the others are reported as unresolved.
+   */
+  autoAssign(
+    device: AtPackDevice,
+    packageName: string,
+    requests: PinMuxRequest[],
+    fixed: PinAssignment[] = []
+  ): PinMuxPlan {
+    const signals = this.getSignals(device);
+    const bondedPads = this.getBondedPads(device, packageName);
+    const isUsable = (signal: PinMuxSignal) => !bondedPads || bondedPads.has(signal.pad);
+
+    const ordered = [
+      ...requests.filter(request => request.count === undefined),
+      ...requests.filter(request => request.count !== undefined)
+    ];
+
+    const optionsFor = (request: PinMuxRequest, usedPads: Set<string>): RouteOption[] => {
+      const instance = this.resolveInstance(signals, request.instance);
+      const instanceSignals = signals.filter(signal => signal.instance === instance && isUsable(signal));
+      const routes = Array.from(new Set(instanceSignals.map(signal => signal.route)))
+        .sort((a, b) => (a === 'default' ? -1 : b === 'default' ? 1 : a.localeCompare(b)));
+
+      return routes.flatMap(route => {
+        const names = Array.from(new Set(instanceSignals.filter(signal => signal.route === route).map(signal => signal.name)));
+        const routeSignals = instanceSignals.filter(signal => signal.route === route && !usedPads.has(signal.pad));
+        const wanted = request.count !== undefined ? names : (request.signals || names);
+        const assignments: PinAssignment[] = [];
+        const taken = new Set<string>();
+
+        for (const name of wanted) {
+          const signal = routeSignals.find(s => s.name.toUpperCase() === name.toUpperCase() && !taken.has(s.pad));
+          if (signal) {
+            taken.add(signal.pad);
+            assignments.push({ instance: signal.instance, signal: signal.name, pad: signal.pad });
+          } else if (request.count === undefined) {
+            return [];
+          }
+          if (request.count !== undefined && assignments.length === request.count) break;
+        }
+
+        const complete = request.count !== undefined ? assignments.length === request.count : assignments.length > 0;
+        return complete ? [{ instance: instance || request.instance, route, assignments }] : [];
+      });
+    };
+
+    // Depth-first search for a plan routing every request
+    let steps = 0;
+    const solve = (index: number, usedPads: Set<string>, chosen: RouteOption[]): RouteOption[] | null => {
+      if (index === ordered.length) return chosen;
+      for (const option of optionsFor(ordered[index], usedPads)) {
+        if (++steps > MAX_SEARCH_STEPS) return null;
+        const pads = new Set(usedPads);
+        option.assignments.forEach(assignment => pads.add(assignment.pad));
+        const solution = solve(index + 1, pads, [...chosen, option]);
+        if (solution) return solution;
+      }
+      return null;
+    };
+
+    const fixedPads = new Set(fixed.map(assignment => assignment.pad));
+    let chosen = solve(0, fixedPads, []);
+    const unresolved: PinMuxRequest[] = [];
+
+    // No complete plan: route what fits, in request order
+    if (!chosen) {
+      chosen = [];
+      const usedPads = new Set(fixedPads);
+      for (const request of ordered) {
+        const option = optionsFor(request, usedPads)[0];
+        if (option) {
+          option.assignments.forEach(assignment => usedPads.add(assignment.pad));
+          chosen.push(option);
+        } else {
+          unresolved.push(request);
+        }
+      }
+    }
+
+    const assignments = [...fixed, ...chosen.flatMap(option => option.assignments)];
+    return {
+      package: packageName,
+      assignments,
+      conflicts: this.check(device, packageName, assignments),
+      unresolved
+    };
+  }
+
+  /**
+   * Match a requested instance by name, or by module name (SPI for SPI0)
+   */
+  private resolveInstance(signals: PinMuxSignal[], name: string): string | undefined {
+    const instances = Array.from(new Set(signals.map(signal => signal.instance)));
+    const upper = name.toUpperCase();
+    return instances.find(instance => instance.toUpperCase() === upper) ||
+      instances.find(instance => instance.toUpperCase().replace(/\d+$/, '') === upper);
+  }
+}
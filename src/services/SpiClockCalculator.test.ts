@@ -0,0 +1,105 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AtPackParser } from './AtPackParser';
+import { SpiClockCalculator } from './SpiClockCalculator';
+import type { AtPackDevice } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: COMM_SCK_RATE_3BIT values 0x04-0x07 repeat the dividers with SPI2X set,
+// although SPR only has two bits
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="SPI">
+          <instance name="SPI" caption="Serial Peripheral Interface">
+            <register-group name="SPI" name-in-module="SPI" offset="0x00" address-space="data" caption="Serial Peripheral Interface"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Serial Peripheral Interface" name="SPI">
+      <register-group caption="Serial Peripheral Interface" name="SPI">
+        <register caption="SPI Control Register" name="SPCR" offset="0x4C" size="1">
+          <bitfield caption="SPI Interrupt Enable" mask="0x80" name="SPIE"/>
+          <bitfield caption="SPI Enable" mask="0x40" name="SPE"/>
+          <bitfield caption="Master/Slave Select" mask="0x10" name="MSTR"/>
+          <bitfield caption="SPI Clock Rate Selects" mask="0x03" name="SPR" values="COMM_SCK_RATE_3BIT"/>
+        </register>
+        <register caption="SPI Status Register" name="SPSR" offset="0x4D" size="1">
+          <bitfield caption="SPI Interrupt Flag" mask="0x80" name="SPIF"/>
+          <bitfield caption="Double SPI Speed Bit" mask="0x01" name="SPI2X"/>
+        </register>
+        <register caption="SPI Data Register" name="SPDR" offset="0x4E" size="1" mask="0xFF"/>
+      </register-group>
+      <value-group caption="" name="COMM_SCK_RATE_3BIT">
+        <value caption="fosc/4" name="FOSC_4" value="0x00"/>
+        <value caption="fosc/16" name="FOSC_16" value="0x01"/>
+        <value caption="fosc/64" name="FOSC_64" value="0x02"/>
+        <value caption="fosc/128" name="FOSC_128" value="0x03"/>
+        <value caption="fosc/2" name="FOSC_2" value="0x04"/>
+        <value caption="fosc/8" name="FOSC_8" value="0x05"/>
+        <value caption="fosc/32" name="FOSC_32" value="0x06"/>
+        <value caption="fosc/64" name="FOSC_64" value="0x07"/>
+      </value-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+describe('SpiClockCalculator', () => {
+  const calculator = new SpiClockCalculator();
+  let atmega328p: AtPackDevice;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    [atmega328p] = parser.parseArchivePdsc(PDSC).devices;
+    parser.enrichDevice(atmega328p, ATMEGA328P_ATDF);
+  });
+
+  it('only offers prescaler values that fit the prescaler bitfield', () => {
+    const [instance] = calculator.getInstances(atmega328p);
+
+    expect(instance).toMatchObject({
+      name: 'SPI',
+      prescalerRegister: 'SPCR',
+      prescalerBitfield: 'SPR',
+      doubleSpeedRegister: 'SPSR',
+      doubleSpeed: 'SPI2X'
+    });
+    expect(instance.prescalers.map(p => [p.value, p.divider])).toEqual([[0, 4], [1, 16], [2, 64], [3, 128]]);
+  });
+
+  it('derives the double speed dividers from the SPI2X bit', () => {
+    const [instance] = calculator.getInstances(atmega328p);
+    const settings = calculator.getSettings(instance, 16000000);
+
+    expect(settings.map(s => s.divider)).toEqual([2, 4, 8, 16, 32, 64, 64, 128]);
+    expect(settings[0]).toMatchObject({ doubleSpeed: true, frequency: 8000000 });
+    // Normal speed first on equal dividers
+    expect(settings[5].doubleSpeed).toBe(false);
+  });
+
+  it('picks the fastest SCK not above the target, or the slowest one', () => {
+    const [instance] = calculator.getInstances(atmega328p);
+
+    expect(calculator.getBestSetting(instance, 16000000, 1000000)).toMatchObject({ divider: 16, doubleSpeed: false });
+    expect(calculator.getBestSetting(instance, 16000000, 10000)?.divider).toBe(128);
+  });
+});
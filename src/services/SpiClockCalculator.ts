@@ -0,0 +1,126 @@
+import type { AtPackDevice, DevicePeripheralModule, DeviceRegisterBitfield, DeviceRegisterGroup } from '../types/atpack';
+import { getRegisterGroupPlacements } from '../utils/registerLayout';
+
+export interface SpiPrescalerOption {
+  name: string;
+  caption: string;
+  value: number;
+  divider: number;
+}
+
+export interface SpiInstance {
+  name: string; // Instance name (SPI0)
+  module: string;
+  prescalerRegister: string; // SPCR, CTRLA, CTRL
+  prescalerBitfield: string; // SPR, PRESC, PRESCALER
+  prescalers: SpiPrescalerOption[];
+  doubleSpeedRegister?: string; // SPSR, CTRLA, CTRL
+  doubleSpeed?: string; // SPI2X, CLK2X
+}
+
+export interface SpiClockSetting {
+  prescaler: SpiPrescalerOption;
+  doubleSpeed: boolean;
+  divider: number;
+  frequency: number; // SCK frequency in Hz
+}
+
+const SPI_MODULE_PATTERN = /^SPI/;
+const PRESCALER_BITFIELD_PATTERN = /^(SPR|PRESC|PRESCALER)$/;
+const DOUBLE_SPEED_BITFIELD_PATTERN = /^(SPI2X|CLK2X)\d*$/;
+
+/**
+ * SCK frequency calculator of the SPI modules of a device, from the prescaler value group
+ * (fosc/4 to fosc/128) and the double speed bit
+ */
+export class SpiClockCalculator {
+
+  /**
+   * Find the SPI instances of a device with their prescaler options; instances without a
+   * prescaler value group are left out
+   */
+  getInstances(device: AtPackDevice): SpiInstance[] {
+    const instances: SpiInstance[] = [];
+
+    device.peripherals
+      .filter(module => SPI_MODULE_PATTERN.test(module.name))
+      .forEach(module => {
+        module.registerGroups.forEach(group => {
+          const clock = this.getClockSettings(module, group);
+          if (!clock) {
+            return;
+          }
+          getRegisterGroupPlacements(device.modules, module, group).forEach(placement => {
+            instances.push({ name: placement.instance, module: module.name, ...clock });
+          });
+        });
+      });
+
+    return instances;
+  }
+
+  /**
+   * All SCK frequencies of an instance for a peripheral clock frequency, fastest first
+   */
+  getSettings(instance: SpiInstance, frequency: number): SpiClockSetting[] {
+    const modes = instance.doubleSpeed ? [false, true] : [false];
+    return instance.prescalers
+      .flatMap(prescaler => modes.map(doubleSpeed => {
+        const divider = doubleSpeed ? prescaler.divider / 2 : prescaler.divider;
+        return { prescaler, doubleSpeed, divider, frequency: frequency / divider };
+      }))
+      .sort((a, b) => b.frequency - a.frequency || Number(a.doubleSpeed) - Number(b.doubleSpeed));
+  }
+
+  /**
+   * Fastest setting not above the target SCK frequency, or the slowest setting when all
+   * are above it
+   */
+  getBestSetting(instance: SpiInstance, frequency: number, target: number): SpiClockSetting | null {
+    const settings = this.getSettings(instance, frequency);
+    return settings.find(setting => setting.frequency <= target) ?? settings[settings.length - 1] ?? null;
+  }
+
+  private getClockSettings(
+    module: DevicePeripheralModule,
+    group: DeviceRegisterGroup
+  ): Omit<SpiInstance, 'name' | 'module'> | null {
+    for (const register of group.registers) {
+      const bitfield = register.bitfields.find(b => PRESCALER_BITFIELD_PATTERN.test(b.name));
+      const prescalers = bitfield ? this.getPrescalers(module, bitfield) : [];
+      if (bitfield && prescalers.length > 0) {
+        const doubleSpeedRegister = group.registers.find(r => r.bitfields.some(b => DOUBLE_SPEED_BITFIELD_PATTERN.test(b.name)));
+        return {
+          prescalerRegister: register.name,
+          prescalerBitfield: bitfield.name,
+          prescalers,
+          doubleSpeedRegister: doubleSpeedRegister?.name,
+          doubleSpeed: doubleSpeedRegister?.bitfields.find(b => DOUBLE_SPEED_BITFIELD_PATTERN.test(b.name))?.name
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Prescaler options from the value group, the divider being the number in the value name
+   * or caption (FOSC_16, DIV16, fosc/16). Values that do not fit the bitfield are left out:
+   * some value groups also list the dividers combined with the double speed bit (0x04-0x07),
+   * which getSettings derives from the double speed bit instead.
+   */
+  private getPrescalers(module: DevicePeripheralModule, bitfield: DeviceRegisterBitfield): SpiPrescalerOption[] {
+    const valueGroup = module.valueGroups.find(group => group.name === bitfield.values);
+    const maxValue = 2 ** bitfield.bitWidth - 1;
+    const prescalers: SpiPrescalerOption[] = [];
+
+    valueGroup?.values.filter(value => value.value <= maxValue).forEach(value => {
+      const match = value.name.match(/(\d+)$/) ?? value.caption.match(/\/\s*(\d+)/);
+      if (match) {
+        prescalers.push({ ...value, divider: parseInt(match[1]) });
+      }
+    });
+
+    return prescalers;
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { TwiClockCalculator, getI2cMode } from './TwiClockCalculator';
+import type { TwiInstance } from './TwiClockCalculator';
+
+const TWBR_INSTANCE: TwiInstance = {
+  name: 'TWI',
+  module: 'TWI',
+  kind: 'twbr',
+  baudRegister: 'TWBR',
+  prescalerBitfield: 'TWPS',
+  prescalers: [0, 1, 2, 3].map(value => ({ value, divider: 4 ** value }))
+};
+
+const MBAUD_INSTANCE: TwiInstance = {
+  name: 'TWI0',
+  module: 'TWI',
+  kind: 'mbaud',
+  baudRegister: 'MBAUD',
+  prescalers: [{ value: 0, divider: 1 }],
+  fastModePlus: 'FMPEN'
+};
+
+describe('TwiClockCalculator', () => {
+  const calculator = new TwiClockCalculator();
+
+  it('computes TWBR from fSCL = f / (16 + 2 * TWBR * 4^TWPS)', () => {
+    const standard = calculator.getBestSetting(TWBR_INSTANCE, 16000000, 100000);
+    const fast = calculator.getBestSetting(TWBR_INSTANCE, 16000000, 400000);
+
+    expect(standard?.registers).toEqual([{ name: 'TWBR', value: 72 }, { name: 'TWPS', value: 0 }]);
+    expect(standard?.frequency).toBe(100000);
+    expect(standard?.mode).toBe('standard');
+    expect(fast?.registers).toEqual([{ name: 'TWBR', value: 12 }, { name: 'TWPS', value: 0 }]);
+    expect(fast?.frequency).toBe(400000);
+    expect(fast?.mode).toBe('fast');
+  });
+
+  it('warns about TWBR values below the master mode minimum', () => {
+    const [setting] = calculator.getSettings(TWBR_INSTANCE, 8000000, 400000);
+
+    expect(setting.registers[0].value).toBe(2);
+    expect(setting.warnings).toEqual(['TWBR below 10 is not recommended in master mode']);
+  });
+
+  it('skips prescalers that need a TWBR above 255', () => {
+    const settings = calculator.getSettings(TWBR_INSTANCE, 16000000, 1000);
+
+    expect(settings.map(s => s.registers[1].value)).toEqual([3]);
+  });
+
+  it('includes the rise time in the MBAUD formula', () => {
+    const [setting] = calculator.getSettings(MBAUD_INSTANCE, 10000000, 100000, 0);
+    const [withRise] = calculator.getSettings(MBAUD_INSTANCE, 10000000, 100000, 1e-6);
+
+    expect(setting.registers).toEqual([{ name: 'MBAUD', value: 45 }]);
+    expect(setting.frequency).toBe(100000);
+    expect(withRise.registers[0].value).toBe(40);
+  });
+
+  it('asks for fast mode plus above 400 kHz', () => {
+    const [setting] = calculator.getSettings(MBAUD_INSTANCE, 20000000, 1000000);
+
+    expect(setting.mode).toBe('fast-plus');
+    expect(setting.warnings).toEqual(['Requires FMPEN (fast mode plus)']);
+  });
+
+  it('classifies SCL frequencies into I2C modes', () => {
+    expect(getI2cMode(100000)?.mode).toBe('standard');
+    expect(getI2cMode(100001)?.mode).toBe('fast');
+    expect(getI2cMode(1000001)).toBeUndefined();
+  });
+});
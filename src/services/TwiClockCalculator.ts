@@ -0,0 +1,204 @@
+import type { AtPackDevice, DevicePeripheralModule, DeviceRegisterGroup } from '../types/atpack';
+import { getRegisterGroupPlacements } from '../utils/registerLayout';
+
+// SCL generator of a TWI master:
+// - twbr: classic AVR, fSCL = f / (16 + 2 * TWBR * 4^TWPS)
+// - mbaud: AVR8X MBAUD and XMEGA MASTER.BAUD, fSCL = f / (10 + 2 * BAUD + f * tRISE)
+export type TwiGeneratorKind = 'twbr' | 'mbaud';
+
+export type I2cMode = 'standard' | 'fast' | 'fast-plus';
+
+export interface I2cModeLimit {
+  mode: I2cMode;
+  name: string;
+  maxFrequency: number; // Highest SCL frequency in Hz
+}
+
+// SCL limits of the I2C bus modes, slowest first
+export const I2C_MODES: I2cModeLimit[] = [
+  { mode: 'standard', name: 'Standard mode', maxFrequency: 100000 },
+  { mode: 'fast', name: 'Fast mode', maxFrequency: 400000 },
+  { mode: 'fast-plus', name: 'Fast mode plus', maxFrequency: 1000000 }
+];
+
+export interface TwiPrescalerOption {
+  value: number;
+  divider: number;
+}
+
+export interface TwiInstance {
+  name: string; // Instance name (TWI0)
+  module: string;
+  kind: TwiGeneratorKind;
+  baudRegister: string; // TWBR, MBAUD, MASTER.BAUD
+  prescalerBitfield?: string; // TWPS
+  prescalers: TwiPrescalerOption[]; // A single /1 option for MBAUD
+  fastModePlus?: string; // Bitfield enabling fast mode plus (FMPEN)
+}
+
+export interface TwiRegisterValue {
+  name: string;
+  value: number;
+}
+
+export interface TwiClockSetting {
+  registers: TwiRegisterValue[];
+  frequency: number; // SCL frequency in Hz
+  error: number; // Percent, against the target frequency
+  mode?: I2cMode; // Slowest I2C mode allowing the frequency, undefined above fast mode plus
+  warnings: string[];
+}
+
+// Classic TWI prescaler when the ATDF has no TWPS value group (4^TWPS)
+const DEFAULT_TWPS: TwiPrescalerOption[] = [0, 1, 2, 3].map(value => ({ value, divider: 4 ** value }));
+
+// Smallest TWBR value recommended in master mode by the classic AVR datasheets
+const MIN_MASTER_TWBR = 10;
+
+const TWI_MODULE_PATTERN = /^TWI/;
+
+/**
+ * Get the slowest I2C mode allowing an SCL frequency, undefined above fast mode plus
+ */
+export const getI2cMode = (frequency: number): I2cModeLimit | undefined => {
+  return I2C_MODES.find(limit => frequency <= limit.maxFrequency);
+};
+
+/**
+ * SCL frequency calculator of the TWI modules of a device (master mode)
+ */
+export class TwiClockCalculator {
+
+  /**
+   * Find the TWI instances of a device with their SCL generator
+   */
+  getInstances(device: AtPackDevice): TwiInstance[] {
+    const instances: TwiInstance[] = [];
+
+    device.peripherals
+      .filter(module => TWI_MODULE_PATTERN.test(module.name))
+      .forEach(module => {
+        module.registerGroups.forEach(group => {
+          const generator = this.getGenerator(module, group);
+          if (!generator) {
+            return;
+          }
+          // XMEGA master registers are a sub-group of the module register group
+          const instanceGroup = group.name.endsWith('_MASTER')
+            ? module.registerGroups.find(g => g.name === module.name) ?? group
+            : group;
+          getRegisterGroupPlacements(device.modules, module, instanceGroup).forEach(placement => {
+            instances.push({ name: placement.instance, module: module.name, ...generator });
+          });
+        });
+      });
+
+    return instances;
+  }
+
+  /**
+   * Register values reaching a target SCL frequency, one setting per prescaler value in
+   * range. The rise time (seconds) only applies to the MBAUD generator.
+   */
+  getSettings(instance: TwiInstance, frequency: number, target: number, riseTime = 0): TwiClockSetting[] {
+    if (frequency <= 0 || target <= 0) {
+      return [];
+    }
+
+    const settings: TwiClockSetting[] = [];
+    instance.prescalers.forEach(prescaler => {
+      let baud: number;
+      let scl: number;
+      if (instance.kind === 'twbr') {
+        baud = Math.max(0, Math.round((frequency / target - 16) / (2 * prescaler.divider)));
+        scl = frequency / (16 + 2 * baud * prescaler.divider);
+      } else {
+        baud = Math.max(0, Math.round((frequency / target - 10 - frequency * riseTime) / 2));
+        scl = frequency / (10 + 2 * baud + frequency * riseTime);
+      }
+      if (baud > 0xFF) {
+        return;
+      }
+
+      const registers: TwiRegisterValue[] = [{ name: instance.baudRegister, value: baud }];
+      if (instance.prescalerBitfield) {
+        registers.push({ name: instance.prescalerBitfield, value: prescaler.value });
+      }
+
+      const mode = getI2cMode(scl);
+      const warnings: string[] = [];
+      if (instance.kind === 'twbr' && baud < MIN_MASTER_TWBR) {
+        warnings.push(`${instance.baudRegister} below ${MIN_MASTER_TWBR} is not recommended in master mode`);
+      }
+      if (mode?.mode === 'fast-plus' && instance.fastModePlus) {
+        warnings.push(`Requires ${instance.fastModePlus} (fast mode plus)`);
+      }
+      if (!mode) {
+        warnings.push('Above the fast mode plus limit (1 MHz)');
+      }
+
+      settings.push({ registers, frequency: scl, error: (scl - target) / target * 100, mode: mode?.mode, warnings });
+    });
+
+    return settings;
+  }
+
+  /**
+   * Setting closest to the target SCL frequency without exceeding it when possible
+   */
+  getBestSetting(instance: TwiInstance, frequency: number, target: number, riseTime = 0): TwiClockSetting | null {
+    const settings = this.getSettings(instance, frequency, target, riseTime);
+    const below = settings.filter(setting => setting.frequency <= target);
+    const candidates = below.length > 0 ? below : settings;
+    return candidates.reduce<TwiClockSetting | null>(
+      (best, setting) => !best || Math.abs(setting.error) < Math.abs(best.error) ? setting : best,
+      null
+    );
+  }
+
+  private getGenerator(
+    module: DevicePeripheralModule,
+    group: DeviceRegisterGroup
+  ): Omit<TwiInstance, 'name' | 'module'> | null {
+    const fastModePlus = module.registerGroups
+      .flatMap(g => g.registers)
+      .flatMap(register => register.bitfields)
+      .find(bitfield => bitfield.name === 'FMPEN')?.name;
+
+    const twbr = group.registers.find(register => register.name === 'TWBR');
+    if (twbr) {
+      const twps = group.registers.flatMap(register => register.bitfields).find(bitfield => bitfield.name === 'TWPS');
+      return {
+        kind: 'twbr',
+        baudRegister: twbr.name,
+        prescalerBitfield: 'TWPS',
+        prescalers: (twps && this.getPrescalers(module, twps.values)) || DEFAULT_TWPS,
+        fastModePlus
+      };
+    }
+
+    const mbaud = group.registers.find(register => register.name === 'MBAUD')
+      ?? (group.name.endsWith('_MASTER') ? group.registers.find(register => register.name === 'BAUD') : undefined);
+    if (mbaud) {
+      return {
+        kind: 'mbaud',
+        baudRegister: mbaud.name === 'MBAUD' ? mbaud.name : `MASTER.${mbaud.name}`,
+        prescalers: [{ value: 0, divider: 1 }],
+        fastModePlus
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * TWPS options from the value group, the divider being the value caption or name (1, 4, 16, 64)
+   */
+  private getPrescalers(module: DevicePeripheralModule, valueGroupName?: string): TwiPrescalerOption[] | undefined {
+    const valueGroup = module.valueGroups.find(group => group.name === valueGroupName);
+    const prescalers = (valueGroup?.values ?? [])
+      .map(value => ({ value: value.value, divider: parseInt((value.caption.match(/\d+/) ?? value.name.match(/\d+/) ?? ['0'])[0]) }))
+      .filter(prescaler => prescaler.divider > 0);
+    return prescalers.length > 0 ? prescalers : undefined;
+  }
+}
@@ -0,0 +1,202 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { CHeaderGenerator } from './CHeaderGenerator';
+import { loadPackArchive } from '../../test/packArchive';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="AVR-Dx_DFP">
+  <description>Microchip AVR-Dx Series Device Support</description>
+  <releases><release version="2.3.272">AVR128DA48, ATmega328P</release></releases>
+  <devices>
+    <family Dfamily="AVR-Dx" Dvendor="Microchip:3">
+      <device Dname="AVR128DA48"><processor Dcore="AVRXT"/></device>
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of AVR128DA48.atdf: the PORT group shared by PORTA/PORTB, the 24-bit NVMCTRL.ADDR
+// and a module without instance
+const AVR128DA48_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="AVR128DA48" architecture="AVR8X" family="AVR DA">
+      <peripherals>
+        <module name="NVMCTRL">
+          <instance name="NVMCTRL" caption="Non-volatile Memory Controller">
+            <register-group name="NVMCTRL" name-in-module="NVMCTRL" offset="0x1000" address-space="data" caption="Non-volatile Memory Controller"/>
+          </instance>
+        </module>
+        <module name="PORT">
+          <instance name="PORTA" caption="I/O Ports">
+            <register-group name="PORTA" name-in-module="PORT" offset="0x0400" address-space="data" caption="I/O Ports"/>
+          </instance>
+          <instance name="PORTB" caption="I/O Ports">
+            <register-group name="PORTB" name-in-module="PORT" offset="0x0420" address-space="data" caption="I/O Ports"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Non-volatile Memory Controller" name="NVMCTRL">
+      <register-group caption="Non-volatile Memory Controller" name="NVMCTRL" size="0x10">
+        <register caption="Control A" name="CTRLA" offset="0x00" size="1" mask="0x7F" initval="0x00">
+          <bitfield caption="Command" mask="0x7F" name="CMD" values="NVMCTRL_CMD"/>
+        </register>
+        <register caption="Data" name="DATA" offset="0x06" size="2" mask="0xFFFF" initval="0x0000"/>
+        <register caption="Address" name="ADDR" offset="0x08" size="3" mask="0xFFFFFF" initval="0x000000"/>
+      </register-group>
+      <value-group caption="Command select" name="NVMCTRL_CMD">
+        <value caption="No Command" name="NONE" value="0x00"/>
+        <value caption="Chip Erase Command" name="CHER" value="0x20"/>
+      </value-group>
+    </module>
+    <module caption="I/O Ports" name="PORT">
+      <register-group caption="I/O Ports" name="PORT" size="0x20">
+        <register caption="Data Direction" name="DIR" offset="0x00" size="1" mask="0xFF" initval="0x00"/>
+        <register caption="Pin 0 Control" name="PIN0CTRL" offset="0x10" size="1" mask="0x8F" initval="0x00">
+          <bitfield caption="Inverted I/O Enable" mask="0x80" name="INVEN"/>
+          <bitfield caption="Pullup enable" mask="0x08" name="PULLUPEN"/>
+          <bitfield caption="Input/Sense Configuration" mask="0x07" name="ISC" values="PORT_ISC"/>
+        </register>
+        <register caption="Pin 1 Control" name="PIN1CTRL" offset="0x11" size="1" mask="0x8F" initval="0x00">
+          <bitfield caption="Inverted I/O Enable" mask="0x80" name="INVEN"/>
+          <bitfield caption="Pullup enable" mask="0x08" name="PULLUPEN"/>
+          <bitfield caption="Input/Sense Configuration" mask="0x07" name="ISC" values="PORT_ISC"/>
+        </register>
+      </register-group>
+      <value-group caption="Input/Sense Configuration select" name="PORT_ISC">
+        <value caption="Interrupt disabled but input buffer enabled" name="INTDISABLE" value="0x00"/>
+        <value caption="Sense Both Edges" name="BOTHEDGES" value="0x01"/>
+      </value-group>
+    </module>
+    <module caption="Boot row" name="BOOTROW">
+      <register-group caption="Boot row" name="BOOTROW" size="0x40">
+        <register caption="Boot Row Byte 0" name="BYTE0" offset="0x00" size="1" mask="0xFF"/>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// Excerpt of ATmega328P.atdf: TC1 splits WGM1 between TCCR1A and TCCR1B, fuses are outside data memory
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="TC16">
+          <instance name="TC1" caption="Timer/Counter, 16-bit">
+            <register-group name="TC1" name-in-module="TC1" offset="0x00" address-space="data" caption="Timer/Counter, 16-bit"/>
+          </instance>
+        </module>
+        <module name="FUSE">
+          <instance name="FUSE" caption="Fuses">
+            <register-group name="FUSE" name-in-module="FUSE" offset="0" address-space="fuses" caption="Fuses"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Timer/Counter, 16-bit" name="TC16">
+      <register-group caption="Timer/Counter, 16-bit" name="TC1">
+        <register caption="Timer/Counter1 Control Register A" name="TCCR1A" offset="0x80" size="1">
+          <bitfield caption="Compare Output Mode 1A, bits" mask="0xC0" name="COM1A"/>
+          <bitfield caption="Waveform Generation Mode" mask="0x03" name="WGM1"/>
+        </register>
+        <register caption="Timer/Counter1 Control Register B" name="TCCR1B" offset="0x81" size="1">
+          <bitfield caption="Waveform Generation Mode" mask="0x18" name="WGM1"/>
+          <bitfield caption="Prescaler source of Timer/Counter 1" mask="0x07" name="CS1"/>
+        </register>
+        <register caption="Timer/Counter1  Bytes" name="TCNT1" offset="0x84" size="2" mask="0xFFFF"/>
+      </register-group>
+    </module>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE">
+        <register caption="" name="HIGH" offset="0x01" size="1" initval="0xD9">
+          <bitfield caption="Reset Disabled (Enable PC6 as i/o pin)" mask="0x80" name="RSTDISBL"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+describe('CHeaderGenerator', () => {
+  const generator = new CHeaderGenerator();
+  let avrDa: string;
+  let atmega: string;
+
+  beforeAll(async () => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { devices: [avr128da48, atmega328p] } = await loadPackArchive({
+      'Microchip.AVR-Dx_DFP.pdsc': PDSC,
+      'atdf/AVR128DA48.atdf': AVR128DA48_ATDF,
+      'atdf/ATmega328P.atdf': ATMEGA328P_ATDF
+    });
+    avrDa = generator.generate(avr128da48, { includeStructs: true });
+    atmega = generator.generate(atmega328p);
+  });
+
+  it('prefixes the registers of shared groups with their instance', () => {
+    expect(avrDa).toMatch(/#define PORTA_DIR_ADDR\s+0x0400\n/);
+    expect(avrDa).toMatch(/#define PORTB_PIN0CTRL_ADDR\s+0x0430\n/);
+    expect(avrDa).toMatch(/#define PORTB_PIN0CTRL\s+\(\*\(volatile uint8_t \*\)PORTB_PIN0CTRL_ADDR\)\n/);
+  });
+
+  it('names bitfield macros after the module, as avr-libc does', () => {
+    expect(avrDa).toMatch(/#define PORT_PULLUPEN_bp\s+3 \/\* Pullup enable \*\/\n/);
+    expect(avrDa).toMatch(/#define PORT_PULLUPEN_bm\s+0x08\n/);
+    expect(avrDa).toMatch(/#define PORT_ISC_gp\s+0 /);
+    expect(avrDa).toMatch(/#define PORT_ISC_gm\s+0x07\n/);
+    expect(avrDa).toMatch(/#define NVMCTRL_CMD_gm\s+0x7F\n/);
+    expect(avrDa).not.toContain('PIN0CTRL_ISC');
+  });
+
+  it('emits a bitfield shared by several registers once', () => {
+    expect(avrDa.match(/#define PORT_INVEN_bm/g)).toHaveLength(1);
+    expect(avrDa).not.toContain('PIN1CTRL_INVEN');
+    expect(avrDa).not.toContain('already defined');
+  });
+
+  it('qualifies a bitfield name used at another position with its register', () => {
+    expect(atmega).toMatch(/#define TC16_WGM1_gm\s+0x03\n/);
+    expect(atmega).toMatch(/#define TC16_TCCR1B_WGM1_gp\s+3 /);
+    expect(atmega).toMatch(/#define TC16_TCCR1B_WGM1_gm\s+0x18\n/);
+    expect(atmega).toMatch(/#define TC16_CS1_gm\s+0x07\n/);
+  });
+
+  it('gives registers outside data memory module-prefixed offsets', () => {
+    expect(atmega).toMatch(/#define FUSE_HIGH_OFFSET\s+0x01\n/);
+    expect(atmega).toMatch(/#define FUSE_RSTDISBL_bm\s+0x80\n/);
+    expect(atmega).not.toContain('HIGH_ADDR');
+  });
+
+  it('does not repeat the module name of value groups named after it', () => {
+    expect(avrDa).toMatch(/ {2}PORT_ISC_BOTHEDGES = 0x01,/);
+    expect(avrDa).toContain('} PORT_ISC_t;');
+    expect(avrDa).toContain('} NVMCTRL_CMD_t;');
+    expect(avrDa).not.toContain('PORT_PORT_ISC');
+  });
+
+  it('accesses 24-bit registers as bytes', () => {
+    expect(avrDa).toMatch(/#define ADDR\s+\(\(volatile uint8_t \*\)ADDR_ADDR\)\n/);
+    expect(avrDa).toMatch(/#define DATA\s+\(\*\(volatile uint16_t \*\)DATA_ADDR\)\n/);
+    expect(avrDa).toMatch(/ {2}volatile uint8_t addr\[3\];/);
+  });
+
+  it('only emits offsets for instances without a known address', () => {
+    expect(avrDa).toContain('/* BOOTROW_BYTE0: Boot Row Byte 0 (instance address unknown) */');
+    expect(avrDa).toMatch(/#define BOOTROW_BYTE0_OFFSET\s+0x00\n/);
+    expect(avrDa).not.toContain('BOOTROW_STRUCT');
+  });
+
+  it('places struct overlays at the instance addresses', () => {
+    expect(avrDa).toMatch(/#define PORTA_STRUCT\s+\(\*\(PORT_t \*\)0x0400\)\n/);
+    expect(avrDa).toMatch(/#define NVMCTRL_STRUCT\s+\(\*\(NVMCTRL_t \*\)0x1000\)\n/);
+    expect(avrDa).toMatch(/ {2}uint8_t reserved_0\[5\];/);
+  });
+});
@@ -0,0 +1,288 @@
+import type {
+  AtPackDevice,
+  DevicePeripheralModule,
+  DeviceRegister,
+  DeviceRegisterGroup,
+  DeviceValueGroup,
+  RegisterGroupPlacement
+} from '../../types/atpack';
+import { APP_NAME, APP_VERSION } from '../../utils/version';
+import {
+  getRegisterAddress,
+  getRegisterGroupPlacements,
+  getRegisterInstanceName,
+  toIdentifier
+} from '../../utils/registerLayout';
+
+export interface CHeaderOptions {
+  includeStructs: boolean; // Emit packed struct overlays per register group
+}
+
+const DEFAULT_OPTIONS: CHeaderOptions = {
+  includeStructs: false
+};
+
+/**
+ * Generates a self-contained C header from the parsed peripheral register data
+ * of a device (register addresses, bitfield positions/masks, value-group enums).
+ *
+ * Bitfield macros follow the avr-libc naming scheme: `<MODULE>_<BITFIELD>` with `_bp`/`_bm`
+ * for single bits and `_gp`/`_gm` for multi-bit groups. Register addresses are absolute: the instance
+ * base offset plus the register offset. Register groups shared by several instances
+ * (AVR8X PORTA/PORTB...) get instance-prefixed register macros.
+ */
+export class CHeaderGenerator {
+  private emittedNames = new Set<string>();
+  private bitfieldMasks = new Map<string, number>(); // By bitfield macro name, without suffix
+
+  /**
+   * Generate the header text for a device
+   */
+  generate(device: AtPackDevice, options: Partial<CHeaderOptions> = {}): string {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const guard = `${toIdentifier(device.name)}_REGS_H`;
+    const lines: string[] = [];
+
+    this.emittedNames.clear();
+    this.bitfieldMasks.clear();
+
+    lines.push('/*');
+    lines.push(` * Register definitions for ${device.name} (${device.family}, ${device.architecture})`);
+    lines.push(` * Generated by ${APP_NAME} ${APP_VERSION} from the device pack description.`);
+    lines.push(' */');
+    lines.push('');
+    lines.push(`#ifndef ${guard}`);
+    lines.push(`#define ${guard}`);
+    lines.push('');
+    lines.push('#include <stdint.h>');
+
+    device.peripherals.forEach(peripheral => {
+      lines.push('');
+      lines.push(`/* ${'='.repeat(70)} */`);
+      lines.push(`/* ${peripheral.name} - ${this.sanitizeComment(peripheral.caption)} */`);
+      lines.push(`/* ${'='.repeat(70)} */`);
+
+      peripheral.registerGroups.forEach(group => {
+        const placements = getRegisterGroupPlacements(device.modules, peripheral, group);
+        lines.push(...this.generateRegisterGroup(peripheral, group, placements));
+        if (settings.includeStructs) {
+          lines.push(...this.generateStruct(peripheral, group, placements));
+        }
+      });
+
+      peripheral.valueGroups.forEach(valueGroup => {
+        lines.push(...this.generateEnum(peripheral, valueGroup));
+      });
+    });
+
+    lines.push('');
+    lines.push(`#endif /* ${guard} */`);
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Emit address/access macros for each register of each instance, then position/mask
+   * macros for the bitfields. Registers outside data memory, or of an instance without a
+   * known address, only get an offset macro, prefixed with the module name.
+   */
+  private generateRegisterGroup(
+    peripheral: DevicePeripheralModule,
+    group: DeviceRegisterGroup,
+    placements: RegisterGroupPlacement[]
+  ): string[] {
+    const lines: string[] = [''];
+    const shared = placements.some(placement => placement.qualified);
+    const modulePrefix = this.getModulePrefix(peripheral, group);
+
+    if (peripheral.registerGroups.length > 1 || shared) {
+      const instances = placements.map(placement => placement.instance).join(', ');
+      lines.push(`/* Register group ${group.name} - ${this.sanitizeComment(group.caption)} (${instances}) */`);
+    }
+
+    placements.forEach(placement => {
+      const inDataSpace = placement.addressSpace === 'data' && placement.baseAddress !== null;
+
+      group.registers.forEach(register => {
+        const registerName = toIdentifier(getRegisterInstanceName(placement, register));
+        const name = inDataSpace || placement.qualified ? registerName : `${toIdentifier(peripheral.name)}_${registerName}`;
+        const address = getRegisterAddress(placement, register);
+
+        lines.push(`/* ${name}: ${this.sanitizeComment(register.caption)}${address === null ? ' (instance address unknown)' : ''} */`);
+        if (inDataSpace && address !== null) {
+          this.pushDefine(lines, `${name}_ADDR`, this.hex(address, 4));
+          const type = this.getRegisterType(register);
+          // Registers without a matching integer type (24-bit) are accessed as byte arrays, LSB first
+          this.pushDefine(lines, name, type ? `(*(volatile ${type} *)${name}_ADDR)` : `((volatile uint8_t *)${name}_ADDR)`);
+        } else {
+          this.pushDefine(lines, `${name}_OFFSET`, this.hex(address ?? register.offset));
+        }
+
+        // Bitfields of a shared group are emitted once, after the instances
+        if (!shared) {
+          this.pushBitfieldDefines(lines, modulePrefix, register);
+        }
+      });
+    });
+
+    if (shared) {
+      group.registers.forEach(register => {
+        this.pushBitfieldDefines(lines, modulePrefix, register);
+      });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Emit position/mask macros named after the module (PORT_PULLUPEN_bm). A bitfield repeated
+   * across registers (PIN0CTRL..PIN7CTRL) is emitted once; a bitfield name the module already
+   * used at another position is qualified with the register name.
+   */
+  private pushBitfieldDefines(lines: string[], modulePrefix: string, register: DeviceRegister): void {
+    register.bitfields.forEach(bitfield => {
+      let fieldName = `${modulePrefix}_${toIdentifier(bitfield.name)}`;
+      const emittedMask = this.bitfieldMasks.get(fieldName);
+      if (emittedMask === bitfield.mask) {
+        return;
+      }
+      if (emittedMask !== undefined) {
+        fieldName = `${modulePrefix}_${toIdentifier(register.name)}_${toIdentifier(bitfield.name)}`;
+      }
+      this.bitfieldMasks.set(fieldName, bitfield.mask);
+
+      const comment = ` /* ${this.sanitizeComment(bitfield.caption)} */`;
+      if (bitfield.bitWidth === 1) {
+        this.pushDefine(lines, `${fieldName}_bp`, `${bitfield.bitOffset}`, comment);
+        this.pushDefine(lines, `${fieldName}_bm`, this.hex(bitfield.mask));
+      } else {
+        this.pushDefine(lines, `${fieldName}_gp`, `${bitfield.bitOffset}`, comment);
+        this.pushDefine(lines, `${fieldName}_gm`, this.hex(bitfield.mask));
+      }
+    });
+  }
+
+  /**
+   * Build a packed struct overlay for a register group, with one instance macro per
+   * data-memory placement with a known address. Members are placed relative to the lowest register offset;
+   * gaps become reserved padding and overlapping registers (e.g. 16-bit pairs also
+   * described as 8-bit halves) are skipped. Member names are lowercase so they do not
+   * collide with the register macros.
+   */
+  private generateStruct(
+    peripheral: DevicePeripheralModule,
+    group: DeviceRegisterGroup,
+    placements: RegisterGroupPlacement[]
+  ): string[] {
+    const registers = [...group.registers].sort((a, b) => a.offset - b.offset);
+    const dataPlacements = placements.flatMap(placement =>
+      placement.addressSpace === 'data' && placement.baseAddress !== null
+        ? [{ instance: placement.instance, baseAddress: placement.baseAddress }]
+        : []
+    );
+    if (registers.length === 0 || dataPlacements.length === 0) {
+      return [];
+    }
+
+    const typeName = `${this.getModulePrefix(peripheral, group)}_t`;
+    const firstOffset = registers[0].offset;
+    const lines: string[] = ['', `typedef struct __attribute__((packed)) {`];
+
+    let cursor = firstOffset;
+    let reservedIndex = 0;
+    registers.forEach(register => {
+      if (register.offset < cursor) {
+        lines.push(`  /* ${register.name} overlaps a previous member */`);
+        return;
+      }
+
+      if (register.offset > cursor) {
+        lines.push(`  uint8_t reserved_${reservedIndex++}[${register.offset - cursor}];`);
+      }
+
+      const memberName = toIdentifier(register.name).toLowerCase();
+      const type = this.getRegisterType(register);
+      const member = type
+        ? `  volatile ${type} ${memberName};`
+        : `  volatile uint8_t ${memberName}[${register.size}];`;
+      lines.push(`${member.padEnd(40)} /* ${this.hex(register.offset - firstOffset)} ${this.sanitizeComment(register.caption)} */`);
+      cursor = register.offset + register.size;
+    });
+
+    lines.push(`} ${typeName};`);
+    dataPlacements.forEach(placement => {
+      const address = placement.baseAddress + firstOffset;
+      this.pushDefine(lines, `${toIdentifier(placement.instance)}_STRUCT`, `(*(${typeName} *)${this.hex(address, 4)})`);
+    });
+
+    return lines;
+  }
+
+  /**
+   * Emit a value group as an enum; values are the raw (unshifted) bitfield values. Names are
+   * prefixed with the module name unless the value group name already is (AVR8X PORT_ISC).
+   */
+  private generateEnum(peripheral: DevicePeripheralModule, valueGroup: DeviceValueGroup): string[] {
+    const moduleName = toIdentifier(peripheral.name);
+    const groupName = toIdentifier(valueGroup.name);
+    const prefix = groupName === moduleName || groupName.startsWith(`${moduleName}_`) ? groupName : `${moduleName}_${groupName}`;
+    const lines: string[] = ['', `/* Values for ${valueGroup.name} */`, 'typedef enum {'];
+
+    valueGroup.values.forEach(value => {
+      const name = `${prefix}_${toIdentifier(value.name)}`;
+      if (this.emittedNames.has(name)) {
+        lines.push(`  /* ${name} already defined */`);
+        return;
+      }
+      this.emittedNames.add(name);
+
+      const entry = `  ${name} = ${this.hex(value.value)},`;
+      lines.push(`${entry.padEnd(48)} /* ${this.sanitizeComment(value.caption)} */`);
+    });
+
+    lines.push(`} ${prefix}_t;`);
+    return lines;
+  }
+
+  /**
+   * Name prefix of the types and bitfields of a register group: the module name, or the group
+   * name for modules with several groups (TCA_SINGLE/TCA_SPLIT)
+   */
+  private getModulePrefix(peripheral: DevicePeripheralModule, group: DeviceRegisterGroup): string {
+    return toIdentifier(peripheral.registerGroups.length > 1 ? group.name : peripheral.name);
+  }
+
+  /**
+   * Append a #define, skipping names that were already emitted (registers shared between groups)
+   */
+  private pushDefine(lines: string[], name: string, value: string, comment: string = ''): void {
+    if (this.emittedNames.has(name)) {
+      lines.push(`/* ${name} already defined */`);
+      return;
+    }
+    this.emittedNames.add(name);
+    lines.push(`#define ${name.padEnd(32)} ${value}${comment}`);
+  }
+
+  /**
+   * Integer type of a register, or null when no type has its exact size (24-bit registers):
+   * a wider type would also access the next register
+   */
+  private getRegisterType(register: DeviceRegister): string | null {
+    switch (register.size) {
+      case 1: return 'uint8_t';
+      case 2: return 'uint16_t';
+      case 4: return 'uint32_t';
+      default: return null;
+    }
+  }
+
+  private sanitizeComment(text: string): string {
+    return text.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+  }
+
+  private hex(value: number, width: number = 2): string {
+    return `0x${value.toString(16).toUpperCase().padStart(width, '0')}`;
+  }
+}
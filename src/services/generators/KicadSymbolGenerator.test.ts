@@ -0,0 +1,163 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { KicadSymbolGenerator } from './KicadSymbolGenerator';
+import { AtPackParser } from '../AtPackParser';
+import { AtPackParseError } from '../../types/atpack';
+import type { AtPackDevice } from '../../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: the TQFP32 pinout, and the USART0, ADC and PORTD signals of the
+// pads PD0, PD1, ADC6 and ADC7
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <variants>
+    <variant ordercode="ATmega328P-AU" tempmin="-40" tempmax="85" speedmax="20000000" pinout="TQFP32" package="TQFP32" vccmin="1.8" vccmax="5.5"/>
+  </variants>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <signals>
+              <signal group="RXD" function="default" pad="PD0"/>
+              <signal group="TXD" function="default" pad="PD1"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="ADC">
+          <instance name="ADC" caption="Analog-to-Digital Converter">
+            <signals>
+              <signal group="ADC" function="default" pad="ADC6" index="6"/>
+              <signal group="ADC" function="default" pad="ADC7" index="7"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="PORT">
+          <instance name="PORTD" caption="I/O Port">
+            <signals>
+              <signal group="P" function="default" pad="PD0" index="0"/>
+              <signal group="P" function="default" pad="PD1" index="1"/>
+            </signals>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <pinouts>
+    <pinout name="TQFP32" caption="TQFP32">
+      <pin position="1" pad="PD3"/>
+      <pin position="2" pad="PD4"/>
+      <pin position="3" pad="GND"/>
+      <pin position="4" pad="VCC"/>
+      <pin position="5" pad="GND"/>
+      <pin position="6" pad="VCC"/>
+      <pin position="7" pad="PB6"/>
+      <pin position="8" pad="PB7"/>
+      <pin position="9" pad="PD5"/>
+      <pin position="10" pad="PD6"/>
+      <pin position="11" pad="PD7"/>
+      <pin position="12" pad="PB0"/>
+      <pin position="13" pad="PB1"/>
+      <pin position="14" pad="PB2"/>
+      <pin position="15" pad="PB3"/>
+      <pin position="16" pad="PB4"/>
+      <pin position="17" pad="PB5"/>
+      <pin position="18" pad="AVCC"/>
+      <pin position="19" pad="ADC6"/>
+      <pin position="20" pad="AREF"/>
+      <pin position="21" pad="GND"/>
+      <pin position="22" pad="ADC7"/>
+      <pin position="23" pad="PC0"/>
+      <pin position="24" pad="PC1"/>
+      <pin position="25" pad="PC2"/>
+      <pin position="26" pad="PC3"/>
+      <pin position="27" pad="PC4"/>
+      <pin position="28" pad="PC5"/>
+      <pin position="29" pad="PC6"/>
+      <pin position="30" pad="PD0"/>
+      <pin position="31" pad="PD1"/>
+      <pin position="32" pad="PD2"/>
+    </pinout>
+  </pinouts>
+</avr-tools-device-file>`;
+
+// Pin blocks of a symbol by pin number: "<type> <x> <y> <angle>", name and alternate names
+const getPins = (symbol: string) => {
+  const pins = new Map<string, { at: string; name: string; alternates: string[] }>();
+  for (const match of symbol.matchAll(/\(pin (\S+) line \(at ([^)]+)\)[^\n]*\n\s+\(name "([^"]+)"[^\n]*\n\s+\(number "(\d+)"[^\n]*\n((?:\s+\(alternate[^\n]*\n)*)/g)) {
+    pins.set(match[4], {
+      at: `${match[1]} ${match[2]}`,
+      name: match[3],
+      alternates: Array.from(match[5].matchAll(/\(alternate "([^"]+)"/g), alternate => alternate[1])
+    });
+  }
+  return pins;
+};
+
+describe('KicadSymbolGenerator', () => {
+  const generator = new KicadSymbolGenerator();
+  let device: AtPackDevice;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    [device] = parser.parseArchivePdsc(PDSC).devices;
+    parser.enrichDevice(device, ATMEGA328P_ATDF);
+  });
+
+  it('names the symbol after the device package', () => {
+    const symbol = generator.generate(device, 'TQFP32');
+
+    expect(symbol.startsWith('(kicad_symbol_lib (version 20211014) (generator atpack_viewer)\n')).toBe(true);
+    expect(symbol).toContain('  (symbol "ATmega328P-TQFP32" (in_bom yes) (on_board yes)');
+    expect(symbol).toContain('    (property "Value" "ATmega328P" (id 1) (at -7.62 -38.1 0)');
+    expect(symbol).toContain('      (rectangle (start -7.62 35.56) (end 7.62 -35.56)');
+  });
+
+  it('places ports on the left, grouped by port, and other pins on the right', () => {
+    const pins = getPins(generator.generate(device, 'TQFP32'));
+
+    expect(pins.size).toBe(32);
+    expect(pins.get('12')).toMatchObject({ name: 'PB0', at: 'bidirectional -12.7 33.02 0' });
+    expect(pins.get('8')).toMatchObject({ name: 'PB7', at: 'bidirectional -12.7 15.24 0' });
+    expect(pins.get('23')).toMatchObject({ name: 'PC0', at: 'bidirectional -12.7 10.16 0' });
+    expect(pins.get('20')).toMatchObject({ name: 'AREF', at: 'passive 12.7 33.02 180' });
+    expect(pins.get('19')).toMatchObject({ name: 'ADC6', at: 'bidirectional 12.7 27.94 180' });
+  });
+
+  it('places supply pins on the top and ground pins at the bottom', () => {
+    const pins = getPins(generator.generate(device, 'TQFP32'));
+
+    expect(['4', '6', '18'].map(number => pins.get(number)?.at)).toEqual([
+      'power_in -2.54 40.64 270',
+      'power_in 0 40.64 270',
+      'power_in 2.54 40.64 270'
+    ]);
+    expect(pins.get('21')).toMatchObject({ name: 'GND', at: 'power_in 2.54 -40.64 90' });
+  });
+
+  it('lists the peripheral functions of a pin as alternate names', () => {
+    const pins = getPins(generator.generate(device, 'TQFP32'));
+
+    expect(pins.get('30')?.alternates).toEqual(['RXD']);
+    expect(pins.get('19')?.alternates).toEqual([]);
+  });
+
+  it('needs the pinout of the package', () => {
+    expect(() => generator.generate(device, 'PDIP28'))
+      .toThrow(new AtPackParseError('No pinout found for ATmega328P package PDIP28'));
+  });
+});
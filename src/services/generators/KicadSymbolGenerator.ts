@@ -0,0 +1,191 @@
+import type { AtPackDevice, DevicePin, PinType } from '../../types/atpack';
+import { AtPackParseError } from '../../types/atpack';
+import { getPackagePins, getPinType } from '../../utils/packagePins';
+
+const GRID = 2.54;
+const PIN_LENGTH = 5.08;
+const FONT_SIZE = 1.27;
+// Approximate width of a pin name character, to keep left and right names apart
+const CHARACTER_WIDTH = 1.0;
+
+// KiCad electrical types of the pin classes
+const ELECTRICAL_TYPES: Record<PinType, string> = {
+  power: 'power_in',
+  reset: 'input',
+  oscillator: 'passive',
+  special: 'passive',
+  gpio: 'bidirectional'
+};
+
+// Side pins in placement order: groups are separated by an empty grid row
+type PinGroups = DevicePin[][];
+
+const getPort = (pin: DevicePin): string | null => {
+  const match = pin.pad.match(/^P([A-Z])\d+$/i);
+  return match ? match[1].toUpperCase() : null;
+};
+
+const getBit = (pin: DevicePin): number => {
+  const match = pin.pad.match(/(\d+)$/);
+  return match ? parseInt(match[1]) : 0;
+};
+
+const rowCount = (groups: PinGroups): number => {
+  const nonEmpty = groups.filter(group => group.length > 0);
+  return nonEmpty.reduce((count, group) => count + group.length, 0) + Math.max(0, nonEmpty.length - 1);
+};
+
+// Symbol dimensions are kept on even grid multiples so that pins land on the grid
+const toEvenGrid = (value: number): number => Math.ceil(value / (2 * GRID)) * 2 * GRID;
+
+const format = (value: number): string => {
+  return Number(value.toFixed(2)).toString();
+};
+
+/**
+ * Generates a KiCad schematic symbol library (.kicad_sym, KiCad 6+) for a device package.
+ *
+ * Port pins are placed on the left, grouped by port and ordered by bit; reset, oscillator,
+ * reference and other pins on the right; supply pins on the top and ground pins at the
+ * bottom. Pin numbers are the package positions, pin types follow the pin classification
+ * of the pinout view and pin functions become alternate pin names.
+ */
+export class KicadSymbolGenerator {
+
+  /**
+   * Generate the symbol library text for a device package
+   */
+  generate(device: AtPackDevice, packageName: string): string {
+    const pins = getPackagePins(device, packageName);
+    if (pins.length === 0) {
+      throw new AtPackParseError(`No pinout found for ${device.name} package ${packageName}`);
+    }
+
+    const symbolName = `${device.name}-${packageName}`;
+    const ports = Array.from(new Set(pins.map(getPort).filter((port): port is string => port !== null))).sort();
+
+    const left: PinGroups = ports.map(port =>
+      pins.filter(pin => getPinType(pin) === 'gpio' && getPort(pin) === port).sort((a, b) => getBit(a) - getBit(b))
+    );
+    const right: PinGroups = [
+      pins.filter(pin => getPinType(pin) === 'reset'),
+      pins.filter(pin => getPinType(pin) === 'oscillator'),
+      pins.filter(pin => getPinType(pin) === 'special'),
+      pins.filter(pin => getPinType(pin) === 'gpio' && getPort(pin) === null)
+    ];
+    const top = pins.filter(pin => getPinType(pin) === 'power' && !pin.pad.toUpperCase().includes('GND'));
+    const bottom = pins.filter(pin => getPinType(pin) === 'power' && pin.pad.toUpperCase().includes('GND'));
+
+    const longestName = (groups: PinGroups) => Math.max(0, ...groups.flat().map(pin => pin.pad.length));
+    const width = toEvenGrid(Math.max(
+      (Math.max(top.length, bottom.length) + 1) * GRID,
+      (longestName(left) + longestName(right)) * CHARACTER_WIDTH + 2 * GRID,
+      6 * GRID
+    ));
+    const height = toEvenGrid((Math.max(rowCount(left), rowCount(right), 1) + 1) * GRID);
+    const halfWidth = width / 2;
+    const halfHeight = height / 2;
+
+    const lines: string[] = [];
+    lines.push('(kicad_symbol_lib (version 20211014) (generator atpack_viewer)');
+    lines.push(`  (symbol ${this.quote(symbolName)} (in_bom yes) (on_board yes)`);
+    lines.push(...this.property('Reference', 'U', 0, -halfWidth, halfHeight + GRID, false, 'left'));
+    lines.push(...this.property('Value', device.name, 1, -halfWidth, -halfHeight - GRID, false, 'left'));
+    lines.push(...this.property('Footprint', '', 2, 0, 0, true));
+    lines.push(...this.property('Datasheet', device.documentation?.datasheet || '', 3, 0, 0, true));
+    lines.push(...this.property('ki_description', `${device.name} ${packageName}`, 4, 0, 0, true));
+
+    lines.push(`    (symbol ${this.quote(`${symbolName}_0_1`)}`);
+    lines.push(`      (rectangle (start ${format(-halfWidth)} ${format(halfHeight)}) (end ${format(halfWidth)} ${format(-halfHeight)})`);
+    lines.push('        (stroke (width 0.254) (type default) (color 0 0 0 0))');
+    lines.push('        (fill (type background))');
+    lines.push('      )');
+    lines.push('    )');
+
+    lines.push(`    (symbol ${this.quote(`${symbolName}_1_1`)}`);
+    this.placeSide(left, halfHeight).forEach(([pin, y]) => {
+      lines.push(...this.pin(pin, -halfWidth - PIN_LENGTH, y, 0));
+    });
+    this.placeSide(right, halfHeight).forEach(([pin, y]) => {
+      lines.push(...this.pin(pin, halfWidth + PIN_LENGTH, y, 180));
+    });
+    this.placeRow(top).forEach(([pin, x]) => {
+      lines.push(...this.pin(pin, x, halfHeight + PIN_LENGTH, 270));
+    });
+    this.placeRow(bottom).forEach(([pin, x]) => {
+      lines.push(...this.pin(pin, x, -halfHeight - PIN_LENGTH, 90));
+    });
+    lines.push('    )');
+
+    lines.push('  )');
+    lines.push(')');
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Vertical positions of the pins of a side, from the top, with a row between groups
+   */
+  private placeSide(groups: PinGroups, halfHeight: number): [DevicePin, number][] {
+    const placed: [DevicePin, number][] = [];
+    let y = halfHeight - GRID;
+    groups.filter(group => group.length > 0).forEach((group, index) => {
+      if (index > 0) y -= GRID;
+      group.forEach(pin => {
+        placed.push([pin, y]);
+        y -= GRID;
+      });
+    });
+    return placed;
+  }
+
+  /**
+   * Horizontal positions of a row of pins, centered
+   */
+  private placeRow(pins: DevicePin[]): [DevicePin, number][] {
+    const start = -Math.floor((pins.length - 1) / 2) * GRID;
+    return pins.map((pin, index) => [pin, start + index * GRID]);
+  }
+
+  private pin(pin: DevicePin, x: number, y: number, angle: number): string[] {
+    const type = ELECTRICAL_TYPES[getPinType(pin)];
+    const alternates = Array.from(new Set(pin.functions
+      .filter(func => func.module.toUpperCase() !== 'PORT')
+      .map(func => `${func.group}${func.index ?? ''}`)
+    )).filter(name => name !== pin.pad);
+
+    return [
+      `      (pin ${type} line (at ${format(x)} ${format(y)} ${angle}) (length ${format(PIN_LENGTH)})`,
+      `        (name ${this.quote(pin.pad)} (effects (font (size ${FONT_SIZE} ${FONT_SIZE}))))`,
+      `        (number ${this.quote(String(pin.position))} (effects (font (size ${FONT_SIZE} ${FONT_SIZE}))))`,
+      ...alternates.map(name => `        (alternate ${this.quote(name)} ${type} line)`),
+      '      )'
+    ];
+  }
+
+  private property(
+    name: string,
+    value: string,
+    id: number,
+    x: number,
+    y: number,
+    hidden: boolean,
+    justify?: 'left' | 'right'
+  ): string[] {
+    const effects = [
+      `(font (size ${FONT_SIZE} ${FONT_SIZE}))`,
+      ...(justify ? [`(justify ${justify})`] : []),
+      ...(hidden ? ['hide'] : [])
+    ].join(' ');
+    return [
+      `    (property ${this.quote(name)} ${this.quote(value)} (id ${id}) (at ${format(x)} ${format(y)} 0)`,
+      `      (effects ${effects})`,
+      '    )'
+    ];
+  }
+
+  private quote(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
@@ -0,0 +1,136 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { PinTableGenerator } from './PinTableGenerator';
+import { AtPackParser } from '../AtPackParser';
+import { AtPackParseError } from '../../types/atpack';
+import type { AtPackDevice } from '../../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: the PDIP28 pinout, and the USART0, TC1 and PORTD signals of the
+// pads PD0, PD1 and PB1
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <variants>
+    <variant ordercode="ATmega328P-PU" tempmin="-40" tempmax="85" speedmax="20000000" pinout="PDIP28" package="PDIP28" vccmin="1.8" vccmax="5.5"/>
+  </variants>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="USART">
+          <instance name="USART0" caption="USART">
+            <signals>
+              <signal group="RXD" function="default" pad="PD0"/>
+              <signal group="TXD" function="default" pad="PD1"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="TC16">
+          <instance name="TC1" caption="Timer/Counter, 16-bit">
+            <signals>
+              <signal group="OCA" function="default" pad="PB1"/>
+            </signals>
+          </instance>
+        </module>
+        <module name="PORT">
+          <instance name="PORTD" caption="I/O Port">
+            <signals>
+              <signal group="P" function="default" pad="PD0" index="0"/>
+              <signal group="P" function="default" pad="PD1" index="1"/>
+            </signals>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <pinouts>
+    <pinout name="PDIP28" caption="PDIP28">
+      <pin position="1" pad="PC6"/>
+      <pin position="2" pad="PD0"/>
+      <pin position="3" pad="PD1"/>
+      <pin position="4" pad="PD2"/>
+      <pin position="5" pad="PD3"/>
+      <pin position="6" pad="PD4"/>
+      <pin position="7" pad="VCC"/>
+      <pin position="8" pad="GND"/>
+      <pin position="9" pad="PB6"/>
+      <pin position="10" pad="PB7"/>
+      <pin position="11" pad="PD5"/>
+      <pin position="12" pad="PD6"/>
+      <pin position="13" pad="PD7"/>
+      <pin position="14" pad="PB0"/>
+      <pin position="15" pad="PB1"/>
+      <pin position="16" pad="PB2"/>
+      <pin position="17" pad="PB3"/>
+      <pin position="18" pad="PB4"/>
+      <pin position="19" pad="PB5"/>
+      <pin position="20" pad="AVCC"/>
+      <pin position="21" pad="AREF"/>
+      <pin position="22" pad="GND"/>
+      <pin position="23" pad="PC0"/>
+      <pin position="24" pad="PC1"/>
+      <pin position="25" pad="PC2"/>
+      <pin position="26" pad="PC3"/>
+      <pin position="27" pad="PC4"/>
+      <pin position="28" pad="PC5"/>
+    </pinout>
+  </pinouts>
+</avr-tools-device-file>`;
+
+describe('PinTableGenerator', () => {
+  const generator = new PinTableGenerator();
+  let device: AtPackDevice;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    [device] = parser.parseArchivePdsc(PDSC).devices;
+    parser.enrichDevice(device, ATMEGA328P_ATDF);
+  });
+
+  it('lists the package pins by position with their type and functions', () => {
+    const rows = generator.generate(device, 'PDIP28').split('\n');
+
+    expect(rows).toHaveLength(30);
+    expect(rows.slice(0, 4)).toEqual([
+      'Pin,Pad,Type,Net,Functions',
+      '1,PC6,gpio,,',
+      '2,PD0,gpio,,USART.RXD',
+      '3,PD1,gpio,,USART.TXD'
+    ]);
+    expect(rows[21]).toBe('21,AREF,special,,');
+    expect(rows[29]).toBe('');
+  });
+
+  it('connects power pins to the net of their name', () => {
+    const rows = generator.generate(device, 'PDIP28').split('\n');
+
+    expect([rows[7], rows[8], rows[20]]).toEqual(['7,VCC,power,VCC,', '8,GND,power,GND,', '20,AVCC,power,AVCC,']);
+  });
+
+  it('names the nets of the pin planner assignments', () => {
+    const rows = generator.generate(device, 'PDIP28', [
+      { instance: 'USART0', signal: 'TXD', pad: 'PD1' },
+      { instance: 'TC1', signal: 'OCA', pad: 'PB1' }
+    ]).split('\n');
+
+    expect([rows[3], rows[15]]).toEqual(['3,PD1,gpio,USART0.TXD,USART.TXD', '15,PB1,gpio,TC1.OCA,TC16.OCA']);
+  });
+
+  it('needs the pinout of the package', () => {
+    expect(() => generator.generate(device, 'TQFP32'))
+      .toThrow(new AtPackParseError('No pinout found for ATmega328P package TQFP32'));
+  });
+});
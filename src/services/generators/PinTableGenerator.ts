@@ -0,0 +1,41 @@
+import type { AtPackDevice, PinAssignment } from '../../types/atpack';
+import { AtPackParseError } from '../../types/atpack';
+import { getPackagePins, getPinType } from '../../utils/packagePins';
+
+const escapeCsv = (value: string): string => {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Generates the pin table of a device package as CSV: pin number, pad, pin type, net and
+ * available functions. Nets come from the pin planner assignments; power pins are
+ * connected to the net of their name.
+ */
+export class PinTableGenerator {
+
+  /**
+   * Generate the CSV text for a device package
+   */
+  generate(device: AtPackDevice, packageName: string, assignments: PinAssignment[] = []): string {
+    const pins = getPackagePins(device, packageName);
+    if (pins.length === 0) {
+      throw new AtPackParseError(`No pinout found for ${device.name} package ${packageName}`);
+    }
+
+    const rows: string[][] = [['Pin', 'Pad', 'Type', 'Net', 'Functions']];
+    pins.forEach(pin => {
+      const type = getPinType(pin);
+      const assigned = assignments.filter(assignment => assignment.pad === pin.pad);
+      const net = assigned.length > 0
+        ? assigned.map(assignment => `${assignment.instance}.${assignment.signal}`).join(' ')
+        : type === 'power' ? pin.pad : '';
+      const functions = Array.from(new Set(pin.functions
+        .filter(func => func.module.toUpperCase() !== 'PORT')
+        .map(func => `${func.module}.${func.group}${func.index ?? ''}`)));
+
+      rows.push([String(pin.position), pin.pad, type, net, functions.join(' ')]);
+    });
+
+    return rows.map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+  }
+}
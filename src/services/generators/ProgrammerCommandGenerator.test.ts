@@ -0,0 +1,236 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ProgrammerCommandGenerator } from './ProgrammerCommandGenerator';
+import { loadPackArchive } from '../../test/packArchive';
+import type { AtPackDevice } from '../../types/atpack';
+
+const AVR_PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATtiny1614</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/><interface type="ISP"/><interface type="HVPP"/></device>
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/><interface type="UPDI"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: the fuse bytes and lock bits
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR"/>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE">
+        <register caption="" name="EXTENDED" offset="0x02" size="1" initval="0xFF">
+          <bitfield caption="Brown-out Detector trigger level" mask="0x07" name="BODLEVEL"/>
+        </register>
+        <register caption="" name="HIGH" offset="0x01" size="1" initval="0xD9">
+          <bitfield caption="Serial program downloading (SPI) enabled" mask="0x20" name="SPIEN"/>
+          <bitfield caption="Boot Reset vector Enabled" mask="0x01" name="BOOTRST"/>
+        </register>
+        <register caption="" name="LOW" offset="0x00" size="1" initval="0x62">
+          <bitfield caption="Divide clock by 8 internally" mask="0x80" name="CKDIV8"/>
+          <bitfield caption="Select Clock Source" mask="0x3F" name="SUT_CKSEL"/>
+        </register>
+      </register-group>
+    </module>
+    <module caption="Lockbits" name="LOCKBIT">
+      <register-group caption="Lockbits" name="LOCKBIT">
+        <register caption="" name="LOCKBIT" offset="0x00" size="1" initval="0xFF">
+          <bitfield caption="Memory Lock" mask="0x03" name="LB"/>
+          <bitfield caption="Boot Loader Protection Mode" mask="0x0C" name="BLB0"/>
+          <bitfield caption="Boot Loader Protection Mode" mask="0x30" name="BLB1"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// Excerpt of ATtiny1614.atdf: fuses named after their avrdude memories, and the lock byte
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR"/>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="Watchdog Configuration" name="WDTCFG" offset="0x00" size="1" initval="0x00">
+          <bitfield caption="Watchdog Period" mask="0x0F" name="PERIOD"/>
+        </register>
+        <register caption="Oscillator Configuration" name="OSCCFG" offset="0x02" size="1" initval="0x02">
+          <bitfield caption="Frequency Select" mask="0x03" name="FREQSEL"/>
+        </register>
+        <register caption="System Configuration 0" name="SYSCFG0" offset="0x05" size="1" initval="0xF6">
+          <bitfield caption="EEPROM Save" mask="0x01" name="EESAVE"/>
+        </register>
+        <register caption="Boot End" name="BOOTEND" offset="0x08" size="1" initval="0x00"/>
+      </register-group>
+    </module>
+    <module caption="Lockbit" name="LOCKBIT">
+      <register-group caption="Lockbit" name="LOCKBIT" size="0x1">
+        <register caption="Lock bits" name="LOCKBIT" offset="0x00" size="1" initval="0xC5">
+          <bitfield caption="Lock Bits" mask="0xFF" name="LB"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const PIC_PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4">
+  <vendor>Microchip</vendor>
+  <name>PIC_DFP</name>
+  <description>Microchip PIC Device Support</description>
+  <releases><release version="1.6.156">PIC16F1847, PIC18F45K22, dsPIC33EP64GP502</release></releases>
+  <devices>
+    <family Dfamily="PIC" Dvendor="Microchip:3">
+      <device Dname="PIC16F1847"><processor Dcore="PIC16"/></device>
+      <device Dname="PIC18F45K22"><processor Dcore="PIC18"/></device>
+      <device Dname="dsPIC33EP64GP502"><processor Dcore="dsPIC33"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Configuration words of a .PIC file; edc:nzwidth is their width in bits
+const picFile = (name: string, arch: string, words: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<edc:PIC xmlns:edc="http://crownking/edc" edc:arch="${arch}" edc:name="${name}">
+  <edc:ConfigFuseSector>
+    ${words}
+  </edc:ConfigFuseSector>
+</edc:PIC>`;
+
+// Excerpt of PIC16F1847.PIC
+const PIC16F1847_PIC = picFile('PIC16F1847', '16Exxx', `
+    <edc:DCRDef edc:_addr="0x8007" edc:cname="CONFIG1" edc:default="0x3fff" edc:impl="0x3fff" edc:name="CONFIG1" edc:nzwidth="0xe"/>
+    <edc:DCRDef edc:_addr="0x8008" edc:cname="CONFIG2" edc:default="0x3fff" edc:impl="0x3713" edc:name="CONFIG2" edc:nzwidth="0xe"/>`);
+
+// Excerpt of PIC18F45K22.PIC
+const PIC18F45K22_PIC = picFile('PIC18F45K22', '18xxxx', `
+    <edc:DCRDef edc:_addr="0x300000" edc:cname="CONFIG1L" edc:default="0x0" edc:impl="0x0" edc:name="CONFIG1L" edc:nzwidth="0x8"/>
+    <edc:DCRDef edc:_addr="0x300001" edc:cname="CONFIG1H" edc:default="0x25" edc:impl="0xff" edc:name="CONFIG1H" edc:nzwidth="0x8"/>`);
+
+// Excerpt of dsPIC33EP64GP502.PIC
+const DSPIC33EP64GP502_PIC = picFile('dsPIC33EP64GP502', '30xxxx', `
+    <edc:DCRDef edc:_addr="0x57f0" edc:cname="FICD" edc:default="0xffffdf" edc:impl="0x63" edc:name="FICD" edc:nzwidth="0x18"/>`);
+
+describe('ProgrammerCommandGenerator', () => {
+  const generator = new ProgrammerCommandGenerator();
+  const devices: Record<string, AtPackDevice> = {};
+
+  beforeAll(async () => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const avrPack = await loadPackArchive({
+      'Atmel.ATmega_DFP.pdsc': AVR_PDSC,
+      'atdf/ATmega328P.atdf': ATMEGA328P_ATDF,
+      'atdf/ATtiny1614.atdf': ATTINY1614_ATDF
+    });
+    const picPack = await loadPackArchive({
+      'Microchip.PIC_DFP.pdsc': PIC_PDSC,
+      'edc/PIC16F1847.PIC': PIC16F1847_PIC,
+      'edc/PIC18F45K22.PIC': PIC18F45K22_PIC,
+      'edc/dsPIC33EP64GP502.PIC': DSPIC33EP64GP502_PIC
+    });
+    [...avrPack.devices, ...picPack.devices].forEach(device => {
+      devices[device.name] = device;
+    });
+  });
+
+  describe('avrdude', () => {
+    it('writes classic fuse bytes by their avrdude names and the lock bits last', () => {
+      const [avrdude] = generator.generate(devices.ATmega328P, { HIGH: 0xDE, LOW: 0xFF }, { LOCKBIT: 0xCF });
+
+      expect(avrdude.title).toBe('avrdude (ISP)');
+      expect(avrdude.write).toBe([
+        'avrdude -c usbasp -P usb -p m328p',
+        '-U lfuse:w:0xFF:m',
+        '-U hfuse:w:0xDE:m',
+        '-U lock:w:0xCF:m'
+      ].join(' \\\n  '));
+      expect(avrdude.verify).toContain('-U hfuse:v:0xDE:m');
+      expect(avrdude.notes[1]).toContain('Lock bits are written last');
+    });
+
+    it('leaves lock bits matching their default value alone', () => {
+      const [avrdude] = generator.generate(devices.ATmega328P, { EXTENDED: 0xFD }, { LOCKBIT: 0xFF });
+
+      expect(avrdude.write).not.toContain('lock');
+      expect(avrdude.notes[1]).toBe('Lock bits are left unchanged (they match the default value).');
+    });
+
+    it('uses the UPDI fuse aliases and offsets on UPDI devices', () => {
+      const [avrdude] = generator.generate(devices.ATtiny1614, { OSCCFG: 0x01, BOOTEND: 0x02 }, {}, { port: '/dev/ttyACM0' });
+
+      expect(avrdude.write).toBe([
+        'avrdude -c serialupdi -P /dev/ttyACM0 -p t1614',
+        '-U osccfg:w:0x01:m',
+        '-U bootend:w:0x02:m'
+      ].join(' \\\n  '));
+    });
+  });
+
+  describe('pymcuprog', () => {
+    it('is only offered for UPDI devices', () => {
+      expect(generator.generate(devices.ATmega328P, {}).map(set => set.tool)).toEqual(['avrdude']);
+      expect(generator.generate(devices.ATtiny1614, {}).map(set => set.tool)).toEqual(['avrdude', 'pymcuprog']);
+    });
+
+    it('writes each fuse at its offset and reads back the fuse memory', () => {
+      const [, pymcuprog] = generator.generate(devices.ATtiny1614, { WDTCFG: 0x0B, SYSCFG0: 0xF7 }, { LOCKBIT: 0x3A });
+
+      expect(pymcuprog.write.split('\n')).toEqual([
+        'pymcuprog write -t uart -u /dev/ttyUSB0 -d attiny1614 -m fuses -o 0 -l 0x0B  # WDTCFG',
+        'pymcuprog write -t uart -u /dev/ttyUSB0 -d attiny1614 -m fuses -o 5 -l 0xF7  # SYSCFG0',
+        'pymcuprog write -t uart -u /dev/ttyUSB0 -d attiny1614 -m lockbits -l 0x3A'
+      ]);
+      expect(pymcuprog.verify.split('\n')).toEqual([
+        'pymcuprog read -t uart -u /dev/ttyUSB0 -d attiny1614 -m fuses',
+        'pymcuprog read -t uart -u /dev/ttyUSB0 -d attiny1614 -m lockbits'
+      ]);
+    });
+  });
+
+  describe('ipecmd', () => {
+    it('programs the configuration words from a HEX file', () => {
+      const [ipecmd] = generator.generate(devices.PIC16F1847, { CONFIG1: 0x3FE4 }, {}, { ipeTool: 'SNAP' });
+
+      expect(ipecmd.write).toBe('ipecmd -TPSNAP -P16F1847 -FPIC16F1847_config.hex -MC');
+      expect(ipecmd.verify).toBe('ipecmd -TPSNAP -P16F1847 -FPIC16F1847_config.hex -YC');
+      expect(ipecmd.files).toEqual([
+        { name: 'PIC16F1847_config.hex', content: generator.generatePicConfigHex(devices.PIC16F1847, { CONFIG1: 0x3FE4 }) }
+      ]);
+    });
+  });
+
+  describe('generatePicConfigHex', () => {
+    it('writes word-addressed configuration words at twice their address', () => {
+      expect(generator.generatePicConfigHex(devices.PIC16F1847, { CONFIG1: 0x3FE4, CONFIG2: 0x1FFF }).split('\n')).toEqual([
+        ':020000040001F9',
+        ':02000E00E43FCD',
+        ':02001000FF1FD0',
+        ':00000001FF',
+        ''
+      ]);
+    });
+
+    it('keeps PIC18 configuration bytes at their byte address', () => {
+      expect(generator.generatePicConfigHex(devices.PIC18F45K22, { CONFIG1H: 0x25 }).split('\n')).toEqual([
+        ':020000040030CA',
+        ':0100010025D9',
+        ':00000001FF',
+        ''
+      ]);
+    });
+
+    it('writes the edc:nzwidth of 24-bit words as 4 data bytes', () => {
+      expect(generator.generatePicConfigHex(devices.dsPIC33EP64GP502, { FICD: 0xFFFFDF }).split('\n')[1]).toBe(':04AFE000DFFFFF0090');
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import type { AtPackDevice, FuseConfig, LockbitConfig } from '../../types/atpack';
+import { DeviceFamily } from '../../types/atpack';
+import { getProgrammingInterface } from '../../utils/programmingInterface';
+
+export type ProgrammerTool = 'avrdude' | 'pymcuprog' | 'ipecmd';
+
+export interface ProgrammerCommandOptions {
+  avrdudeProgrammer?: string; // avrdude -c id, defaults to one matching the programming interface
+  port?: string; // avrdude -P / pymcuprog -u port, defaults to a serial port for UPDI and 'usb' otherwise
+  pymcuprogTool: string; // pymcuprog -t tool (uart, nedbg, pickit4...)
+  ipeTool: string; // ipecmd -TP tool (PK4, PK5, ICD4, SNAP...)
+}
+
+export interface ProgrammerCommandFile {
+  name: string;
+  content: string;
+}
+
+export interface ProgrammerCommandSet {
+  tool: ProgrammerTool;
+  title: string;
+  write: string;
+  verify: string; // Read-back/verify variant of the write command
+  files: ProgrammerCommandFile[]; // Files the commands refer to
+  notes: string[];
+}
+
+const DEFAULT_SERIAL_PORT = '/dev/ttyUSB0';
+
+const DEFAULT_OPTIONS: ProgrammerCommandOptions = {
+  pymcuprogTool: 'uart',
+  ipeTool: 'PK4'
+};
+
+// avrdude memory names for classic AVR fuse bytes
+const AVRDUDE_CLASSIC_FUSES: Record<string, string> = {
+  LOW: 'lfuse',
+  HIGH: 'hfuse',
+  EXTENDED: 'efuse'
+};
+
+// Fuse names avrdude (>= 7.0) accepts as memory aliases on UPDI devices
+const AVRDUDE_UPDI_FUSES = new Set([
+  'wdtcfg', 'bodcfg', 'osccfg', 'tcd0cfg', 'syscfg0', 'syscfg1',
+  'append', 'codesize', 'bootend', 'bootsize', 'pdicfg'
+]);
+
+// avrdude part id prefixes (ATmega328P -> m328p)
+const AVRDUDE_PART_PREFIXES: [RegExp, string][] = [
+  [/^atmega/, 'm'],
+  [/^attiny/, 't'],
+  [/^atxmega/, 'x'],
+  [/^at90can/, 'c'],
+  [/^at90usb/, 'usb'],
+  [/^at90pwm/, 'pwm']
+];
+
+// Default avrdude programmer for each programming interface
+const AVRDUDE_PROGRAMMERS: Record<string, string> = {
+  UPDI: 'serialupdi',
+  PDI: 'atmelice_pdi',
+  TPI: 'usbasp',
+  ISP: 'usbasp'
+};
+
+/**
+ * Generates programmer command lines that write (and read back/verify) the fuse and
+ * lock bit values configured for a device:
+ * - avrdude for AVR devices, with memory names derived from the fuse register names
+ * - pymcuprog for UPDI devices
+ * - MPLAB IPE (ipecmd) for PIC devices, programming a config-word-only Intel HEX file
+ */
+export class ProgrammerCommandGenerator {
+
+  /**
+   * Generate the command sets applicable to a device.
+   * Values are register values keyed by fuse/lockbit name; registers without a value are skipped.
+   */
+  generate(
+    device: AtPackDevice,
+    fuseValues: Record<string, number>,
+    lockbitValues: Record<string, number> = {},
+    options: Partial<ProgrammerCommandOptions> = {}
+  ): ProgrammerCommandSet[] {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+
+    if (device.deviceFamily === DeviceFamily.PIC) {
+      return [this.generateIpecmd(device, fuseValues, settings)];
+    }
+
+    const commands = [this.generateAvrdude(device, fuseValues, lockbitValues, settings)];
+    if (getProgrammingInterface(device) === 'UPDI') {
+      commands.push(this.generatePymcuprog(device, fuseValues, lockbitValues, settings));
+    }
+    return commands;
+  }
+
+  /**
+   * Get the avrdude part id for a device (ATmega328P -> m328p, AVR128DA48 -> avr128da48)
+   */
+  getAvrdudePartId(device: AtPackDevice): string {
+    const name = device.name.toLowerCase();
+    const prefix = AVRDUDE_PART_PREFIXES.find(([pattern]) => pattern.test(name));
+    return prefix ? name.replace(prefix[0], prefix[1]) : name;
+  }
+
+  /**
+   * Get the avrdude memory name for a fuse register
+   */
+  getAvrdudeFuseMemory(fuse: FuseConfig, fuses: FuseConfig[], updi: boolean): string {
+    const name = fuse.name.toUpperCase();
+
+    if (updi) {
+      return AVRDUDE_UPDI_FUSES.has(name.toLowerCase()) ? name.toLowerCase() : `fuse${fuse.offset}`;
+    }
+    if (AVRDUDE_CLASSIC_FUSES[name]) {
+      return AVRDUDE_CLASSIC_FUSES[name];
+    }
+    const fuseByte = name.match(/^FUSEBYTE(\d+)$/);
+    if (fuseByte) {
+      return `fuse${fuseByte[1]}`;
+    }
+    // Devices with a single fuse byte (ATtiny4/5/9/10) call it "fuse"
+    return fuses.length === 1 ? 'fuse' : `fuse${fuse.offset}`;
+  }
+
+  private generateAvrdude(
+    device: AtPackDevice,
+    fuseValues: Record<string, number>,
+    lockbitValues: Record<string, number>,
+    settings: ProgrammerCommandOptions
+  ): ProgrammerCommandSet {
+    const programmingInterface = getProgrammingInterface(device);
+    const updi = programmingInterface === 'UPDI';
+    const programmer = settings.avrdudeProgrammer || AVRDUDE_PROGRAMMERS[programmingInterface];
+    const port = settings.port ?? (updi ? DEFAULT_SERIAL_PORT : 'usb');
+    const base = [`avrdude -c ${programmer} -P ${port} -p ${this.getAvrdudePartId(device)}`];
+
+    const writeOperations: string[] = [];
+    const verifyOperations: string[] = [];
+
+    this.sortByOffset(device.fuses).forEach(fuse => {
+      const value = fuseValues[fuse.name];
+      if (value === undefined) return;
+      const memory = this.getAvrdudeFuseMemory(fuse, device.fuses, updi);
+      writeOperations.push(`-U ${memory}:w:${this.hex(value, fuse.size * 2)}:m`);
+      verifyOperations.push(`-U ${memory}:v:${this.hex(value, fuse.size * 2)}:m`);
+    });
+
+    const lockValue = this.getModifiedLockValue(device.lockbits, lockbitValues);
+    if (lockValue !== null) {
+      writeOperations.push(`-U lock:w:${this.hex(lockValue)}:m`);
+      verifyOperations.push(`-U lock:v:${this.hex(lockValue)}:m`);
+    }
+
+    const notes = [
+      `Programmer "${programmer}" assumed for ${programmingInterface}; replace -c/-P for your hardware.`
+    ];
+    if (lockValue === null) {
+      notes.push('Lock bits are left unchanged (they match the default value).');
+    } else {
+      notes.push('Lock bits are written last: once set, they can only be cleared by a chip erase.');
+    }
+
+    return {
+      tool: 'avrdude',
+      title: `avrdude (${programmingInterface})`,
+      write: this.formatCommand(base, writeOperations),
+      verify: this.formatCommand(base, verifyOperations),
+      files: [],
+      notes
+    };
+  }
+
+  private generatePymcuprog(
+    device: AtPackDevice,
+    fuseValues: Record<string, number>,
+    lockbitValues: Record<string, number>,
+    settings: ProgrammerCommandOptions
+  ): ProgrammerCommandSet {
+    const target = [`-t ${settings.pymcuprogTool}`];
+    if (settings.pymcuprogTool === 'uart') {
+      target.push(`-u ${settings.port ?? DEFAULT_SERIAL_PORT}`);
+    }
+    target.push(`-d ${device.name.toLowerCase()}`);
+    const prefix = target.join(' ');
+
+    const writeLines: string[] = [];
+    this.sortByOffset(device.fuses).forEach(fuse => {
+      const value = fuseValues[fuse.name];
+      if (value === undefined) return;
+      writeLines.push(`pymcuprog write ${prefix} -m fuses -o ${fuse.offset} -l ${this.hex(value)}  # ${fuse.name}`);
+    });
+
+    const verifyLines = [`pymcuprog read ${prefix} -m fuses`];
+    const lockValue = this.getModifiedLockValue(device.lockbits, lockbitValues);
+    if (lockValue !== null) {
+      writeLines.push(`pymcuprog write ${prefix} -m lockbits -l ${this.hex(lockValue)}`);
+      verifyLines.push(`pymcuprog read ${prefix} -m lockbits`);
+    }
+
+    return {
+      tool: 'pymcuprog',
+      title: 'pymcuprog (UPDI)',
+      write: writeLines.join('\n'),
+      verify: verifyLines.join('\n'),
+      files: [],
+      notes: ['pymcuprog reads back the whole fuse memory: compare each offset with the values written.']
+    };
+  }
+
+  private generateIpecmd(
+    device: AtPackDevice,
+    fuseValues: Record<string, number>,
+    settings: ProgrammerCommandOptions
+  ): ProgrammerCommandSet {
+    const hexFile = `${device.name}_config.hex`;
+    const base = [`ipecmd -TP${settings.ipeTool}`, `-P${device.name.replace(/^PIC/i, '')}`, `-F${hexFile}`];
+
+    return {
+      tool: 'ipecmd',
+      title: 'MPLAB IPE (ipecmd)',
+      write: [...base, '-MC'].join(' '),
+      verify: [...base, '-YC'].join(' '),
+      files: [{ name: hexFile, content: this.generatePicConfigHex(device, fuseValues) }],
+      notes: [
+        `ipecmd programs configuration memory from ${hexFile}, which only contains the configuration words.`,
+        'Use ipecmd.sh on Linux/macOS and ipecmd.exe on Windows.'
+      ]
+    };
+  }
+
+  /**
+   * Build an Intel HEX file containing only the configuration words, little-endian at
+   * their byte addresses. Configuration addresses are word addresses except on PIC18:
+   * CONFIG1 of PIC16F1 devices (0x8007) goes to 0x1000E, PIC18 CONFIG1L stays at 0x300000.
+   */
+  generatePicConfigHex(device: AtPackDevice, values: Record<string, number>): string {
+    const records: string[] = [];
+    const byteAddressed = this.isPic18(device);
+    let upperAddress = -1;
+
+    this.sortByOffset(device.fuses).forEach(config => {
+      const value = values[config.name];
+      if (value === undefined) return;
+
+      // PicParser stores edc:nzwidth (in bits) as the size, falling back to 2 bytes
+      const byteCount = config.size > 4 ? Math.ceil(config.size / 8) : config.size;
+      // Word-addressed program memory holds 2 bytes per word in HEX files (4 for 24-bit words)
+      const dataCount = byteAddressed ? byteCount : byteCount > 2 ? 4 : 2;
+      const bytes = Array.from({ length: dataCount }, (_, index) => index < byteCount ? (value >>> (index * 8)) & 0xFF : 0);
+      const address = byteAddressed ? config.offset : config.offset * 2;
+
+      const upper = address >>> 16;
+      if (upper !== upperAddress) {
+        records.push(this.hexRecord(0x04, 0, [(upper >> 8) & 0xFF, upper & 0xFF]));
+        upperAddress = upper;
+      }
+      records.push(this.hexRecord(0x00, address & 0xFFFF, bytes));
+    });
+
+    records.push(this.hexRecord(0x01, 0, []));
+    return records.join('\n') + '\n';
+  }
+
+  private hexRecord(type: number, address: number, data: number[]): string {
+    const bytes = [data.length, (address >> 8) & 0xFF, address & 0xFF, type, ...data];
+    const checksum = (0x100 - (bytes.reduce((sum, byte) => sum + byte, 0) & 0xFF)) & 0xFF;
+    return ':' + [...bytes, checksum].map(byte => byte.toString(16).toUpperCase().padStart(2, '0')).join('');
+  }
+
+  /**
+   * Combine the lock registers into the single avrdude/pymcuprog lock byte, or null when
+   * the lock bits are unchanged from their default value
+   */
+  private getModifiedLockValue(lockbits: LockbitConfig[], values: Record<string, number>): number | null {
+    const lockbit = lockbits.find(lock => values[lock.name] !== undefined);
+    if (!lockbit) {
+      return null;
+    }
+    const value = values[lockbit.name];
+    const defaultValue = lockbit.defaultValue ?? (1 << (lockbit.size * 8)) - 1;
+    return value === defaultValue ? null : value;
+  }
+
+  private formatCommand(base: string[], operations: string[]): string {
+    return [base.join(' '), ...operations].join(' \\\n  ');
+  }
+
+  private isPic18(device: AtPackDevice): boolean {
+    return /^PIC18/i.test(device.name);
+  }
+
+  private sortByOffset<T extends { offset: number }>(registers: T[]): T[] {
+    return [...registers].sort((a, b) => a.offset - b.offset);
+  }
+
+  private hex(value: number, width: number = 2): string {
+    return `0x${value.toString(16).toUpperCase().padStart(width, '0')}`;
+  }
+}
@@ -0,0 +1,117 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { SvdGenerator } from './SvdGenerator';
+import { loadPackArchive } from '../../test/packArchive';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATtiny_DFP">
+  <description>Microchip ATtiny Series Device Support</description>
+  <releases><release version="3.1.260">ATtiny1614</release></releases>
+  <devices>
+    <family Dfamily="ATtiny" Dvendor="Microchip:3">
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATtiny1614.atdf: the PORT group shared by PORTA/PORTB, CPU and the interrupts of the
+// instances. The SIGROW instance is left out to stand for a module the ATDF does not place.
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <peripherals>
+        <module name="CPU">
+          <instance name="CPU" caption="CPU">
+            <register-group name="CPU" name-in-module="CPU" offset="0x0030" address-space="data" caption="CPU"/>
+          </instance>
+        </module>
+        <module name="PORT">
+          <instance name="PORTA" caption="I/O Ports">
+            <register-group name="PORTA" name-in-module="PORT" offset="0x0400" address-space="data" caption="I/O Ports"/>
+          </instance>
+          <instance name="PORTB" caption="I/O Ports">
+            <register-group name="PORTB" name-in-module="PORT" offset="0x0420" address-space="data" caption="I/O Ports"/>
+          </instance>
+        </module>
+      </peripherals>
+      <interrupts>
+        <interrupt index="0" name="RESET" caption="Reset"/>
+        <interrupt index="1" name="NMI" module-instance="CRCSCAN" caption="Non-maskable Interrupt from CRC"/>
+        <interrupt index="3" name="PORT" module-instance="PORTA" caption="Interrupt Request 0"/>
+        <interrupt index="4" name="PORT" module-instance="PORTB" caption="Interrupt Request 0"/>
+      </interrupts>
+    </device>
+  </devices>
+  <modules>
+    <module caption="CPU" name="CPU">
+      <register-group caption="CPU" name="CPU" size="0x10">
+        <register caption="Configuration Change Protection" name="CCP" offset="0x04" size="1" mask="0xFF" initval="0x00"/>
+        <register caption="Stack Pointer" name="SP" offset="0x0D" size="2" mask="0xFFFF"/>
+      </register-group>
+    </module>
+    <module caption="I/O Ports" name="PORT">
+      <register-group caption="I/O Ports" name="PORT" size="0x20">
+        <register caption="Data Direction" name="DIR" offset="0x00" size="1" mask="0xFF" initval="0x00"/>
+        <register caption="Interrupt Flags" name="INTFLAGS" offset="0x09" size="1" mask="0xFF" initval="0x00">
+          <bitfield caption="Pin Interrupt" mask="0xFF" name="INT"/>
+        </register>
+      </register-group>
+    </module>
+    <module caption="Signature row" name="SIGROW">
+      <register-group caption="Signature row" name="SIGROW" size="0x40">
+        <register caption="Device ID Byte 0" name="DEVICEID0" offset="0x00" size="1" mask="0xFF"/>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const getPeripheral = (svd: string, name: string): string | undefined => {
+  return svd.split('<peripheral').find(block => block.includes(`<name>${name}</name>`));
+};
+
+describe('SvdGenerator', () => {
+  let svd: string;
+
+  beforeAll(async () => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { devices: [device] } = await loadPackArchive({
+      'Microchip.ATtiny_DFP.pdsc': PDSC,
+      'atdf/ATtiny1614.atdf': ATTINY1614_ATDF
+    });
+    svd = new SvdGenerator().generate(device);
+  });
+
+  it('bases each instance at its lowest register address, deriving shared groups', () => {
+    expect(getPeripheral(svd, 'PORTA')).toContain('<baseAddress>0x0400</baseAddress>');
+    expect(getPeripheral(svd, 'PORTB')).toMatch(/^ derivedFrom="PORTA">/);
+    expect(getPeripheral(svd, 'PORTB')).toContain('<baseAddress>0x0420</baseAddress>');
+    expect(getPeripheral(svd, 'CPU')).toContain('<baseAddress>0x0034</baseAddress>');
+  });
+
+  it('leaves out instances without a known address', () => {
+    expect(getPeripheral(svd, 'SIGROW')).toBeUndefined();
+  });
+
+  it('attaches interrupts to their module instance with unique names', () => {
+    const portA = getPeripheral(svd, 'PORTA');
+    const portB = getPeripheral(svd, 'PORTB');
+
+    expect(portA).toContain('<name>PORTA_PORT</name>');
+    expect(portA).toContain('<value>3</value>');
+    expect(portB).toContain('<name>PORTB_PORT</name>');
+    expect(portB).toContain('<value>4</value>');
+  });
+
+  it('falls back to the CPU for interrupts without a matching peripheral', () => {
+    expect(getPeripheral(svd, 'CPU')).toContain('<name>CRCSCAN_NMI</name>');
+  });
+
+  it('leaves out the reset vector', () => {
+    expect(svd).not.toContain('<name>RESET</name>');
+    expect(svd).not.toContain('<value>0</value>');
+  });
+});
@@ -0,0 +1,323 @@
+import type {
+  AtPackDevice,
+  DeviceInterrupt,
+  DevicePeripheralModule,
+  DeviceRegister,
+  DeviceRegisterBitfield,
+  DeviceRegisterGroup,
+  DeviceValueGroup
+} from '../../types/atpack';
+import { APP_NAME, APP_VERSION } from '../../utils/version';
+import { getRegisterGroupPlacements, toIdentifier } from '../../utils/registerLayout';
+
+/**
+ * A register group mapped to one SVD peripheral
+ */
+interface SvdPeripheral {
+  name: string;
+  module: DevicePeripheralModule;
+  group: DeviceRegisterGroup;
+  baseAddress: number;
+  firstOffset: number; // Lowest register offset in the group, subtracted from register offsets
+  size: number;
+  derivedFrom?: string; // First instance of a register group shared by several instances
+  interrupts: DeviceInterrupt[];
+}
+
+/**
+ * Generates a CMSIS-SVD description of an AVR device from its ATDF-derived data,
+ * in the layout expected by svd2rust (as used by avr-device/avr-hal).
+ *
+ * Each data-memory instance of a register group becomes one peripheral based at its
+ * lowest register address, with register offsets relative to that base; further
+ * instances of a shared group use derivedFrom. Memory segments have no SVD equivalent
+ * and are written as vendor extensions.
+ */
+export class SvdGenerator {
+
+  /**
+   * Generate the SVD XML text for a device
+   */
+  generate(device: AtPackDevice): string {
+    const peripherals = this.collectPeripherals(device);
+    this.assignInterrupts(device.interrupts, peripherals);
+
+    const lines: string[] = [];
+    lines.push('<?xml version="1.0" encoding="utf-8"?>');
+    lines.push(`<!-- Generated by ${this.escape(APP_NAME)} ${APP_VERSION} from the device pack description -->`);
+    lines.push('<device schemaVersion="1.1" xmlns:xs="http://www.w3.org/2001/XMLSchema-instance" xs:noNamespaceSchemaLocation="CMSIS-SVD.xsd">');
+    lines.push(`  <vendor>Microchip</vendor>`);
+    lines.push(`  <name>${this.escape(device.name)}</name>`);
+    lines.push(`  <version>1.0</version>`);
+    lines.push(`  <description>${this.escape(`${device.name} (${device.family}, ${device.architecture})`)}</description>`);
+    lines.push('  <addressUnitBits>8</addressUnitBits>');
+    lines.push('  <width>8</width>');
+    lines.push('  <size>8</size>');
+    lines.push('  <access>read-write</access>');
+    lines.push('  <resetValue>0x00</resetValue>');
+    lines.push('  <resetMask>0xFF</resetMask>');
+    lines.push('  <peripherals>');
+
+    peripherals.forEach(peripheral => {
+      lines.push(...this.generatePeripheral(peripheral));
+    });
+
+    lines.push('  </peripherals>');
+    lines.push(...this.generateMemorySegments(device));
+    lines.push('</device>');
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  private collectPeripherals(device: AtPackDevice): SvdPeripheral[] {
+    const peripherals: SvdPeripheral[] = [];
+    const usedNames = new Set<string>();
+
+    device.peripherals.forEach(module => {
+      module.registerGroups.forEach(group => {
+        if (group.registers.length === 0) {
+          return;
+        }
+
+        const firstOffset = Math.min(...group.registers.map(r => r.offset));
+        const end = Math.max(...group.registers.map(r => r.offset + r.size));
+        let derivedFrom: string | undefined;
+
+        // Instances without a known address cannot be described
+        getRegisterGroupPlacements(device.modules, module, group)
+          .forEach(placement => {
+            if (placement.addressSpace !== 'data' || placement.baseAddress === null) {
+              return;
+            }
+            const name = toIdentifier(placement.instance);
+            if (usedNames.has(name)) {
+              return;
+            }
+            usedNames.add(name);
+
+            peripherals.push({
+              name,
+              module,
+              group,
+              baseAddress: placement.baseAddress + firstOffset,
+              firstOffset,
+              size: end - firstOffset,
+              derivedFrom,
+              interrupts: []
+            });
+            derivedFrom = derivedFrom ?? name;
+          });
+      });
+    });
+
+    return peripherals.sort((a, b) => a.baseAddress - b.baseAddress);
+  }
+
+  /**
+   * svd2rust expects interrupts inside peripherals; attach each one to the peripheral of its
+   * module instance (AVR8X/XMEGA), or to the peripheral whose name prefixes the vector name
+   * (classic AVR, e.g. USART_RX -> USART), or to CPU/the first peripheral. The reset vector
+   * (index 0) is not an interrupt and is left out.
+   */
+  private assignInterrupts(interrupts: DeviceInterrupt[], peripherals: SvdPeripheral[]): void {
+    if (peripherals.length === 0) {
+      return;
+    }
+
+    const byNameLength = [...peripherals].sort((a, b) => b.name.length - a.name.length);
+    const fallback = peripherals.find(p => p.name === 'CPU') || peripherals[0];
+
+    interrupts.filter(interrupt => interrupt.index > 0).forEach(interrupt => {
+      const instance = interrupt.moduleInstance && toIdentifier(interrupt.moduleInstance);
+      const vectorName = toIdentifier(interrupt.name);
+      const owner = (instance
+        ? peripherals.find(p => p.name === instance) || byNameLength.find(p => p.name.startsWith(`${instance}_`))
+        : byNameLength.find(p => vectorName === p.name || vectorName.startsWith(`${p.name}_`))
+          || byNameLength.find(p => vectorName.startsWith(p.module.name.toUpperCase())))
+        || fallback;
+      owner.interrupts.push(interrupt);
+    });
+  }
+
+  private generatePeripheral(peripheral: SvdPeripheral): string[] {
+    const lines: string[] = [];
+    const registers = [...peripheral.group.registers].sort((a, b) => a.offset - b.offset);
+
+    if (peripheral.derivedFrom) {
+      lines.push(`    <peripheral derivedFrom="${peripheral.derivedFrom}">`);
+      lines.push(`      <name>${peripheral.name}</name>`);
+      lines.push(`      <baseAddress>${this.hex(peripheral.baseAddress, 4)}</baseAddress>`);
+      lines.push(...this.generateInterrupts(peripheral));
+      lines.push('    </peripheral>');
+      return lines;
+    }
+
+    lines.push('    <peripheral>');
+    lines.push(`      <name>${peripheral.name}</name>`);
+    lines.push(`      <description>${this.escape(peripheral.group.caption || peripheral.module.caption)}</description>`);
+    lines.push(`      <groupName>${this.escape(toIdentifier(peripheral.module.name))}</groupName>`);
+    lines.push(`      <baseAddress>${this.hex(peripheral.baseAddress, 4)}</baseAddress>`);
+    lines.push('      <addressBlock>');
+    lines.push('        <offset>0x0</offset>');
+    lines.push(`        <size>${this.hex(peripheral.size)}</size>`);
+    lines.push('        <usage>registers</usage>');
+    lines.push('      </addressBlock>');
+
+    lines.push(...this.generateInterrupts(peripheral));
+
+    lines.push('      <registers>');
+    registers.forEach(register => {
+      lines.push(...this.generateRegister(register, peripheral));
+    });
+    lines.push('      </registers>');
+    lines.push('    </peripheral>');
+
+    return lines;
+  }
+
+  private generateInterrupts(peripheral: SvdPeripheral): string[] {
+    const lines: string[] = [];
+
+    peripheral.interrupts.forEach(interrupt => {
+      lines.push('      <interrupt>');
+      lines.push(`        <name>${this.getInterruptName(interrupt)}</name>`);
+      lines.push(`        <description>${this.escape(interrupt.caption)}</description>`);
+      lines.push(`        <value>${interrupt.index}</value>`);
+      lines.push('      </interrupt>');
+    });
+
+    return lines;
+  }
+
+  /**
+   * Interrupt names must be unique: names shared by several instances (PORT on PORTA and
+   * PORTB) are prefixed with their module instance, as for the vector names
+   */
+  private getInterruptName(interrupt: DeviceInterrupt): string {
+    const instance = interrupt.moduleInstance;
+    const prefixed = instance && !interrupt.name.toUpperCase().startsWith(`${instance.toUpperCase()}_`);
+    return toIdentifier(prefixed ? `${instance}_${interrupt.name}` : interrupt.name);
+  }
+
+  private generateRegister(register: DeviceRegister, peripheral: SvdPeripheral): string[] {
+    const lines: string[] = [];
+    const access = this.toAccess(register.readWrite);
+    const registerBits = register.size * 8;
+
+    lines.push('        <register>');
+    lines.push(`          <name>${toIdentifier(register.name)}</name>`);
+    lines.push(`          <description>${this.escape(register.caption)}</description>`);
+    lines.push(`          <addressOffset>${this.hex(register.offset - peripheral.firstOffset)}</addressOffset>`);
+    lines.push(`          <size>${registerBits}</size>`);
+    if (access) {
+      lines.push(`          <access>${access}</access>`);
+    }
+    lines.push(`          <resetValue>${this.hex(register.initval ?? 0)}</resetValue>`);
+    if (register.mask !== undefined) {
+      lines.push(`          <resetMask>${this.hex(register.mask)}</resetMask>`);
+    }
+
+    if (register.bitfields.length > 0) {
+      lines.push('          <fields>');
+      register.bitfields.forEach(bitfield => {
+        lines.push(...this.generateField(bitfield, peripheral.module.valueGroups));
+      });
+      lines.push('          </fields>');
+    }
+
+    lines.push('        </register>');
+    return lines;
+  }
+
+  private generateField(bitfield: DeviceRegisterBitfield, valueGroups: DeviceValueGroup[]): string[] {
+    const lines: string[] = [];
+    const access = this.toAccess(bitfield.readWrite);
+    const valueGroup = bitfield.values ? valueGroups.find(vg => vg.name === bitfield.values) : undefined;
+
+    lines.push('            <field>');
+    lines.push(`              <name>${toIdentifier(bitfield.name)}</name>`);
+    lines.push(`              <description>${this.escape(bitfield.caption)}</description>`);
+    lines.push(`              <bitOffset>${bitfield.bitOffset}</bitOffset>`);
+    lines.push(`              <bitWidth>${bitfield.bitWidth}</bitWidth>`);
+    if (access) {
+      lines.push(`              <access>${access}</access>`);
+    }
+
+    if (valueGroup) {
+      const maxValue = (1 << bitfield.bitWidth) - 1;
+      const usedNames = new Set<string>();
+
+      lines.push('              <enumeratedValues>');
+      lines.push(`                <name>${toIdentifier(valueGroup.name)}</name>`);
+      valueGroup.values
+        .filter(value => value.value <= maxValue)
+        .forEach(value => {
+          const name = toIdentifier(value.name);
+          if (usedNames.has(name)) {
+            return;
+          }
+          usedNames.add(name);
+
+          lines.push('                <enumeratedValue>');
+          lines.push(`                  <name>${name}</name>`);
+          lines.push(`                  <description>${this.escape(value.caption)}</description>`);
+          lines.push(`                  <value>${this.hex(value.value)}</value>`);
+          lines.push('                </enumeratedValue>');
+        });
+      lines.push('              </enumeratedValues>');
+    }
+
+    lines.push('            </field>');
+    return lines;
+  }
+
+  private generateMemorySegments(device: AtPackDevice): string[] {
+    const segments = device.memory.allSegments || [];
+    if (segments.length === 0) {
+      return [];
+    }
+
+    const lines: string[] = ['  <vendorExtensions>', '    <memorySegments>'];
+    segments.forEach(segment => {
+      const attributes = [
+        `name="${this.escape(segment.name)}"`,
+        `start="${this.hex(segment.start, 4)}"`,
+        `size="${this.hex(segment.size, 4)}"`,
+        segment.type ? `type="${this.escape(segment.type)}"` : '',
+        segment.pageSize ? `pageSize="${segment.pageSize}"` : '',
+        segment.parentAddressSpace ? `addressSpace="${this.escape(segment.parentAddressSpace)}"` : ''
+      ].filter(Boolean).join(' ');
+      lines.push(`      <segment ${attributes}/>`);
+    });
+    lines.push('    </memorySegments>', '  </vendorExtensions>');
+
+    return lines;
+  }
+
+  /**
+   * Map ATDF access flags ('R', 'W', 'RW') to SVD access types
+   */
+  private toAccess(readWrite: string | undefined): string | null {
+    switch (readWrite?.toUpperCase()) {
+      case 'R': return 'read-only';
+      case 'W': return 'write-only';
+      case 'RW': return 'read-write';
+      default: return null;
+    }
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private hex(value: number, width: number = 2): string {
+    return `0x${value.toString(16).toUpperCase().padStart(width, '0')}`;
+  }
+}
@@ -0,0 +1,176 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { VectorTableGenerator } from './VectorTableGenerator';
+import { AtPackParser } from '../AtPackParser';
+import { AtPackParseError } from '../../types/atpack';
+import type { AtPackDevice } from '../../types/atpack';
+import { APP_NAME, APP_VERSION } from '../../utils/version';
+
+const AVR_PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="AVR_DFP">
+  <description>Microchip AVR Device Support</description>
+  <releases><release version="1.0.0">ATmega328P, ATtiny85, ATtiny1614</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+    </family>
+    <family Dfamily="ATtiny" Dvendor="Microchip:3">
+      <device Dname="ATtiny85"><processor Dcore="AVR8"/></device>
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+const PIC_PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4">
+  <vendor>Microchip</vendor>
+  <name>PIC_DFP</name>
+  <description>Microchip PIC Device Support</description>
+  <releases><release version="1.6.156">PIC16F1847, PIC18F45K22</release></releases>
+  <devices>
+    <family Dfamily="PIC" Dvendor="Microchip:3">
+      <device Dname="PIC16F1847"><processor Dcore="PIC16"/></device>
+      <device Dname="PIC18F45K22"><processor Dcore="PIC18"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: 32 KB of flash and the first vectors
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <address-spaces>
+        <address-space endianness="little" name="prog" id="prog" start="0x0000" size="0x8000">
+          <memory-segment start="0x0000" size="0x8000" type="flash" rw="RW" exec="1" name="FLASH" pagesize="0x80"/>
+        </address-space>
+      </address-spaces>
+      <interrupts>
+        <interrupt index="0" name="RESET" caption="External Pin, Power-on Reset, Brown-out Reset and Watchdog Reset"/>
+        <interrupt index="1" name="INT0" caption="External Interrupt Request 0"/>
+        <interrupt index="3" name="PCINT0" caption="Pin Change Interrupt Request 0"/>
+      </interrupts>
+    </device>
+  </devices>
+</avr-tools-device-file>`;
+
+// Excerpt of ATtiny85.atdf: 8 KB of flash, within reach of RJMP
+const ATTINY85_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny85" architecture="AVR8" family="tinyAVR">
+      <address-spaces>
+        <address-space endianness="little" name="prog" id="prog" start="0x0000" size="0x2000">
+          <memory-segment start="0x0000" size="0x2000" type="flash" rw="RW" exec="1" name="FLASH" pagesize="0x40"/>
+        </address-space>
+      </address-spaces>
+      <interrupts>
+        <interrupt index="0" name="RESET" caption="External Pin, Power-on Reset, Brown-out Reset, Watchdog Reset"/>
+        <interrupt index="1" name="INT0" caption="External Interrupt 0"/>
+        <interrupt index="2" name="PCINT0" caption="Pin change Interrupt Request 0"/>
+      </interrupts>
+    </device>
+  </devices>
+</avr-tools-device-file>`;
+
+// Excerpt of ATtiny1614.atdf: interrupt names that leave out the module instance
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <address-spaces>
+        <address-space endianness="little" name="prog" id="prog" start="0x0000" size="0x4000">
+          <memory-segment start="0x0000" size="0x4000" type="flash" rw="RW" exec="1" name="PROGMEM" pagesize="0x40"/>
+        </address-space>
+      </address-spaces>
+      <interrupts>
+        <interrupt index="0" name="RESET" caption="Reset"/>
+        <interrupt index="1" name="NMI" module-instance="CRCSCAN" caption="Non-maskable Interrupt from CRC"/>
+        <interrupt index="3" name="PORT" module-instance="PORTA" caption="Interrupt Request 0"/>
+        <interrupt index="22" name="RXC" module-instance="USART0" caption="Receive Complete Interrupt"/>
+      </interrupts>
+    </device>
+  </devices>
+</avr-tools-device-file>`;
+
+describe('VectorTableGenerator', () => {
+  const generator = new VectorTableGenerator();
+  const devices: Record<string, AtPackDevice> = {};
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    const files: Record<string, string> = {
+      ATmega328P: ATMEGA328P_ATDF,
+      ATtiny85: ATTINY85_ATDF,
+      ATtiny1614: ATTINY1614_ATDF
+    };
+    parser.parseArchivePdsc(AVR_PDSC).devices.forEach(device => {
+      parser.enrichDevice(device, files[device.name]);
+      devices[device.name] = device;
+    });
+    parser.parseArchivePdsc(PIC_PDSC).devices.forEach(device => {
+      devices[device.name] = device;
+    });
+  });
+
+  it('uses RJMP vectors up to 8 KB of flash and JMP vectors above', () => {
+    expect(generator.getVectorSize(devices.ATtiny85)).toBe(2);
+    expect(generator.getVectorSize(devices.ATmega328P)).toBe(4);
+    expect(generator.getVectorTable(devices.ATtiny85).map(vector => vector.address)).toEqual([0x0, 0x2, 0x4]);
+    expect(generator.getVectorTable(devices.ATmega328P).map(vector => vector.address)).toEqual([0x0, 0x4, 0xC]);
+  });
+
+  it('names the handlers as avr-libc does', () => {
+    expect(generator.getVectorTable(devices.ATmega328P).map(vector => vector.handler))
+      .toEqual(['RESET_vect', 'INT0_vect', 'PCINT0_vect']);
+    expect(generator.getVectorTable(devices.ATtiny1614).map(vector => vector.handler))
+      .toEqual(['RESET_vect', 'CRCSCAN_NMI_vect', 'PORTA_PORT_vect', 'USART0_RXC_vect']);
+  });
+
+  it('generates weak AVR handlers for every vector but reset', () => {
+    const lines = generator.generateC(devices.ATtiny1614).split('\n');
+
+    expect(lines.slice(0, 8)).toEqual([
+      '/*',
+      ' * Interrupt vectors for ATtiny1614 (ATtiny, AVRXT)',
+      ` * Generated by ${APP_NAME} ${APP_VERSION} from the device pack description.`,
+      ' * 4-byte vectors from 0x0000',
+      ' */',
+      '',
+      '#include <avr/io.h>',
+      '#include <avr/interrupt.h>'
+    ]);
+    expect(lines).toContain('/* 22 @ 0x0058: Receive Complete Interrupt */');
+    expect(lines).toContain('ISR(USART0_RXC_vect, __attribute__((weak)))');
+    expect(lines).not.toContain('ISR(RESET_vect, __attribute__((weak)))');
+    expect(lines.slice(-5)).toEqual(['/* Interrupts without a handler */', 'ISR(BADISR_vect)', '{', '}', '']);
+  });
+
+  it('generates an avr-gcc vector table with weak handlers', () => {
+    const lines = generator.generateAssembly(devices.ATtiny85).split('\n');
+
+    expect(lines).toContain('__vectors:');
+    expect(lines).toContain('    rjmp __init       ;   0 @ 0x0000  RESET');
+    expect(lines).toContain('    rjmp __vector_2   ;   2 @ 0x0004  PCINT0 (PCINT0_vect)');
+    expect(lines).toContain('    .set __vector_2, __bad_interrupt');
+    expect(generator.generateAssembly(devices.ATmega328P).split('\n'))
+      .toContain('    jmp  __vector_2   ;   2 @ 0x0008  unused');
+  });
+
+  it('gives PIC devices their fixed XC8 vectors', () => {
+    expect(generator.getVectorTable(devices.PIC16F1847)).toEqual([
+      { index: 0, name: 'isr', caption: 'Interrupt', handler: '__interrupt()', address: 0x0004 }
+    ]);
+    const lines = generator.generateC(devices.PIC18F45K22).split('\n');
+
+    expect(lines).toContain('#include <xc.h>');
+    expect(lines).toContain('void __interrupt(low_priority) low_isr(void)');
+    expect(lines).toContain('/* 0x0018: Low priority interrupt, test the interrupt flags here */');
+    expect(() => generator.generateAssembly(devices.PIC16F1847))
+      .toThrow(new AtPackParseError('No assembly startup file for PIC device PIC16F1847, use the XC8 C skeleton'));
+  });
+});
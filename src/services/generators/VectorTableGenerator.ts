@@ -0,0 +1,190 @@
+import type { AtPackDevice } from '../../types/atpack';
+import { AtPackParseError, DeviceFamily } from '../../types/atpack';
+import { APP_NAME, APP_VERSION } from '../../utils/version';
+import { toIdentifier } from '../../utils/registerLayout';
+
+export interface InterruptVector {
+  index: number;
+  name: string;
+  caption: string;
+  handler: string; // avr-libc vector name (USART_RX_vect) or XC8 interrupt qualifier
+  address: number; // Byte address in flash
+}
+
+// Flash sizes above 8 KB need JMP (4 bytes) instead of RJMP (2 bytes) to reach every address
+const RJMP_FLASH_LIMIT = 8 * 1024;
+
+// Fixed PIC interrupt vectors (byte addresses), named after their XC8 handler functions
+const PIC16_VECTORS = [{ name: 'isr', caption: 'Interrupt', handler: '__interrupt()', address: 0x0004 }];
+const PIC18_VECTORS = [
+  { name: 'high_isr', caption: 'High priority interrupt', handler: '__interrupt(high_priority)', address: 0x0008 },
+  { name: 'low_isr', caption: 'Low priority interrupt', handler: '__interrupt(low_priority)', address: 0x0018 }
+];
+
+/**
+ * Generates interrupt vector tables and interrupt handler skeletons.
+ *
+ * AVR vectors are 2 bytes (RJMP) on devices with up to 8 KB of flash and 4 bytes (JMP)
+ * above, and on XMEGA; vector N sits at N × vector size from the start of flash. Handler
+ * names follow avr-libc (`USART_RX_vect`), with the module instance prefixed on AVR8X and
+ * XMEGA devices whose interrupt names do not carry it (`USART0_RXC_vect`). PIC devices get
+ * XC8 `__interrupt()` handlers for their fixed vectors (one on PIC10/12/16, high and low
+ * priority on PIC18).
+ */
+export class VectorTableGenerator {
+
+  /**
+   * Size of one vector in bytes (0 for PIC devices, whose vectors are at fixed addresses)
+   */
+  getVectorSize(device: AtPackDevice): number {
+    if (this.isPic(device)) {
+      return 0;
+    }
+    return device.architecture.toUpperCase().includes('XMEGA') || device.memory.flash.size > RJMP_FLASH_LIMIT ? 4 : 2;
+  }
+
+  /**
+   * Vectors of a device with their flash addresses, in vector order
+   */
+  getVectorTable(device: AtPackDevice): InterruptVector[] {
+    if (this.isPic(device)) {
+      return (this.isPic18(device) ? PIC18_VECTORS : PIC16_VECTORS).map((vector, index) => ({ index, ...vector }));
+    }
+
+    const vectorSize = this.getVectorSize(device);
+    return [...device.interrupts]
+      .sort((a, b) => a.index - b.index)
+      .map(interrupt => ({
+        index: interrupt.index,
+        name: interrupt.name,
+        caption: interrupt.caption,
+        handler: this.getVectorName(device, interrupt.name, interrupt.moduleInstance),
+        address: device.memory.flash.start + interrupt.index * vectorSize
+      }));
+  }
+
+  /**
+   * Generate a C file with a weak, empty handler per interrupt (XC8 handlers for PIC devices)
+   */
+  generateC(device: AtPackDevice): string {
+    const lines = this.header(device, '/*', ' *', ' */');
+
+    if (this.isPic(device)) {
+      lines.push('#include <xc.h>');
+      if (this.isPic18(device)) {
+        lines.push('');
+        lines.push('/* Priorities apply when IPEN is set, otherwise every interrupt uses the high priority vector */');
+      }
+      this.getVectorTable(device).forEach(vector => {
+        lines.push('');
+        lines.push(`/* ${this.hex(vector.address)}: ${vector.caption}, test the interrupt flags here */`);
+        lines.push(`void ${vector.handler} ${vector.name}(void)`);
+        lines.push('{');
+        lines.push('}');
+      });
+      lines.push('');
+      return lines.join('\n');
+    }
+
+    lines.push('#include <avr/io.h>');
+    lines.push('#include <avr/interrupt.h>');
+    this.getVectorTable(device)
+      .filter(vector => vector.index > 0)
+      .forEach(vector => {
+        lines.push('');
+        lines.push(`/* ${vector.index} @ ${this.hex(vector.address)}: ${this.sanitizeComment(vector.caption || vector.name)} */`);
+        lines.push(`ISR(${vector.handler}, __attribute__((weak)))`);
+        lines.push('{');
+        lines.push('}');
+      });
+    lines.push('');
+    lines.push('/* Interrupts without a handler */');
+    lines.push('ISR(BADISR_vect)');
+    lines.push('{');
+    lines.push('}');
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate an avr-gcc startup file (.S, for -nostartfiles builds) with the vector table;
+   * every vector jumps to a weak __vector_N handler defaulting to __bad_interrupt
+   */
+  generateAssembly(device: AtPackDevice): string {
+    if (this.isPic(device)) {
+      throw new AtPackParseError(`No assembly startup file for PIC device ${device.name}, use the XC8 C skeleton`);
+    }
+
+    const vectors = this.getVectorTable(device);
+    const byIndex = new Map(vectors.map(vector => [vector.index, vector]));
+    const count = Math.max(0, ...vectors.map(vector => vector.index)) + 1;
+    const jump = this.getVectorSize(device) === 4 ? 'jmp ' : 'rjmp';
+    const lines = this.header(device, ';', ';', ';');
+
+    lines.push('    .section .vectors,"ax",@progbits');
+    lines.push('    .global __vectors');
+    lines.push('    .type __vectors, @function');
+    lines.push('__vectors:');
+    for (let index = 0; index < count; index++) {
+      const vector = byIndex.get(index);
+      const target = index === 0 ? '__init' : `__vector_${index}`;
+      const comment = vector ? `${vector.name}${index > 0 ? ` (${vector.handler})` : ''}` : 'unused';
+      lines.push(`    ${jump} ${target.padEnd(12)} ; ${String(index).padStart(3)} @ ${this.hex(device.memory.flash.start + index * this.getVectorSize(device))}  ${comment}`);
+    }
+
+    lines.push('');
+    lines.push('    .text');
+    for (let index = 1; index < count; index++) {
+      lines.push(`    .weak __vector_${index}`);
+      lines.push(`    .set __vector_${index}, __bad_interrupt`);
+    }
+
+    lines.push('');
+    lines.push('; __init (reset) is provided by the application: set up the stack and call main');
+    lines.push('    .global __bad_interrupt');
+    lines.push('__bad_interrupt:');
+    lines.push(`    ${jump} __vectors`);
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  private getVectorName(device: AtPackDevice, name: string, moduleInstance?: string): string {
+    // Classic AVR interrupt names are used as they are
+    const classic = ['AVR8', 'AVR8L'].includes(device.architecture.toUpperCase());
+    const prefixed = moduleInstance && !classic
+      && !name.toUpperCase().startsWith(`${moduleInstance.toUpperCase()}_`);
+    return `${toIdentifier(prefixed ? `${moduleInstance}_${name}` : name)}_vect`;
+  }
+
+  private header(device: AtPackDevice, open: string, line: string, close: string): string[] {
+    const lines = [
+      open,
+      `${line} Interrupt vectors for ${device.name} (${device.family}, ${device.architecture})`,
+      `${line} Generated by ${APP_NAME} ${APP_VERSION} from the device pack description.`
+    ];
+    if (!this.isPic(device)) {
+      lines.push(`${line} ${this.getVectorSize(device)}-byte vectors from ${this.hex(device.memory.flash.start)}`);
+    }
+    lines.push(close);
+    lines.push('');
+    return lines;
+  }
+
+  private isPic(device: AtPackDevice): boolean {
+    return device.deviceFamily === DeviceFamily.PIC;
+  }
+
+  private isPic18(device: AtPackDevice): boolean {
+    return /^PIC18/i.test(device.name);
+  }
+
+  private hex(value: number): string {
+    return `0x${value.toString(16).toUpperCase().padStart(4, '0')}`;
+  }
+
+  private sanitizeComment(text: string): string {
+    return text.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+  }
+}
@@ -8,6 +8,9 @@ import type {
   FuseBitValue,
   LockbitConfig,
   DeviceModule,
+  DeviceInstanceRegisterGroup,
+  DeviceInstanceSignal,
+  DeviceInstanceParameter,
   DeviceInterrupt,
   DeviceElectricalParameters,
   ElectricalParameter
@@ -517,6 +520,10 @@ export class AtdfParser extends BaseParser {
         name: instanceName,
         type: caption || moduleName,
         instance: instanceName,
+        module: moduleName,
+        registerGroups: this.parseInstanceRegisterGroups(instance),
+        signals: this.parseInstanceSignals(instance),
+        parameters: this.parseInstanceParameters(instance),
         registers: []
       });
     });
@@ -524,6 +531,71 @@ export class AtdfParser extends BaseParser {
     return modules.sort((a, b) => a.name.localeCompare(b.name));
   }
 
+  /**
+   * Parse where an instance places its module register groups (base offset and address space)
+   */
+  private parseInstanceRegisterGroups(instance: Element): DeviceInstanceRegisterGroup[] {
+    const registerGroups: DeviceInstanceRegisterGroup[] = [];
+
+    instance.querySelectorAll(':scope > register-group').forEach(groupElement => {
+      const name = this.getAttr(groupElement, 'name');
+      if (!name) {
+        return;
+      }
+
+      registerGroups.push({
+        name,
+        nameInModule: this.getAttr(groupElement, 'name-in-module', name),
+        offset: this.getAttrHex(groupElement, 'offset'),
+        addressSpace: this.getAttr(groupElement, 'address-space', 'data'),
+        caption: this.getAttr(groupElement, 'caption') || undefined
+      });
+    });
+
+    return registerGroups;
+  }
+
+  private parseInstanceSignals(instance: Element): DeviceInstanceSignal[] {
+    const signals: DeviceInstanceSignal[] = [];
+
+    instance.querySelectorAll(':scope > signals > signal').forEach(signalElement => {
+      const group = this.getAttr(signalElement, 'group');
+      const pad = this.getAttr(signalElement, 'pad');
+      if (!group || !pad) {
+        return;
+      }
+
+      const indexStr = this.getAttr(signalElement, 'index');
+      signals.push({
+        group,
+        function: this.getAttr(signalElement, 'function', 'default'),
+        pad,
+        index: indexStr ? this.parseInt(indexStr) : undefined
+      });
+    });
+
+    return signals;
+  }
+
+  private parseInstanceParameters(instance: Element): DeviceInstanceParameter[] {
+    const parameters: DeviceInstanceParameter[] = [];
+
+    instance.querySelectorAll(':scope > parameters > param').forEach(paramElement => {
+      const name = this.getAttr(paramElement, 'name');
+      if (!name) {
+        return;
+      }
+
+      parameters.push({
+        name,
+        value: this.getAttr(paramElement, 'value'),
+        caption: this.getAttr(paramElement, 'caption') || undefined
+      });
+    });
+
+    return parameters;
+  }
+
   private parseInterrupts(atdfDoc: Document): DeviceInterrupt[] {
     const interrupts: DeviceInterrupt[] = [];
     console.log('Parsing interrupts from ATDF using XPath...');
@@ -544,12 +616,14 @@ export class AtdfParser extends BaseParser {
       const index = this.getAttrInt(interrupt, 'index');
       const name = this.getAttr(interrupt, 'name');
       const caption = this.getAttr(interrupt, 'caption');
+      const moduleInstance = this.getAttr(interrupt, 'module-instance') || undefined;
       
       if (name) {
         interrupts.push({
           index,
           name,
-          caption
+          caption,
+          moduleInstance
         });
       }
       
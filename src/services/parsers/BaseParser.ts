@@ -51,7 +51,8 @@ export abstract class BaseParser {
    */
   protected async loadZipFromFile(file: File): Promise<JSZip> {
     const zip = new JSZip();
-    return await zip.loadAsync(file);
+    // Read through arrayBuffer() so this also works outside the browser (no FileReader)
+    return await zip.loadAsync(await file.arrayBuffer());
   }
 
   /**
@@ -63,27 +64,6 @@ export abstract class BaseParser {
     ) || null;
   }
 
-  /**
-   * Find ATDF file for a specific device in ZIP archive
-   */
-  protected findAtdfFile(zipContent: JSZip, deviceName: string): string | null {
-    // Look for exact match first
-    let atdfFileName = Object.keys(zipContent.files).find(fileName => 
-      fileName.includes(`${deviceName}.atdf`) && !zipContent.files[fileName].dir
-    );
-    
-    if (!atdfFileName) {
-      // If not found, look for any ATDF file (fallback)
-      const allAtdfFiles = Object.keys(zipContent.files).filter(fileName => 
-        fileName.endsWith('.atdf') && !zipContent.files[fileName].dir
-      );
-      console.log('Available ATDF files:', allAtdfFiles.map(f => f.split('/').pop()).join(', '));
-      return null;
-    }
-    
-    return atdfFileName;
-  }
-
   /**
    * Extract file content from ZIP
    */
@@ -130,4 +110,83 @@ export abstract class BaseParser {
   protected getAttrHex(element: Element, name: string): number {
     return this.parseHex(element.getAttribute(name));
   }
+
+  /**
+   * Find a bitfield of a register in the ATDF module definitions, optionally in one module,
+   * with the module-qualified register name (CPU.CLKPR)
+   */
+  protected findBitfield(doc: Document, registerName: string, bitfieldName: string, moduleName?: string): { bitfield: Element; register: string } | null {
+    const module = moduleName ? `[@name='${moduleName}']` : '';
+    const xpath = `//modules/module${module}//register[@name='${registerName}']/bitfield[@name='${bitfieldName}']`;
+    const result = doc.evaluate(xpath, doc, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+    const bitfield = result.singleNodeValue as Element | null;
+    if (!bitfield) {
+      return null;
+    }
+    return { bitfield, register: this.getRegisterPath(doc, bitfield.parentNode as Element) };
+  }
+
+  /**
+   * Module-qualified name of an ATDF register (CLKCTRL.MCLKCTRLB)
+   */
+  protected getRegisterPath(doc: Document, register: Element): string {
+    const moduleResult = doc.evaluate('ancestor::module[1]/@name', register, null, XPathResult.STRING_TYPE, null);
+    const registerName = register.getAttribute('name') || '';
+    return moduleResult.stringValue ? `${moduleResult.stringValue}.${registerName}` : registerName;
+  }
+
+  /**
+   * Values of the value group of an ATDF bitfield, looked up in the bitfield's module
+   */
+  protected getBitfieldValues(doc: Document, bitfield: Element): { name: string; caption: string; value: number }[] {
+    const groupName = bitfield.getAttribute('values');
+    if (!groupName) {
+      return [];
+    }
+
+    const xpath = `ancestor::module[1]/value-group[@name='${groupName}']/value`;
+    const result = doc.evaluate(xpath, bitfield, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+    const values: { name: string; caption: string; value: number }[] = [];
+    for (let i = 0; i < result.snapshotLength; i++) {
+      const valueNode = result.snapshotItem(i) as Element;
+      values.push({
+        name: valueNode.getAttribute('name') || '',
+        caption: valueNode.getAttribute('caption') || '',
+        value: this.parseHex(valueNode.getAttribute('value'))
+      });
+    }
+    return values;
+  }
+
+  /**
+   * Position of the lowest bit of a bitfield mask
+   */
+  protected maskShift(mask: number): number {
+    let shift = 0;
+    while (mask > 0 && (mask & (1 << shift)) === 0) {
+      shift++;
+    }
+    return shift;
+  }
+
+  /**
+   * Extract a frequency in Hz from caption text ("20 MHz", "32.768kHz")
+   */
+  protected extractFrequency(caption: string): number | undefined {
+    const matches = caption.match(/(\d+(?:\.\d+)?)\s*(MHz|KHz|Hz)/i);
+    if (matches) {
+      const value = parseFloat(matches[1]);
+      const unit = matches[2].toLowerCase();
+      
+      switch (unit) {
+        case 'mhz':
+          return value * 1000000;
+        case 'khz':
+          return value * 1000;
+        case 'hz':
+          return value;
+      }
+    }
+    return undefined;
+  }
 }
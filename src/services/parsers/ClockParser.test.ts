@@ -0,0 +1,214 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ClockParser } from './ClockParser';
+
+const parseAtdf = (modules: string): Document => {
+  return new DOMParser().parseFromString(
+    `<?xml version="1.0" encoding="UTF-8"?><avr-tools-device-file><modules>${modules}</modules></avr-tools-device-file>`,
+    'text/xml'
+  );
+};
+
+// Excerpt of ATmega328P.atdf: CLKPR with the generic VAL_ names and bare number captions
+const ATMEGA328P_CPU = `
+  <module caption="CPU Registers" name="CPU">
+    <register-group caption="CPU Registers" name="CPU">
+      <register caption="Clock Prescale Register" name="CLKPR" offset="0x61" size="1" mask="0x8F">
+        <bitfield caption="Clock Prescaler Change Enable" mask="0x80" name="CLKPCE"/>
+        <bitfield caption="Clock Prescaler Select Bits" mask="0x0F" name="CLKPS" values="CPU_CLK_PRESCALE_4_BITS_SMALL"/>
+      </register>
+    </register-group>
+    <value-group caption="" name="CPU_CLK_PRESCALE_4_BITS_SMALL">
+      <value caption="1" name="VAL_0x00" value="0x00"/>
+      <value caption="2" name="VAL_0x01" value="0x01"/>
+      <value caption="4" name="VAL_0x02" value="0x02"/>
+      <value caption="8" name="VAL_0x03" value="0x03"/>
+      <value caption="16" name="VAL_0x04" value="0x04"/>
+      <value caption="32" name="VAL_0x05" value="0x05"/>
+      <value caption="64" name="VAL_0x06" value="0x06"/>
+      <value caption="128" name="VAL_0x07" value="0x07"/>
+      <value caption="256" name="VAL_0x08" value="0x08"/>
+    </value-group>
+  </module>`;
+
+// Excerpt of ATtiny1614.atdf: MCLKCTRLB with the prescaler enable and division
+const ATTINY1614_CLKCTRL = `
+  <module caption="Clock controller" name="CLKCTRL">
+    <register-group caption="Clock controller" name="CLKCTRL" size="0x20">
+      <register caption="MCLK Control B" name="MCLKCTRLB" offset="0x01" size="1" mask="0x1F" initval="0x11">
+        <bitfield caption="Prescaler division" mask="0x1E" name="PDIV" values="CLKCTRL_PDIV"/>
+        <bitfield caption="Prescaler enable" mask="0x01" name="PEN"/>
+      </register>
+    </register-group>
+    <value-group caption="" name="CLKCTRL_PDIV">
+      <value caption="2X" name="2X" value="0x0"/>
+      <value caption="4X" name="4X" value="0x1"/>
+      <value caption="8X" name="8X" value="0x2"/>
+      <value caption="16X" name="16X" value="0x3"/>
+      <value caption="32X" name="32X" value="0x4"/>
+      <value caption="64X" name="64X" value="0x5"/>
+      <value caption="6X" name="6X" value="0x8"/>
+      <value caption="10X" name="10X" value="0x9"/>
+      <value caption="12X" name="12X" value="0xA"/>
+      <value caption="24X" name="24X" value="0xB"/>
+      <value caption="48X" name="48X" value="0xC"/>
+    </value-group>
+  </module>`;
+
+// Excerpt of ATxmega128A1U.atdf: the PSCTRL prescaler A and the PLL factor written as a number
+const ATXMEGA128A1U_CLK = `
+  <module caption="Clock System" name="CLK">
+    <register-group caption="Clock System" name="CLK">
+      <register caption="Prescaler Control Register" name="PSCTRL" offset="0x01" size="1" mask="0x7F">
+        <bitfield caption="Prescaler A Division Factor" mask="0x7C" name="PSADIV" values="CLK_PSADIV"/>
+        <bitfield caption="Prescaler B and C Division Factor" mask="0x03" name="PSBCDIV" values="CLK_PSBCDIV"/>
+      </register>
+    </register-group>
+    <value-group caption="Prescaler A Division Factor" name="CLK_PSADIV">
+      <value caption="Divide by 1" name="1" value="0x00"/>
+      <value caption="Divide by 2" name="2" value="0x01"/>
+      <value caption="Divide by 4" name="4" value="0x03"/>
+      <value caption="Divide by 512" name="512" value="0x09"/>
+    </value-group>
+  </module>
+  <module caption="Oscillator" name="OSC">
+    <register-group caption="Oscillator" name="OSC">
+      <register caption="PLL Control Register" name="PLLCTRL" offset="0x05" size="1" mask="0xDF">
+        <bitfield caption="Clock Source" mask="0xC0" name="PLLSRC" values="OSC_PLLSRC"/>
+        <bitfield caption="Multiplication Factor" mask="0x1F" name="PLLFAC"/>
+      </register>
+    </register-group>
+    <value-group caption="PLL Clock Source" name="OSC_PLLSRC">
+      <value caption="Internal 2 MHz RC Oscillator" name="RC2M" value="0x00"/>
+      <value caption="Internal 32 MHz RC Oscillator" name="RC32M" value="0x02"/>
+      <value caption="External Clock Source" name="XOSC" value="0x03"/>
+    </value-group>
+  </module>`;
+
+// Excerpt of ATmega32U4.atdf: a PLL selected by output frequency, with a PLL input divider bit
+const ATMEGA32U4_PLL = `
+  <module caption="Phase Locked Loop" name="PLL">
+    <register-group caption="Phase Locked Loop" name="PLL">
+      <register caption="PLL Status and Control register" name="PLLCSR" offset="0x49" size="1" mask="0x13">
+        <bitfield caption="PLL prescaler Bit 2" mask="0x10" name="PINDIV"/>
+        <bitfield caption="PLL Enable Bit" mask="0x02" name="PLLE"/>
+        <bitfield caption="PLL Lock Status Bit" mask="0x01" name="PLOCK"/>
+      </register>
+      <register caption="PLL Frequency Control Register" name="PLLFRQ" offset="0x52" size="1" mask="0xFF">
+        <bitfield caption="PLL Lock Frequency" mask="0x0F" name="PDIV" values="PLL_PDIV"/>
+      </register>
+    </register-group>
+    <value-group caption="" name="PLL_PDIV">
+      <value caption="40 MHz" name="VAL_0x03" value="0x03"/>
+      <value caption="48 MHz" name="VAL_0x04" value="0x04"/>
+      <value caption="96 MHz" name="VAL_0x0A" value="0x0A"/>
+    </value-group>
+  </module>`;
+
+// Excerpt of ATtiny85.atdf: a PLL without a factor selection
+const ATTINY85_PLL = `
+  <module caption="PLL" name="PLL">
+    <register-group caption="PLL" name="PLL">
+      <register caption="PLL Control and status register" name="PLLCSR" offset="0x47" size="1" mask="0x87">
+        <bitfield caption="PLL Enable" mask="0x02" name="PLLE"/>
+      </register>
+    </register-group>
+  </module>`;
+
+describe('ClockParser', () => {
+  const parser = new ClockParser();
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('system prescalers', () => {
+    it('names the classic CLKPS values after their division factor', () => {
+      const prescalers = parser.parseClockInfo(parseAtdf(ATMEGA328P_CPU)).systemPrescalers;
+
+      expect(prescalers).toHaveLength(9);
+      expect(prescalers[0]).toEqual({
+        name: 'CLKPS_DIV1', caption: 'System clock divided by 1', value: 0, divider: 1, register: 'CPU.CLKPR'
+      });
+      expect(prescalers[8]).toMatchObject({ name: 'CLKPS_DIV256', value: 8, divider: 256 });
+    });
+
+    it('lists the powers of two of a CLKPS field without a value group', () => {
+      const doc = parseAtdf(ATMEGA328P_CPU.replace(' values="CPU_CLK_PRESCALE_4_BITS_SMALL"', ''));
+      const prescalers = parser.parseClockInfo(doc).systemPrescalers;
+
+      expect(prescalers.map(prescaler => prescaler.name)).toEqual([
+        'DIV1', 'DIV2', 'DIV4', 'DIV8', 'DIV16', 'DIV32', 'DIV64', 'DIV128', 'DIV256'
+      ]);
+      expect(prescalers[3]).toEqual({ name: 'DIV8', caption: 'Division factor 8', value: 3, divider: 8, register: 'CPU.CLKPR' });
+    });
+
+    it('gives whole MCLKCTRLB values with the prescaler enabled on AVR8X devices', () => {
+      const prescalers = parser.parseClockInfo(parseAtdf(ATTINY1614_CLKCTRL)).systemPrescalers;
+
+      expect(prescalers.map(prescaler => [prescaler.name, prescaler.value, prescaler.divider])).toEqual([
+        ['NODIV', 0x00, 1],
+        ['2X', 0x01, 2],
+        ['4X', 0x03, 4],
+        ['6X', 0x11, 6],
+        ['8X', 0x05, 8],
+        ['10X', 0x13, 10],
+        ['12X', 0x15, 12],
+        ['16X', 0x07, 16],
+        ['24X', 0x17, 24],
+        ['32X', 0x09, 32],
+        ['48X', 0x19, 48],
+        ['64X', 0x0B, 64]
+      ]);
+      expect(prescalers.every(prescaler => prescaler.register === 'CLKCTRL.MCLKCTRLB')).toBe(true);
+    });
+
+    it('reads the XMEGA prescaler A', () => {
+      const prescalers = parser.parseClockInfo(parseAtdf(ATXMEGA128A1U_CLK)).systemPrescalers;
+
+      expect(prescalers.map(prescaler => [prescaler.value, prescaler.divider, prescaler.caption])).toEqual([
+        [0x00, 1, 'Divide by 1'],
+        [0x01, 2, 'Divide by 2'],
+        [0x03, 4, 'Divide by 4'],
+        [0x09, 512, 'Divide by 512']
+      ]);
+      expect(prescalers[0].register).toBe('CLK.PSCTRL');
+    });
+
+    it('leaves devices without a prescaler register without prescalers', () => {
+      expect(parser.parseClockInfo(parseAtdf(ATTINY85_PLL)).systemPrescalers).toEqual([]);
+    });
+  });
+
+  describe('PLL', () => {
+    it('lists the sources and numeric multiplication factors of the XMEGA PLL', () => {
+      const pllInfo = parser.parseClockInfo(parseAtdf(ATXMEGA128A1U_CLK)).pllInfo;
+
+      expect(pllInfo?.register).toBe('OSC.PLLCTRL');
+      expect(pllInfo?.sources?.map(source => source.name)).toEqual(['RC2M', 'RC32M', 'XOSC']);
+      expect(pllInfo?.multipliers).toHaveLength(31);
+      expect(pllInfo?.multipliers?.[15]).toEqual({ name: 'PLLFAC16', caption: 'Multiplication factor 16', value: 16, multiplier: 16 });
+    });
+
+    it('derives the factors of PLLs selected by output frequency from their 8 MHz input', () => {
+      const pllInfo = parser.parseClockInfo(parseAtdf(ATMEGA32U4_PLL)).pllInfo;
+
+      expect(pllInfo?.register).toBe('PLL.PLLFRQ');
+      expect(pllInfo?.multipliers?.map(multiplier => [multiplier.caption, multiplier.multiplier])).toEqual([
+        ['40 MHz', 5],
+        ['48 MHz', 6],
+        ['96 MHz', 12]
+      ]);
+      expect(pllInfo?.inputPrescalers).toEqual([
+        { name: 'PINDIV_0', caption: 'PLL input divided by 1', value: 0, divider: 1, register: 'PLL.PLLCSR' },
+        { name: 'PINDIV_1', caption: 'PLL input divided by 2', value: 1, divider: 2, register: 'PLL.PLLCSR' }
+      ]);
+    });
+
+    it('gives PLLs without a factor selection their fixed factor', () => {
+      expect(parser.parseClockInfo(parseAtdf(ATTINY85_PLL)).pllInfo).toMatchObject({ available: true, multiplier: 8 });
+      expect(parser.parseClockInfo(parseAtdf(ATMEGA328P_CPU)).pllInfo).toBeUndefined();
+    });
+  });
+});
@@ -1,11 +1,16 @@
 import { BaseParser } from './BaseParser';
-import type { ClockSource, ClockPrescaler, AdcReference, DeviceClockInfo } from '../../types/atpack';
+import { ClockTreeParser } from './ClockTreeParser';
+import type { ClockSource, ClockPrescaler, AdcReference, DeviceClockInfo, PllInfo, PllMultiplier, PllSource } from '../../types/atpack';
+
+// PLL input frequency of AVR PLLs selected by output frequency (ATmega32U4 PDIV)
+const PLL_INPUT_FREQUENCY = 8000000;
 
 /**
  * Parser for extracting clock configuration from ATDF files
  */
 export class ClockParser extends BaseParser {
-  
+  private clockTreeParser = new ClockTreeParser();
+
   /**
    * Parse clock configuration from ATDF document
    */
@@ -48,6 +53,9 @@ export class ClockParser extends BaseParser {
       
       // Parse PLL information if available
       clockInfo.pllInfo = this.parsePllInfo(doc);
+
+      // Parse the clock tree of CLKCTRL/XMEGA devices
+      clockInfo.clockTree = this.clockTreeParser.parseClockTree(doc);
       
       console.log(`Found ${clockInfo.sources.length} clock sources, ${clockInfo.systemPrescalers.length} system prescalers, ${clockInfo.adcReferences.length} ADC references, ${clockInfo.adcChannels.length} ADC channels`);
       
@@ -101,24 +109,63 @@ export class ClockParser extends BaseParser {
   }
 
   /**
-   * Parse system-level prescalers
+   * Parse system clock prescalers from the prescaler register of the device: CLKPR.CLKPS on
+   * classic AVR, CLKCTRL.MCLKCTRLB PEN/PDIV on AVR8X (tinyAVR 0/1/2, megaAVR 0, AVR Dx)
+   * and CLK.PSCTRL PSADIV on XMEGA. Values are bitfield values, except on AVR8X where they
+   * are whole MCLKCTRLB values (PEN with PDIV). Devices without a prescaler register get none.
    */
-  private parseSystemPrescalers(_doc: Document): ClockPrescaler[] {
-    const prescalers: ClockPrescaler[] = [];
-    
-    // Add default system prescalers (common AVR values)
-    const commonPrescalers = [1, 2, 4, 8, 16, 32, 64, 128, 256, 1024];
-    
-    commonPrescalers.forEach(divider => {
-      prescalers.push({
-        name: `CLKPR_DIV${divider}`,
-        caption: `System clock divided by ${divider}`,
-        value: Math.log2(divider),
-        divider
-      });
-    });
-    
-    return prescalers;
+  private parseSystemPrescalers(doc: Document): ClockPrescaler[] {
+    try {
+      // AVR8X: PDIV only applies when PEN is set, values are whole MCLKCTRLB values
+      const pdiv = this.findBitfield(doc, 'MCLKCTRLB', 'PDIV');
+      if (pdiv) {
+        const enable = this.findBitfield(doc, 'MCLKCTRLB', 'PEN');
+        const enableMask = enable ? this.parseHex(enable.bitfield.getAttribute('mask')) : 0x01;
+        const shift = this.maskShift(this.parseHex(pdiv.bitfield.getAttribute('mask')));
+        const prescalers: ClockPrescaler[] = [
+          { name: 'NODIV', caption: 'Prescaler disabled', value: 0, divider: 1, register: pdiv.register }
+        ];
+        this.getBitfieldValues(doc, pdiv.bitfield).forEach(option => {
+          const divider = this.extractDivider(option.caption, option.name);
+          if (divider > 0) {
+            prescalers.push({ ...option, value: (option.value << shift) | enableMask, divider, register: pdiv.register });
+          }
+        });
+        return prescalers.sort((a, b) => a.divider - b.divider);
+      }
+
+      const prescaler = this.findBitfield(doc, 'CLKPR', 'CLKPS') || this.findBitfield(doc, 'PSCTRL', 'PSADIV');
+      if (prescaler) {
+        const options = this.getBitfieldValues(doc, prescaler.bitfield);
+        if (options.length === 0) {
+          // CLKPS without a value group: division factors 1 to 256 as powers of two
+          const mask = this.parseHex(prescaler.bitfield.getAttribute('mask'));
+          const maxValue = Math.min(8, mask >> this.maskShift(mask));
+          for (let value = 0; value <= maxValue; value++) {
+            options.push({ name: `DIV${1 << value}`, caption: `Division factor ${1 << value}`, value });
+          }
+        }
+        // Classic value groups have generic names (VAL_0x03) and bare numbers as captions
+        const bitfieldName = prescaler.bitfield.getAttribute('name') || '';
+        return options
+          .map(option => {
+            const divider = this.extractDivider(option.caption, option.name);
+            return {
+              name: /^VAL_/.test(option.name) ? `${bitfieldName}_DIV${divider}` : option.name,
+              caption: /^\s*\d+\s*$/.test(option.caption) ? `System clock divided by ${divider}` : option.caption,
+              value: option.value,
+              divider,
+              register: prescaler.register
+            };
+          })
+          .filter(option => option.divider > 0)
+          .sort((a, b) => a.divider - b.divider);
+      }
+    } catch (error) {
+      console.warn('Error parsing system prescalers:', error);
+    }
+
+    return [];
   }
 
   /**
@@ -348,43 +395,84 @@ export class ClockParser extends BaseParser {
   }
 
   /**
-   * Parse PLL information if available
+   * Parse PLL information from the PLL registers: clock source (XMEGA PLLSRC, AVR Dx SOURCE,
+   * ATmega32U4 PINMUX), input prescaler (PINDIV, PLLP) and multiplication factor (AVR Dx
+   * MULFAC, XMEGA PLLFAC, ATmega32U4 PDIV output frequency)
    */
-  private parsePllInfo(doc: Document): { available: boolean; inputPrescalers: ClockPrescaler[]; multiplier?: number } | undefined {
+  private parsePllInfo(doc: Document): PllInfo | undefined {
     try {
-      const xpath = "//bitfield[contains(@name, 'PLL') or contains(@caption, 'PLL')]";
-      const pllNodesResult = doc.evaluate(xpath, doc, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
-      
-      if (pllNodesResult.snapshotLength > 0) {
-        const inputPrescalers: ClockPrescaler[] = [];
-        
-        // Look for PLL prescaler values
-        const prescalerXpath = "//value-group[contains(@name, 'PLL')]/value";
-        const valueNodesResult = doc.evaluate(prescalerXpath, doc, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
-        
-        for (let i = 0; i < valueNodesResult.snapshotLength; i++) {
-          const valueNode = valueNodesResult.snapshotItem(i) as Element;
-          const name = valueNode.getAttribute('name') || '';
-          const caption = valueNode.getAttribute('caption') || '';
-          const value = parseInt(valueNode.getAttribute('value') || '0', 16);
-          
-          const divider = this.extractPrescalerDivider(caption);
-          if (divider > 0) {
-            inputPrescalers.push({
-              name,
-              caption,
-              value,
-              divider
-            });
+      const xpath = "//modules/module//register[contains(@name, 'PLL')]";
+      const registerResult = doc.evaluate(xpath, doc, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      if (registerResult.snapshotLength === 0) {
+        return undefined;
+      }
+
+      const sources: PllSource[] = [];
+      const inputPrescalers: ClockPrescaler[] = [];
+      const multipliers: PllMultiplier[] = [];
+      let multiplierRegister: string | undefined;
+
+      for (let i = 0; i < registerResult.snapshotLength; i++) {
+        const register = registerResult.snapshotItem(i) as Element;
+        const registerName = this.getRegisterPath(doc, register);
+        const bitfields = Array.from(register.getElementsByTagName('bitfield'));
+
+        bitfields.forEach(bitfield => {
+          const name = bitfield.getAttribute('name') || '';
+          const mask = this.parseHex(bitfield.getAttribute('mask'));
+          const options = this.getBitfieldValues(doc, bitfield);
+
+          if (/^(MULFAC|PLLFAC|PDIV)$/.test(name)) {
+            multiplierRegister = registerName;
+            if (options.length > 0) {
+              options.forEach(option => {
+                const multiplier = this.extractMultiplier(option.caption, option.name);
+                if (multiplier > 0) {
+                  multipliers.push({ ...option, multiplier });
+                }
+              });
+            } else {
+              // Factor written as a number (XMEGA PLLFAC: 1 to 31)
+              for (let value = 1; value <= mask >> this.maskShift(mask); value++) {
+                multipliers.push({ name: `${name}${value}`, caption: `Multiplication factor ${value}`, value, multiplier: value });
+              }
+            }
+          } else if (/^(PLLSRC|SOURCE|PINMUX)$/.test(name)) {
+            sources.push(...options);
+          } else if (/^(PINDIV|PLLP)$/.test(name)) {
+            if (options.length > 0) {
+              options.forEach(option => {
+                const divider = this.extractDivider(option.caption, option.name);
+                if (divider > 0) {
+                  inputPrescalers.push({ ...option, divider, register: registerName });
+                }
+              });
+            } else {
+              // Single bit: input used as is, or divided by 2 (16 MHz crystal)
+              [1, 2].forEach((divider, value) => {
+                inputPrescalers.push({ name: `${name}_${value}`, caption: `PLL input divided by ${divider}`, value, divider, register: registerName });
+              });
+            }
           }
-        }
-        
-        return {
-          available: true,
-          inputPrescalers,
-          multiplier: 8 // Common PLL multiplier for AVR
-        };
+        });
+      }
+
+      const pllInfo: PllInfo = {
+        available: true,
+        register: multiplierRegister,
+        sources,
+        inputPrescalers: inputPrescalers.sort((a, b) => a.divider - b.divider),
+        multipliers: multipliers.sort((a, b) => a.multiplier - b.multiplier)
+      };
+
+      if (multipliers.length === 0) {
+        // PLLs without a factor selection multiply an 8 MHz input: to the 48 MHz USB clock on
+        // USB devices, to 64 MHz on ATtiny25/45/85, ATtiny261/461/861 and AT90PWM
+        const usbResult = doc.evaluate("//modules/module[starts-with(@name, 'USB')]", doc, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+        pllInfo.multiplier = usbResult.singleNodeValue ? 6 : 8;
       }
+
+      return pllInfo;
     } catch (error) {
       console.warn('Error parsing PLL info:', error);
     }
@@ -440,27 +528,6 @@ export class ClockParser extends BaseParser {
     }
   }
 
-  /**
-   * Extract frequency from caption text
-   */
-  private extractFrequency(caption: string): number | undefined {
-    const matches = caption.match(/(\d+(?:\.\d+)?)\s*(MHz|KHz|Hz)/i);
-    if (matches) {
-      const value = parseFloat(matches[1]);
-      const unit = matches[2].toLowerCase();
-      
-      switch (unit) {
-        case 'mhz':
-          return value * 1000000;
-        case 'khz':
-          return value * 1000;
-        case 'hz':
-          return value;
-      }
-    }
-    return undefined;
-  }
-
   /**
    * Extract startup time from caption text
    */
@@ -496,6 +563,40 @@ export class ClockParser extends BaseParser {
     return 0;
   }
 
+  /**
+   * Extract a prescaler division factor from a value: captions such as "8", "Divide by 8",
+   * "No division" or "CLK/8", or names such as "8X" or "DIV8"
+   */
+  private extractDivider(caption: string, name: string): number {
+    const divider = this.extractPrescalerDivider(caption);
+    if (divider > 0) {
+      return divider;
+    }
+
+    if (/no\s+division/i.test(caption)) {
+      return 1;
+    }
+
+    const match = caption.match(/^\s*(\d+)\s*X?\s*$/i)
+      || caption.match(/divide\s+by\s+(\d+)/i)
+      || name.match(/^(?:DIV)?(\d+)X?$/i);
+    return match ? parseInt(match[1]) : 0;
+  }
+
+  /**
+   * Extract a PLL multiplication factor from a value: "3 x multiplication factor", "3X",
+   * or an output frequency ("48 MHz") of the 8 MHz PLL input
+   */
+  private extractMultiplier(caption: string, name: string): number {
+    const match = caption.match(/(\d+)\s*[x×]/i) || name.match(/^(\d+)X$/i);
+    if (match) {
+      return parseInt(match[1]);
+    }
+
+    const frequency = this.extractFrequency(caption);
+    return frequency ? frequency / PLL_INPUT_FREQUENCY : 0;
+  }
+
   /**
    * Extract voltage information from caption text
    */
@@ -0,0 +1,219 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ClockTreeParser } from './ClockTreeParser';
+
+const parseAtdf = (modules: string): Document => {
+  return new DOMParser().parseFromString(
+    `<?xml version="1.0" encoding="UTF-8"?><avr-tools-device-file><modules>${modules}</modules></avr-tools-device-file>`,
+    'text/xml'
+  );
+};
+
+// Excerpt of ATtiny1614.atdf: main clock selection, the OSC20M frequency fuse and the RTC clock
+const ATTINY1614_MODULES = `
+  <module caption="Clock controller" name="CLKCTRL">
+    <register-group caption="Clock controller" name="CLKCTRL" size="0x20">
+      <register caption="MCLK Control A" name="MCLKCTRLA" offset="0x00" size="1" mask="0x83" initval="0x00">
+        <bitfield caption="System clock out" mask="0x80" name="CLKOUT"/>
+        <bitfield caption="clock select" mask="0x03" name="CLKSEL" values="CLKCTRL_CLKSEL"/>
+      </register>
+      <register caption="MCLK Control B" name="MCLKCTRLB" offset="0x01" size="1" mask="0x1F" initval="0x11">
+        <bitfield caption="Prescaler division" mask="0x1E" name="PDIV" values="CLKCTRL_PDIV"/>
+        <bitfield caption="Prescaler enable" mask="0x01" name="PEN"/>
+      </register>
+    </register-group>
+    <value-group caption="" name="CLKCTRL_CLKSEL">
+      <value caption="20MHz oscillator" name="OSC20M" value="0x0"/>
+      <value caption="32KHz oscillator" name="OSCULP32K" value="0x1"/>
+      <value caption="32.768kHz crystal oscillator" name="XOSC32K" value="0x2"/>
+      <value caption="External clock" name="EXTCLK" value="0x3"/>
+    </value-group>
+    <value-group caption="" name="CLKCTRL_PDIV">
+      <value caption="2X" name="2X" value="0x0"/>
+      <value caption="6X" name="6X" value="0x8"/>
+    </value-group>
+  </module>
+  <module caption="Fuses" name="FUSE">
+    <register-group caption="Fuses" name="FUSE" size="0xA">
+      <register caption="Oscillator Configuration" name="OSCCFG" offset="0x02" size="1" initval="0x02">
+        <bitfield caption="Frequency Select" mask="0x03" name="FREQSEL" values="FUSE_FREQSEL"/>
+        <bitfield caption="Oscillator Lock" mask="0x80" name="OSCLOCK"/>
+      </register>
+    </register-group>
+    <value-group caption="" name="FUSE_FREQSEL">
+      <value caption="16 MHz" name="16MHZ" value="0x1"/>
+      <value caption="20 MHz" name="20MHZ" value="0x2"/>
+    </value-group>
+  </module>
+  <module caption="Real-Time Counter" name="RTC">
+    <register-group caption="Real-Time Counter" name="RTC" size="0x20">
+      <register caption="Clock Select" name="CLKSEL" offset="0x07" size="1" mask="0x03" initval="0x00">
+        <bitfield caption="Clock Select" mask="0x03" name="CLKSEL" values="RTC_CLKSEL"/>
+      </register>
+    </register-group>
+    <value-group caption="" name="RTC_CLKSEL">
+      <value caption="Internal 32kHz OSC" name="INT32K" value="0x0"/>
+      <value caption="Internal 1kHz OSC" name="INT1K" value="0x1"/>
+      <value caption="32KHz Crystal OSC" name="TOSC32K" value="0x2"/>
+      <value caption="External Clock" name="EXTCLK" value="0x3"/>
+    </value-group>
+  </module>`;
+
+// Excerpt of AVR128DA48.atdf: the high-frequency oscillator with its frequency selection and auto-tune
+const AVR128DA48_CLKCTRL = `
+  <module caption="Clock controller" name="CLKCTRL">
+    <register-group caption="Clock controller" name="CLKCTRL" size="0x20">
+      <register caption="MCLK Control A" name="MCLKCTRLA" offset="0x00" size="1" mask="0x8F" initval="0x00">
+        <bitfield caption="Clock select" mask="0x0F" name="CLKSEL" values="CLKCTRL_CLKSEL"/>
+      </register>
+      <register caption="OSCHF Control A" name="OSCHFCTRLA" offset="0x08" size="1" mask="0xBD" initval="0x0C">
+        <bitfield caption="Run standby" mask="0x80" name="RUNSTDBY"/>
+        <bitfield caption="Frequency select" mask="0x3C" name="FREQSEL" values="CLKCTRL_FREQSEL"/>
+        <bitfield caption="Autotune" mask="0x01" name="AUTOTUNE"/>
+      </register>
+    </register-group>
+    <value-group caption="" name="CLKCTRL_CLKSEL">
+      <value caption="Internal high-frequency oscillator" name="OSCHF" value="0x0"/>
+      <value caption="32.768 kHz internal oscillator" name="OSC32K" value="0x1"/>
+      <value caption="32.768 kHz external crystal oscillator" name="XOSC32K" value="0x2"/>
+      <value caption="External clock" name="EXTCLK" value="0x3"/>
+    </value-group>
+    <value-group caption="" name="CLKCTRL_FREQSEL">
+      <value caption="1 MHz system clock" name="1M" value="0x0"/>
+      <value caption="4 MHz system clock (default)" name="4M" value="0x3"/>
+      <value caption="24 MHz system clock" name="24M" value="0x9"/>
+    </value-group>
+  </module>`;
+
+// Excerpt of ATxmega128A1U.atdf: system clock and RTC source selection, prescalers B and C, DFLL
+const ATXMEGA128A1U_MODULES = `
+  <module caption="Clock System" name="CLK">
+    <register-group caption="Clock System" name="CLK">
+      <register caption="Control Register" name="CTRL" offset="0x00" size="1" mask="0x07" initval="0x00">
+        <bitfield caption="System Clock Selection" mask="0x07" name="SCLKSEL" values="CLK_SCLKSEL"/>
+      </register>
+      <register caption="Prescaler Control Register" name="PSCTRL" offset="0x01" size="1" mask="0x7F" initval="0x00">
+        <bitfield caption="Prescaler A Division Factor" mask="0x7C" name="PSADIV" values="CLK_PSADIV"/>
+        <bitfield caption="Prescaler B and C Division Factor" mask="0x03" name="PSBCDIV" values="CLK_PSBCDIV"/>
+      </register>
+      <register caption="RTC Control Register" name="RTCCTRL" offset="0x03" size="1" mask="0x0F" initval="0x00">
+        <bitfield caption="Clock Source" mask="0x0E" name="RTCSRC" values="CLK_RTCSRC"/>
+        <bitfield caption="Clock Source Enable" mask="0x01" name="RTCEN"/>
+      </register>
+    </register-group>
+    <value-group caption="System Clock Selection" name="CLK_SCLKSEL">
+      <value caption="Internal 2 MHz RC Oscillator" name="RC2M" value="0x00"/>
+      <value caption="Internal 32 MHz RC Oscillator" name="RC32M" value="0x01"/>
+      <value caption="Internal 32.768 kHz RC Oscillator" name="RC32K" value="0x02"/>
+      <value caption="External Crystal Oscillator or Clock" name="XOSC" value="0x03"/>
+      <value caption="Phase Locked Loop" name="PLL" value="0x04"/>
+    </value-group>
+    <value-group caption="Prescaler A Division Factor" name="CLK_PSADIV">
+      <value caption="Divide by 1" name="1" value="0x00"/>
+      <value caption="Divide by 2" name="2" value="0x01"/>
+    </value-group>
+    <value-group caption="Prescaler B and C Division Factor" name="CLK_PSBCDIV">
+      <value caption="Divide B by 1 and C by 1" name="1_1" value="0x00"/>
+      <value caption="Divide B by 1 and C by 2" name="1_2" value="0x01"/>
+      <value caption="Divide B by 4 and C by 1" name="4_1" value="0x02"/>
+      <value caption="Divide B by 2 and C by 2" name="2_2" value="0x03"/>
+    </value-group>
+    <value-group caption="RTC Clock Source" name="CLK_RTCSRC">
+      <value caption="1.024 kHz from internal 32kHz ULP" name="ULP" value="0x00"/>
+      <value caption="1.024 kHz from 32.768 kHz crystal oscillator on TOSC" name="TOSC" value="0x01"/>
+      <value caption="32.768 kHz from 32.768 kHz crystal oscillator on TOSC" name="TOSC32" value="0x05"/>
+      <value caption="External Clock from TOSC1" name="EXTCLK" value="0x07"/>
+    </value-group>
+  </module>
+  <module caption="DFLL" name="DFLL">
+    <register-group caption="DFLL" name="DFLL">
+      <register caption="Control Register" name="CTRL" offset="0x00" size="1" mask="0x01">
+        <bitfield caption="DFLL Enable" mask="0x01" name="ENABLE"/>
+      </register>
+    </register-group>
+  </module>`;
+
+describe('ClockTreeParser', () => {
+  const parser = new ClockTreeParser();
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('reads the CLKCTRL main clock sources and their reset selection', () => {
+    const clockTree = parser.parseClockTree(parseAtdf(ATTINY1614_MODULES));
+
+    expect(clockTree).toMatchObject({
+      kind: 'avr8x',
+      mainClockRegister: 'CLKCTRL.MCLKCTRLA',
+      defaultSource: 0,
+      defaultPrescaler: 0x11,
+      bcPrescalers: []
+    });
+    expect(clockTree?.sources.map(source => [source.name, source.type, source.frequency])).toEqual([
+      ['OSC20M', 'internal', 20000000],
+      ['OSCULP32K', 'internal', 32768],
+      ['XOSC32K', 'crystal', 32768],
+      ['EXTCLK', 'external', undefined]
+    ]);
+  });
+
+  it('gives OSC20M the frequencies of the FREQSEL fuse', () => {
+    const [osc20m] = parser.parseClockTree(parseAtdf(ATTINY1614_MODULES))!.sources;
+
+    expect(osc20m).toMatchObject({ frequencyRegister: 'FUSE.OSCCFG', defaultFrequency: 0x2, frequency: 20000000 });
+    expect(osc20m.frequencyOptions?.map(option => [option.name, option.frequency])).toEqual([
+      ['16MHZ', 16000000],
+      ['20MHZ', 20000000]
+    ]);
+  });
+
+  it('reads the RTC clock sources', () => {
+    const clockTree = parser.parseClockTree(parseAtdf(ATTINY1614_MODULES));
+
+    expect(clockTree?.rtcRegister).toBe('RTC.CLKSEL');
+    expect(clockTree?.defaultRtcSource).toBe(0);
+    expect(clockTree?.rtcSources.map(source => [source.name, source.type, source.frequency])).toEqual([
+      ['INT32K', 'internal', 32768],
+      ['INT1K', 'internal', 1024],
+      ['TOSC32K', 'crystal', 32768],
+      ['EXTCLK', 'external', undefined]
+    ]);
+  });
+
+  it('reads the OSCHF frequency selection and auto-tune of AVR Dx devices', () => {
+    const [oschf] = parser.parseClockTree(parseAtdf(AVR128DA48_CLKCTRL))!.sources;
+
+    expect(oschf).toMatchObject({
+      frequency: 4000000,
+      frequencyRegister: 'CLKCTRL.OSCHFCTRLA',
+      defaultFrequency: 0x3,
+      autotune: true
+    });
+    expect(oschf.frequencyOptions?.map(option => option.frequency)).toEqual([1000000, 4000000, 24000000]);
+  });
+
+  it('reads the XMEGA clock system, with the prescalers B and C', () => {
+    const clockTree = parser.parseClockTree(parseAtdf(ATXMEGA128A1U_MODULES));
+
+    expect(clockTree).toMatchObject({ kind: 'xmega', mainClockRegister: 'CLK.CTRL', defaultPrescaler: 0, rtcRegister: 'CLK.RTCCTRL' });
+    expect(clockTree?.sources.map(source => [source.name, source.type, source.autotune])).toEqual([
+      ['RC2M', 'internal', true],
+      ['RC32M', 'internal', true],
+      ['RC32K', 'internal', undefined],
+      ['XOSC', 'crystal', undefined],
+      ['PLL', 'pll', undefined]
+    ]);
+    expect(clockTree?.bcPrescalers.map(prescaler => [prescaler.name, prescaler.dividerB, prescaler.dividerC])).toEqual([
+      ['1_1', 1, 1],
+      ['1_2', 1, 2],
+      ['4_1', 4, 1],
+      ['2_2', 2, 2]
+    ]);
+    expect(clockTree?.rtcSources.map(source => source.frequency)).toEqual([1024, 1024, 32768, undefined]);
+  });
+
+  it('leaves devices configured by fuses without a clock tree', () => {
+    expect(parser.parseClockTree(parseAtdf('<module caption="CPU Registers" name="CPU"/>'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,181 @@
+import { BaseParser } from './BaseParser';
+import type { ClockBcPrescaler, ClockFrequencyOption, ClockTreeSource, DeviceClockTree } from '../../types/atpack';
+
+// Nominal frequencies of the fixed oscillators, by clock select value name
+const SOURCE_FREQUENCIES: Record<string, number> = {
+  OSC20M: 20000000,
+  OSCULP32K: 32768,
+  OSC32K: 32768,
+  XOSC32K: 32768,
+  RC2M: 2000000,
+  RC32M: 32000000,
+  RC32K: 32768
+};
+
+// RTC clock frequencies by clock select value name (XMEGA ULP/TOSC/RCOSC are divided to 1.024 kHz)
+const RTC_FREQUENCIES: Record<string, number> = {
+  INT32K: 32768,
+  INT1K: 1024,
+  TOSC32K: 32768,
+  ULP: 1024,
+  TOSC: 1024,
+  RCOSC: 1024,
+  TOSC32: 32768,
+  RCOSC32: 32768
+};
+
+type ValueOption = { name: string; caption: string; value: number };
+
+/**
+ * Parser for the clock tree of devices configured through registers instead of the
+ * SUT_CKSEL fuse: the CLKCTRL module of AVR8X devices (tinyAVR 0/1/2, megaAVR 0, AVR Dx/Ex)
+ * and the CLK/OSC/DFLL modules of XMEGA devices
+ */
+export class ClockTreeParser extends BaseParser {
+
+  /**
+   * Parse the main clock sources, reset selections, XMEGA B/C prescalers and RTC clock
+   * sources; undefined for devices without a clock controller module
+   */
+  parseClockTree(doc: Document): DeviceClockTree | undefined {
+    try {
+      const avr8x = this.findBitfield(doc, 'MCLKCTRLA', 'CLKSEL', 'CLKCTRL');
+      const xmega = avr8x ? null : this.findBitfield(doc, 'CTRL', 'SCLKSEL', 'CLK');
+      const mainClock = avr8x || xmega;
+      if (!mainClock) {
+        return undefined;
+      }
+
+      const clockTree: DeviceClockTree = {
+        kind: avr8x ? 'avr8x' : 'xmega',
+        mainClockRegister: mainClock.register,
+        sources: this.getBitfieldValues(doc, mainClock.bitfield).map(option => this.parseSource(doc, option)),
+        defaultSource: this.getResetValue(mainClock.bitfield),
+        bcPrescalers: [],
+        rtcSources: []
+      };
+
+      if (avr8x) {
+        const pdiv = this.findBitfield(doc, 'MCLKCTRLB', 'PDIV', 'CLKCTRL');
+        if (pdiv) {
+          // AVR8X system prescaler values are whole MCLKCTRLB values
+          clockTree.defaultPrescaler = this.getRegisterResetValue(pdiv.bitfield);
+        }
+      } else {
+        const psadiv = this.findBitfield(doc, 'PSCTRL', 'PSADIV', 'CLK');
+        if (psadiv) {
+          clockTree.defaultPrescaler = this.getResetValue(psadiv.bitfield);
+        }
+        clockTree.bcPrescalers = this.parseBcPrescalers(doc);
+      }
+
+      const rtc = this.findBitfield(doc, 'CLKSEL', 'CLKSEL', 'RTC') || this.findBitfield(doc, 'RTCCTRL', 'RTCSRC', 'CLK');
+      if (rtc) {
+        clockTree.rtcRegister = rtc.register;
+        clockTree.rtcSources = this.getBitfieldValues(doc, rtc.bitfield).map(option => ({
+          ...option,
+          type: this.getSourceType(option.name),
+          frequency: RTC_FREQUENCIES[option.name] ?? (option.name.includes('EXT') ? undefined : this.extractFrequency(option.caption))
+        }));
+        clockTree.defaultRtcSource = this.getResetValue(rtc.bitfield);
+      }
+
+      console.log(`Found ${clockTree.kind} clock tree with ${clockTree.sources.length} main clock sources, ${clockTree.rtcSources.length} RTC clock sources`);
+      return clockTree;
+    } catch (error) {
+      console.warn('Error parsing clock tree:', error);
+    }
+
+    return undefined;
+  }
+
+  private parseSource(doc: Document, option: ValueOption): ClockTreeSource {
+    const source: ClockTreeSource = {
+      ...option,
+      type: this.getSourceType(option.name),
+      frequency: SOURCE_FREQUENCIES[option.name]
+    };
+
+    if (option.name === 'OSCHF') {
+      // AVR Dx: frequency selected in OSCHFCTRLA, optionally auto-tuned against XOSC32K
+      const freqsel = this.findBitfield(doc, 'OSCHFCTRLA', 'FREQSEL', 'CLKCTRL');
+      if (freqsel) {
+        this.setFrequencyOptions(doc, source, freqsel.bitfield, freqsel.register);
+      }
+      source.autotune = this.findBitfield(doc, 'OSCHFCTRLA', 'AUTOTUNE', 'CLKCTRL') !== null;
+    } else if (option.name === 'OSC20M') {
+      // tinyAVR 0/1/2, megaAVR 0: 16 or 20 MHz, selected by the FREQSEL fuse
+      const freqsel = this.findBitfield(doc, 'OSCCFG', 'FREQSEL', 'FUSE');
+      if (freqsel) {
+        this.setFrequencyOptions(doc, source, freqsel.bitfield, freqsel.register);
+      }
+    } else if (option.name === 'RC2M' || option.name === 'RC32M') {
+      // XMEGA: DFLLs calibrate the RC oscillators against the 32.768 kHz crystal
+      const dfll = doc.evaluate("//modules/module[@name='DFLL']", doc, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+      source.autotune = dfll.singleNodeValue !== null;
+    }
+
+    return source;
+  }
+
+  private setFrequencyOptions(doc: Document, source: ClockTreeSource, bitfield: Element, register: string): void {
+    const options: ClockFrequencyOption[] = [];
+    this.getBitfieldValues(doc, bitfield).forEach(option => {
+      const megahertz = option.name.match(/^(\d+)M(HZ)?$/i);
+      const frequency = this.extractFrequency(option.caption) ?? (megahertz ? parseInt(megahertz[1]) * 1000000 : undefined);
+      if (frequency) {
+        options.push({ ...option, frequency });
+      }
+    });
+
+    if (options.length > 0) {
+      source.frequencyOptions = options.sort((a, b) => a.frequency - b.frequency);
+      source.frequencyRegister = register;
+      source.defaultFrequency = this.getResetValue(bitfield);
+      source.frequency = options.find(option => option.value === source.defaultFrequency)?.frequency ?? source.frequency;
+    }
+  }
+
+  /**
+   * XMEGA prescalers B and C, from PSBCDIV values named "B_C" (1_2: B by 1, C by 2)
+   */
+  private parseBcPrescalers(doc: Document): ClockBcPrescaler[] {
+    const psbcdiv = this.findBitfield(doc, 'PSCTRL', 'PSBCDIV', 'CLK');
+    if (!psbcdiv) {
+      return [];
+    }
+
+    const prescalers: ClockBcPrescaler[] = [];
+    this.getBitfieldValues(doc, psbcdiv.bitfield).forEach(option => {
+      const match = option.name.match(/(\d+)_(\d+)/);
+      if (match) {
+        prescalers.push({ ...option, dividerB: parseInt(match[1]), dividerC: parseInt(match[2]) });
+      }
+    });
+    return prescalers;
+  }
+
+  private getSourceType(name: string): ClockTreeSource['type'] {
+    if (name.includes('PLL')) return 'pll';
+    if (/^(XOSC|TOSC)/.test(name)) return 'crystal';
+    if (name.includes('EXT')) return 'external';
+    return 'internal';
+  }
+
+  /**
+   * Bitfield value in the reset value (initval) of its register
+   */
+  private getResetValue(bitfield: Element): number | undefined {
+    const registerValue = this.getRegisterResetValue(bitfield);
+    if (registerValue === undefined) {
+      return undefined;
+    }
+    const mask = this.parseHex(bitfield.getAttribute('mask'));
+    return (registerValue & mask) >> this.maskShift(mask);
+  }
+
+  private getRegisterResetValue(bitfield: Element): number | undefined {
+    const initval = (bitfield.parentNode as Element).getAttribute('initval');
+    return initval ? this.parseHex(initval) : undefined;
+  }
+}
@@ -35,7 +35,9 @@ export class PdscParser extends BaseParser {
 
   private extractVersion(xmlDoc: Document): string {
     const packageElement = xmlDoc.querySelector('package');
-    return packageElement?.getAttribute('version') || '1.0.0';
+    // Pack releases are listed newest first, so the first release is the version of the pack
+    const latestRelease = xmlDoc.querySelector('releases > release');
+    return packageElement?.getAttribute('version') || latestRelease?.getAttribute('version') || '1.0.0';
   }
 
   private extractDevices(xmlDoc: Document): AtPackDevice[] {
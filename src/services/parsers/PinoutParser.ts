@@ -122,18 +122,21 @@ export class PinoutParser extends BaseParser {
   ): void {
     const pins = pinoutElement.querySelectorAll('pin');
     
-    pins.forEach((pinElement) => {
+    pins.forEach((pinElement, pinIndex) => {
       const position = this.getAttr(pinElement, 'position');
       const pad = this.getAttr(pinElement, 'pad');
       
       if (position && pad) {
-        const positionNum = this.parseInt(position, 10);
+        // BGA pins are positioned by ball (A1, B2...) and numbered in pinout order
+        const isBall = !/^\d+$/.test(position);
+        const positionNum = isBall ? pinIndex + 1 : this.parseInt(position, 10);
         
         // Get all functions for this pad
         const functions = signalMap.get(pad) || [];
         
         const pin: DevicePin = {
           position: positionNum,
+          ...(isBall ? { ball: position } : {}),
           pad,
           functions: functions.map(func => ({
             group: func.group,
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import { useAtPackStore } from './atpackStore';
+import { AtPackParser } from '../services/AtPackParser';
+import type { AtPack } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATtiny_DFP" version="3.1.260">
+  <description>Microchip ATtiny Series Device Support</description>
+  <releases><release version="3.1.260">ATtiny1614, ATtiny3216</release></releases>
+  <devices>
+    <family Dfamily="ATtiny" Dvendor="Microchip:3">
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+      <device Dname="ATtiny3216"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATtiny1614.atdf
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <address-spaces>
+        <address-space endianness="little" name="data" id="data" start="0x0000" size="0x10000">
+          <memory-segment name="FUSES" start="0x1280" size="0x000A" type="fuses" pagesize="0x20"/>
+          <memory-segment name="INTERNAL_SRAM" start="0x3800" size="0x0800" type="ram"/>
+          <memory-segment name="MAPPED_PROGMEM" start="0x8000" size="0x4000" type="other" pagesize="0x40"/>
+        </address-space>
+      </address-spaces>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="Oscillator Configuration" name="OSCCFG" offset="0x02" size="1" initval="0x02">
+          <bitfield caption="Frequency Select" mask="0x03" name="FREQSEL"/>
+        </register>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const loadPack = async (): Promise<AtPack> => {
+  const zip = new JSZip();
+  zip.file('Microchip.ATtiny_DFP.pdsc', PDSC);
+  zip.file('atdf/ATtiny1614.atdf', ATTINY1614_ATDF);
+  const atpack = new AtPackParser().parseArchivePdsc(PDSC);
+  atpack.zipContent = await JSZip.loadAsync(await zip.generateAsync({ type: 'arraybuffer' }));
+  return atpack;
+};
+
+describe('atpackStore device loading', () => {
+  let atpack: AtPack;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    useAtPackStore.getState().resetStore();
+    atpack = await loadPack();
+    useAtPackStore.setState({ atpacks: [atpack], selectedAtPack: atpack });
+  });
+
+  it('parses the device file of a device when it is selected', async () => {
+    const [device] = atpack.devices;
+
+    useAtPackStore.getState().selectDevice(device);
+    expect(useAtPackStore.getState().deviceLoadStates['Microchip.ATtiny_DFP.3.1.260/ATtiny1614']).toEqual({ status: 'loading' });
+
+    await vi.waitFor(() => expect(useAtPackStore.getState().deviceLoadStates['Microchip.ATtiny_DFP.3.1.260/ATtiny1614'])
+      .toEqual({ status: 'loaded' }));
+    expect(device.enrichmentPending).toBeUndefined();
+    expect(device.fuses.map(fuse => fuse.name)).toEqual(['OSCCFG']);
+    expect(atpack.devices[1].enrichmentPending).toBe(true);
+  });
+
+  it('keeps the selected device the device of the pack once loaded', async () => {
+    const [device] = atpack.devices;
+
+    useAtPackStore.getState().selectDevice(device);
+    await useAtPackStore.getState().loadDevice(device);
+
+    const { selectedDevice } = useAtPackStore.getState();
+    expect(selectedDevice).toBe(device);
+    expect(atpack.devices.indexOf(selectedDevice!)).toBe(0);
+  });
+
+  it('reports devices without a device file as loaded from the .pdsc alone', async () => {
+    const device = atpack.devices[1];
+
+    await useAtPackStore.getState().loadDevice(device, atpack);
+
+    expect(useAtPackStore.getState().deviceLoadStates['Microchip.ATtiny_DFP.3.1.260/ATtiny3216']).toEqual({ status: 'loaded' });
+    expect(device.enrichmentPending).toBeUndefined();
+  });
+
+  it('reports devices that cannot be parsed and leaves them pending', async () => {
+    const device = atpack.devices[0];
+    delete atpack.zipContent;
+
+    await useAtPackStore.getState().loadDevice(device, atpack);
+
+    expect(useAtPackStore.getState().deviceLoadStates['Microchip.ATtiny_DFP.3.1.260/ATtiny1614']).toEqual({
+      status: 'error',
+      error: 'No pack files available to parse ATtiny1614'
+    });
+    expect(device.enrichmentPending).toBe(true);
+  });
+});
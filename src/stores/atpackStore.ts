@@ -1,13 +1,43 @@
 import { create } from 'zustand';
-import type { AtPack, AtPackDevice, AtPackState } from '../types/atpack';
+import type {
+  AtPack,
+  AtPackDevice,
+  AtPackSource,
+  AtPackState,
+  ClockConfigState,
+  DeviceConfiguration,
+  DeviceLoadState,
+  PackCacheUsage,
+  SharedState
+} from '../types/atpack';
 import { AtPackParser } from '../services/AtPackParser';
+import { AtPackWorkerParser } from '../services/AtPackWorkerParser';
+import { PackCache } from '../services/PackCache';
+import { fetchWithCorsProxy } from '../utils/corsProxy';
+import { applyClockConfigToFuses, getClockConfigFromFuses } from '../utils/clockFuses';
+import { getDeviceKey, getPackId } from '../utils/shareState';
 
 interface AtPackStore extends AtPackState {
   // Actions
   loadAtPack: (url: string) => Promise<void>;
-  loadAtPackFile: (file: File) => Promise<void>; // New method for local files
+  loadAtPackFile: (file: File, source?: AtPackSource) => Promise<void>; // New method for local files
+  loadCachedPack: (id: string) => Promise<void>; // Load a pack from the pack cache, without network
+  refreshCachedPacks: () => Promise<void>;
+  removeCachedPack: (id: string) => Promise<void>;
+  clearPackCache: () => Promise<void>;
+  getPackCacheUsage: () => Promise<PackCacheUsage>;
+  cancelLoading: () => void;
   selectAtPack: (atpack: AtPack) => void;
   selectDevice: (device: AtPackDevice) => void;
+  loadDevice: (device: AtPackDevice, atpack?: AtPack) => Promise<void>; // Parse the device-specific file of a device
+  loadAllDevices: (atpack?: AtPack) => Promise<void>; // Parse all pending devices of a pack (for exports)
+  updateConfiguration: (configuration: Partial<DeviceConfiguration>) => void;
+  updateClockConfiguration: (clock: ClockConfigState) => void; // Also sets the clock fuses (SUT_CKSEL, CKDIV8)
+  updateFuseValues: (fuseValues: Record<string, number>) => void; // Also updates the clock configuration
+  addComparedDevice: (atpack: AtPack, device: AtPackDevice) => void;
+  removeComparedDevice: (key: string) => void;
+  restoreSharedState: (shared: SharedState) => Promise<void>;
+  dismissSharedState: () => void;
   clearError: () => void;
   resetStore: () => void;
 }
@@ -18,9 +48,124 @@ const initialState: AtPackState = {
   selectedDevice: null,
   loading: false,
   error: null,
+  configuration: {},
+  pendingShare: null,
+  cachedPacks: [],
+  loadProgress: null,
+  deviceLoadStates: {},
+  comparedDevices: [],
 };
 
-export const useAtPackStore = create<AtPackStore>((set) => ({
+const packCache = new PackCache();
+const parser = new AtPackParser();
+const workerParser = AtPackWorkerParser.isSupported() ? new AtPackWorkerParser(parser) : null;
+// Device enrichments in progress or done, so each device file is parsed only once
+const deviceLoads = new WeakMap<AtPackDevice, Promise<void>>();
+// Pending write-backs of enriched devices to the pack cache, per pack
+const cacheUpdates = new WeakMap<AtPack, ReturnType<typeof setTimeout>>();
+// Delay grouping the write-backs of devices enriched in a row (loadAllDevices)
+const CACHE_UPDATE_DELAY = 2000;
+// Aborts the download or parsing in progress (see cancelLoading)
+let loadController: AbortController | null = null;
+
+/**
+ * Select the pack, device and configuration of a shared state
+ */
+const applySharedState = (atpack: AtPack, shared: SharedState): Partial<AtPackState> => {
+  const device = atpack.devices.find(d => d.name === shared.device) || null;
+  return {
+    selectedAtPack: atpack,
+    selectedDevice: device,
+    configuration: device ? shared.configuration : {},
+    pendingShare: null,
+  };
+};
+
+/**
+ * Enrich a device pending enrichment, through the worker when its archive is open there
+ */
+const enrichDevice = (atpack: AtPack, device: AtPackDevice): Promise<void> => {
+  let load = deviceLoads.get(device);
+  if (!load) {
+    load = (workerParser?.canEnrich(atpack)
+      ? workerParser.enrichDevices(atpack, [device])
+      : parser.enrichDeviceFromArchive(atpack, device)
+    ).then(() => {
+      // The worker parser logs per-device errors and leaves the device pending
+      if (device.enrichmentPending) {
+        throw new Error(`Could not parse the device file of ${device.name}`);
+      }
+    });
+    deviceLoads.set(device, load);
+    // Allow retrying after a failure
+    load.catch(() => deviceLoads.delete(device));
+  }
+  return load;
+};
+
+/**
+ * Write the devices enriched on demand back to the pack cache, so cached packs open with
+ * them already parsed; caching failures are not fatal
+ */
+const scheduleCacheUpdate = (atpack: AtPack): void => {
+  if (!packCache.isAvailable()) return;
+  clearTimeout(cacheUpdates.get(atpack));
+  cacheUpdates.set(atpack, setTimeout(() => {
+    cacheUpdates.delete(atpack);
+    packCache.update(atpack).catch(error => console.warn('Store: Could not update cached AtPack:', error));
+  }, CACHE_UPDATE_DELAY));
+};
+
+/**
+ * Release the archive a pack keeps open in the worker, once the pack is replaced or unloaded
+ */
+const releaseAtPack = (atpack: AtPack): void => {
+  workerParser?.close(atpack);
+};
+
+/**
+ * Add a loaded pack, replacing the same release of the pack, and select it; other
+ * releases stay loaded so they can be diffed
+ */
+const addLoadedAtPack = (state: AtPackState, atpack: AtPack): Partial<AtPackState> => {
+  state.atpacks.filter(ap => ap !== atpack && getPackId(ap) === getPackId(atpack)).forEach(releaseAtPack);
+  const newAtpacks = [...state.atpacks.filter(ap => getPackId(ap) !== getPackId(atpack)), atpack];
+  console.log('Store: State update - AtPacks:', newAtpacks.length, 'AtPack added:', atpack.metadata.name);
+
+  // Auto-select the AtPack so devices become available, but don't auto-select any device
+  return {
+    atpacks: newAtpacks,
+    selectedAtPack: atpack, // Auto-select the loaded AtPack so devices are visible
+    selectedDevice: null, // Don't auto-select any device - user must choose
+    configuration: {},
+    loading: false,
+    loadProgress: null,
+    ...applyPendingShare(state, atpack),
+  };
+};
+
+/**
+ * Apply the pending shared state once the pack it refers to has been loaded
+ */
+const applyPendingShare = (state: AtPackState, atpack: AtPack): Partial<AtPackState> => {
+  if (state.pendingShare?.pack?.id !== getPackId(atpack)) {
+    return {};
+  }
+  console.log('Store: Restoring shared state for', state.pendingShare.pack.id);
+  return applySharedState(atpack, state.pendingShare);
+};
+
+/**
+ * Parse the selected device once a pack is added or a shared state restored, as selectDevice does
+ */
+const loadSelectedDevice = () => {
+  const { selectedDevice, loadDevice } = useAtPackStore.getState();
+  if (selectedDevice) {
+    loadDevice(selectedDevice);
+  }
+};
+
+export const useAtPackStore = create<AtPackStore>((set, get) => ({
   ...initialState,
 
   loadAtPack: async (url: string) => {
@@ -28,59 +173,84 @@ export const useAtPackStore = create<AtPackStore>((set) => ({
     
     try {
       console.log('Store: Loading AtPack from URL:', url);
-      const parser = new AtPackParser();
-      const atpack = await parser.parseAtPackFile(url);
-      console.log('Store: AtPack loaded:', atpack.metadata.name, 'with', atpack.devices.length, 'devices');
-      
-      set((state) => {
-        const newAtpacks = [...state.atpacks.filter(ap => ap.metadata.name !== atpack.metadata.name), atpack];
-        console.log('Store: State update - AtPacks:', newAtpacks.length, 'AtPack added:', atpack.metadata.name);
-        
-        // Auto-select the AtPack so devices become available, but don't auto-select any device
-        console.log('Store: AtPack auto-selected from URL, but no device auto-selected - user must choose device');
-        
-        return {
-          atpacks: newAtpacks,
-          selectedAtPack: atpack, // Auto-select the loaded AtPack so devices are visible
-          selectedDevice: null, // Don't auto-select any device - user must choose
-          loading: false,
-        };
-      });
+      loadController = new AbortController();
+      // Download the archive as a file so it can be stored in the pack cache
+      const response = await fetchWithCorsProxy(url, { signal: loadController.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const blob = await response.blob();
+      const fileName = url.split('/').pop() || 'downloaded.atpack';
+      await get().loadAtPackFile(new File([blob], fileName), { type: 'url', url });
     } catch (error) {
       console.error('Store: Error loading from URL:', error);
       set({ 
-        error: error instanceof Error ? error.message : 'Unknown error during loading',
-        loading: false 
+        error: loadController?.signal.aborted ? null : error instanceof Error ? error.message : 'Unknown error during loading',
+        loading: false,
+        loadProgress: null
       });
     }
   },
 
-  loadAtPackFile: async (file: File) => {
+  loadAtPackFile: async (file: File, source?: AtPackSource) => {
     console.log('Store: Starting file loading', file.name);
     set({ loading: true, error: null });
     
+    loadController = new AbortController();
+    const { signal } = loadController;
+    
     try {
-      const parser = new AtPackParser();
-      console.log('Store: Parser created, parsing in progress...');
-      const atpack = await parser.parseFile(file);
+      console.log('Store: Parsing in progress...');
+      // Archives are read in a worker when available, reporting per-device progress
+      // Only the .pdsc is parsed here, device files are parsed when devices are selected (see loadDevice)
+      const atpack = workerParser && file.name.endsWith('.atpack')
+        ? await workerParser.openAtPackZipFile(file, {
+          onProgress: (loadProgress) => set({ loadProgress }),
+          signal
+        })
+        : await parser.parseFile(file, { lazy: true });
+      atpack.source = source || { type: 'file', fileName: file.name };
       console.log('Store: AtPack parsed successfully:', atpack.metadata.name, 'with', atpack.devices.length, 'devices');
       
-      set((state) => {
-        const newAtpacks = [...state.atpacks.filter(ap => ap.metadata.name !== atpack.metadata.name), atpack];
-        console.log('Store: State update - new AtPack count:', newAtpacks.length);
-        
-        // Auto-select the AtPack so devices become available, but don't auto-select any device
-        console.log('Store: AtPack auto-selected, but no device auto-selected - user must choose device');
-        
-        return {
-          atpacks: newAtpacks,
-          selectedAtPack: atpack, // Auto-select the loaded AtPack so devices are visible
-          selectedDevice: null, // Don't auto-select any device - user must choose
-          loading: false,
-        };
-      });
+      set((state) => addLoadedAtPack(state, atpack));
+      loadSelectedDevice();
+
+      // Keep the parsed pack (and the raw archive) for offline use; caching failures are not fatal
+      if (packCache.isAvailable()) {
+        try {
+          await packCache.put(atpack, file.name.endsWith('.atpack') ? file : undefined);
+          await get().refreshCachedPacks();
+        } catch (cacheError) {
+          console.warn('Store: Could not cache AtPack:', cacheError);
+        }
+      }
     } catch (error) {
       console.error('Store: Error during loading:', error);
+      set({ 
+        error: signal.aborted ? null : error instanceof Error ? error.message : 'Unknown error during loading',
+        loading: false,
+        loadProgress: null
+      });
+    }
+  },
+
+  cancelLoading: () => {
+    console.log('Store: Loading cancelled');
+    loadController?.abort();
+  },
+
+  loadCachedPack: async (id: string) => {
+    console.log('Store: Loading AtPack from cache', id);
+    set({ loading: true, error: null });
+
+    try {
+      const atpack = await packCache.load(id);
+      console.log('Store: Cached AtPack loaded:', atpack.metadata.name, 'with', atpack.devices.length, 'devices');
+      set((state) => addLoadedAtPack(state, atpack));
+      loadSelectedDevice();
+      await get().refreshCachedPacks();
+    } catch (error) {
+      console.error('Store: Error loading cached AtPack:', error);
       set({ 
         error: error instanceof Error ? error.message : 'Unknown error during loading',
         loading: false 
@@ -88,15 +258,155 @@ export const useAtPackStore = create<AtPackStore>((set) => ({
     }
   },
 
+  refreshCachedPacks: async () => {
+    if (!packCache.isAvailable()) return;
+    try {
+      set({ cachedPacks: await packCache.list() });
+    } catch (error) {
+      console.warn('Store: Could not list cached AtPacks:', error);
+    }
+  },
+
+  removeCachedPack: async (id: string) => {
+    await packCache.remove(id);
+    await get().refreshCachedPacks();
+  },
+
+  clearPackCache: async () => {
+    await packCache.clear();
+    await get().refreshCachedPacks();
+  },
+
+  getPackCacheUsage: () => packCache.getUsage(),
+
   selectAtPack: (atpack: AtPack) => {
     set({ 
       selectedAtPack: atpack,
-      selectedDevice: null // Reset device selection when switching packs
+      selectedDevice: null, // Reset device selection when switching packs
+      configuration: {}
     });
   },
 
   selectDevice: (device: AtPackDevice) => {
-    set({ selectedDevice: device });
+    set({ selectedDevice: device, configuration: {} });
+    get().loadDevice(device);
+  },
+
+  loadDevice: async (device: AtPackDevice, atpack?: AtPack) => {
+    const pack = atpack || get().atpacks.find(ap => ap.devices.includes(device)) || get().selectedAtPack;
+    if (!pack || !device.enrichmentPending) {
+      return;
+    }
+
+    const key = getDeviceKey(pack, device);
+    const setDeviceLoadState = (deviceLoadState: DeviceLoadState) => {
+      set((state) => ({ deviceLoadStates: { ...state.deviceLoadStates, [key]: deviceLoadState } }));
+    };
+
+    console.log('Store: Loading device data for', device.name);
+    setDeviceLoadState({ status: 'loading' });
+    try {
+      await enrichDevice(pack, device);
+      // The device is enriched in place: its views follow the load state (see App)
+      setDeviceLoadState({ status: 'loaded' });
+      scheduleCacheUpdate(pack);
+    } catch (error) {
+      console.error('Store: Error loading device data:', error);
+      setDeviceLoadState({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error during device loading'
+      });
+    }
+  },
+
+  loadAllDevices: async (atpack?: AtPack) => {
+    const pack = atpack || get().selectedAtPack;
+    if (!pack) {
+      return;
+    }
+
+    const pending = pack.devices.filter(device => device.enrichmentPending);
+    if (pending.length === 0) {
+      return;
+    }
+
+    set({ loading: true, error: null });
+    try {
+      for (const [index, device] of pending.entries()) {
+        set({ loadProgress: { stage: 'devices', current: index + 1, total: pending.length, deviceName: device.name } });
+        await get().loadDevice(device, pack);
+      }
+    } finally {
+      set({ loading: false, loadProgress: null });
+    }
+  },
+
+  updateConfiguration: (configuration: Partial<DeviceConfiguration>) => {
+    set((state) => ({ configuration: { ...state.configuration, ...configuration } }));
+  },
+
+  updateClockConfiguration: (clock: ClockConfigState) => {
+    set((state) => {
+      const device = state.selectedDevice;
+      const fuseValues = device
+        ? applyClockConfigToFuses(device, clock, state.configuration.fuseValues)
+        : state.configuration.fuseValues;
+      return { configuration: { ...state.configuration, clock, fuseValues } };
+    });
+  },
+
+  updateFuseValues: (fuseValues: Record<string, number>) => {
+    set((state) => {
+      const device = state.selectedDevice;
+      const clock = device
+        ? getClockConfigFromFuses(device, fuseValues, state.configuration.clock)
+        : state.configuration.clock;
+      return { configuration: { ...state.configuration, fuseValues, clock } };
+    });
+  },
+
+  addComparedDevice: (atpack: AtPack, device: AtPackDevice) => {
+    const key = getDeviceKey(atpack, device);
+    if (!get().comparedDevices.includes(key)) {
+      set((state) => ({ comparedDevices: [...state.comparedDevices, key] }));
+    }
+    get().loadDevice(device, atpack);
+  },
+
+  removeComparedDevice: (key: string) => {
+    set((state) => ({ comparedDevices: state.comparedDevices.filter(k => k !== key) }));
+  },
+
+  restoreSharedState: async (shared: SharedState) => {
+    if (!shared.pack) {
+      return;
+    }
+
+    const loaded = get().atpacks.find(atpack => getPackId(atpack) === shared.pack?.id);
+    if (loaded) {
+      set(applySharedState(loaded, shared));
+      loadSelectedDevice();
+      return;
+    }
+
+    // Cached packs load without network; packs loaded from a URL are downloaded again and
+    // local files restore when the user reopens them
+    set({ pendingShare: shared });
+    const cached = packCache.isAvailable() && await packCache.has(shared.pack.id).catch(() => false);
+    if (cached) {
+      await get().loadCachedPack(shared.pack.id);
+    } else if (shared.pack.url) {
+      await get().loadAtPack(shared.pack.url);
+    }
+    if (cached || shared.pack.url) {
+      if (get().pendingShare === shared) {
+        set({ pendingShare: null });
+      }
+    }
+  },
+
+  dismissSharedState: () => {
+    set({ pendingShare: null });
   },
 
   clearError: () => {
@@ -104,6 +414,7 @@ export const useAtPackStore = create<AtPackStore>((set) => ({
   },
 
   resetStore: () => {
+    get().atpacks.forEach(releaseAtPack);
     set(initialState);
   },
 }));
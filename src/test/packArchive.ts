@@ -0,0 +1,16 @@
+import JSZip from 'jszip';
+import { AtPackParser } from '../services/AtPackParser';
+import type { AtPack } from '../types/atpack';
+
+/**
+ * Parse a pack archive holding the given files (.pdsc, atdf/*.atdf, edc/*.PIC)
+ */
+export const loadPackArchive = async (files: Record<string, string>, fileName = 'pack.atpack'): Promise<AtPack> => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([path, content]) => zip.file(path, content));
+  const content = await zip.generateAsync({ type: 'arraybuffer' });
+
+  // jsdom files have no arrayBuffer(), which is all the parser reads
+  const file = { name: fileName, arrayBuffer: async () => content } as unknown as File;
+  return new AtPackParser().parseAtPackZipFile(file);
+};
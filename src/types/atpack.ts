@@ -14,6 +14,19 @@ export interface AtPack {
   devices: AtPackDevice[];
   version: string;
   zipContent?: JSZip; // Optional ZIP content for accessing raw files
+  source?: AtPackSource; // Where the pack was loaded from
+}
+
+export type AtPackSource =
+  | { type: 'url'; url: string }
+  | { type: 'file'; fileName: string };
+
+// Raw files of a device in its pack (see DeviceDescriptionSource)
+export type DeviceFileKind = 'description' | 'header' | 'linkerScript' | 'documentation' | 'data';
+
+export interface DeviceFileReference {
+  path: string;
+  kind: DeviceFileKind;
 }
 
 export interface AtPackMetadata {
@@ -42,6 +55,8 @@ export interface AtPackDevice {
   timers: DeviceTimerInfo[];
   clockInfo?: DeviceClockInfo; // <-- Added clockInfo
   electricalParameters?: DeviceElectricalParameters;
+  enrichmentPending?: boolean; // Device-specific file (.atdf/.PIC) not parsed yet, see AtPackParser.enrichDevices
+  incomplete?: boolean; // Exported while its device-specific file was still unparsed: .pdsc data only
 }
 
 export interface DeviceSignature {
@@ -54,6 +69,7 @@ export interface DeviceInterrupt {
   index: number;
   name: string;
   caption: string;
+  moduleInstance?: string; // Module instance raising the interrupt (AVR8X/XMEGA)
 }
 
 export interface DeviceRegisterBitfield {
@@ -108,11 +124,44 @@ export interface DevicePinFunction {
 }
 
 export interface DevicePin {
-  position: number;
+  position: number; // Pin number, or pin order for BGA packages
+  ball?: string; // BGA ball (A1, B2...)
   pad: string;
   functions: DevicePinFunction[];
 }
 
+// Package outline families drawn by the package renderer
+export type PackageKind = 'dip' | 'so' | 'qfp' | 'qfn' | 'bga';
+
+export type PackagePinSide = 'left' | 'bottom' | 'right' | 'top' | 'grid' | 'exposed';
+
+export interface PackageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A pin (lead, pad or ball) of a package drawing
+export interface PackagePinPlacement extends PackageRect {
+  pin: DevicePin; // Unconnected positions get an 'NC' pad
+  label: string; // Pin number or ball name
+  side: PackagePinSide;
+}
+
+export interface PackageLayout {
+  kind: PackageKind;
+  pinCount: number;
+  width: number;
+  height: number;
+  body: PackageRect;
+  exposedPad?: PackageRect;
+  pins: PackagePinPlacement[];
+}
+
+// Pin classification used for display and generated symbols
+export type PinType = 'power' | 'reset' | 'oscillator' | 'gpio' | 'special';
+
 export interface DevicePinout {
   name: string;
   caption: string;
@@ -250,9 +299,43 @@ export interface DeviceModule {
   name: string;
   type: string;
   instance: string;
+  module?: string; // Name of the module definition (e.g. USART for instance USART1)
+  registerGroups?: DeviceInstanceRegisterGroup[];
+  signals?: DeviceInstanceSignal[];
+  parameters?: DeviceInstanceParameter[];
   registers?: ModuleRegister[];
 }
 
+// Placement of a module register-group for one instance (<instance>/<register-group>)
+export interface DeviceInstanceRegisterGroup {
+  name: string;
+  nameInModule: string; // Register group name in the module definition
+  offset: number; // Base address of the group in its address space
+  addressSpace: string; // 'data', 'fuses', 'lockbits', ...
+  caption?: string;
+}
+
+export interface DeviceInstanceSignal {
+  group: string;
+  function: string;
+  pad: string;
+  index?: number;
+}
+
+export interface DeviceInstanceParameter {
+  name: string;
+  value: string;
+  caption?: string;
+}
+
+// Resolved location of a module register-group for one instance
+export interface RegisterGroupPlacement {
+  instance: string;
+  baseAddress: number | null; // null when the ATDF does not place the instance (address unknown)
+  addressSpace: string;
+  qualified: boolean; // True when register names must be prefixed with the instance name (shared groups)
+}
+
 export interface ModuleRegister {
   name: string;
   offset: number;
@@ -276,6 +359,29 @@ export interface ClockPrescaler {
   caption: string;
   value: number;
   divider: number;
+  register?: string; // Register written with the value (CPU.CLKPR, CLKCTRL.MCLKCTRLB...)
+}
+
+export interface PllSource {
+  name: string;
+  caption: string;
+  value: number;
+}
+
+export interface PllMultiplier {
+  name: string;
+  caption: string;
+  value: number;
+  multiplier: number;
+}
+
+export interface PllInfo {
+  available: boolean;
+  register?: string; // Register selecting the multiplication factor
+  sources?: PllSource[];
+  inputPrescalers: ClockPrescaler[];
+  multipliers?: PllMultiplier[];
+  multiplier?: number; // Fixed multiplication factor of PLLs without a factor selection
 }
 
 export interface AdcReference {
@@ -286,6 +392,66 @@ export interface AdcReference {
   description?: string;
 }
 
+export interface ClockFrequencyOption {
+  name: string;
+  caption: string;
+  value: number;
+  frequency: number;
+}
+
+export interface ClockTreeSource {
+  name: string;
+  caption: string;
+  value: number; // Clock select value (CLKCTRL.MCLKCTRLA CLKSEL, CLK.CTRL SCLKSEL, RTC clock select)
+  type: 'internal' | 'external' | 'crystal' | 'pll';
+  frequency?: number; // Nominal frequency in Hz, set by the user when unknown (external clocks, crystals)
+  frequencyOptions?: ClockFrequencyOption[]; // Selectable frequencies (OSCHF FREQSEL, OSC20M FREQSEL fuse)
+  frequencyRegister?: string; // Register (or fuse) selecting the frequency
+  defaultFrequency?: number; // Frequency option value at reset
+  autotune?: boolean; // Can be tuned against the 32.768 kHz crystal oscillator
+}
+
+export interface ClockBcPrescaler {
+  name: string;
+  caption: string;
+  value: number;
+  dividerB: number;
+  dividerC: number;
+}
+
+export interface DeviceClockTree {
+  kind: 'avr8x' | 'xmega'; // CLKCTRL (tinyAVR 0/1/2, megaAVR 0, AVR Dx/Ex) or XMEGA CLK/OSC modules
+  mainClockRegister: string;
+  sources: ClockTreeSource[];
+  defaultSource?: number;
+  defaultPrescaler?: number; // System prescaler value at reset (see DeviceClockInfo.systemPrescalers)
+  bcPrescalers: ClockBcPrescaler[]; // XMEGA prescalers B and C
+  rtcRegister?: string;
+  rtcSources: ClockTreeSource[];
+  defaultRtcSource?: number;
+}
+
+export interface ClockTreeSelection {
+  source: number; // Main clock select value
+  sourceFrequencies: Record<string, number>; // Frequency of each source by name (selected option or user value)
+  prescaler?: number; // System prescaler value
+  bcPrescaler?: number; // XMEGA PSBCDIV value
+  autotune: boolean;
+  pllSource?: number;
+  pllMultiplier?: number; // PLL multiplication factor value
+  rtcSource?: number;
+}
+
+export interface ClockTreeFrequencies {
+  main: number; // CLK_MAIN (AVR8X) or clkSYS (XMEGA)
+  cpu: number;
+  per: number;
+  per2?: number; // XMEGA clkPER2
+  per4?: number; // XMEGA clkPER4
+  pll?: number;
+  rtc?: number;
+}
+
 export interface DeviceClockInfo {
   sources: ClockSource[];
   systemPrescalers: ClockPrescaler[];
@@ -295,11 +461,8 @@ export interface DeviceClockInfo {
   timerPrescalers: ClockPrescaler[];
   hasClockOutput: boolean;
   hasClockDivide8: boolean;
-  pllInfo?: {
-    available: boolean;
-    inputPrescalers: ClockPrescaler[];
-    multiplier?: number;
-  };
+  pllInfo?: PllInfo;
+  clockTree?: DeviceClockTree; // Clock tree of CLKCTRL/XMEGA devices, which have no SUT_CKSEL fuse
 }
 
 export interface ElectricalParameter {
@@ -321,6 +484,241 @@ export interface DeviceElectricalParameters {
   groups: string[];
 }
 
+// Types for JSON export/import of parsed packs
+export type SerializedAtPack = Omit<AtPack, 'zipContent'>;
+
+export interface AtPackExportDocument {
+  $schema: string;
+  format: 'atpack-export';
+  formatVersion: number;
+  kind: 'pack' | 'device';
+  generator: {
+    name: string;
+    version: string;
+  };
+  pack: SerializedAtPack; // For kind 'device', pack.devices holds the single exported device
+}
+
+// Types for fuse value import and decoding
+export type FuseImportFormat = 'avrdude' | 'hex-bytes' | 'intel-hex' | 'elf';
+
+export interface FuseImportResult {
+  format: FuseImportFormat;
+  values: Record<string, number>; // Fuse name -> register value
+  warnings: string[];
+}
+
+export interface DecodedFuseBitfield {
+  bitfield: FuseBitfield;
+  value: number;
+  match?: FuseBitValue;
+  undefinedValue: boolean; // True when the bitfield has values but none matches
+}
+
+export interface DecodedFuse {
+  fuse: FuseConfig;
+  value: number;
+  bitfields: DecodedFuseBitfield[];
+  reservedMask: number; // Bits not covered by any bitfield
+  reservedMismatch: number; // Reserved bits that differ from the fuse default value
+}
+
+// Types for fuse safety analysis
+export type FuseSafetySeverity = 'error' | 'warning';
+
+export interface FuseSafetyFinding {
+  rule: string; // Id of the rule that produced the finding
+  severity: FuseSafetySeverity;
+  register: string; // Fuse or lockbit register name
+  bitfield?: string;
+  message: string;
+}
+
+// Types for the persistent pack cache
+export interface CachedPackEntry {
+  id: string; // Vendor.Name.Version
+  vendor: string;
+  name: string;
+  version: string;
+  description: string;
+  deviceCount: number;
+  source?: AtPackSource;
+  packSize: number; // Approximate size of the parsed pack in bytes
+  archiveSize: number; // Size of the raw archive in bytes, 0 when not stored
+  cachedAt: number; // Timestamps in milliseconds
+  lastUsedAt: number;
+}
+
+export interface PackCacheUsage {
+  packCount: number;
+  cachedBytes: number; // Parsed packs and archives
+  maxBytes: number; // Least recently used packs are evicted above this size
+  storageUsage?: number; // Origin-wide usage and quota reported by the browser
+  storageQuota?: number;
+}
+
+// Types for the archive worker used to load .atpack files off the main thread
+export interface AtPackParseProgress {
+  stage: 'reading' | 'devices';
+  current: number; // Device N of total, 0 while reading the archive
+  total: number;
+  deviceName?: string;
+  fileName?: string; // File being read or parsed
+}
+
+// Archives stay open in the worker (by archiveId) until closed, so device files can be read on demand
+export type ArchiveWorkerRequest =
+  | { type: 'open'; requestId: number; archiveId: number; archive: ArrayBuffer }
+  | { type: 'read'; requestId: number; archiveId: number; fileNames: string[] }
+  | { type: 'cancel'; requestId: number }
+  | { type: 'close'; archiveId: number };
+
+export type ArchiveWorkerResponse =
+  | { type: 'opened'; requestId: number; fileNames: string[]; pdscFileName: string; pdsc: string }
+  | { type: 'file'; requestId: number; fileName: string; content: string }
+  | { type: 'done'; requestId: number }
+  | { type: 'error'; requestId: number; message: string };
+
+// Types for device comparison; statuses are relative to the first (reference) device
+export type ComparisonStatus = 'same' | 'added' | 'removed' | 'changed';
+
+export type ComparisonSectionId =
+  | 'memory'
+  | 'signatures'
+  | 'modules'
+  | 'registers'
+  | 'interrupts'
+  | 'fuses'
+  | 'timers'
+  | 'pins';
+
+export interface ComparisonRow {
+  key: string;
+  values: (string | null)[]; // One per compared device, null when the item is absent
+  statuses: ComparisonStatus[]; // One per compared device, 'same' for the reference device
+  status: ComparisonStatus; // Overall status: the first non-'same' status, in device order
+}
+
+export interface ComparisonSection {
+  id: ComparisonSectionId;
+  title: string;
+  rows: ComparisonRow[];
+}
+
+export interface ComparedDevice {
+  pack: string; // Pack id (Vendor.Name.Version)
+  device: string;
+}
+
+export interface DeviceComparison {
+  devices: ComparedDevice[];
+  sections: ComparisonSection[];
+}
+
+// Types for pack version diffs (old release -> new release)
+export type PackChangeKind = 'added' | 'removed' | 'changed';
+
+export type DeviceDiffSectionId =
+  | 'memory'
+  | 'registers'
+  | 'bitfields'
+  | 'fuses'
+  | 'interrupts'
+  | 'pinouts'
+  | 'electrical';
+
+export interface PackDiffChange {
+  key: string;
+  kind: PackChangeKind;
+  before?: string; // Absent for added items
+  after?: string; // Absent for removed items
+}
+
+export interface DeviceDiffSection {
+  id: DeviceDiffSectionId;
+  title: string;
+  changes: PackDiffChange[];
+}
+
+export interface DeviceDiff {
+  device: string;
+  sections: DeviceDiffSection[]; // Only sections with changes
+}
+
+export interface PackDiffDocument {
+  format: 'atpack-diff';
+  formatVersion: number;
+  pack: string; // Pack name (e.g. ATmega_DFP)
+  from: { id: string; version: string };
+  to: { id: string; version: string };
+  addedDevices: string[];
+  removedDevices: string[];
+  changedDevices: DeviceDiff[];
+  unchangedDevices: string[];
+}
+
+// Types for the pin multiplexing planner
+export interface PinMuxSignal {
+  instance: string; // Peripheral instance (USART0, SPI0...)
+  name: string; // Signal group and index (TXD, AIN3...)
+  pad: string;
+  route: string; // Signal function: 'default' or an alternate routing ('alt1'...) selected per instance
+}
+
+export interface PinMuxRequest {
+  instance: string;
+  signals?: string[]; // Signal names to route, all signals of the instance by default
+  count?: number; // Route any count signals of the instance instead (e.g. 4 ADC inputs)
+}
+
+export interface PinAssignment {
+  instance: string;
+  signal: string;
+  pad: string;
+}
+
+export type PinMuxConflictKind = 'shared-pad' | 'not-bonded' | 'invalid-pad' | 'mixed-routes';
+
+export interface PinMuxConflict {
+  kind: PinMuxConflictKind;
+  assignments: PinAssignment[];
+  message: string;
+}
+
+export interface PinMuxPlan {
+  package: string;
+  assignments: PinAssignment[];
+  conflicts: PinMuxConflict[];
+  unresolved: PinMuxRequest[]; // Requests the automatic assignment could not route
+}
+
+// Types for the parametric device search
+export interface PeripheralRequirement {
+  name: string; // Module name (USART, TWI...) or timer width ('16-bit timer')
+  count: number;
+}
+
+export interface DeviceSearchCriteria {
+  text?: string; // Device name or family substring
+  minFlash?: number; // Bytes
+  minSram?: number;
+  minEeprom?: number;
+  peripherals?: PeripheralRequirement[];
+  packageType?: string; // Package name substring (QFN, TQFP...)
+  minPins?: number;
+  maxPins?: number;
+  supplyVoltage?: number; // Volts, must be within the variant voltage range
+  minTemperature?: number; // °C, must be within the variant temperature range
+  maxTemperature?: number;
+  minAdcChannels?: number;
+}
+
+// Loading state of the device-specific data of a device
+export interface DeviceLoadState {
+  status: 'loading' | 'loaded' | 'error';
+  error?: string;
+}
+
 // Types for application state
 export interface AtPackState {
   atpacks: AtPack[];
@@ -328,6 +726,12 @@ export interface AtPackState {
   selectedDevice: AtPackDevice | null;
   loading: boolean;
   error: string | null;
+  configuration: DeviceConfiguration; // Configuration of the selected device
+  pendingShare: SharedState | null; // Shared state waiting for its pack to be loaded
+  cachedPacks: CachedPackEntry[]; // Packs available offline from the pack cache
+  loadProgress: AtPackParseProgress | null; // Progress of the pack being loaded, if reported
+  deviceLoadStates: Record<string, DeviceLoadState>; // By pack id and device name (see getDeviceKey)
+  comparedDevices: string[]; // Devices of the comparison view, by getDeviceKey
 }
 
 export interface FuseCalculatorState {
@@ -335,6 +739,46 @@ export interface FuseCalculatorState {
   lockbitValues: Record<string, number>;
 }
 
+// Clock configurator selection, by clock source/prescaler value; kept in sync with the clock
+// fuses (see utils/clockFuses)
+export interface ClockConfigState {
+  source?: number;
+  frequency?: number;
+  systemPrescaler?: number;
+  adcPrescaler?: number;
+  timerPrescaler?: number;
+  cpuFrequency?: number; // Resulting CPU frequency, used by the peripheral calculators
+}
+
+export interface TimerConfigState {
+  timer?: string;
+  mode?: number;
+  prescaler?: number;
+  cpuFrequency?: number;
+  targetFrequency?: number;
+}
+
+// User configuration of a device; fuseValues also holds PIC configuration words
+export interface DeviceConfiguration extends Partial<FuseCalculatorState> {
+  pinout?: string;
+  clock?: ClockConfigState;
+  timer?: TimerConfigState;
+}
+
+// Application state encoded in the URL fragment
+export interface SharedState {
+  pack?: SharedPackReference;
+  device?: string;
+  tab?: string;
+  configuration: DeviceConfiguration;
+}
+
+export interface SharedPackReference {
+  id: string; // Vendor.Name.Version
+  url?: string; // Set for packs loaded from a URL, which are reloaded automatically
+  fileName?: string; // Set for local files, which restore when the same pack is reopened
+}
+
 // Types for errors
 export class AtPackParseError extends Error {
   public readonly originalError?: Error;
@@ -0,0 +1,160 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { applyClockConfigToFuses, getClockConfigFromFuses, getClockFuseFields } from './clockFuses';
+import { AtPackParser } from '../services/AtPackParser';
+import type { AtPackDevice } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATtiny1614</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: the clock fuses and the CLKPR system prescaler
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <address-spaces>
+        <address-space endianness="little" name="fuses" id="fuses" start="0" size="0x0003">
+          <memory-segment start="0" size="0x0003" type="fuses" rw="RW" exec="0" name="FUSES" pagesize="0x1"/>
+        </address-space>
+      </address-spaces>
+    </device>
+  </devices>
+  <modules>
+    <module caption="CPU Registers" name="CPU">
+      <register-group caption="CPU Registers" name="CPU">
+        <register caption="Clock Prescale Register" name="CLKPR" offset="0x61" size="1">
+          <bitfield caption="Clock Prescaler Change Enable" mask="0x80" name="CLKPCE"/>
+          <bitfield caption="Clock Prescaler Select Bits" mask="0x0F" name="CLKPS" values="CPU_CLK_PRESCALE_4_BITS_SMALL"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="CPU_CLK_PRESCALE_4_BITS_SMALL">
+        <value caption="1" name="VAL_0x00" value="0x00"/>
+        <value caption="2" name="VAL_0x01" value="0x01"/>
+        <value caption="4" name="VAL_0x02" value="0x02"/>
+        <value caption="8" name="VAL_0x03" value="0x03"/>
+        <value caption="16" name="VAL_0x04" value="0x04"/>
+        <value caption="32" name="VAL_0x05" value="0x05"/>
+        <value caption="64" name="VAL_0x06" value="0x06"/>
+        <value caption="128" name="VAL_0x07" value="0x07"/>
+        <value caption="256" name="VAL_0x08" value="0x08"/>
+      </value-group>
+    </module>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE">
+        <register caption="" name="EXTENDED" offset="0x02" size="1" initval="0xFF">
+          <bitfield caption="Brown-out Detector trigger level" mask="0x07" name="BODLEVEL"/>
+        </register>
+        <register caption="" name="HIGH" offset="0x01" size="1" initval="0xD9">
+          <bitfield caption="Serial program downloading (SPI) enabled" mask="0x20" name="SPIEN"/>
+          <bitfield caption="Boot Reset vector Enabled" mask="0x01" name="BOOTRST"/>
+        </register>
+        <register caption="" name="LOW" offset="0x00" size="1" initval="0x62">
+          <bitfield caption="Divide clock by 8 internally" mask="0x80" name="CKDIV8"/>
+          <bitfield caption="Clock output on PORTB0" mask="0x40" name="CKOUT"/>
+          <bitfield caption="Select Clock Source" mask="0x3F" name="SUT_CKSEL" values="ENUM_SUT_CKSEL"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="ENUM_SUT_CKSEL">
+        <value caption="Int. RC Osc. 8 MHz; Start-up time PWRDWN/RESET: 6 CK/14 CK + 65 ms" name="INTRCOSC_8MHZ_6CK_14CK_65MS" value="0x22"/>
+        <value caption="Int. RC Osc. 128kHz; Start-up time PWRDWN/RESET: 6 CK/14 CK + 65 ms" name="INTRCOSC_128KHZ_6CK_14CK_65MS" value="0x23"/>
+        <value caption="Ext. Crystal Osc. 8.0-    MHz; Start-up time PWRDWN/RESET: 16K CK/14 CK + 65 ms" name="EXTXOSC_8MHZ_XX_16KCK_14CK_65MS" value="0x3F"/>
+      </value-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// Excerpt of ATtiny1614.atdf: the clock is configured by CLKCTRL, OSCCFG only selects the oscillator frequency
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR"/>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="Oscillator Configuration" name="OSCCFG" offset="0x02" size="1" initval="0x02">
+          <bitfield caption="Oscillator Lock" mask="0x80" name="OSCLOCK"/>
+          <bitfield caption="Frequency Select" mask="0x03" name="FREQSEL" values="FUSE_FREQSEL"/>
+        </register>
+      </register-group>
+      <value-group caption="" name="FUSE_FREQSEL">
+        <value caption="16 MHz" name="16MHZ" value="0x1"/>
+        <value caption="20 MHz" name="20MHZ" value="0x2"/>
+      </value-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+describe('clockFuses', () => {
+  let device: AtPackDevice;
+  let attiny1614: AtPackDevice;
+
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parser = new AtPackParser();
+    [device, attiny1614] = parser.parseArchivePdsc(PDSC).devices;
+    parser.enrichDevice(device, ATMEGA328P_ATDF);
+    parser.enrichDevice(attiny1614, ATTINY1614_ATDF);
+  });
+
+  it('finds the clock source and divide-by-8 bitfields', () => {
+    const fields = getClockFuseFields(device);
+
+    expect(fields.source).toMatchObject({ fuse: 'LOW', bitfield: { name: 'SUT_CKSEL' } });
+    expect(fields.divide8).toMatchObject({ fuse: 'LOW', bitfield: { name: 'CKDIV8' } });
+  });
+
+  it('reads the clock configuration from the default fuses', () => {
+    expect(getClockConfigFromFuses(device, undefined)).toEqual({
+      source: 0x22,
+      frequency: 8000000,
+      systemPrescaler: 3,
+      cpuFrequency: 1000000
+    });
+  });
+
+  it('drops the /8 prescaler when CKDIV8 is unprogrammed and keeps software prescalers', () => {
+    expect(getClockConfigFromFuses(device, { LOW: 0xE2 }, { source: 0x22, frequency: 8000000, systemPrescaler: 3 }))
+      .toMatchObject({ systemPrescaler: 0, cpuFrequency: 8000000 });
+    expect(getClockConfigFromFuses(device, { LOW: 0xE2 }, { source: 0x22, frequency: 8000000, systemPrescaler: 1 }))
+      .toMatchObject({ systemPrescaler: 1, cpuFrequency: 4000000 });
+  });
+
+  it('keeps the user frequency of sources without a fixed frequency', () => {
+    expect(getClockConfigFromFuses(device, { LOW: 0xFF }, { source: 0x22, frequency: 16000000 }))
+      .toEqual({ source: 0x3F, frequency: 16000000, systemPrescaler: 0, cpuFrequency: 16000000 });
+  });
+
+  it('writes SUT_CKSEL and CKDIV8 without touching the other bits', () => {
+    const values = applyClockConfigToFuses(device, { source: 0x3F, systemPrescaler: 0 }, { LOW: 0x62, HIGH: 0xDE });
+
+    expect(values).toEqual({ LOW: 0xFF, HIGH: 0xDE, EXTENDED: 0xFF });
+  });
+
+  it('round-trips a clock configuration through the fuses', () => {
+    const clock = { source: 0x23, frequency: 128000, systemPrescaler: 3 };
+    const values = applyClockConfigToFuses(device, clock, undefined);
+
+    expect(values).toEqual({ LOW: 0x63, HIGH: 0xD9, EXTENDED: 0xFF });
+    expect(getClockConfigFromFuses(device, values)).toEqual({ ...clock, cpuFrequency: 16000 });
+  });
+
+  it('leaves devices without clock fuses unchanged', () => {
+    const fuseValues = { OSCCFG: 0x02 };
+
+    expect(getClockConfigFromFuses(attiny1614, fuseValues, { frequency: 20000000 })).toEqual({ frequency: 20000000 });
+    expect(applyClockConfigToFuses(attiny1614, { source: 0x22 }, fuseValues)).toBe(fuseValues);
+  });
+});
@@ -0,0 +1,133 @@
+import type { AtPackDevice, ClockConfigState, FuseBitfield } from '../types/atpack';
+
+// A fuse bitfield with the name of its fuse register
+export interface ClockFuseField {
+  fuse: string;
+  bitfield: FuseBitfield;
+}
+
+// Fuse bitfields of the fuse-configured clock (classic AVR); undefined when the device has none
+export interface ClockFuseFields {
+  source?: ClockFuseField; // SUT_CKSEL, holds the clock source value
+  divide8?: ClockFuseField; // CKDIV8, sets the system prescaler to /8 at reset when programmed
+}
+
+const findFuseBitfield = (device: AtPackDevice, match: (bitfield: FuseBitfield) => boolean): ClockFuseField | undefined => {
+  for (const fuse of device.fuses) {
+    const bitfield = fuse.bitfields.find(match);
+    if (bitfield) {
+      return { fuse: fuse.name, bitfield };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Find the clock source and divide-by-8 fuse bitfields, matched as in the clock parser
+ */
+export const getClockFuseFields = (device: AtPackDevice): ClockFuseFields => {
+  return {
+    source: findFuseBitfield(device, b => b.name === 'SUT_CKSEL')
+      ?? findFuseBitfield(device, b => b.description.includes('Clock Source')),
+    divide8: findFuseBitfield(device, b => b.name === 'CKDIV8' || b.description.includes('Divide clock by 8'))
+  };
+};
+
+const getFieldMask = (bitfield: FuseBitfield): number => ((1 << bitfield.bitWidth) - 1) << bitfield.bitOffset;
+
+const readField = (registers: Record<string, number>, field: ClockFuseField): number | undefined => {
+  const value = registers[field.fuse];
+  return value === undefined ? undefined : (value & getFieldMask(field.bitfield)) >> field.bitfield.bitOffset;
+};
+
+// Register values of the device fuses, the reset value where no value is set
+const getFuseRegisters = (device: AtPackDevice, fuseValues?: Record<string, number>): Record<string, number> => {
+  const registers: Record<string, number> = {};
+  device.fuses.forEach(fuse => {
+    const value = fuseValues?.[fuse.name] ?? fuse.defaultValue;
+    if (value !== undefined) {
+      registers[fuse.name] = value;
+    }
+  });
+  return registers;
+};
+
+/**
+ * Clock configuration matching the clock fuses: the clock source selected by SUT_CKSEL and
+ * the /8 system prescaler when CKDIV8 is programmed (0). Returns the configuration unchanged
+ * for devices without clock fuses (clock tree and PIC devices).
+ */
+export const getClockConfigFromFuses = (
+  device: AtPackDevice,
+  fuseValues: Record<string, number> | undefined,
+  clock?: ClockConfigState
+): ClockConfigState | undefined => {
+  const clockInfo = device.clockInfo;
+  const fields = getClockFuseFields(device);
+  if (!clockInfo || (!fields.source && !fields.divide8)) {
+    return clock;
+  }
+
+  const registers = getFuseRegisters(device, fuseValues);
+  const next: ClockConfigState = { ...clock };
+
+  const sourceValue = fields.source ? readField(registers, fields.source) : undefined;
+  const source = clockInfo.sources.find(s => s.value === sourceValue);
+  if (source && source.value !== clock?.source) {
+    next.source = source.value;
+    next.frequency = source.frequency ?? clock?.frequency;
+  }
+
+  const divide8 = fields.divide8 ? readField(registers, fields.divide8) : undefined;
+  if (divide8 !== undefined) {
+    const current = clockInfo.systemPrescalers.find(p => p.value === clock?.systemPrescaler);
+    if (divide8 === 0) {
+      next.systemPrescaler = clockInfo.systemPrescalers.find(p => p.divider === 8)?.value ?? next.systemPrescaler;
+    } else if (!current || current.divider === 8) {
+      // Unprogrammed CKDIV8 starts undivided; other software prescalers are kept
+      next.systemPrescaler = clockInfo.systemPrescalers.find(p => p.divider === 1)?.value ?? next.systemPrescaler;
+    }
+  }
+
+  if (next.frequency !== undefined) {
+    const divider = clockInfo.systemPrescalers.find(p => p.value === next.systemPrescaler)?.divider ?? 1;
+    next.cpuFrequency = next.frequency / divider;
+  }
+
+  return next;
+};
+
+/**
+ * Fuse register values matching a clock configuration: SUT_CKSEL set to the clock source and
+ * CKDIV8 programmed for the /8 system prescaler. Returns the values unchanged for devices
+ * without clock fuses.
+ */
+export const applyClockConfigToFuses = (
+  device: AtPackDevice,
+  clock: ClockConfigState,
+  fuseValues: Record<string, number> | undefined
+): Record<string, number> | undefined => {
+  const clockInfo = device.clockInfo;
+  const fields = getClockFuseFields(device);
+  if (!clockInfo || (!fields.source && !fields.divide8)) {
+    return fuseValues;
+  }
+
+  const registers = getFuseRegisters(device, fuseValues);
+  const writeField = (field: ClockFuseField, value: number) => {
+    const mask = getFieldMask(field.bitfield);
+    registers[field.fuse] = ((registers[field.fuse] ?? 0) & ~mask) | ((value << field.bitfield.bitOffset) & mask);
+  };
+
+  const source = clockInfo.sources.find(s => s.value === clock.source);
+  if (fields.source && source) {
+    writeField(fields.source, source.value);
+  }
+
+  const prescaler = clockInfo.systemPrescalers.find(p => p.value === clock.systemPrescaler);
+  if (fields.divide8 && prescaler) {
+    writeField(fields.divide8, prescaler.divider === 8 ? 0 : 1);
+  }
+
+  return registers;
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { computeClockTree, formatFrequency, getDefaultClockTreeSelection } from './clockTree';
+import type { DeviceClockInfo, DeviceClockTree } from '../types/atpack';
+
+const createClockInfo = (clockTree: DeviceClockTree | undefined, clockInfo: Partial<DeviceClockInfo> = {}): DeviceClockInfo => ({
+  sources: [],
+  systemPrescalers: [],
+  adcPrescalers: [],
+  adcReferences: [],
+  adcChannels: [],
+  timerPrescalers: [],
+  hasClockOutput: false,
+  hasClockDivide8: false,
+  clockTree,
+  ...clockInfo
+});
+
+// ATtiny1614: OSC20M at 20 MHz, prescaler enabled to divide by 6 at reset
+const ATTINY1614_CLOCK = createClockInfo({
+  kind: 'avr8x',
+  mainClockRegister: 'CLKCTRL.MCLKCTRLA',
+  sources: [
+    { name: 'OSC20M', caption: '20MHz oscillator', value: 0x0, type: 'internal', frequency: 20000000 },
+    { name: 'OSCULP32K', caption: '32KHz oscillator', value: 0x1, type: 'internal', frequency: 32768 },
+    { name: 'EXTCLK', caption: 'External clock', value: 0x3, type: 'external' }
+  ],
+  defaultSource: 0x0,
+  defaultPrescaler: 0x11,
+  bcPrescalers: [],
+  rtcRegister: 'RTC.CLKSEL',
+  rtcSources: [
+    { name: 'INT32K', caption: 'Internal 32kHz OSC', value: 0x0, type: 'internal', frequency: 32768 },
+    { name: 'EXTCLK', caption: 'External Clock', value: 0x3, type: 'external' }
+  ],
+  defaultRtcSource: 0x0
+}, {
+  systemPrescalers: [
+    { name: 'NODIV', caption: 'Prescaler disabled', value: 0x00, divider: 1 },
+    { name: '2X', caption: '2X', value: 0x01, divider: 2 },
+    { name: '6X', caption: '6X', value: 0x11, divider: 6 }
+  ]
+});
+
+// ATxmega128A1U: RC oscillators, the PLL fed by the 32 MHz RC oscillator, prescalers A, B and C
+const ATXMEGA128A1U_CLOCK = createClockInfo({
+  kind: 'xmega',
+  mainClockRegister: 'CLK.CTRL',
+  sources: [
+    { name: 'RC2M', caption: 'Internal 2 MHz RC Oscillator', value: 0x00, type: 'internal', frequency: 2000000 },
+    { name: 'RC32M', caption: 'Internal 32 MHz RC Oscillator', value: 0x01, type: 'internal', frequency: 32000000 },
+    { name: 'PLL', caption: 'Phase Locked Loop', value: 0x04, type: 'pll' }
+  ],
+  defaultSource: 0x00,
+  defaultPrescaler: 0x00,
+  bcPrescalers: [
+    { name: '1_1', caption: 'Divide B by 1 and C by 1', value: 0x00, dividerB: 1, dividerC: 1 },
+    { name: '2_2', caption: 'Divide B by 2 and C by 2', value: 0x03, dividerB: 2, dividerC: 2 }
+  ],
+  rtcSources: []
+}, {
+  systemPrescalers: [
+    { name: '1', caption: 'Divide by 1', value: 0x00, divider: 1 },
+    { name: '2', caption: 'Divide by 2', value: 0x01, divider: 2 }
+  ],
+  pllInfo: {
+    available: true,
+    register: 'OSC.PLLCTRL',
+    sources: [
+      { name: 'RC2M', caption: 'Internal 2 MHz RC Oscillator', value: 0x00 },
+      { name: 'RC32M', caption: 'Internal 32 MHz RC Oscillator', value: 0x02 }
+    ],
+    inputPrescalers: [],
+    multipliers: [
+      { name: 'PLLFAC1', caption: 'Multiplication factor 1', value: 1, multiplier: 1 },
+      { name: 'PLLFAC4', caption: 'Multiplication factor 4', value: 4, multiplier: 4 }
+    ]
+  }
+});
+
+describe('clockTree', () => {
+  it('formats frequencies with their unit', () => {
+    expect(formatFrequency(3333333.33)).toBe('3.33 MHz');
+    expect(formatFrequency(32768)).toBe('32.77 kHz');
+    expect(formatFrequency(512.5)).toBe('512.5 Hz');
+  });
+
+  it('starts from the reset selection, with a default frequency for external clocks', () => {
+    expect(getDefaultClockTreeSelection(ATTINY1614_CLOCK)).toEqual({
+      source: 0x0,
+      sourceFrequencies: { OSC20M: 20000000, OSCULP32K: 32768, EXTCLK: 8000000, INT32K: 32768 },
+      prescaler: 0x11,
+      bcPrescaler: undefined,
+      autotune: false,
+      pllSource: undefined,
+      pllMultiplier: undefined,
+      rtcSource: 0x0
+    });
+    expect(getDefaultClockTreeSelection(createClockInfo(undefined))).toBeNull();
+  });
+
+  it('divides the main clock by the system prescaler on AVR8X devices', () => {
+    const selection = getDefaultClockTreeSelection(ATTINY1614_CLOCK)!;
+
+    expect(computeClockTree(ATTINY1614_CLOCK, selection)).toEqual({
+      main: 20000000,
+      cpu: 20000000 / 6,
+      per: 20000000 / 6,
+      pll: undefined,
+      rtc: 32768
+    });
+    expect(computeClockTree(ATTINY1614_CLOCK, {
+      ...selection,
+      source: 0x3,
+      sourceFrequencies: { ...selection.sourceFrequencies, EXTCLK: 12000000 },
+      prescaler: 0x01
+    })).toMatchObject({ main: 12000000, cpu: 6000000 });
+  });
+
+  it('runs XMEGA devices from the PLL through the prescalers A, B and C', () => {
+    const selection = {
+      ...getDefaultClockTreeSelection(ATXMEGA128A1U_CLOCK)!,
+      source: 0x04,
+      prescaler: 0x01,
+      bcPrescaler: 0x03,
+      pllSource: 0x02,
+      pllMultiplier: 4
+    };
+
+    // The 32 MHz RC oscillator enters the PLL divided by 4
+    expect(computeClockTree(ATXMEGA128A1U_CLOCK, selection)).toEqual({
+      main: 32000000,
+      cpu: 4000000,
+      per: 4000000,
+      per2: 8000000,
+      per4: 16000000,
+      pll: 32000000,
+      rtc: undefined
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import type {
+  ClockTreeFrequencies,
+  ClockTreeSelection,
+  ClockTreeSource,
+  DeviceClockInfo
+} from '../types/atpack';
+
+// Starting value of user-set frequencies (external clocks and crystals)
+const DEFAULT_EXTERNAL_FREQUENCY = 8000000;
+const DEFAULT_EXTERNAL_RTC_FREQUENCY = 32768;
+
+// XMEGA PLL inputs: the 32 MHz RC oscillator is divided by 4
+const PLL_INPUT_DIVIDERS: Record<string, number> = { RC32M: 4 };
+
+/**
+ * Format a frequency in Hz with its unit
+ */
+export const formatFrequency = (frequency: number): string => {
+  if (frequency >= 1000000) {
+    return `${(frequency / 1000000).toFixed(2)} MHz`;
+  } else if (frequency >= 1000) {
+    return `${(frequency / 1000).toFixed(2)} kHz`;
+  }
+  return `${Number(frequency.toFixed(2))} Hz`;
+};
+
+/**
+ * Reset state of the clock tree: the reset values of the clock select and prescaler
+ * registers, the reset frequency of each oscillator
+ */
+export const getDefaultClockTreeSelection = (clockInfo: DeviceClockInfo): ClockTreeSelection | null => {
+  const clockTree = clockInfo.clockTree;
+  if (!clockTree) {
+    return null;
+  }
+
+  const sourceFrequencies: Record<string, number> = {};
+  clockTree.sources.forEach(source => {
+    sourceFrequencies[source.name] = source.frequency ?? DEFAULT_EXTERNAL_FREQUENCY;
+  });
+  clockTree.rtcSources.forEach(source => {
+    sourceFrequencies[source.name] ??= source.frequency ?? DEFAULT_EXTERNAL_RTC_FREQUENCY;
+  });
+
+  const findValue = <T extends { value: number }>(options: T[], value?: number): number | undefined => {
+    return (options.find(option => option.value === value) ?? options[0])?.value;
+  };
+
+  return {
+    source: findValue(clockTree.sources, clockTree.defaultSource) ?? 0,
+    sourceFrequencies,
+    prescaler: clockInfo.systemPrescalers.find(p => p.value === clockTree.defaultPrescaler)?.value
+      ?? clockInfo.systemPrescalers.find(p => p.divider === 1)?.value,
+    bcPrescaler: clockTree.bcPrescalers[0]?.value,
+    autotune: false,
+    pllSource: findValue(clockInfo.pllInfo?.sources ?? []),
+    pllMultiplier: findValue(clockInfo.pllInfo?.multipliers ?? []),
+    rtcSource: findValue(clockTree.rtcSources, clockTree.defaultRtcSource)
+  };
+};
+
+const getSourceFrequency = (source: ClockTreeSource | undefined, selection: ClockTreeSelection): number => {
+  return source ? selection.sourceFrequencies[source.name] ?? source.frequency ?? 0 : 0;
+};
+
+/**
+ * Frequencies of the clock tree for a selection: the PLL output, the main clock, the CPU and
+ * peripheral clocks after the system prescaler (A, B and C on XMEGA) and the RTC clock
+ */
+export const computeClockTree = (clockInfo: DeviceClockInfo, selection: ClockTreeSelection): ClockTreeFrequencies | null => {
+  const clockTree = clockInfo.clockTree;
+  if (!clockTree) {
+    return null;
+  }
+
+  let pll: number | undefined;
+  const pllInfo = clockInfo.pllInfo;
+  if (pllInfo?.available) {
+    const pllSource = pllInfo.sources?.find(source => source.value === selection.pllSource);
+    const multiplier = pllInfo.multipliers?.find(m => m.value === selection.pllMultiplier)?.multiplier ?? pllInfo.multiplier;
+    if (pllSource && multiplier) {
+      const input = selection.sourceFrequencies[pllSource.name]
+        ?? clockTree.sources.find(source => source.name === pllSource.name)?.frequency
+        ?? 0;
+      pll = input / (PLL_INPUT_DIVIDERS[pllSource.name] ?? 1) * multiplier;
+    }
+  }
+
+  const source = clockTree.sources.find(s => s.value === selection.source);
+  const main = source?.type === 'pll' ? pll ?? 0 : getSourceFrequency(source, selection);
+  const divider = clockInfo.systemPrescalers.find(p => p.value === selection.prescaler)?.divider ?? 1;
+  const rtcSource = clockTree.rtcSources.find(s => s.value === selection.rtcSource);
+  const rtc = rtcSource ? getSourceFrequency(rtcSource, selection) : undefined;
+
+  if (clockTree.kind === 'xmega') {
+    const bc = clockTree.bcPrescalers.find(p => p.value === selection.bcPrescaler);
+    const per4 = main / divider;
+    const per2 = per4 / (bc?.dividerB ?? 1);
+    const cpu = per2 / (bc?.dividerC ?? 1);
+    return { main, cpu, per: cpu, per2, per4, pll, rtc };
+  }
+
+  return { main, cpu: main / divider, per: main / divider, pll, rtc };
+};
@@ -0,0 +1,22 @@
+/**
+ * Trigger a browser download for generated content
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Trigger a browser download for generated text content
+ */
+export const downloadTextFile = (content: string, fileName: string, mimeType: string = 'text/plain'): void => {
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
+};
@@ -0,0 +1,107 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { getPackageKind, getPackageLayout, getPackagePinCount } from './packageLayout';
+import { AtPackParser } from '../services/AtPackParser';
+import type { DevicePin } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="XMEGAA_DFP">
+  <description>Microchip ATxmega A Series Device Support</description>
+  <releases><release version="2.1.219">ATxmega128A1U</release></releases>
+  <devices>
+    <family Dfamily="ATxmega" Dvendor="Microchip:3">
+      <device Dname="ATxmega128A1U"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// A ball grid pinout as ATDF files give it: the positions are ball names, in no particular order
+const BGA_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATxmega128A1U" architecture="AVR8_XMEGA" family="AVR XMEGA"/>
+  </devices>
+  <pinouts>
+    <pinout name="CBGA100" caption="CBGA100">
+      <pin position="B2" pad="PA4"/>
+      <pin position="A1" pad="PA3"/>
+      <pin position="A2" pad="AVCC"/>
+      <pin position="B1" pad="GND"/>
+    </pinout>
+  </pinouts>
+</avr-tools-device-file>`;
+
+const createPins = (pads: string[]): DevicePin[] => {
+  return pads.map((pad, index) => ({ position: index + 1, pad, functions: [] }));
+};
+
+// ATtiny1614 SOIC14
+const SOIC14_PINS = createPins(['VDD', 'PA4', 'PA5', 'PA6', 'PA7', 'PB3', 'PB2', 'PB1', 'PB0', 'PA0', 'PA1', 'PA2', 'PA3', 'GND']);
+
+describe('packageLayout', () => {
+  beforeAll(() => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('recognizes the package outline and pin count from the package name', () => {
+    expect(['TQFP32', 'VQFN20', 'MLF28', 'PDIP28', 'SOIC14', 'SOT23-6', 'UFBGA64'].map(getPackageKind))
+      .toEqual(['qfp', 'qfn', 'qfn', 'dip', 'so', 'so', 'bga']);
+    expect(getPackagePinCount('SOT23-6', [])).toBe(6);
+    expect(getPackagePinCount('VQFN20', [])).toBe(20);
+    expect(getPackagePinCount('WLCSP', createPins(['PA0', 'PA1', 'GND']))).toBe(3);
+  });
+
+  it('numbers two-sided packages counterclockwise from the top left', () => {
+    const layout = getPackageLayout('SOIC14', SOIC14_PINS);
+    const place = (position: number) => layout.pins.find(placement => placement.pin.position === position)!;
+
+    expect(layout).toMatchObject({ kind: 'so', pinCount: 14, width: 288, height: 200 });
+    expect(layout.body).toEqual({ x: 94, y: 20, width: 100, height: 160 });
+    expect(place(1)).toMatchObject({ side: 'left', label: '1', x: 80, y: 35 });
+    expect(place(7)).toMatchObject({ side: 'left', x: 80, y: 155 });
+    expect(place(8)).toMatchObject({ side: 'right', x: 194, y: 155 });
+    expect(place(14)).toMatchObject({ side: 'right', x: 194, y: 35 });
+  });
+
+  it('marks the missing pin numbers as not connected', () => {
+    const pins = SOIC14_PINS.filter(pin => pin.position !== 9);
+
+    expect(getPackageLayout('SOIC14', pins).pins[8].pin).toEqual({ position: 9, pad: 'NC', functions: [] });
+  });
+
+  it('places QFN pads inside the body edge, around the exposed pad', () => {
+    const pins = [...createPins(Array.from({ length: 20 }, (_, index) => `P${index}`)), { position: 21, pad: 'GND', functions: [] }];
+    const layout = getPackageLayout('VQFN20', pins);
+
+    expect(layout.body).toEqual({ x: 94, y: 94, width: 120, height: 120 });
+    expect(layout.exposedPad).toEqual({ x: 124, y: 124, width: 60, height: 60 });
+    expect(layout.pins.map(placement => placement.side).filter((side, index, sides) => sides.indexOf(side) === index))
+      .toEqual(['left', 'bottom', 'right', 'top', 'exposed']);
+    expect(layout.pins[0]).toMatchObject({ side: 'left', x: 94, y: 109, width: 10 });
+    expect(layout.pins[5]).toMatchObject({ side: 'bottom', x: 109, y: 204, height: 10 });
+    expect(layout.pins[20]).toMatchObject({ pin: { pad: 'GND' }, label: '21', side: 'exposed' });
+  });
+
+  it('places balls by row letter and column number', () => {
+    const parser = new AtPackParser();
+    const [device] = parser.parseArchivePdsc(PDSC).devices;
+    parser.enrichDevice(device, BGA_ATDF);
+    const layout = getPackageLayout('CBGA100', device.pinouts[0].pins);
+
+    expect(layout).toMatchObject({ kind: 'bga', pinCount: 4, body: { x: 40, y: 40, width: 48, height: 48 } });
+    expect(layout.pins.map(placement => [placement.label, placement.pin.pad, placement.x, placement.y])).toEqual([
+      ['B2', 'PA4', 68, 68],
+      ['A1', 'PA3', 44, 44],
+      ['A2', 'AVCC', 68, 44],
+      ['B1', 'GND', 44, 68]
+    ]);
+  });
+
+  it('fills ball grids row by row when the pinout has no ball names', () => {
+    const layout = getPackageLayout('UFBGA5', createPins(['PA0', 'PA1', 'PA2', 'PA3', 'GND']));
+
+    expect(layout.pins.map(placement => placement.label)).toEqual(['A1', 'A2', 'A3', 'B1', 'B2']);
+  });
+});
@@ -0,0 +1,251 @@
+import type {
+  DevicePin,
+  PackageKind,
+  PackageLayout,
+  PackagePinPlacement,
+  PackagePinSide,
+  PackageRect
+} from '../types/atpack';
+
+// Drawing units (SVG user units)
+const PITCH = 20; // Distance between lead centers
+const LEAD_LENGTH = 14; // Leads outside the body (DIP, SO, QFP)
+const PAD_DEPTH = 10; // Pads inside the body edge (QFN)
+const LEAD_WIDTH = 10;
+const LABEL_SPACE = 80; // Room for pad names outside the leads
+const MARGIN = 20;
+const BALL_PITCH = 24;
+const BALL_SIZE = 16;
+const TITLE_SPACE = 20; // Room for the package title above a ball grid
+
+// JEDEC BGA row letters (I, O, Q, S, X and Z are not used)
+const BGA_ROWS = 'ABCDEFGHJKLMNPRTUVWY';
+
+/**
+ * Package outline family from a package name (TQFP32, VQFN20, SOT23-6, UFBGA64...)
+ */
+export const getPackageKind = (packageName: string): PackageKind => {
+  const name = packageName.toUpperCase();
+  if (/BGA|CSP/.test(name)) return 'bga';
+  if (/QFN|MLF/.test(name)) return 'qfn';
+  if (/QFP/.test(name)) return 'qfp';
+  if (/DIP/.test(name)) return 'dip';
+  return 'so';
+};
+
+/**
+ * Pin count from a package name (the dash suffix of SOT23-6 or QFN-16, else the first number),
+ * or from the highest pin number
+ */
+export const getPackagePinCount = (packageName: string, pins: DevicePin[]): number => {
+  const match = packageName.match(/-(\d+)$/) || packageName.match(/(\d+)/);
+  return match ? parseInt(match[1]) : Math.max(0, ...pins.map(pin => pin.position));
+};
+
+const getBallLabel = (row: number, column: number): string => {
+  const letters = row < BGA_ROWS.length
+    ? BGA_ROWS[row]
+    : BGA_ROWS[Math.floor(row / BGA_ROWS.length) - 1] + BGA_ROWS[row % BGA_ROWS.length];
+  return `${letters}${column + 1}`;
+};
+
+const parseBall = (ball: string): { row: string; column: number } | null => {
+  const match = ball.toUpperCase().match(/^([A-Z]+)(\d+)$/);
+  return match ? { row: match[1], column: parseInt(match[2]) } : null;
+};
+
+// Offset of the center of lead index along a side holding count leads
+const leadOffset = (sideLength: number, count: number, index: number): number => {
+  return (sideLength - (count - 1) * PITCH) / 2 + index * PITCH;
+};
+
+/**
+ * Pins by number, unconnected numbers getting an 'NC' pad
+ */
+const getNumberedPins = (pins: DevicePin[], pinCount: number): DevicePin[] => {
+  const byPosition = new Map(pins.map(pin => [pin.position, pin]));
+  return Array.from({ length: pinCount }, (_, index) =>
+    byPosition.get(index + 1) || { position: index + 1, pad: 'NC', functions: [] }
+  );
+};
+
+const placeLead = (pin: DevicePin, side: PackagePinSide, rect: PackageRect): PackagePinPlacement => {
+  return { pin, label: String(pin.position), side, ...rect };
+};
+
+/**
+ * Two-sided packages: pin 1 at the top left, numbered counterclockwise
+ */
+const layoutDual = (kind: PackageKind, pins: DevicePin[], pinCount: number): PackageLayout => {
+  const leftCount = Math.ceil(pinCount / 2);
+  const bodyWidth = kind === 'dip' ? 140 : 100;
+  const bodyHeight = Math.max(leftCount, 2) * PITCH + PITCH;
+  const body = { x: LABEL_SPACE + LEAD_LENGTH, y: MARGIN, width: bodyWidth, height: bodyHeight };
+  const numbered = getNumberedPins(pins, pinCount);
+
+  const placements = numbered.map((pin, index) => {
+    if (index < leftCount) {
+      const y = body.y + leadOffset(bodyHeight, leftCount, index);
+      return placeLead(pin, 'left', { x: body.x - LEAD_LENGTH, y: y - LEAD_WIDTH / 2, width: LEAD_LENGTH, height: LEAD_WIDTH });
+    }
+    const y = body.y + leadOffset(bodyHeight, leftCount, leftCount - 1 - (index - leftCount));
+    return placeLead(pin, 'right', { x: body.x + bodyWidth, y: y - LEAD_WIDTH / 2, width: LEAD_LENGTH, height: LEAD_WIDTH });
+  });
+
+  return {
+    kind,
+    pinCount,
+    width: bodyWidth + 2 * (LEAD_LENGTH + LABEL_SPACE),
+    height: bodyHeight + 2 * MARGIN,
+    body,
+    pins: placements
+  };
+};
+
+/**
+ * Four-sided packages: pin 1 at the top of the left side, numbered counterclockwise;
+ * QFN pads sit inside the body edge, around an exposed pad
+ */
+const layoutQuad = (kind: PackageKind, pins: DevicePin[], pinCount: number): PackageLayout => {
+  const base = Math.floor(pinCount / 4);
+  const extra = pinCount % 4;
+  // Left, bottom, right, top; extra pins go to the left and right sides
+  const counts = [base + (extra > 0 ? 1 : 0), base + (extra > 2 ? 1 : 0), base + (extra > 1 ? 1 : 0), base];
+  const side = Math.max(...counts, 2) * PITCH + PITCH;
+  const offset = LABEL_SPACE + LEAD_LENGTH;
+  const body = { x: offset, y: offset, width: side, height: side };
+  const leadless = kind === 'qfn';
+  const depth = leadless ? PAD_DEPTH : LEAD_LENGTH;
+  const exposedPad = leadless
+    ? { x: body.x + side * 0.25, y: body.y + side * 0.25, width: side * 0.5, height: side * 0.5 }
+    : undefined;
+
+  const placements: PackagePinPlacement[] = [];
+  const numbered = getNumberedPins(pins, pinCount);
+  let index = 0;
+  counts.forEach((count, sideIndex) => {
+    for (let i = 0; i < count; i++, index++) {
+      const pin = numbered[index];
+      switch (sideIndex) {
+        case 0: {
+          const y = body.y + leadOffset(side, count, i);
+          placements.push(placeLead(pin, 'left', {
+            x: leadless ? body.x : body.x - depth, y: y - LEAD_WIDTH / 2, width: depth, height: LEAD_WIDTH
+          }));
+          break;
+        }
+        case 1: {
+          const x = body.x + leadOffset(side, count, i);
+          placements.push(placeLead(pin, 'bottom', {
+            x: x - LEAD_WIDTH / 2, y: leadless ? body.y + side - depth : body.y + side, width: LEAD_WIDTH, height: depth
+          }));
+          break;
+        }
+        case 2: {
+          const y = body.y + leadOffset(side, count, count - 1 - i);
+          placements.push(placeLead(pin, 'right', {
+            x: leadless ? body.x + side - depth : body.x + side, y: y - LEAD_WIDTH / 2, width: depth, height: LEAD_WIDTH
+          }));
+          break;
+        }
+        default: {
+          const x = body.x + leadOffset(side, count, count - 1 - i);
+          placements.push(placeLead(pin, 'top', {
+            x: x - LEAD_WIDTH / 2, y: leadless ? body.y : body.y - depth, width: LEAD_WIDTH, height: depth
+          }));
+        }
+      }
+    }
+  });
+
+  // Pins numbered after the package pins are the exposed pad
+  if (exposedPad) {
+    pins.filter(pin => pin.position > pinCount).forEach(pin => {
+      placements.push({ pin, label: String(pin.position), side: 'exposed', ...exposedPad });
+    });
+  }
+
+  return {
+    kind,
+    pinCount,
+    width: side + 2 * offset,
+    height: side + 2 * offset,
+    body,
+    exposedPad,
+    pins: placements
+  };
+};
+
+/**
+ * Ball grid: balls placed by row letter and column number, or row by row in pin order
+ * when the pinout has no ball names
+ */
+const layoutBga = (pins: DevicePin[], pinCount: number): PackageLayout => {
+  const balls = pins
+    .map(pin => ({ pin, ball: pin.ball ? parseBall(pin.ball) : null }))
+    .filter((entry): entry is { pin: DevicePin; ball: { row: string; column: number } } => entry.ball !== null);
+
+  let cells: { pin: DevicePin; row: number; column: number; label: string }[];
+  let rows: number;
+  let columns: number;
+
+  if (balls.length > 0) {
+    const rowNames = Array.from(new Set(balls.map(entry => entry.ball.row)))
+      .sort((a, b) => a.length - b.length || a.localeCompare(b));
+    rows = rowNames.length;
+    columns = Math.max(...balls.map(entry => entry.ball.column));
+    cells = balls.map(({ pin, ball }) => ({
+      pin,
+      row: rowNames.indexOf(ball.row),
+      column: ball.column - 1,
+      label: `${ball.row}${ball.column}`
+    }));
+  } else {
+    columns = Math.max(1, Math.ceil(Math.sqrt(pinCount)));
+    rows = Math.max(1, Math.ceil(pinCount / columns));
+    cells = getNumberedPins(pins, pinCount).map((pin, index) => {
+      const row = Math.floor(index / columns);
+      const column = index % columns;
+      return { pin, row, column, label: getBallLabel(row, column) };
+    });
+  }
+
+  const offset = MARGIN + TITLE_SPACE;
+  const body = { x: offset, y: offset, width: columns * BALL_PITCH, height: rows * BALL_PITCH };
+  const placements = cells.map(({ pin, row, column, label }) => ({
+    pin,
+    label,
+    side: 'grid' as const,
+    x: body.x + column * BALL_PITCH + (BALL_PITCH - BALL_SIZE) / 2,
+    y: body.y + row * BALL_PITCH + (BALL_PITCH - BALL_SIZE) / 2,
+    width: BALL_SIZE,
+    height: BALL_SIZE
+  }));
+
+  return {
+    kind: 'bga',
+    pinCount: cells.length,
+    width: body.width + offset + MARGIN,
+    height: body.height + offset + MARGIN,
+    body,
+    pins: placements
+  };
+};
+
+/**
+ * Compute the drawing of a package: body outline and the placement of every pin
+ */
+export const getPackageLayout = (packageName: string, pins: DevicePin[]): PackageLayout => {
+  const kind = getPackageKind(packageName);
+  const pinCount = getPackagePinCount(packageName, pins);
+
+  switch (kind) {
+    case 'bga':
+      return layoutBga(pins, pinCount);
+    case 'qfp':
+    case 'qfn':
+      return layoutQuad(kind, pins, pinCount);
+    default:
+      return layoutDual(kind, pins, pinCount);
+  }
+};
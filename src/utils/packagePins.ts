@@ -0,0 +1,40 @@
+import type { AtPackDevice, DevicePin, PinType } from '../types/atpack';
+
+/**
+ * Classify a pin from its pad name
+ */
+export const getPinType = (pin: DevicePin): PinType => {
+  const pad = pin.pad.toUpperCase();
+
+  if (pad.includes('VCC') || pad.includes('AVCC') || pad.includes('GND')) {
+    return 'power';
+  }
+  if (pad.includes('RESET')) {
+    return 'reset';
+  }
+  if (pad.includes('XTAL') || pad.includes('OSC')) {
+    return 'oscillator';
+  }
+  if (pad.includes('AREF')) {
+    return 'special';
+  }
+  return 'gpio';
+};
+
+/**
+ * Pins of a package, by position: from the variant pinout (pin number -> pad) when known,
+ * else from the pinout of the same name, with pin functions looked up by pad
+ */
+export const getPackagePins = (device: AtPackDevice, packageName: string): DevicePin[] => {
+  const pinout = device.pinouts.find(p => p.name === packageName);
+  const variant = device.variants.find(v => v.package === packageName && v.pinout && Object.keys(v.pinout).length > 0);
+
+  if (!variant?.pinout) {
+    return pinout ? [...pinout.pins].sort((a, b) => a.position - b.position) : [];
+  }
+
+  const functionsByPad = new Map(device.pinouts.flatMap(p => p.pins).map(pin => [pin.pad, pin.functions]));
+  return Object.entries(variant.pinout)
+    .map(([position, pad]) => ({ position: parseInt(position), pad, functions: functionsByPad.get(pad) || [] }))
+    .sort((a, b) => a.position - b.position);
+};
@@ -0,0 +1,25 @@
+import type { AtPackDevice } from '../types/atpack';
+
+/**
+ * Get the interface used to program the fuses of an AVR device: UPDI, PDI, TPI or ISP.
+ * Packs without interface declarations fall back to the core: AVR8X cores
+ * (tinyAVR 0/1/2, megaAVR 0, AVR Dx/Ex) use UPDI, XMEGA uses PDI.
+ */
+export const getProgrammingInterface = (device: AtPackDevice): string => {
+  const protocols = getProtocols(device);
+  const supported = ['UPDI', 'PDI', 'TPI'].find(protocol => protocols.includes(protocol));
+  if (supported) {
+    return supported;
+  }
+  if (/^AVR(8X|XT|XM|DA|DB|DD|DU|EA|EB)/i.test(device.architecture)) {
+    return 'UPDI';
+  }
+  return /xmega/i.test(device.name) ? 'PDI' : 'ISP';
+};
+
+/**
+ * Get the declared programming/debug protocols of a device, upper-cased (ISP, HVPP, DEBUGWIRE...)
+ */
+export const getProtocols = (device: AtPackDevice): string[] => {
+  return device.programmer.protocols.map(protocol => protocol.toUpperCase());
+};
@@ -0,0 +1,165 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { getRegisterAddress, getRegisterGroupPlacements, getRegisterInstanceName, toIdentifier } from './registerLayout';
+import { loadPackArchive } from '../test/packArchive';
+import type { AtPackDevice, DevicePeripheralModule } from '../types/atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.3" vendor="Atmel" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="2.2.509">ATmega328P, ATtiny1614</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+      <device Dname="ATtiny1614"><processor Dcore="AVRXT"/></device>
+    </family>
+  </devices>
+</package>`;
+
+// Excerpt of ATmega328P.atdf: absolute register offsets in groups placed at 0. The PORTD instance
+// and the LOCKBIT instances are left out to stand for modules the ATDF does not place.
+const ATMEGA328P_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATmega328P" architecture="AVR8" family="megaAVR">
+      <peripherals>
+        <module name="PORT">
+          <instance name="PORTB" caption="I/O Port">
+            <register-group name="PORTB" name-in-module="PORTB" offset="0x00" address-space="data" caption="I/O Port"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="I/O Port" name="PORT">
+      <register-group caption="I/O Port" name="PORTB">
+        <register caption="Port B Data Register" name="PORTB" offset="0x25" size="1" mask="0xFF"/>
+        <register caption="Port B Data Direction Register" name="DDRB" offset="0x24" size="1" mask="0xFF"/>
+      </register-group>
+      <register-group caption="I/O Port" name="PORTD">
+        <register caption="Port D Data Register" name="PORTD" offset="0x2B" size="1" mask="0xFF"/>
+      </register-group>
+    </module>
+    <module caption="Lockbits" name="LOCKBIT">
+      <register-group caption="Lockbits" name="LOCKBIT">
+        <register caption="" name="LOCKBIT" offset="0x00" size="1" initval="0xFF"/>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+// Excerpt of ATtiny1614.atdf: one relative PORT group shared by PORTA and PORTB, and the fuses
+// placed in their own address space
+const ATTINY1614_ATDF = `<?xml version="1.0" encoding="UTF-8"?>
+<avr-tools-device-file>
+  <devices>
+    <device name="ATtiny1614" architecture="AVR8X" family="tinyAVR">
+      <peripherals>
+        <module name="FUSE">
+          <instance name="FUSE" caption="Fuses">
+            <register-group name="FUSE" name-in-module="FUSE" offset="0x1280" address-space="fuses" caption="Fuses"/>
+          </instance>
+        </module>
+        <module name="PORT">
+          <instance name="PORTA" caption="I/O Ports">
+            <register-group name="PORTA" name-in-module="PORT" offset="0x0400" address-space="data" caption="I/O Ports"/>
+          </instance>
+          <instance name="PORTB" caption="I/O Ports">
+            <register-group name="PORTB" name-in-module="PORT" offset="0x0420" caption="I/O Ports"/>
+          </instance>
+        </module>
+      </peripherals>
+    </device>
+  </devices>
+  <modules>
+    <module caption="Fuses" name="FUSE">
+      <register-group caption="Fuses" name="FUSE" size="0xA">
+        <register caption="Oscillator Configuration" name="OSCCFG" offset="0x02" size="1" initval="0x02"/>
+      </register-group>
+    </module>
+    <module caption="I/O Ports" name="PORT">
+      <register-group caption="I/O Ports" name="PORT" size="0x20">
+        <register caption="Data Direction" name="DIR" offset="0x00" size="1" mask="0xFF" initval="0x00"/>
+        <register caption="Output Value" name="OUT" offset="0x04" size="1" mask="0xFF" initval="0x00"/>
+      </register-group>
+    </module>
+  </modules>
+</avr-tools-device-file>`;
+
+const getPeripheral = (device: AtPackDevice, name: string): DevicePeripheralModule => {
+  return device.peripherals.find(peripheral => peripheral.name === name)!;
+};
+
+describe('registerLayout', () => {
+  let atmega328p: AtPackDevice;
+  let attiny1614: AtPackDevice;
+
+  beforeAll(async () => {
+    // The parsers log their progress
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    [atmega328p, attiny1614] = (await loadPackArchive({
+      'Atmel.ATmega_DFP.pdsc': PDSC,
+      'atdf/ATmega328P.atdf': ATMEGA328P_ATDF,
+      'atdf/ATtiny1614.atdf': ATTINY1614_ATDF
+    })).devices;
+  });
+
+  it('parses the register groups placed by each module instance', () => {
+    expect(attiny1614.modules.find(module => module.name === 'PORTB')?.registerGroups).toEqual([
+      { name: 'PORTB', nameInModule: 'PORT', offset: 0x420, addressSpace: 'data', caption: 'I/O Ports' }
+    ]);
+  });
+
+  it('places a shared group once per instance, with instance-qualified register names', () => {
+    const port = getPeripheral(attiny1614, 'PORT');
+    const [group] = port.registerGroups;
+    const placements = getRegisterGroupPlacements(attiny1614.modules, port, group);
+    const out = group.registers.find(register => register.name === 'OUT')!;
+
+    expect(placements).toEqual([
+      { instance: 'PORTA', baseAddress: 0x400, addressSpace: 'data', qualified: true },
+      { instance: 'PORTB', baseAddress: 0x420, addressSpace: 'data', qualified: true }
+    ]);
+    expect(placements.map(placement => getRegisterAddress(placement, out))).toEqual([0x404, 0x424]);
+    expect(getRegisterInstanceName(placements[1], out)).toBe('PORTB_OUT');
+  });
+
+  it('keeps the address space of groups outside data memory', () => {
+    const fuse = getPeripheral(attiny1614, 'FUSE');
+
+    expect(getRegisterGroupPlacements(attiny1614.modules, fuse, fuse.registerGroups[0])).toEqual([
+      { instance: 'FUSE', baseAddress: 0x1280, addressSpace: 'fuses', qualified: false }
+    ]);
+  });
+
+  it('keeps the absolute register offsets of classic AVR groups', () => {
+    const port = getPeripheral(atmega328p, 'PORT');
+    const portB = port.registerGroups.find(group => group.name === 'PORTB')!;
+    const [placement] = getRegisterGroupPlacements(atmega328p.modules, port, portB);
+
+    expect(placement).toEqual({ instance: 'PORTB', baseAddress: 0, addressSpace: 'data', qualified: false });
+    expect(getRegisterAddress(placement, portB.registers.find(register => register.name === 'DDRB')!)).toBe(0x24);
+    expect(getRegisterInstanceName(placement, portB.registers[0])).toBe('PORTB');
+  });
+
+  it('leaves the base address of groups without an instance unknown', () => {
+    const port = getPeripheral(atmega328p, 'PORT');
+    const portD = port.registerGroups.find(group => group.name === 'PORTD')!;
+    const lockbit = getPeripheral(atmega328p, 'LOCKBIT');
+    const [placement] = getRegisterGroupPlacements(atmega328p.modules, port, portD);
+
+    expect(placement).toEqual({ instance: 'PORTD', baseAddress: null, addressSpace: 'data', qualified: false });
+    expect(getRegisterAddress(placement, portD.registers[0])).toBeNull();
+    expect(getRegisterGroupPlacements(atmega328p.modules, lockbit, lockbit.registerGroups[0])).toEqual([
+      { instance: 'LOCKBIT', baseAddress: null, addressSpace: 'lockbit', qualified: false }
+    ]);
+  });
+
+  it('converts ATDF names to identifiers', () => {
+    expect(toIdentifier('usart0-rx')).toBe('USART0_RX');
+    expect(toIdentifier('32K_OSC')).toBe('_32K_OSC');
+  });
+});
@@ -0,0 +1,76 @@
+import type {
+  DeviceModule,
+  DevicePeripheralModule,
+  DeviceRegister,
+  DeviceRegisterGroup,
+  RegisterGroupPlacement
+} from '../types/atpack';
+
+// Modules whose registers live in the fuse/lockbit/signature address spaces on classic AVRs;
+// only used when the ATDF does not describe the module instances
+const NON_DATA_SPACE_MODULES = new Set(['FUSE', 'LOCKBIT', 'SIGNATURES']);
+
+/**
+ * Resolve where a module register group is mapped, one placement per module instance.
+ *
+ * Classic AVR ATDFs give absolute register offsets with instance offsets of 0, whereas
+ * AVR8X/XMEGA ATDFs share one relative register group between instances (PORTA, PORTB...)
+ * placed at different base offsets. Without instance data the base address is unknown (null):
+ * only register offsets can be given.
+ */
+export const getRegisterGroupPlacements = (
+  modules: DeviceModule[],
+  peripheral: DevicePeripheralModule,
+  group: DeviceRegisterGroup
+): RegisterGroupPlacement[] => {
+  const placements: RegisterGroupPlacement[] = [];
+
+  modules
+    .filter(module => module.module === peripheral.name)
+    .forEach(module => {
+      module.registerGroups
+        ?.filter(instanceGroup => instanceGroup.nameInModule === group.name)
+        .forEach(instanceGroup => {
+          placements.push({
+            instance: instanceGroup.name,
+            baseAddress: instanceGroup.offset,
+            addressSpace: instanceGroup.addressSpace,
+            qualified: instanceGroup.name !== group.name
+          });
+        });
+    });
+
+  if (placements.length === 0) {
+    placements.push({
+      instance: peripheral.registerGroups.length > 1 ? group.name : peripheral.name,
+      baseAddress: null,
+      addressSpace: NON_DATA_SPACE_MODULES.has(peripheral.name.toUpperCase()) ? peripheral.name.toLowerCase() : 'data',
+      qualified: false
+    });
+  }
+
+  return placements;
+};
+
+/**
+ * Absolute address of a register for one placement of its group, or null when the base
+ * address of the placement is unknown
+ */
+export const getRegisterAddress = (placement: RegisterGroupPlacement, register: DeviceRegister): number | null => {
+  return placement.baseAddress === null ? null : placement.baseAddress + register.offset;
+};
+
+/**
+ * Register name as seen from an instance, e.g. CTRLA -> USART1_CTRLA for shared groups
+ */
+export const getRegisterInstanceName = (placement: RegisterGroupPlacement, register: DeviceRegister): string => {
+  return placement.qualified ? `${placement.instance}_${register.name}` : register.name;
+};
+
+/**
+ * Convert an ATDF name to a C/Rust-friendly uppercase identifier
+ */
+export const toIdentifier = (name: string): string => {
+  const identifier = name.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+};
@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { decodeShareState, encodeShareState, getDeviceKey, getPackId, getPackReference } from './shareState';
+import { AtPackParser } from '../services/AtPackParser';
+import type { AtPack, SharedState } from '../types/atpack';
+
+const PACK_URL = 'https://packs.download.microchip.com/Microchip.ATmega_DFP.3.1.264.atpack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4" vendor="Microchip" name="ATmega_DFP">
+  <description>Microchip ATmega Series Device Support</description>
+  <releases><release version="3.1.264">ATmega328P</release></releases>
+  <devices>
+    <family Dfamily="ATmega" Dvendor="Microchip:3">
+      <device Dname="ATmega328P"><processor Dcore="AVR8"/></device>
+    </family>
+  </devices>
+</package>`;
+
+describe('shareState', () => {
+  let atpack: AtPack;
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    atpack = { ...new AtPackParser().parseArchivePdsc(PDSC), source: { type: 'url', url: PACK_URL } };
+  });
+
+  it('identifies packs and devices by vendor, name and version', () => {
+    expect(getPackId(atpack)).toBe('Microchip.ATmega_DFP.3.1.264');
+    expect(getDeviceKey(atpack, atpack.devices[0])).toBe('Microchip.ATmega_DFP.3.1.264/ATmega328P');
+  });
+
+  it('keeps the URL of downloaded packs and the file name of local ones', () => {
+    expect(getPackReference(atpack)).toEqual({ id: 'Microchip.ATmega_DFP.3.1.264', url: PACK_URL });
+    expect(getPackReference({ ...atpack, source: { type: 'file', fileName: 'pack.atpack' } }))
+      .toEqual({ id: 'Microchip.ATmega_DFP.3.1.264', fileName: 'pack.atpack' });
+  });
+
+  it('round-trips the shared state through the URL fragment', () => {
+    const state: SharedState = {
+      pack: getPackReference(atpack),
+      device: 'ATmega328P',
+      tab: 'fuses',
+      configuration: {
+        pinout: 'PDIP28',
+        fuseValues: { LOW: 0xE2, HIGH: 0xD9, EXTENDED: 0xFD },
+        lockbitValues: { LOCKBIT: 0xFC },
+        clock: { source: 0x22, frequency: 8000000, systemPrescaler: 0, cpuFrequency: 8000000 },
+        timer: { timer: 'TC1', mode: 4, prescaler: 3, cpuFrequency: 16000000, targetFrequency: 1000 }
+      }
+    };
+
+    const fragment = encodeShareState(state);
+
+    expect(fragment).toContain('f=LOW-E2~HIGH-D9~EXTENDED-FD');
+    expect(decodeShareState(`#${fragment}`)).toEqual(state);
+  });
+
+  it('round-trips fractional and exponent values', () => {
+    const state: SharedState = {
+      configuration: {
+        clock: { frequency: 0.5, cpuFrequency: 3333333.33 },
+        timer: { timer: 'TCA0', cpuFrequency: 1e21, targetFrequency: 1e-7 }
+      }
+    };
+
+    const fragment = encodeShareState(state);
+
+    expect(fragment).toContain('ck=f-0.5~c-3333333.33');
+    expect(decodeShareState(fragment)).toEqual(state);
+  });
+
+  it('keeps register names containing dashes and dots', () => {
+    const fuseValues = { 'FUSE-0': 0x1F, 'CONFIG1.H': 0x25 };
+    const fragment = encodeShareState({ configuration: { fuseValues } });
+
+    expect(decodeShareState(fragment)?.configuration.fuseValues).toEqual(fuseValues);
+  });
+
+  it('ignores fragments without a supported version', () => {
+    expect(decodeShareState('#tab=fuses')).toBeNull();
+    expect(decodeShareState('v=2&d=ATmega328P')).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+import type {
+  AtPack,
+  AtPackDevice,
+  ClockConfigState,
+  SharedPackReference,
+  SharedState,
+  TimerConfigState
+} from '../types/atpack';
+
+const SHARE_FORMAT_VERSION = '1';
+
+// Short URL keys for the clock and timer configuration fields
+const CLOCK_KEYS: Record<keyof ClockConfigState, string> = {
+  source: 's',
+  frequency: 'f',
+  systemPrescaler: 'p',
+  adcPrescaler: 'a',
+  timerPrescaler: 't',
+  cpuFrequency: 'c'
+};
+
+const TIMER_KEYS: Record<Exclude<keyof TimerConfigState, 'timer'>, string> = {
+  mode: 'm',
+  prescaler: 'p',
+  cpuFrequency: 'c',
+  targetFrequency: 'f'
+};
+
+/**
+ * Identify a pack independently of where it was loaded from (Vendor.Name.Version,
+ * as in pack file names and PIDX entries)
+ */
+export const getPackId = (atpack: AtPack): string => {
+  return [atpack.metadata.vendor, atpack.metadata.name, atpack.version].filter(Boolean).join('.');
+};
+
+/**
+ * Identify a device across loaded packs (Vendor.Name.Version/Device)
+ */
+export const getDeviceKey = (atpack: AtPack, device: AtPackDevice): string => {
+  return `${getPackId(atpack)}/${device.name}`;
+};
+
+/**
+ * Build the shared reference of a loaded pack
+ */
+export const getPackReference = (atpack: AtPack): SharedPackReference => {
+  const reference: SharedPackReference = { id: getPackId(atpack) };
+  if (atpack.source?.type === 'url') {
+    reference.url = atpack.source.url;
+  } else if (atpack.source?.type === 'file') {
+    reference.fileName = atpack.source.fileName;
+  }
+  return reference;
+};
+
+// Pairs are separated by tildes, which appear neither in register names nor in numbers
+// (unlike dots: 0.5, 3333333.33, 1e-7) and are left unescaped in the fragment
+const PAIR_SEPARATOR = '~';
+
+// Register values are written as NAME-HEX pairs (LOW-E2~HIGH-D9); names may contain dashes
+const encodeRegisters = (values: Record<string, number>): string => {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}-${value.toString(16).toUpperCase()}`)
+    .join(PAIR_SEPARATOR);
+};
+
+const decodeRegisters = (text: string): Record<string, number> => {
+  const values: Record<string, number> = {};
+  text.split(PAIR_SEPARATOR).forEach(pair => {
+    const separator = pair.lastIndexOf('-');
+    const value = parseInt(pair.slice(separator + 1), 16);
+    if (separator > 0 && !isNaN(value)) {
+      values[pair.slice(0, separator)] = value;
+    }
+  });
+  return values;
+};
+
+// Numeric fields are written as KEY-VALUE pairs using the short keys (s-34~f-8000000);
+// values may hold dashes themselves (negative exponents), so only the first one separates
+const splitField = (pair: string): [string, string | undefined] => {
+  const separator = pair.indexOf('-');
+  return separator < 0 ? [pair, undefined] : [pair.slice(0, separator), pair.slice(separator + 1)];
+};
+
+const encodeFields = <T extends string>(values: Partial<Record<T, number>>, keys: Record<T, string>): string => {
+  return (Object.keys(keys) as T[])
+    .filter(field => values[field] !== undefined)
+    .map(field => `${keys[field]}-${values[field]}`)
+    .join(PAIR_SEPARATOR);
+};
+
+const decodeFields = <T extends string>(text: string, keys: Record<T, string>): Partial<Record<T, number>> => {
+  const values: Partial<Record<T, number>> = {};
+  const fields = Object.keys(keys) as T[];
+  text.split(PAIR_SEPARATOR).forEach(pair => {
+    const [key, rawValue] = splitField(pair);
+    const field = fields.find(f => keys[f] === key);
+    const value = Number(rawValue);
+    if (field && rawValue && !isNaN(value)) {
+      values[field] = value;
+    }
+  });
+  return values;
+};
+
+/**
+ * Encode the shared state as a URL fragment (without the leading '#')
+ */
+export const encodeShareState = (state: SharedState): string => {
+  const params = new URLSearchParams();
+  const { configuration } = state;
+
+  params.set('v', SHARE_FORMAT_VERSION);
+  if (state.pack) {
+    params.set('p', state.pack.id);
+    if (state.pack.url) params.set('u', state.pack.url);
+    if (state.pack.fileName) params.set('n', state.pack.fileName);
+  }
+  if (state.device) params.set('d', state.device);
+  if (state.tab) params.set('t', state.tab);
+  if (configuration.pinout) params.set('pk', configuration.pinout);
+
+  if (configuration.fuseValues && Object.keys(configuration.fuseValues).length > 0) {
+    params.set('f', encodeRegisters(configuration.fuseValues));
+  }
+  if (configuration.lockbitValues && Object.keys(configuration.lockbitValues).length > 0) {
+    params.set('l', encodeRegisters(configuration.lockbitValues));
+  }
+
+  const clock = configuration.clock ? encodeFields(configuration.clock, CLOCK_KEYS) : '';
+  if (clock) params.set('ck', clock);
+
+  if (configuration.timer) {
+    const { timer, ...fields } = configuration.timer;
+    const encoded = [timer ? `n-${timer}` : '', encodeFields(fields, TIMER_KEYS)].filter(Boolean).join(PAIR_SEPARATOR);
+    if (encoded) params.set('tm', encoded);
+  }
+
+  return params.toString().replace(/%7E/gi, PAIR_SEPARATOR);
+};
+
+/**
+ * Decode a URL fragment (with or without the leading '#'); returns null when the
+ * fragment holds no shared state
+ */
+export const decodeShareState = (fragment: string): SharedState | null => {
+  const params = new URLSearchParams(fragment.replace(/^#/, ''));
+  if (params.get('v') !== SHARE_FORMAT_VERSION) {
+    return null;
+  }
+
+  const state: SharedState = { configuration: {} };
+  const { configuration } = state;
+
+  const packId = params.get('p');
+  if (packId) {
+    state.pack = {
+      id: packId,
+      url: params.get('u') || undefined,
+      fileName: params.get('n') || undefined
+    };
+  }
+  state.device = params.get('d') || undefined;
+  state.tab = params.get('t') || undefined;
+  configuration.pinout = params.get('pk') || undefined;
+
+  const fuses = params.get('f');
+  if (fuses) configuration.fuseValues = decodeRegisters(fuses);
+  const lockbits = params.get('l');
+  if (lockbits) configuration.lockbitValues = decodeRegisters(lockbits);
+
+  const clock = params.get('ck');
+  if (clock) configuration.clock = decodeFields(clock, CLOCK_KEYS);
+
+  const timer = params.get('tm');
+  if (timer) {
+    const name = timer.split(PAIR_SEPARATOR).find(pair => pair.startsWith('n-'));
+    configuration.timer = {
+      ...decodeFields(timer, TIMER_KEYS),
+      timer: name ? name.slice(2) : undefined
+    };
+  }
+
+  return state;
+};
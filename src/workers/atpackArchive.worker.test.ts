@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import type { ArchiveWorkerRequest, ArchiveWorkerResponse } from '../types/atpack';
+
+// The worker script runs against the jsdom window: `self` is the window there
+const responses: ArchiveWorkerResponse[] = [];
+
+const send = (request: ArchiveWorkerRequest) => {
+  window.dispatchEvent(new MessageEvent('message', { data: request }));
+};
+
+const waitFor = async (requestId: number, type: ArchiveWorkerResponse['type'] | 'error'): Promise<ArchiveWorkerResponse[]> => {
+  await vi.waitFor(() => {
+    const done = responses.some(r => r.requestId === requestId && (r.type === type || r.type === 'error'));
+    if (!done) throw new Error(`No ${type} response for request ${requestId}`);
+  });
+  return responses.filter(r => r.requestId === requestId);
+};
+
+const createArchive = async (): Promise<ArrayBuffer> => {
+  const zip = new JSZip();
+  zip.file('Atmel.ATtiny_DFP.pdsc', '<package><vendor>Atmel</vendor><name>ATtiny_DFP</name></package>');
+  zip.file('atdf/ATtiny1614.atdf', '<avr-tools-device-file><devices><device name="ATtiny1614"/></devices></avr-tools-device-file>');
+  zip.file('atdf/ATtiny3216.atdf', '<avr-tools-device-file><devices><device name="ATtiny3216"/></devices></avr-tools-device-file>');
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+describe('atpackArchive worker', () => {
+  beforeAll(async () => {
+    vi.spyOn(window, 'postMessage').mockImplementation((message: unknown) => {
+      responses.push(message as ArchiveWorkerResponse);
+    });
+    await import('./atpackArchive.worker');
+    send({ type: 'open', requestId: 1, archiveId: 100, archive: await createArchive() });
+    await waitFor(1, 'opened');
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('opens an archive and returns its file list and PDSC', () => {
+    const [opened] = responses.filter(r => r.requestId === 1);
+
+    expect(opened).toMatchObject({
+      type: 'opened',
+      pdscFileName: 'Atmel.ATtiny_DFP.pdsc',
+      pdsc: expect.stringContaining('<name>ATtiny_DFP</name>')
+    });
+    expect(opened.type === 'opened' && opened.fileNames).toEqual([
+      'Atmel.ATtiny_DFP.pdsc',
+      'atdf/ATtiny1614.atdf',
+      'atdf/ATtiny3216.atdf'
+    ]);
+  });
+
+  it('streams the requested files one message each', async () => {
+    send({ type: 'read', requestId: 2, archiveId: 100, fileNames: ['atdf/ATtiny1614.atdf', 'atdf/ATtiny3216.atdf'] });
+    const messages = await waitFor(2, 'done');
+
+    expect(messages.map(m => m.type === 'file' ? m.fileName : m.type))
+      .toEqual(['atdf/ATtiny1614.atdf', 'atdf/ATtiny3216.atdf', 'done']);
+  });
+
+  it('reports unknown files and closed archives as errors', async () => {
+    send({ type: 'read', requestId: 3, archiveId: 100, fileNames: ['atdf/ATmega328P.atdf'] });
+    send({ type: 'read', requestId: 4, archiveId: 999, fileNames: ['atdf/ATtiny1614.atdf'] });
+
+    expect(await waitFor(3, 'error')).toEqual([
+      { type: 'error', requestId: 3, message: 'File atdf/ATmega328P.atdf not found in ZIP archive' }
+    ]);
+    expect(await waitFor(4, 'error')).toEqual([{ type: 'error', requestId: 4, message: 'Archive 999 is not open' }]);
+  });
+
+  it('ignores the cancellation of requests that are not running', async () => {
+    // Sent after the request ended (abort racing the last file): must not affect a later request
+    send({ type: 'cancel', requestId: 2 });
+    send({ type: 'cancel', requestId: 5 });
+    send({ type: 'read', requestId: 5, archiveId: 100, fileNames: ['atdf/ATtiny1614.atdf'] });
+
+    expect((await waitFor(5, 'done')).map(m => m.type)).toEqual(['file', 'done']);
+  });
+
+  it('stops a read at the next file when cancelled', async () => {
+    send({ type: 'read', requestId: 6, archiveId: 100, fileNames: ['atdf/ATtiny1614.atdf', 'atdf/ATtiny3216.atdf'] });
+    send({ type: 'cancel', requestId: 6 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(responses.filter(r => r.requestId === 6).map(r => r.type)).not.toContain('done');
+  });
+
+  it('releases closed archives', async () => {
+    send({ type: 'close', archiveId: 100 });
+    send({ type: 'read', requestId: 7, archiveId: 100, fileNames: ['atdf/ATtiny1614.atdf'] });
+
+    expect(await waitFor(7, 'error')).toEqual([{ type: 'error', requestId: 7, message: 'Archive 100 is not open' }]);
+  });
+});
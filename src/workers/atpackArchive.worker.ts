@@ -0,0 +1,94 @@
+import JSZip from 'jszip';
+import type { ArchiveWorkerRequest, ArchiveWorkerResponse } from '../types/atpack';
+
+/**
+ * Reads .atpack archives off the main thread: inflates the ZIP and streams the
+ * requested files back as text, one message per file. Archives stay open until
+ * closed, so device files can be read on demand.
+ *
+ * Only the archive I/O runs here. The PDSC/ATDF/PIC parsers need DOMParser and XPath,
+ * which workers do not provide, so the page parses the returned text one device per task
+ * (see AtPackWorkerParser) and no parsed devices cross the worker boundary.
+ */
+
+const archives = new Map<number, JSZip>();
+// Requests in progress, and those of them cancelled; both are cleared when a request ends
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (response: ArchiveWorkerResponse) => {
+  self.postMessage(response);
+};
+
+const openArchive = async (requestId: number, archiveId: number, archive: ArrayBuffer) => {
+  const zip = await new JSZip().loadAsync(archive);
+  if (cancelled.has(requestId)) {
+    return;
+  }
+
+  const fileNames = Object.keys(zip.files).filter(fileName => !zip.files[fileName].dir);
+  const pdscFileName = fileNames.find(fileName => fileName.endsWith('.pdsc'));
+  if (!pdscFileName) {
+    throw new Error('No .pdsc file found in the .atpack archive');
+  }
+
+  archives.set(archiveId, zip);
+  post({ type: 'opened', requestId, fileNames, pdscFileName, pdsc: await zip.files[pdscFileName].async('text') });
+};
+
+const readFiles = async (requestId: number, archiveId: number, fileNames: string[]) => {
+  const zip = archives.get(archiveId);
+  if (!zip) {
+    throw new Error(`Archive ${archiveId} is not open`);
+  }
+
+  for (const fileName of fileNames) {
+    if (cancelled.has(requestId)) {
+      return;
+    }
+    const file = zip.files[fileName];
+    if (!file) {
+      throw new Error(`File ${fileName} not found in ZIP archive`);
+    }
+    post({ type: 'file', requestId, fileName, content: await file.async('text') });
+  }
+  post({ type: 'done', requestId });
+};
+
+self.addEventListener('message', (event: MessageEvent<ArchiveWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'close') {
+    archives.delete(request.archiveId);
+    return;
+  }
+
+  if (request.type === 'cancel') {
+    // Stops an open in progress or the next file of a read; finished requests are ignored
+    if (running.has(request.requestId)) {
+      cancelled.add(request.requestId);
+    }
+    return;
+  }
+
+  const handle = async () => {
+    if (request.type === 'open') {
+      await openArchive(request.requestId, request.archiveId, request.archive);
+    } else {
+      await readFiles(request.requestId, request.archiveId, request.fileNames);
+    }
+  };
+
+  running.add(request.requestId);
+  handle()
+    .catch(error => {
+      post({
+        type: 'error',
+        requestId: request.requestId,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    })
+    .finally(() => {
+      running.delete(request.requestId);
+      cancelled.delete(request.requestId);
+    });
+});